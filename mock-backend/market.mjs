@@ -0,0 +1,164 @@
+/**
+ * Mock Backend Market Model — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Plausible, catalog-valid market state for the mock backend
+ * Mirrors: catalogs in src/infrastructure/packet/packetSchema.ts
+ * 
+ * State advances on tick(): the BTC price random-walks, forecast
+ * quantiles follow it, and the regime changes only when a scenario
+ * asks for it (shiftRegime) so regime shifts are deliberate.
+ */
+
+"use strict";
+
+export const REGIMES = ["ACCUMULATION", "EXPANSION", "DISLOCATION", "EXHAUSTION", "COMPRESSION"];
+
+/**
+ * Nav fields that go with each regime (all values from the terminal catalogs)
+ */
+const REGIME_PROFILES = {
+  ACCUMULATION: {
+    risk: "LOW", confidence: "MEDIUM", bias: "BULLISH", stability: "FORMING",
+    drivers: ["VOLUME_EXPANSION"], blockers: ["RESISTANCE_ZONE"], gaps: [],
+    regimes: { volatility_regime: "LOW", trend_regime: "CONSOLIDATING", stress_regime: "NORMAL", liquidity_regime: "NORMAL" },
+    liquidity: "DEEP", drift: 0.0004, volatility: 0.002
+  },
+  EXPANSION: {
+    risk: "NORMAL", confidence: "HIGH", bias: "BULLISH", stability: "MATURE",
+    drivers: ["MOMENTUM_SHIFT", "LIQUIDITY_SURGE"], blockers: [], gaps: [],
+    regimes: { volatility_regime: "MODERATE", trend_regime: "TRENDING_UP", stress_regime: "NORMAL", liquidity_regime: "HIGH" },
+    liquidity: "DEEP", drift: 0.0012, volatility: 0.004
+  },
+  DISLOCATION: {
+    risk: "HIGH", confidence: "LOW", bias: "BEARISH", stability: "WEAKENING",
+    drivers: ["VOLATILITY_SPIKE", "SENTIMENT_REVERSAL"], blockers: ["LIQUIDITY_DROUGHT"], gaps: ["STRUCTURAL_IMBALANCE"],
+    regimes: { volatility_regime: "HIGH", trend_regime: "TRENDING_DOWN", stress_regime: "ELEVATED", liquidity_regime: "LOW" },
+    liquidity: "THIN", drift: -0.002, volatility: 0.012
+  },
+  EXHAUSTION: {
+    risk: "HIGH", confidence: "MEDIUM", bias: "NEUTRAL", stability: "WEAKENING",
+    drivers: ["SENTIMENT_REVERSAL"], blockers: ["MOMENTUM_EXHAUSTION"], gaps: ["TEMPORAL_DISLOCATION"],
+    regimes: { volatility_regime: "MODERATE", trend_regime: "REVERSING", stress_regime: "ELEVATED", liquidity_regime: "NORMAL" },
+    liquidity: "NORMAL", drift: -0.0003, volatility: 0.006
+  },
+  COMPRESSION: {
+    risk: "NORMAL", confidence: "MEDIUM", bias: "NEUTRAL", stability: "MATURE",
+    drivers: [], blockers: ["VOLATILITY_COLLAPSE", "RESISTANCE_ZONE"], gaps: [],
+    regimes: { volatility_regime: "LOW", trend_regime: "CONSOLIDATING", stress_regime: "NORMAL", liquidity_regime: "NORMAL" },
+    liquidity: "NORMAL", drift: 0, volatility: 0.0015
+  }
+};
+
+/**
+ * Create market state
+ * 
+ * @param random - Random source in [0, 1) (seedable for reproducible runs)
+ */
+export function createMarket(random = Math.random) {
+  let regime = "COMPRESSION";
+  let price = 67000;
+  
+  const profile = () => REGIME_PROFILES[regime];
+  
+  return {
+    getRegime() {
+      return regime;
+    },
+    
+    /**
+     * Move to the given regime, or to the next one in REGIMES
+     */
+    shiftRegime(next) {
+      regime = next && REGIME_PROFILES[next]
+        ? next
+        : REGIMES[(REGIMES.indexOf(regime) + 1) % REGIMES.length];
+      return regime;
+    },
+    
+    /**
+     * Advance the price one step
+     */
+    tick() {
+      const { drift, volatility } = profile();
+      const shock = (random() - 0.5) * 2 * volatility;
+      price = Math.max(price * (1 + drift + shock), 1000);
+    },
+    
+    /**
+     * Backend aggregate (v2 wire format) for the given tier, unsigned
+     */
+    aggregate(tier, nowMs = Date.now()) {
+      const p = profile();
+      const spread = price * (0.02 + p.volatility * 4);
+      const round = (value) => Math.round(value * 100) / 100;
+      
+      const aggregate = {
+        tier0: {
+          symbol: "BTCUSDT",
+          horizon: "7D",
+          regime,
+          risk: p.risk,
+          confidence: { LOW: 0.45, MEDIUM: 0.7, HIGH: 0.85 }[p.confidence],
+          p10: round(price - spread),
+          p25: round(price - spread / 2),
+          p50: round(price * (1 + p.drift * 50)),
+          p75: round(price + spread / 2),
+          p90: round(price + spread)
+        },
+        timestamp: Math.floor(nowMs / 1000)
+      };
+      
+      if (tier >= 1) {
+        aggregate.tier1 = { bias: p.bias, stability: p.stability };
+      }
+      
+      if (tier >= 2) {
+        aggregate.tier2 = {
+          liquidity_state: p.liquidity,
+          drivers: [...p.drivers],
+          blockers: [...p.blockers],
+          gaps: [...p.gaps]
+        };
+      }
+      
+      return aggregate;
+    },
+    
+    /**
+     * Nav packet (v1 wire format) for the given tier, unsigned
+     */
+    navPacket(tier, nowMs = Date.now()) {
+      const p = profile();
+      const nav = { regime, risk: p.risk, confidence: p.confidence };
+      
+      if (tier === 0) {
+        return { nav: { ...nav, status: "LIVE", scope: "PUBLIC" }, meta: { tier: 0 } };
+      }
+      
+      const packet = {
+        nav: { ...nav, bias: p.bias, stability: p.stability },
+        meta: { tier, kid: "", signature: "", issued_at: new Date(nowMs).toISOString() }
+      };
+      
+      if (tier === 2) {
+        packet.navigator = {
+          drivers: [...p.drivers],
+          blockers: [...p.blockers],
+          gaps: [...p.gaps],
+          liquidity_state: p.liquidity
+        };
+      }
+      
+      return packet;
+    },
+    
+    price(nowMs = Date.now()) {
+      return { symbol: "BTCUSDT", price: Math.round(price * 100) / 100, timestamp: nowMs };
+    },
+    
+    regimes(nowMs = Date.now()) {
+      return { ...profile().regimes, timestamp: new Date(nowMs).toISOString() };
+    }
+  };
+}
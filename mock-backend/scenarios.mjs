@@ -0,0 +1,158 @@
+/**
+ * Mock Backend Scenarios — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Scriptable backend conditions for exercising the terminal offline
+ * 
+ * A scenario is a list of phases; each phase holds conditions for a
+ * duration and the list loops. Conditions not set by a phase keep their
+ * defaults (a healthy backend).
+ * 
+ * Adding a scenario: append an entry to SCENARIOS. Switch at runtime with
+ *   curl "localhost:8080/__mock/scenario?name=stream-outage"
+ */
+
+"use strict";
+
+/**
+ * Healthy backend
+ */
+export const DEFAULT_CONDITIONS = Object.freeze({
+  /** /stream and /ws accept connections (false: 503 and open streams are closed) */
+  streamUp: true,
+  
+  /** Streams stay open but send nothing, not even keep_alive (liveness test) */
+  streamSilent: false,
+  
+  /** Status for /api/v1/* (200, 429 or 503) */
+  restStatus: 200,
+  
+  /** Retry-After seconds sent with 429/503 (null: header omitted) */
+  retryAfterSec: null,
+  
+  /** REST latency range [min, max] in ms */
+  latencyMs: [20, 80],
+  
+  /** Every Nth stream event is malformed (0: never) */
+  malformedEvery: 0,
+  
+  /** Packet tier (0, 1 or 2) */
+  tier: 2,
+  
+  /** Sign tier 1/2 packets (false: signature and kid left empty) */
+  signed: true,
+  
+  /** Signed payload encoding: "canonical" or "legacy" (concatenated, pre-v1) */
+  signingEncoding: "canonical",
+  
+  /** Move to the next regime this often (0: never) */
+  regimeShiftEveryMs: 0,
+  
+  /** Sign with a new packet key this often (0: never); see /api/v1/keys */
+  rotateKeyEveryMs: 0
+});
+
+export const SCENARIOS = {
+  steady: {
+    description: "Healthy backend, tier 2 signed packets, stable regime",
+    phases: [{ durationMs: Infinity }]
+  },
+  
+  "regime-shift": {
+    description: "Regime changes every 20s (cycles through all five regimes)",
+    phases: [{ durationMs: Infinity, regimeShiftEveryMs: 20000 }]
+  },
+  
+  "stream-outage": {
+    description: "Streams up 60s, down 60s (503); REST stays healthy — degradation and recovery",
+    phases: [
+      { durationMs: 60000 },
+      { durationMs: 60000, streamUp: false }
+    ]
+  },
+  
+  "stream-down": {
+    description: "Streams 503 until switched back; REST healthy — walks the whole retry schedule into REST",
+    phases: [{ durationMs: Infinity, streamUp: false }]
+  },
+  
+  flapping: {
+    description: "Streams alternate 10s up / 10s down; REST healthy — retries, resets and failed recovery probes",
+    phases: [
+      { durationMs: 10000 },
+      { durationMs: 10000, streamUp: false }
+    ]
+  },
+  
+  "full-outage": {
+    description: "Healthy 45s, then everything 503 with Retry-After: 10 for 45s",
+    phases: [
+      { durationMs: 45000 },
+      { durationMs: 45000, streamUp: false, restStatus: 503, retryAfterSec: 10 }
+    ]
+  },
+  
+  "rate-limited": {
+    description: "Streams down, REST answers 429 with Retry-After: 5",
+    phases: [{ durationMs: Infinity, streamUp: false, restStatus: 429, retryAfterSec: 5 }]
+  },
+  
+  slow: {
+    description: "Streams down, REST takes 2–10s (some requests exceed the 8s client timeout)",
+    phases: [{ durationMs: Infinity, streamUp: false, latencyMs: [2000, 10000] }]
+  },
+  
+  stalled: {
+    description: "Streams accept connections but never send (liveness timeout after 60s)",
+    phases: [{ durationMs: Infinity, streamSilent: true }]
+  },
+  
+  malformed: {
+    description: "Every 3rd stream event is malformed (non-JSON, oversized, unknown version, bad catalog value, truncated)",
+    phases: [{ durationMs: Infinity, malformedEvery: 3 }]
+  },
+  
+  "key-rotation": {
+    description: "New packet signing key every 60s; the previous key stays valid for 5 minutes",
+    phases: [{ durationMs: Infinity, rotateKeyEveryMs: 60000 }]
+  },
+  
+  "legacy-signed": {
+    description: "Tier 2 packets signed over the legacy concatenated payload (needs VITE_ALLOW_LEGACY_SIGNATURES=true)",
+    phases: [{ durationMs: Infinity, signingEncoding: "legacy" }]
+  },
+  
+  unsigned: {
+    description: "Tier 2 packets without signatures (state layer must fall back to tier 0)",
+    phases: [{ durationMs: Infinity, signed: false }]
+  },
+  
+  tier0: {
+    description: "Public tier 0 packets only",
+    phases: [{ durationMs: Infinity, tier: 0 }]
+  }
+};
+
+/**
+ * Conditions of a scenario at a point in time
+ * 
+ * @param name - Scenario name (key of SCENARIOS)
+ * @param elapsedMs - Time since the scenario started
+ * @returns { conditions, phaseIndex }
+ */
+export function conditionsAt(name, elapsedMs) {
+  const scenario = SCENARIOS[name];
+  const cycleMs = scenario.phases.reduce((sum, phase) => sum + phase.durationMs, 0);
+  let offset = Number.isFinite(cycleMs) ? elapsedMs % cycleMs : elapsedMs;
+  
+  for (let i = 0; i < scenario.phases.length; i++) {
+    const { durationMs, ...overrides } = scenario.phases[i];
+    if (offset < durationMs) {
+      return { conditions: { ...DEFAULT_CONDITIONS, ...overrides }, phaseIndex: i };
+    }
+    offset -= durationMs;
+  }
+  
+  const { durationMs, ...overrides } = scenario.phases[scenario.phases.length - 1];
+  return { conditions: { ...DEFAULT_CONDITIONS, ...overrides }, phaseIndex: scenario.phases.length - 1 };
+}
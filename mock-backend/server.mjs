@@ -0,0 +1,693 @@
+#!/usr/bin/env node
+/**
+ * Mock MNS Backend — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Local stand-in for the MNS backend (development and smoke checks)
+ * Dependencies: none (node:http, node:crypto)
+ * 
+ * Endpoints:
+ * - GET /stream          SSE: nav_update (signed nav packets) + keep_alive
+ * - GET /ws              WebSocket: {"type":"nav_update","data":...} + keep_alive
+ * - GET /api/v1/latest   Backend aggregate (forecast + signed nav), ETag/304
+ * - GET /api/v1/regimes  Regime classification
+ * - GET /api/v1/price    BTC price
+ * - GET /api/v1/keys     Signed key set (packet keys, signed by the root key)
+ * - GET /__mock          Current scenario, phase, regime, keys, clients
+ * - GET /__mock/scenario?name=<scenario>   Switch scenario (restarts its timeline)
+ * - GET /__mock/rotate   Sign with a new packet key now
+ * 
+ * Streams share one global event sequence (SSE ids), and a reconnecting
+ * SSE client with Last-Event-ID / ?lastEventId gets the events it missed
+ * (last 100 kept).
+ * 
+ * Usage:
+ *   npm run mock-backend -- --scenario stream-outage --interval 1000
+ */
+
+"use strict";
+
+import http from "node:http";
+import { createHash } from "node:crypto";
+import { parseArgs } from "node:util";
+import { createMarket } from "./market.mjs";
+import { createKeySetSigner, createSigner, packetKeySeed } from "./signing.mjs";
+import { SCENARIOS, conditionsAt } from "./scenarios.mjs";
+
+/* ============================================
+   CONFIGURATION
+   ============================================ */
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: "string", default: process.env.MNS_MOCK_PORT ?? "8080" },
+    scenario: { type: "string", default: process.env.MNS_MOCK_SCENARIO ?? "steady" },
+    interval: { type: "string", default: "2000" },
+    "keep-alive": { type: "string", default: "15000" }
+  }
+});
+
+const PORT = Number(args.port);
+const STREAM_INTERVAL_MS = Number(args.interval);
+const KEEP_ALIVE_MS = Number(args["keep-alive"]);
+const HISTORY_SIZE = 100;
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/** Wire versions served: nav packets on the streams, aggregates on /api/v1/latest */
+const PACKET_WIRE_VERSION = 1;
+const AGGREGATE_WIRE_VERSION = 2;
+
+/** A rotated-out packet key stays valid this long (in-flight packets) */
+const KEY_GRACE_MS = 5 * 60 * 1000;
+const MAX_PUBLISHED_KEYS = 8;
+
+if (!SCENARIOS[args.scenario]) {
+  console.error(`Unknown scenario "${args.scenario}". Available: ${Object.keys(SCENARIOS).join(", ")}`);
+  process.exit(1);
+}
+
+/* ============================================
+   STATE
+   ============================================ */
+
+const market = createMarket();
+const keySetSigner = createKeySetSigner();
+
+let keyIndex = 1;
+let signer = createSigner(packetKeySeed(keyIndex).seedHex, packetKeySeed(keyIndex).kid);
+let keySetSequence = 1;
+let keySetIssuedAt = new Date().toISOString();
+let lastKeyRotationAt = Date.now();
+
+/** Key-set entries as served by /api/v1/keys */
+let publishedKeys = [publishedKey(signer, Date.now())];
+
+let scenarioName = args.scenario;
+let scenarioStartedAt = Date.now();
+let lastRegimeShiftAt = Date.now();
+let lastPhaseIndex = -1;
+
+let sequence = 0;
+let lastTickAt = Date.now();
+
+/** @type {{ id: number, data: string }[]} */
+const history = [];
+
+/** @type {Set<http.ServerResponse>} */
+const sseClients = new Set();
+
+/** @type {Set<import("node:net").Socket>} */
+const wsClients = new Set();
+
+function current() {
+  return conditionsAt(scenarioName, Date.now() - scenarioStartedAt);
+}
+
+function log(message) {
+  console.log(`[MockBackend][${new Date().toISOString()}] ${message}`);
+}
+
+/* ============================================
+   PACKETS
+   ============================================ */
+
+/**
+ * Nav packet for the stream, signed unless the scenario says otherwise
+ */
+function buildStreamPacket(conditions, nowMs) {
+  const packet = market.navPacket(conditions.tier, nowMs);
+  
+  if (conditions.tier > 0 && conditions.signed) {
+    packet.meta.kid = signer.kid;
+    packet.meta.signature = signer.sign(packet, conditions.signingEncoding);
+  }
+  
+  return packet;
+}
+
+/**
+ * Confidence level the terminal's wire adapter derives from a numeric
+ * tier0.confidence (same bands as wireFormat.ts)
+ */
+function confidenceLevel(confidence) {
+  if (confidence >= 0.75) return "HIGH";
+  if (confidence >= 0.55) return "MEDIUM";
+  return "LOW";
+}
+
+/**
+ * Aggregate for /api/v1/latest with a nested signature block
+ * 
+ * The signature covers the packet the terminal's wire adapter derives
+ * from this aggregate (numeric confidence becomes a catalog level).
+ */
+function buildLatestAggregate(conditions, nowMs) {
+  const aggregate = market.aggregate(conditions.tier, nowMs);
+  
+  if (conditions.tier > 0 && conditions.signed) {
+    const meta = { tier: conditions.tier, kid: signer.kid, issued_at: new Date(nowMs).toISOString() };
+    const adapted = {
+      nav: {
+        regime: aggregate.tier0.regime,
+        risk: aggregate.tier0.risk,
+        confidence: confidenceLevel(aggregate.tier0.confidence),
+        bias: aggregate.tier1.bias,
+        stability: aggregate.tier1.stability
+      },
+      navigator: aggregate.tier2,
+      meta
+    };
+    aggregate.meta = { ...meta, signature: signer.sign(adapted, conditions.signingEncoding) };
+  }
+  
+  return aggregate;
+}
+
+/**
+ * Malformed stream payloads, cycled in this order
+ */
+function buildMalformedData(variant, conditions, nowMs) {
+  const valid = JSON.stringify(buildStreamPacket(conditions, nowMs));
+  
+  switch (variant % 5) {
+    case 0:
+      return "not json {";
+    case 1:
+      return JSON.stringify({ pad: "x".repeat(20000) });
+    case 2:
+      return JSON.stringify({ version: 99, payload: {} });
+    case 3: {
+      const packet = buildStreamPacket(conditions, nowMs);
+      packet.nav.regime = "MOON";
+      return JSON.stringify(packet);
+    }
+    default:
+      return valid.slice(0, Math.floor(valid.length / 2));
+  }
+}
+
+/* ============================================
+   KEY SET
+   ============================================ */
+
+function publishedKey(keySigner, nowMs) {
+  return {
+    kid: keySigner.kid,
+    public_key: keySigner.publicKeyBase64,
+    // Back-dated a minute so a client clock running behind still accepts it
+    not_before: new Date(nowMs - 60000).toISOString(),
+    expires: null,
+    revoked: false
+  };
+}
+
+/**
+ * Sign with a fresh packet key; the previous one expires after KEY_GRACE_MS
+ */
+function rotateKey() {
+  const now = Date.now();
+  const previousKid = signer.kid;
+  const { kid, seedHex } = packetKeySeed(++keyIndex);
+  signer = createSigner(seedHex, kid);
+  
+  publishedKeys = publishedKeys
+    .filter((key) => key.expires === null || Date.parse(key.expires) > now)
+    .map((key) => key.kid === previousKid ? { ...key, expires: new Date(now + KEY_GRACE_MS).toISOString() } : key)
+    .concat(publishedKey(signer, now))
+    .slice(-MAX_PUBLISHED_KEYS);
+  
+  keySetSequence++;
+  keySetIssuedAt = new Date(now).toISOString();
+  lastKeyRotationAt = now;
+  log(`Key rotated: ${previousKid} → ${kid} (key set ${keySetSequence}: ${publishedKeys.map((key) => key.kid).join(", ")})`);
+}
+
+function buildKeySet() {
+  return keySetSigner.signKeySet({
+    format: "mns-keyset",
+    version: 1,
+    sequence: keySetSequence,
+    issued_at: keySetIssuedAt,
+    keys: publishedKeys
+  });
+}
+
+/* ============================================
+   STREAM TICKER
+   ============================================ */
+
+function tick() {
+  const now = Date.now();
+  const { conditions, phaseIndex } = current();
+  
+  if (phaseIndex !== lastPhaseIndex) {
+    lastPhaseIndex = phaseIndex;
+    log(`Scenario ${scenarioName}, phase ${phaseIndex + 1}/${SCENARIOS[scenarioName].phases.length}: ${describeConditions(conditions)}`);
+    
+    if (!conditions.streamUp) {
+      closeAllStreams();
+    }
+  }
+  
+  if (conditions.regimeShiftEveryMs > 0 && now - lastRegimeShiftAt >= conditions.regimeShiftEveryMs) {
+    lastRegimeShiftAt = now;
+    log(`Regime shift → ${market.shiftRegime()}`);
+  }
+  
+  if (conditions.rotateKeyEveryMs > 0 && now - lastKeyRotationAt >= conditions.rotateKeyEveryMs) {
+    rotateKey();
+  }
+  
+  market.tick();
+  sequence++;
+  lastTickAt = now;
+  
+  const data = conditions.malformedEvery > 0 && sequence % conditions.malformedEvery === 0
+    ? buildMalformedData(sequence / conditions.malformedEvery, conditions, now)
+    : JSON.stringify(buildStreamPacket(conditions, now));
+  
+  history.push({ id: sequence, data });
+  if (history.length > HISTORY_SIZE) {
+    history.shift();
+  }
+  
+  if (conditions.streamUp && !conditions.streamSilent) {
+    for (const res of sseClients) {
+      writeSSE(res, sequence, "nav_update", data);
+    }
+    for (const socket of wsClients) {
+      writeWSText(socket, JSON.stringify({ type: "nav_update", data }));
+    }
+  }
+}
+
+function keepAlive() {
+  const { conditions } = current();
+  
+  if (!conditions.streamUp || conditions.streamSilent) {
+    return;
+  }
+  
+  for (const res of sseClients) {
+    res.write("event: keep_alive\ndata: {}\n\n");
+  }
+  for (const socket of wsClients) {
+    writeWSText(socket, JSON.stringify({ type: "keep_alive" }));
+  }
+}
+
+function closeAllStreams() {
+  if (sseClients.size + wsClients.size > 0) {
+    log(`Closing ${sseClients.size} SSE and ${wsClients.size} WebSocket client(s)`);
+  }
+  
+  for (const res of sseClients) {
+    res.end();
+  }
+  sseClients.clear();
+  
+  for (const socket of wsClients) {
+    // 1012: service restart
+    writeWSFrame(socket, 0x8, Buffer.from([0x03, 0xf4]));
+    socket.end();
+  }
+  wsClients.clear();
+}
+
+function describeConditions(conditions) {
+  const parts = [
+    conditions.streamUp ? (conditions.streamSilent ? "streams silent" : "streams up") : "streams down",
+    `REST ${conditions.restStatus}`,
+    `tier ${conditions.tier}${conditions.tier > 0 && !conditions.signed ? " unsigned" : ""}`
+  ];
+  if (conditions.signed && conditions.signingEncoding !== "canonical") parts.push(`${conditions.signingEncoding} signatures`);
+  if (conditions.malformedEvery > 0) parts.push(`malformed 1/${conditions.malformedEvery}`);
+  if (conditions.latencyMs[1] > 1000) parts.push(`latency ${conditions.latencyMs[0]}–${conditions.latencyMs[1]}ms`);
+  if (conditions.regimeShiftEveryMs > 0) parts.push(`regime shift every ${conditions.regimeShiftEveryMs / 1000}s`);
+  if (conditions.rotateKeyEveryMs > 0) parts.push(`key rotation every ${conditions.rotateKeyEveryMs / 1000}s`);
+  return parts.join(", ");
+}
+
+/* ============================================
+   HTTP
+   ============================================ */
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Accept, Cache-Control, Last-Event-ID, If-None-Match, If-Modified-Since",
+  "Access-Control-Expose-Headers": "ETag, Last-Modified, Retry-After, Date"
+};
+
+function sendJSON(res, status, body, headers = {}) {
+  res.writeHead(status, { ...CORS_HEADERS, "Content-Type": "application/json", "Cache-Control": "no-store", ...headers });
+  res.end(body === null ? undefined : JSON.stringify(body));
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether the client offers a wire version (?wire=2,1); clients that
+ * send no list are served as before
+ */
+function offersWireVersion(url, version) {
+  const offered = url.searchParams.get("wire");
+  return offered === null || offered.split(",").map(Number).includes(version);
+}
+
+/**
+ * Apply the scenario's latency and status to a REST request
+ * 
+ * @returns conditions if the request should be answered normally, else null
+ */
+async function gateREST(req, res) {
+  const { conditions } = current();
+  const [min, max] = conditions.latencyMs;
+  await sleep(min + Math.random() * (max - min));
+  
+  // Client gave up (timeout/abort) while we were "slow"
+  if (req.destroyed || res.destroyed) {
+    return null;
+  }
+  
+  if (conditions.restStatus !== 200) {
+    const headers = conditions.retryAfterSec !== null ? { "Retry-After": String(conditions.retryAfterSec) } : {};
+    sendJSON(res, conditions.restStatus, { error: conditions.restStatus === 429 ? "rate_limited" : "unavailable" }, headers);
+    return null;
+  }
+  
+  return conditions;
+}
+
+async function handleLatest(req, res, url) {
+  if (!offersWireVersion(url, AGGREGATE_WIRE_VERSION)) {
+    sendJSON(res, 406, { error: "unsupported_wire_version", served: [AGGREGATE_WIRE_VERSION] });
+    return;
+  }
+  
+  const conditions = await gateREST(req, res);
+  if (conditions === null) {
+    return;
+  }
+  
+  const etag = `"seq-${sequence}"`;
+  const lastModified = new Date(lastTickAt).toUTCString();
+  
+  if (req.headers["if-none-match"] === etag) {
+    sendJSON(res, 304, null, { ETag: etag, "Last-Modified": lastModified });
+    return;
+  }
+  
+  sendJSON(res, 200, buildLatestAggregate(conditions, lastTickAt), { ETag: etag, "Last-Modified": lastModified });
+}
+
+async function handleRegimes(req, res) {
+  if (await gateREST(req, res) !== null) {
+    sendJSON(res, 200, market.regimes());
+  }
+}
+
+async function handlePrice(req, res) {
+  if (await gateREST(req, res) !== null) {
+    sendJSON(res, 200, market.price());
+  }
+}
+
+async function handleKeys(req, res) {
+  if (await gateREST(req, res) !== null) {
+    sendJSON(res, 200, buildKeySet());
+  }
+}
+
+function handleStream(req, res, url) {
+  const { conditions } = current();
+  
+  if (!offersWireVersion(url, PACKET_WIRE_VERSION)) {
+    sendJSON(res, 406, { error: "unsupported_wire_version", served: [PACKET_WIRE_VERSION] });
+    return;
+  }
+  
+  if (!conditions.streamUp) {
+    sendJSON(res, 503, { error: "stream_unavailable" });
+    return;
+  }
+  
+  res.writeHead(200, {
+    ...CORS_HEADERS,
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive"
+  });
+  res.write(`retry: 3000\n\n`);
+  
+  sseClients.add(res);
+  req.on("close", () => sseClients.delete(res));
+  
+  // Resume: replay what the client missed (if still in history)
+  const resumeFrom = Number(req.headers["last-event-id"] ?? url.searchParams.get("lastEventId") ?? NaN);
+  if (Number.isInteger(resumeFrom) && !conditions.streamSilent) {
+    const missed = history.filter((event) => event.id > resumeFrom);
+    for (const event of missed) {
+      writeSSE(res, event.id, "nav_update", event.data);
+    }
+    log(`SSE client resumed after ${resumeFrom} (${missed.length} replayed, ${sseClients.size} connected)`);
+  } else {
+    log(`SSE client connected (${sseClients.size} connected)`);
+  }
+}
+
+function writeSSE(res, id, type, data) {
+  res.write(`id: ${id}\nevent: ${type}\ndata: ${data}\n\n`);
+}
+
+function handleControl(res, url) {
+  if (url.pathname === "/__mock/scenario") {
+    const name = url.searchParams.get("name");
+    if (!name || !SCENARIOS[name]) {
+      sendJSON(res, 404, { error: "unknown_scenario", available: Object.keys(SCENARIOS) });
+      return;
+    }
+    
+    scenarioName = name;
+    scenarioStartedAt = Date.now();
+    lastRegimeShiftAt = Date.now();
+    lastKeyRotationAt = Date.now();
+    lastPhaseIndex = -1;
+    log(`Scenario switched to ${name}`);
+    tick();
+  }
+  
+  if (url.pathname === "/__mock/rotate") {
+    rotateKey();
+  }
+  
+  const { conditions, phaseIndex } = current();
+  sendJSON(res, 200, {
+    scenario: scenarioName,
+    description: SCENARIOS[scenarioName].description,
+    phase: phaseIndex + 1,
+    conditions,
+    regime: market.getRegime(),
+    sequence,
+    keys: { sequence: keySetSequence, signing: signer.kid, published: publishedKeys.map((key) => key.kid) },
+    clients: { sse: sseClients.size, ws: wsClients.size },
+    scenarios: Object.fromEntries(Object.entries(SCENARIOS).map(([key, value]) => [key, value.description]))
+  });
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+  
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, { ...CORS_HEADERS, "Access-Control-Allow-Methods": "GET, OPTIONS" });
+    res.end();
+    return;
+  }
+  
+  if (req.method !== "GET") {
+    sendJSON(res, 405, { error: "method_not_allowed" });
+    return;
+  }
+  
+  switch (url.pathname) {
+    case "/stream":
+      handleStream(req, res, url);
+      break;
+    case "/api/v1/latest":
+      void handleLatest(req, res, url);
+      break;
+    case "/api/v1/regimes":
+      void handleRegimes(req, res);
+      break;
+    case "/api/v1/price":
+      void handlePrice(req, res);
+      break;
+    case "/api/v1/keys":
+      void handleKeys(req, res);
+      break;
+    case "/__mock":
+    case "/__mock/scenario":
+    case "/__mock/rotate":
+      handleControl(res, url);
+      break;
+    default:
+      sendJSON(res, 404, { error: "not_found" });
+      break;
+  }
+});
+
+/* ============================================
+   WEBSOCKET (RFC 6455, text frames only)
+   ============================================ */
+
+server.on("upgrade", (req, socket) => {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+  const key = req.headers["sec-websocket-key"];
+  
+  if (url.pathname !== "/ws" || typeof key !== "string") {
+    socket.end("HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n");
+    return;
+  }
+  
+  if (!current().conditions.streamUp) {
+    socket.end("HTTP/1.1 503 Service Unavailable\r\nConnection: close\r\n\r\n");
+    return;
+  }
+  
+  const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+  const requested = req.headers["sec-websocket-protocol"];
+  const protocol = typeof requested === "string" ? requested.split(",")[0].trim() : null;
+  
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+    "Upgrade: websocket\r\n" +
+    "Connection: Upgrade\r\n" +
+    `Sec-WebSocket-Accept: ${accept}\r\n` +
+    (protocol ? `Sec-WebSocket-Protocol: ${protocol}\r\n` : "") +
+    "\r\n"
+  );
+  
+  // Close codes exist only after the handshake
+  if (!offersWireVersion(url, PACKET_WIRE_VERSION)) {
+    const code = Buffer.alloc(2);
+    code.writeUInt16BE(4406);
+    writeWSFrame(socket, 0x8, code);
+    socket.end();
+    return;
+  }
+  
+  wsClients.add(socket);
+  log(`WebSocket client connected (${wsClients.size} connected)`);
+  
+  let buffer = Buffer.alloc(0);
+  socket.on("data", (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    buffer = readWSFrames(socket, buffer);
+  });
+  socket.on("close", () => wsClients.delete(socket));
+  socket.on("error", () => wsClients.delete(socket));
+});
+
+function writeWSFrame(socket, opcode, payload) {
+  const length = payload.length;
+  let header;
+  
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  
+  if (!socket.destroyed) {
+    socket.write(Buffer.concat([header, payload]));
+  }
+}
+
+function writeWSText(socket, text) {
+  writeWSFrame(socket, 0x1, Buffer.from(text, "utf8"));
+}
+
+/**
+ * Consume complete client frames (always masked); answers ping and close
+ * 
+ * @returns Unconsumed bytes
+ */
+function readWSFrames(socket, buffer) {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    
+    if (length === 126) {
+      if (buffer.length < 4) return buffer;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) return buffer;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    
+    if (buffer.length < offset + 4 + length) {
+      return buffer;
+    }
+    
+    const mask = buffer.subarray(offset, offset + 4);
+    const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= mask[i % 4];
+    }
+    buffer = buffer.subarray(offset + 4 + length);
+    
+    if (opcode === 0x8) {
+      writeWSFrame(socket, 0x8, payload.subarray(0, 2));
+      socket.end();
+      wsClients.delete(socket);
+      return Buffer.alloc(0);
+    }
+    
+    if (opcode === 0x9) {
+      writeWSFrame(socket, 0xa, payload);
+    }
+  }
+  
+  return buffer;
+}
+
+/* ============================================
+   STARTUP / SHUTDOWN
+   ============================================ */
+
+const tickTimer = setInterval(tick, STREAM_INTERVAL_MS);
+const keepAliveTimer = setInterval(keepAlive, KEEP_ALIVE_MS);
+
+server.listen(PORT, () => {
+  // --port 0 picks a free port; tests read it from this line
+  log(`Listening on http://localhost:${server.address().port} (packet every ${STREAM_INTERVAL_MS}ms)`);
+  log(`Scenario: ${scenarioName} — ${SCENARIOS[scenarioName].description}`);
+  log(`Scenarios: ${Object.keys(SCENARIOS).join(", ")}`);
+  log(`Signing key ${signer.kid}: ${signer.publicKeyBase64} (published in /api/v1/keys)`);
+  log(`Key-set root ${keySetSigner.kid}: VITE_KEYSET_ROOT_KEYS=${keySetSigner.kid}:${keySetSigner.publicKeyBase64}`);
+  tick();
+});
+
+function shutdown() {
+  log("Shutting down");
+  clearInterval(tickTimer);
+  clearInterval(keepAliveTimer);
+  closeAllStreams();
+  server.close(() => process.exit(0));
+  setTimeout(() => process.exit(0), 1000).unref();
+}
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
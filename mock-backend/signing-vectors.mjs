@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+/**
+ * Signing Test Vectors — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Shared vectors for the signed nav payload (canonical v1 and legacy)
+ * Consumers: backend signer, src/infrastructure/packet/signedPayload.test.ts
+ * 
+ * Vectors use the fixed development seed (MNS_MOCK_SEED is ignored) and a
+ * fixed issued_at, so Ed25519 signatures are reproducible byte for byte.
+ * Every vector packet passes the strict schema once meta.signature is
+ * added (catalog values only). The "collision" vectors come in pairs whose
+ * legacy payloads are equal and whose canonical payloads differ.
+ * 
+ * Usage:
+ *   node mock-backend/signing-vectors.mjs           print vectors
+ *   node mock-backend/signing-vectors.mjs --write   regenerate signing-vectors.json
+ *   node mock-backend/signing-vectors.mjs --check   exit 1 if the file is out of date
+ */
+
+"use strict";
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  DEFAULT_SEED,
+  MOCK_KID,
+  SIGNED_PAYLOAD_VERSION,
+  buildLegacyPayload,
+  buildSignedPayload,
+  createSigner
+} from "./signing.mjs";
+
+const OUTPUT = new URL("./signing-vectors.json", import.meta.url);
+const ISSUED_AT = "2026-01-01T00:00:00.000Z";
+
+const { values: args } = parseArgs({
+  options: {
+    write: { type: "boolean", default: false },
+    check: { type: "boolean", default: false }
+  }
+});
+
+function navPacket(tier, nav, navigator, meta) {
+  return {
+    nav: { regime: "EXPANSION", risk: "NORMAL", confidence: "HIGH", ...nav },
+    ...(navigator ? { navigator: { drivers: [], blockers: [], gaps: [], ...navigator } } : {}),
+    meta: { tier, kid: MOCK_KID, issued_at: ISSUED_AT, ...meta }
+  };
+}
+
+const CASES = [
+  {
+    name: "tier1",
+    description: "Tier 1: nav with bias/stability, no navigator (lists encode as count 0)",
+    packet: navPacket(1, { bias: "BULLISH", stability: "FORMING" })
+  },
+  {
+    name: "tier2",
+    description: "Tier 2 with navigator lists",
+    packet: navPacket(2, { bias: "BULLISH", stability: "MATURE" }, {
+      drivers: ["MOMENTUM_SHIFT", "VOLUME_EXPANSION"],
+      blockers: ["RESISTANCE_ZONE"],
+      gaps: []
+    })
+  },
+  {
+    name: "utf8",
+    description: "Multi-byte UTF-8 kid (lengths count bytes, not characters)",
+    packet: navPacket(2, { bias: "NEUTRAL", stability: "WEAKENING" }, { gaps: ["TEMPORAL_DISLOCATION"] }, { kid: "ключ_Δ1" })
+  },
+  {
+    name: "collision-fields-a",
+    description: "kid + issued_at = \"key_001\" + \"2026-01-01T00:00:00.000Z\"",
+    packet: navPacket(1, { bias: "BEARISH", stability: "FORMING" })
+  },
+  {
+    name: "collision-fields-b",
+    description: "kid + issued_at = \"key_0012\" + \"026-01-01T00:00:00.000Z\" (legacy payload equals collision-fields-a)",
+    packet: navPacket(1, { bias: "BEARISH", stability: "FORMING" }, null, { kid: `${MOCK_KID}2`, issued_at: ISSUED_AT.slice(1) })
+  },
+  {
+    name: "collision-lists-a",
+    description: "drivers [\"LIQUIDITY_SURGE\"], kid \"key_001\"",
+    packet: navPacket(2, { bias: "NEUTRAL", stability: "MATURE" }, { drivers: ["LIQUIDITY_SURGE"] })
+  },
+  {
+    name: "collision-lists-b",
+    description: "drivers [], kid \"LIQUIDITY_SURGEkey_001\" (legacy payload equals collision-lists-a)",
+    packet: navPacket(2, { bias: "NEUTRAL", stability: "MATURE" }, {}, { kid: `LIQUIDITY_SURGE${MOCK_KID}` })
+  }
+];
+
+function generate() {
+  const signer = createSigner(DEFAULT_SEED, MOCK_KID);
+  
+  return {
+    format: "mns-signing-vectors",
+    payload_version: SIGNED_PAYLOAD_VERSION,
+    kid: signer.kid,
+    public_key: signer.publicKeyBase64,
+    vectors: CASES.map(({ name, description, packet }) => ({
+      name,
+      description,
+      packet,
+      canonical_hex: buildSignedPayload(packet).toString("hex"),
+      signature: signer.sign(packet, "canonical"),
+      legacy_hex: buildLegacyPayload(packet).toString("hex"),
+      legacy_signature: signer.sign(packet, "legacy")
+    }))
+  };
+}
+
+const text = `${JSON.stringify(generate(), null, 2)}\n`;
+
+if (args.write) {
+  writeFileSync(OUTPUT, text);
+  console.log(`Wrote ${OUTPUT.pathname}`);
+} else if (args.check) {
+  if (readFileSync(OUTPUT, "utf8") !== text) {
+    console.error("signing-vectors.json is out of date (run with --write)");
+    process.exit(1);
+  }
+  console.log("signing-vectors.json is up to date");
+} else {
+  process.stdout.write(text);
+}
@@ -0,0 +1,208 @@
+/**
+ * Mock Backend Signing — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Ed25519 signatures the terminal's state layer can verify
+ * Mirrors: buildSignedPayload() / buildLegacyPayload() in src/infrastructure/packet/signedPayload.ts
+ *          buildKeySetPayload() in src/infrastructure/packet/trustedKeys.ts
+ * 
+ * Keys are derived from 32-byte seeds (MNS_MOCK_SEED and
+ * MNS_MOCK_ROOT_SEED, hex) so public keys stay stable across restarts:
+ * the root key is pasted into VITE_KEYSET_ROOT_KEYS once, packet keys
+ * reach the terminal through the signed key set.
+ */
+
+"use strict";
+
+import { createHash, createPrivateKey, createPublicKey, sign } from "node:crypto";
+
+/** PKCS#8 DER prefix for a raw Ed25519 seed */
+const ED25519_PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+
+/** Default seeds: fixed, development only */
+export const DEFAULT_SEED = "6d6e732d6d6f636b2d6261636b656e642d646576656c6f706d656e742d303031";
+const DEFAULT_ROOT_SEED = "6d6e732d6d6f636b2d6261636b656e642d6b65797365742d726f6f742d303031";
+
+export const MOCK_KID = "key_001";
+export const ROOT_KID = "root_001";
+
+/**
+ * Ed25519 private key and raw public key (Base64) from a hex seed
+ */
+function createKeyPair(seedHex, variable) {
+  const seed = Buffer.from(seedHex, "hex");
+  if (seed.length !== 32) {
+    throw new Error(`${variable} must be 32 bytes of hex`);
+  }
+  
+  const privateKey = createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+    format: "der",
+    type: "pkcs8"
+  });
+  
+  // Raw public key = last 32 bytes of the SPKI DER
+  const spki = createPublicKey(privateKey).export({ format: "der", type: "spki" });
+  
+  return { privateKey, publicKeyBase64: spki.subarray(spki.length - 32).toString("base64") };
+}
+
+/**
+ * Kid and seed of the Nth packet key (1 = MNS_MOCK_SEED, later ones
+ * derived from it, so rotated keys are stable across restarts too)
+ */
+export function packetKeySeed(index, baseSeedHex = process.env.MNS_MOCK_SEED || DEFAULT_SEED) {
+  const kid = `key_${String(index).padStart(3, "0")}`;
+  
+  if (index === 1) {
+    return { kid, seedHex: baseSeedHex };
+  }
+  
+  return { kid, seedHex: createHash("sha256").update(`${baseSeedHex}:${index}`).digest("hex") };
+}
+
+/**
+ * Create a packet signer from a hex seed
+ * 
+ * @returns { kid, publicKeyBase64, sign(packet, encoding?), signBytes(bytes) }
+ */
+export function createSigner(seedHex = process.env.MNS_MOCK_SEED || DEFAULT_SEED, kid = MOCK_KID) {
+  const { privateKey, publicKeyBase64 } = createKeyPair(seedHex, "MNS_MOCK_SEED");
+  
+  return {
+    kid,
+    publicKeyBase64,
+    
+    /**
+     * Signature (base64) over the signed payload of a nav packet
+     * 
+     * @param encoding - "canonical" (default) or "legacy"
+     */
+    sign(packet, encoding = "canonical") {
+      const payload = encoding === "legacy" ? buildLegacyPayload(packet) : buildSignedPayload(packet);
+      return sign(null, payload, privateKey).toString("base64");
+    },
+    
+    /**
+     * Signature (base64) over raw bytes
+     */
+    signBytes(bytes) {
+      return sign(null, bytes, privateKey).toString("base64");
+    }
+  };
+}
+
+export const SIGNED_PAYLOAD_VERSION = 1;
+
+/**
+ * Same bytes as the terminal's buildSignedPayload(): version byte, then
+ * every field length-prefixed (uint32 BE), lists as count + items
+ */
+export function buildSignedPayload(packet) {
+  return encodeLengthPrefixed(SIGNED_PAYLOAD_VERSION, [
+    String(packet.meta?.tier ?? 0),
+    packet.nav?.regime ?? "",
+    packet.nav?.risk ?? "",
+    packet.nav?.confidence ?? "",
+    packet.nav?.bias ?? "",
+    packet.nav?.stability ?? "",
+    packet.navigator?.drivers ?? [],
+    packet.navigator?.blockers ?? [],
+    packet.navigator?.gaps ?? [],
+    packet.meta?.kid ?? "",
+    packet.meta?.issued_at ?? ""
+  ]);
+}
+
+/**
+ * Same bytes as the terminal's encodeLengthPrefixed(): version byte,
+ * strings as uint32 BE length + UTF-8, lists as count + items
+ */
+function encodeLengthPrefixed(version, fields) {
+  const chunks = [Buffer.from([version])];
+  
+  const pushLength = (value) => {
+    const bytes = Buffer.alloc(4);
+    bytes.writeUInt32BE(value);
+    chunks.push(bytes);
+  };
+  
+  const pushString = (value) => {
+    const bytes = Buffer.from(String(value), "utf8");
+    pushLength(bytes.length);
+    chunks.push(bytes);
+  };
+  
+  for (const field of fields) {
+    if (Array.isArray(field)) {
+      pushLength(field.length);
+      field.forEach(pushString);
+    } else {
+      pushString(field);
+    }
+  }
+  
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Same concatenation as the terminal's buildLegacyPayload() (ambiguous)
+ */
+export function buildLegacyPayload(packet) {
+  const join = (list) => (Array.isArray(list) ? list.join(",") : "");
+  
+  const payload =
+    String(packet.meta?.tier ?? 0) +
+    (packet.nav?.regime ?? "") +
+    (packet.nav?.risk ?? "") +
+    (packet.nav?.confidence ?? "") +
+    (packet.nav?.bias ?? "") +
+    (packet.nav?.stability ?? "") +
+    join(packet.navigator?.drivers) +
+    join(packet.navigator?.blockers) +
+    join(packet.navigator?.gaps) +
+    (packet.meta?.kid ?? "") +
+    (packet.meta?.issued_at ?? "");
+  
+  return Buffer.from(payload, "utf8");
+}
+
+/**
+ * Create the key-set signer (root key) from a hex seed
+ * 
+ * @returns { kid, publicKeyBase64, signKeySet(document) }
+ */
+export function createKeySetSigner(seedHex = process.env.MNS_MOCK_ROOT_SEED || DEFAULT_ROOT_SEED, kid = ROOT_KID) {
+  const { privateKey, publicKeyBase64 } = createKeyPair(seedHex, "MNS_MOCK_ROOT_SEED");
+  
+  return {
+    kid,
+    publicKeyBase64,
+    
+    /**
+     * Complete a key-set document with signed_by and signature
+     */
+    signKeySet(document) {
+      const signed = { ...document, signed_by: kid };
+      return { ...signed, signature: sign(null, buildKeySetPayload(signed), privateKey).toString("base64") };
+    }
+  };
+}
+
+export const KEYSET_PAYLOAD_VERSION = 0x81;
+
+/**
+ * Same bytes as the terminal's buildKeySetPayload(): length-prefixed
+ * fields after version byte 0x81, one list per key
+ */
+export function buildKeySetPayload(document) {
+  return encodeLengthPrefixed(KEYSET_PAYLOAD_VERSION, [
+    document.format,
+    String(document.version),
+    String(document.sequence),
+    document.issued_at,
+    String(document.keys.length),
+    ...document.keys.map((key) =>
+      [key.kid, key.public_key, key.not_before, key.expires ?? "", key.revoked ? "1" : "0"])
+  ]);
+}
@@ -1,47 +1,17 @@
 /**
- * useMarketData — Real-time market data fetching hook
+ * useMarketData — Market data for the 3D scene
  * 
- * Fetches from MNS backend:
- *   /api/v1/latest  — forecast quantiles + confidence
- *   /api/v1/regimes — current regime classification
+ * Reads the Phase 23 snapshots from the market store (useMarketStore):
+ *   forecast — /api/v1/latest, quantiles + confidence
+ *   regimes  — /api/v1/regimes, current regime classification
  * 
- * Polls every 30 seconds as fallback for SSE.
+ * The terminal fetches them once for all panels (the leader tab every
+ * 5 seconds, followers through the leader), so the scene shows the same
+ * data as the DOM panels.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react'
-
-const API_BASE = 'https://mns-core-minimal-test.fly.dev'
-
-// ─── Mock data fallback (used when API is unreachable) ────────────
-
-const MOCK_DATA = {
-  tier0: {
-    symbol: 'BTCUSDT',
-    horizon: '7D',
-    p10: 64000,
-    p25: 65500,
-    p50: 67000,
-    p75: 68500,
-    p90: 70000,
-    confidence: 0.75
-  },
-  tier1: {
-    bias: 'NEUTRAL',
-    stability: 'MODERATE'
-  },
-  tier2: {
-    liquidity_state: 'DEEP',
-    drivers: ['NEUTRAL_FLOW'],
-    blockers: ['RANGE_BOUND']
-  }
-}
-
-const MOCK_REGIMES = {
-  volatility_regime: 'MODERATE',
-  trend_regime: 'CONSOLIDATING',
-  stress_regime: 'NORMAL',
-  liquidity_regime: 'NORMAL'
-}
+import { useMarketStore } from '../../../../hooks/useMarketStore'
+import { shallowEqual } from '../../../../infrastructure/state/marketStore.js'
 
 export interface MarketDataState {
   data: any | null
@@ -52,83 +22,23 @@ export interface MarketDataState {
 }
 
 export function useMarketData(): MarketDataState {
-  const [data, setData] = useState<any>(null)
-  const [regimes, setRegimes] = useState<any>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [lastUpdated, setLastUpdated] = useState<number | null>(null)
-  const mountedRef = useRef(true)
-
-  const fetchData = useCallback(async () => {
-    console.log('[useMarketData] 🔄 Fetching data...')
-
-    try {
-      const [latestRes, regimesRes] = await Promise.all([
-        fetch(`${API_BASE}/api/v1/latest`),
-        fetch(`${API_BASE}/api/v1/regimes`)
-      ])
-
-      console.log('[useMarketData] 📡 Response status:', {
-        latest: latestRes.status,
-        regimes: regimesRes.status
-      })
-
-      if (!mountedRef.current) {
-        console.log('[useMarketData] ⚠️ Component unmounted, aborting')
-        return
-      }
-
-      if (!latestRes.ok || !regimesRes.ok) {
-        throw new Error(
-          `API fetch failed: latest=${latestRes.status}, regimes=${regimesRes.status}`
-        )
-      }
-
-      const latest = await latestRes.json()
-      const regimesData = await regimesRes.json()
-
-      console.log('[useMarketData] ✅ Data received:', {
-        latest,
-        regimes: regimesData
-      })
-
-      if (!mountedRef.current) return
-
-      setData(latest)
-      setRegimes(regimesData)
-      setLoading(false)
-      setError(null)
-      setLastUpdated(Date.now())
-
-      console.log('[useMarketData] ✅ State updated, loading=false')
-    } catch (err: any) {
-      console.error('[useMarketData] ❌ Error, using mock data:', err)
-      if (mountedRef.current) {
-        // Use mock data as fallback instead of showing error
-        setData(MOCK_DATA)
-        setRegimes(MOCK_REGIMES)
-        setLoading(false)
-        setError(null)
-        setLastUpdated(Date.now())
-        console.log('[useMarketData] 🔄 Mock data applied as fallback')
-      }
-    }
-  }, [])
-
-  useEffect(() => {
-    mountedRef.current = true
-
-    // Initial fetch
-    fetchData()
-
-    // Poll every 30 seconds
-    const interval = setInterval(fetchData, 30000)
-
-    return () => {
-      mountedRef.current = false
-      clearInterval(interval)
-    }
-  }, [fetchData])
-
-  return { data, regimes, loading, error, lastUpdated }
+  const { forecast, regimes, lastFetchTime } = useMarketStore(
+    (state) => ({
+      forecast: state.forecast,
+      regimes: state.regimes,
+      lastFetchTime: state.delivery.lastFetchTime
+    }),
+    shallowEqual
+  )
+  
+  return {
+    data: forecast,
+    regimes,
+    // Until the first fetch (or leader broadcast) completes
+    loading: lastFetchTime === 0,
+    error: lastFetchTime !== 0 && forecast === null && regimes === null
+      ? 'Market data unavailable'
+      : null,
+    lastUpdated: lastFetchTime === 0 ? null : lastFetchTime
+  }
 }
@@ -0,0 +1,57 @@
+/**
+ * useMarketStore — React adapter for the market store
+ * 
+ * The 3D tree reads the same MarketStore the DOM renderers do (provided
+ * by main.tsx through MarketStoreContext) instead of fetching its own copy.
+ * 
+ * Selectors must return a value from the state or use `equals` (e.g.
+ * shallowEqual) when they build a new object, or every store change
+ * re-renders.
+ */
+
+import { createContext, useCallback, useContext, useRef, useSyncExternalStore } from 'react'
+import {
+  MarketEquality,
+  MarketSelector,
+  MarketStore
+} from '../infrastructure/state/marketStore.js'
+
+export const MarketStoreContext = createContext<MarketStore | null>(null)
+
+export function useMarketStore<T>(
+  selector: MarketSelector<T>,
+  equals: MarketEquality<T> = Object.is
+): T {
+  const store = useContext(MarketStoreContext)
+  if (store === null) {
+    throw new Error('useMarketStore: no MarketStoreContext provider')
+  }
+  
+  // Last selection, so an equal value keeps its identity between renders
+  const selected = useRef<{ state: unknown; value: T } | null>(null)
+  
+  const subscribe = useCallback(
+    (onChange: () => void) => store.subscribe((state) => state, onChange),
+    [store]
+  )
+  
+  const getSnapshot = (): T => {
+    const state = store.getState()
+    const last = selected.current
+    
+    if (last !== null && last.state === state) {
+      return last.value
+    }
+    
+    const value = selector(state)
+    if (last !== null && equals(last.value, value)) {
+      selected.current = { state, value: last.value }
+      return last.value
+    }
+    
+    selected.current = { state, value }
+    return value
+  }
+  
+  return useSyncExternalStore(subscribe, getSnapshot)
+}
@@ -0,0 +1,850 @@
+/**
+ * Delivery Controller fault injection — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Drives DeliveryController through the documented failure paths with a
+ * fake EventSource, a fake WebSocket, a fake fetch and a fake clock:
+ * consecutive stream errors, degrade, REST failures, recovery probes,
+ * flapping, stop() mid-retry, offline and hidden, and REST responses
+ * that arrive after the mode switched away (contract 4.4).
+ * 
+ * After every step (and every simulated tick) the mutual exclusion
+ * invariant is checked: at most one of SSE, WebSocket and REST is
+ * active, except the RECOVERING trial stream next to REST.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DeliveryController,
+  DeliveryControllerConfig,
+  DeliveryMode,
+  RecoveryProbeOutcome,
+  RecoveryProbeResult,
+  createDeliveryController
+} from "./deliveryController.js";
+import { createCircuitBreakerRetryPolicy, createFixedRetryPolicy } from "./retryPolicy.js";
+import { RESTPollOutcome } from "./restPolling.js";
+import { MarketPacket } from "../packet/packetSchema.js";
+import { SSETransport, SSETransportError } from "../sse/sseTransport.js";
+
+/* ============================================
+   FAKES
+   ============================================ */
+
+const PACKET = JSON.stringify({ nav: { regime: "EXPANSION", risk: "NORMAL", confidence: "HIGH" } });
+
+type FakeListener = (event: { data: string; lastEventId: string }) => void;
+
+class FakeEventSource {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+  static instances: FakeEventSource[] = [];
+  
+  public readyState: number = FakeEventSource.CONNECTING;
+  public onopen: (() => void) | null = null;
+  public onerror: (() => void) | null = null;
+  private listeners: Map<string, FakeListener[]> = new Map();
+  
+  constructor(public readonly url: string) {
+    FakeEventSource.instances.push(this);
+  }
+  
+  static active(): FakeEventSource[] {
+    return FakeEventSource.instances.filter((source) => source.readyState !== FakeEventSource.CLOSED);
+  }
+  
+  static latest(): FakeEventSource {
+    return FakeEventSource.instances[FakeEventSource.instances.length - 1];
+  }
+  
+  addEventListener(type: string, listener: FakeListener): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+  
+  removeEventListener(type: string, listener: FakeListener): void {
+    this.listeners.set(type, (this.listeners.get(type) ?? []).filter((l) => l !== listener));
+  }
+  
+  close(): void {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+  
+  /* Test controls */
+  
+  open(): void {
+    this.readyState = FakeEventSource.OPEN;
+    this.onopen?.();
+  }
+  
+  emit(type: string, data: string, lastEventId: string = ""): void {
+    for (const listener of this.listeners.get(type) ?? []) {
+      listener({ data, lastEventId });
+    }
+  }
+  
+  fail(): void {
+    this.readyState = FakeEventSource.CLOSED;
+    this.onerror?.();
+  }
+}
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  
+  public closed: boolean = false;
+  public onopen: (() => void) | null = null;
+  public onmessage: ((event: { data: string }) => void) | null = null;
+  public onclose: ((event: { code: number }) => void) | null = null;
+  public onerror: (() => void) | null = null;
+  
+  constructor(public readonly url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+  
+  static active(): FakeWebSocket[] {
+    return FakeWebSocket.instances.filter((socket) => !socket.closed);
+  }
+  
+  static latest(): FakeWebSocket {
+    return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  }
+  
+  close(): void {
+    this.closed = true;
+  }
+  
+  /* Test controls */
+  
+  open(): void {
+    this.onopen?.();
+  }
+  
+  message(data: string): void {
+    this.onmessage?.({ data });
+  }
+  
+  drop(code: number = 1006): void {
+    this.closed = true;
+    this.onclose?.({ code });
+  }
+}
+
+/**
+ * REST snapshot endpoint: 200 with a fresh body per poll, or restStatus
+ */
+let restStatus = 200;
+let restPolls = 0;
+
+const fakeFetch = vi.fn(async (_url: string, _init?: RequestInit): Promise<Response> => {
+  restPolls++;
+  
+  if (restStatus !== 200) {
+    return new Response("", { status: restStatus });
+  }
+  
+  const body = JSON.stringify({ nav: { regime: "EXPANSION", risk: "NORMAL", confidence: "HIGH", scope: `poll-${restPolls}` } });
+  return new Response(body, { status: 200, headers: { "Content-Type": "application/json" } });
+});
+
+/**
+ * Hold the next REST poll in flight until the test answers it
+ * 
+ * Like the real fetch, the request rejects with an AbortError once its
+ * signal aborts (mode switch or restRequestTimeout).
+ */
+function holdNextFetch(): { respond: (response: Response) => void; aborted: () => boolean } {
+  let respond: (response: Response) => void = () => undefined;
+  let signal: AbortSignal | undefined;
+  
+  fakeFetch.mockImplementationOnce((_url: string, init?: RequestInit) => new Promise<Response>((resolve, reject) => {
+    restPolls++;
+    respond = resolve;
+    signal = init?.signal ?? undefined;
+    signal?.addEventListener("abort", () => reject(new DOMException("The operation was aborted.", "AbortError")));
+  }));
+  
+  return { respond: (response) => respond(response), aborted: () => signal?.aborted === true };
+}
+
+/**
+ * A 200 snapshot whose body arrives only when send() is called
+ */
+function slowBodyResponse(): { response: Response; send: () => void } {
+  let stream!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({ start: (controller) => { stream = controller; } });
+  const snapshot = JSON.stringify({ nav: { regime: "EXPANSION", risk: "NORMAL", confidence: "HIGH", scope: "late" } });
+  
+  return {
+    response: new Response(body, { status: 200, headers: { "Content-Type": "application/json" } }),
+    send: () => {
+      stream.enqueue(new TextEncoder().encode(snapshot));
+      stream.close();
+    }
+  };
+}
+
+/* ============================================
+   HARNESS
+   ============================================ */
+
+interface Harness {
+  controller: DeliveryController;
+  packets: Array<{ packet: MarketPacket; source: DeliveryMode }>;
+  probes: RecoveryProbeResult[];
+}
+
+function createHarness(config: Partial<DeliveryControllerConfig> = {}): Harness {
+  const packets: Harness["packets"] = [];
+  const probes: RecoveryProbeResult[] = [];
+  
+  const controller = createDeliveryController(
+    {
+      sseTransport: "eventsource",
+      throttleMs: 0,
+      retryPolicy: createFixedRetryPolicy({ maxRetries: 5, delayMs: 1000, recoveryIntervalMs: 30000 }),
+      recoveryProbeTimeout: 15000,
+      hiddenPauseDelay: 10000,
+      restPollingInterval: 2000,
+      ...config
+    },
+    {
+      onPacket: (packet, source) => packets.push({ packet, source }),
+      onModeChange: () => undefined,
+      onRecoveryProbe: (result) => probes.push(result)
+    }
+  );
+  
+  return { controller, packets, probes };
+}
+
+/**
+ * Which delivery sources are live right now
+ */
+function activeSources(controller: DeliveryController) {
+  return {
+    sse: FakeEventSource.active().length,
+    ws: FakeWebSocket.active().length,
+    rest: controller["restPollingTimer"] !== null || controller["restAbortController"] !== null,
+    probe: controller["recoveryProbe"] !== null
+  };
+}
+
+/**
+ * Mutual exclusion invariant (contract 4.3 / 4.4)
+ */
+function assertExclusive(controller: DeliveryController): void {
+  const mode = controller.getMode();
+  const active = activeSources(controller);
+  const streams = active.sse + active.ws;
+  
+  expect(streams, `${mode}: more than one stream`).toBeLessThanOrEqual(1);
+  
+  if (active.probe) {
+    expect(mode, "probe outside RECOVERING").toBe(DeliveryMode.RECOVERING);
+  }
+  
+  if (streams > 0 && active.rest) {
+    expect(active.probe, `${mode}: stream and REST without a probe`).toBe(true);
+  }
+  
+  if (active.rest) {
+    expect([DeliveryMode.REST_DEGRADED, DeliveryMode.RECOVERING]).toContain(mode);
+  }
+  
+  if (active.sse > 0 && !active.probe) {
+    expect(mode).toBe(DeliveryMode.SSE_PRIMARY);
+  }
+  
+  if (active.ws > 0 && !active.probe) {
+    expect(mode).toBe(DeliveryMode.WS_PRIMARY);
+  }
+  
+  if (mode === DeliveryMode.DISCONNECTED || mode === DeliveryMode.PAUSED || !controller.isActive()) {
+    expect(active, `${mode}: delivery still running`).toEqual({ sse: 0, ws: 0, rest: false, probe: false });
+  }
+}
+
+/**
+ * Advance the fake clock in small steps, checking the invariant each time
+ */
+async function tick(controller: DeliveryController, ms: number, step: number = 250): Promise<void> {
+  for (let elapsed = 0; elapsed < ms; elapsed += step) {
+    await vi.advanceTimersByTimeAsync(Math.min(step, ms - elapsed));
+    assertExclusive(controller);
+  }
+}
+
+/**
+ * Fail every stream connection until the controller degrades to REST
+ */
+async function driveToREST(controller: DeliveryController): Promise<void> {
+  for (let attempt = 0; attempt < 20 && controller.getMode() !== DeliveryMode.REST_DEGRADED; attempt++) {
+    if (controller.getMode() === DeliveryMode.SSE_PRIMARY) {
+      FakeEventSource.latest().fail();
+    } else {
+      FakeWebSocket.latest().drop();
+    }
+    assertExclusive(controller);
+    await tick(controller, 1000);
+  }
+  
+  expect(controller.getMode()).toBe(DeliveryMode.REST_DEGRADED);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal("EventSource", FakeEventSource);
+  vi.stubGlobal("WebSocket", FakeWebSocket);
+  vi.stubGlobal("fetch", fakeFetch);
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+  
+  FakeEventSource.instances = [];
+  FakeWebSocket.instances = [];
+  fakeFetch.mockClear();
+  restStatus = 200;
+  restPolls = 0;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+/* ============================================
+   SCENARIOS
+   ============================================ */
+
+describe("DeliveryController fault injection", () => {
+  it("connects SSE and forwards stream packets", async () => {
+    const { controller, packets } = createHarness();
+    
+    controller.start();
+    assertExclusive(controller);
+    expect(controller.getMode()).toBe(DeliveryMode.SSE_PRIMARY);
+    
+    FakeEventSource.latest().open();
+    FakeEventSource.latest().emit("nav_update", PACKET, "1");
+    await tick(controller, 1000);
+    
+    expect(packets).toHaveLength(1);
+    expect(packets[0].source).toBe(DeliveryMode.SSE_PRIMARY);
+    expect(fakeFetch).not.toHaveBeenCalled();
+    
+    controller.stop();
+    assertExclusive(controller);
+  });
+  
+  it("falls through SSE → WS → REST after five consecutive errors each", async () => {
+    const { controller } = createHarness();
+    
+    controller.start();
+    
+    for (let error = 1; error <= 5; error++) {
+      expect(controller.getMode()).toBe(DeliveryMode.SSE_PRIMARY);
+      FakeEventSource.latest().fail();
+      assertExclusive(controller);
+      await tick(controller, 1000);
+    }
+    
+    expect(FakeEventSource.instances).toHaveLength(5);
+    expect(controller.getMode()).toBe(DeliveryMode.WS_PRIMARY);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    
+    for (let error = 1; error <= 5; error++) {
+      expect(controller.getMode()).toBe(DeliveryMode.WS_PRIMARY);
+      FakeWebSocket.latest().drop();
+      assertExclusive(controller);
+      await tick(controller, 1000);
+    }
+    
+    expect(FakeWebSocket.instances).toHaveLength(5);
+    expect(controller.getMode()).toBe(DeliveryMode.REST_DEGRADED);
+    expect(fakeFetch).toHaveBeenCalled();
+    
+    controller.stop();
+    assertExclusive(controller);
+  });
+  
+  it("keeps polling through REST failures without touching the streams", async () => {
+    const { controller, packets } = createHarness();
+    
+    controller.start();
+    await driveToREST(controller);
+    
+    const streamsBefore = FakeEventSource.instances.length + FakeWebSocket.instances.length;
+    restStatus = 500;
+    const pollsBefore = restPolls;
+    
+    await tick(controller, 20000);
+    
+    expect(restPolls).toBeGreaterThan(pollsBefore);
+    expect(FakeEventSource.instances.length + FakeWebSocket.instances.length).toBe(streamsBefore);
+    expect(packets.every((p) => p.source === DeliveryMode.REST_DEGRADED)).toBe(true);
+    
+    controller.stop();
+  });
+  
+  it("recovers through a probe: REST stops at the first trial stream packet", async () => {
+    const { controller, packets, probes } = createHarness();
+    
+    controller.start();
+    await driveToREST(controller);
+    
+    // Recovery interval elapses: trial SSE next to REST
+    await tick(controller, 30000);
+    expect(controller.getMode()).toBe(DeliveryMode.RECOVERING);
+    expect(activeSources(controller)).toEqual({ sse: 1, ws: 0, rest: true, probe: true });
+    
+    // Handshake alone does not end probation
+    FakeEventSource.latest().open();
+    await tick(controller, 1000);
+    expect(controller.getMode()).toBe(DeliveryMode.RECOVERING);
+    
+    FakeEventSource.latest().emit("nav_update", PACKET, "7");
+    assertExclusive(controller);
+    
+    expect(controller.getMode()).toBe(DeliveryMode.SSE_PRIMARY);
+    expect(activeSources(controller)).toEqual({ sse: 1, ws: 0, rest: false, probe: false });
+    expect(probes.map((p) => p.outcome)).toEqual([RecoveryProbeOutcome.CONFIRMED]);
+    expect(packets[packets.length - 1].source).toBe(DeliveryMode.SSE_PRIMARY);
+    
+    // No REST poll after confirmation
+    const polls = restPolls;
+    await tick(controller, 10000);
+    expect(restPolls).toBe(polls);
+    
+    controller.stop();
+  });
+  
+  it("fails a silent or broken probe and stays on REST", async () => {
+    const { controller, probes } = createHarness();
+    
+    controller.start();
+    await driveToREST(controller);
+    
+    // Silent trial stream: timed out
+    await tick(controller, 30000);
+    expect(controller.getMode()).toBe(DeliveryMode.RECOVERING);
+    FakeEventSource.latest().open();
+    await tick(controller, 15000);
+    
+    expect(controller.getMode()).toBe(DeliveryMode.REST_DEGRADED);
+    expect(probes.map((p) => p.outcome)).toEqual([RecoveryProbeOutcome.TIMED_OUT]);
+    expect(activeSources(controller)).toEqual({ sse: 0, ws: 0, rest: true, probe: false });
+    
+    // Broken trial stream: failed
+    await tick(controller, 30000);
+    expect(controller.getMode()).toBe(DeliveryMode.RECOVERING);
+    FakeEventSource.latest().fail();
+    assertExclusive(controller);
+    
+    expect(controller.getMode()).toBe(DeliveryMode.REST_DEGRADED);
+    expect(probes.map((p) => p.outcome)).toEqual([RecoveryProbeOutcome.TIMED_OUT, RecoveryProbeOutcome.FAILED]);
+    
+    controller.stop();
+  });
+  
+  it("never runs two sources while the stream flaps", async () => {
+    const { controller } = createHarness();
+    
+    controller.start();
+    
+    for (let cycle = 0; cycle < 12; cycle++) {
+      const mode = controller.getMode();
+      
+      if (mode === DeliveryMode.SSE_PRIMARY) {
+        const source = FakeEventSource.latest();
+        source.open();
+        source.emit("nav_update", PACKET);
+        await tick(controller, 500);
+        source.fail();
+      } else if (mode === DeliveryMode.WS_PRIMARY) {
+        const socket = FakeWebSocket.latest();
+        socket.open();
+        socket.message(PACKET);
+        await tick(controller, 500);
+        socket.drop();
+      } else if (mode === DeliveryMode.RECOVERING) {
+        FakeEventSource.latest().fail();
+      }
+      
+      assertExclusive(controller);
+      await tick(controller, 1500);
+    }
+    
+    // One packet per connection never makes a stream stable: the
+    // failures add up and the controller degrades instead of flapping
+    expect(controller.getMode()).toBe(DeliveryMode.REST_DEGRADED);
+    
+    controller.stop();
+    assertExclusive(controller);
+  });
+  
+  it("forgets stream failures once the stream stays up for streamStableMs", async () => {
+    const { controller } = createHarness({ streamStableMs: 5000 });
+    
+    controller.start();
+    
+    for (let failure = 0; failure < 4; failure++) {
+      FakeEventSource.latest().fail();
+      await tick(controller, 1000);
+    }
+    expect(controller["streamErrorCount"]).toBe(4);
+    
+    const source = FakeEventSource.latest();
+    source.open();
+    source.emit("nav_update", PACKET);
+    await tick(controller, 4750);
+    expect(controller["streamErrorCount"]).toBe(4);
+    
+    await tick(controller, 250);
+    expect(controller["streamErrorCount"]).toBe(0);
+    
+    // A fifth failure is now the first again: retry, not fall-through
+    source.fail();
+    await tick(controller, 1000);
+    expect(controller.getMode()).toBe(DeliveryMode.SSE_PRIMARY);
+    expect(controller["streamErrorCount"]).toBe(1);
+    
+    controller.stop();
+    assertExclusive(controller);
+  });
+  
+  it("opens the circuit breaker, probes after the cooldown and closes once the stream is stable", async () => {
+    const breaker = createCircuitBreakerRetryPolicy(
+      createFixedRetryPolicy({ maxRetries: 5, delayMs: 1000, recoveryIntervalMs: 30000 }),
+      { failureThreshold: 3, cooldownMs: 60000 }
+    );
+    const { controller, probes } = createHarness({
+      retryPolicy: breaker,
+      streamPreference: [DeliveryMode.SSE_PRIMARY],
+      streamStableMs: 5000
+    });
+    
+    controller.start();
+    
+    // Open: the third consecutive failure degrades, whatever the inner policy allows
+    for (let failure = 0; failure < 3; failure++) {
+      expect(controller.getMode()).toBe(DeliveryMode.SSE_PRIMARY);
+      FakeEventSource.latest().fail();
+      await tick(controller, 1000);
+    }
+    expect(breaker.isOpen()).toBe(true);
+    expect(controller.getMode()).toBe(DeliveryMode.REST_DEGRADED);
+    
+    // Half-open: a single trial stream after the cooldown, not the 30s interval
+    await tick(controller, 58000);
+    expect(controller.getMode()).toBe(DeliveryMode.REST_DEGRADED);
+    await tick(controller, 1000);
+    expect(controller.getMode()).toBe(DeliveryMode.RECOVERING);
+    
+    FakeEventSource.latest().open();
+    FakeEventSource.latest().emit("nav_update", PACKET);
+    expect(controller.getMode()).toBe(DeliveryMode.SSE_PRIMARY);
+    expect(breaker.isOpen()).toBe(true);
+    
+    // A trial stream that dies before it is stable re-opens at once
+    FakeEventSource.latest().fail();
+    assertExclusive(controller);
+    expect(controller.getMode()).toBe(DeliveryMode.REST_DEGRADED);
+    
+    // Next trial stays up: closed again, failures are retried
+    await tick(controller, 60000);
+    expect(controller.getMode()).toBe(DeliveryMode.RECOVERING);
+    FakeEventSource.latest().open();
+    FakeEventSource.latest().emit("nav_update", PACKET);
+    await tick(controller, 5000);
+    expect(breaker.isOpen()).toBe(false);
+    
+    FakeEventSource.latest().fail();
+    await tick(controller, 1000);
+    expect(controller.getMode()).toBe(DeliveryMode.SSE_PRIMARY);
+    expect(probes.map((p) => p.outcome)).toEqual([RecoveryProbeOutcome.CONFIRMED, RecoveryProbeOutcome.CONFIRMED]);
+    
+    controller.stop();
+    assertExclusive(controller);
+  });
+  
+  it("schedules nothing after stop() mid-retry", async () => {
+    const { controller } = createHarness();
+    
+    controller.start();
+    FakeEventSource.latest().fail();
+    await tick(controller, 100);
+    
+    controller.stop();
+    assertExclusive(controller);
+    
+    await tick(controller, 120000, 1000);
+    
+    expect(FakeEventSource.instances).toHaveLength(1);
+    expect(FakeWebSocket.instances).toHaveLength(0);
+    expect(fakeFetch).not.toHaveBeenCalled();
+  });
+  
+  it("suspends everything while offline and resumes on the preferred stream", async () => {
+    const { controller } = createHarness();
+    
+    controller.start();
+    await driveToREST(controller);
+    await tick(controller, 30000);
+    expect(controller.getMode()).toBe(DeliveryMode.RECOVERING);
+    
+    controller.setNetworkStatus(false);
+    assertExclusive(controller);
+    expect(controller.getMode()).toBe(DeliveryMode.DISCONNECTED);
+    
+    const polls = restPolls;
+    await tick(controller, 60000, 1000);
+    expect(restPolls).toBe(polls);
+    expect(FakeEventSource.active()).toHaveLength(0);
+    
+    controller.setNetworkStatus(true);
+    assertExclusive(controller);
+    expect(controller.getMode()).toBe(DeliveryMode.SSE_PRIMARY);
+    expect(FakeEventSource.active()).toHaveLength(1);
+    
+    controller.stop();
+  });
+  
+  it("pauses after hiddenPauseDelay and resumes when visible", async () => {
+    const { controller } = createHarness();
+    
+    controller.start();
+    FakeEventSource.latest().open();
+    
+    // Short hide: nothing changes
+    controller.setVisibility(false);
+    await tick(controller, 5000);
+    controller.setVisibility(true);
+    await tick(controller, 10000);
+    expect(controller.getMode()).toBe(DeliveryMode.SSE_PRIMARY);
+    expect(FakeEventSource.instances).toHaveLength(1);
+    
+    // Long hide: paused
+    controller.setVisibility(false);
+    await tick(controller, 10000);
+    expect(controller.getMode()).toBe(DeliveryMode.PAUSED);
+    
+    // Offline while paused, then back online while still hidden
+    controller.setNetworkStatus(false);
+    assertExclusive(controller);
+    expect(controller.getMode()).toBe(DeliveryMode.DISCONNECTED);
+    controller.setNetworkStatus(true);
+    assertExclusive(controller);
+    expect(controller.getMode()).toBe(DeliveryMode.PAUSED);
+    
+    controller.setVisibility(true);
+    assertExclusive(controller);
+    expect(controller.getMode()).toBe(DeliveryMode.SSE_PRIMARY);
+    expect(FakeEventSource.active()).toHaveLength(1);
+    
+    controller.stop();
+  });
+  
+  it("offers its wire versions and skips retries for a mode that refuses them", async () => {
+    const sseUrls: string[] = [];
+    const refusingTransport = (): SSETransport => ({
+      supportsHeaders: true,
+      open: (request, listener) => {
+        sseUrls.push(request.url);
+        setTimeout(() => listener.onError(new SSETransportError("Stream request failed: HTTP 406", 406, true)), 0);
+      },
+      close: () => undefined
+    });
+    const { controller } = createHarness({ sseTransportFactory: refusingTransport });
+    
+    controller.start();
+    await tick(controller, 250);
+    
+    // One refused SSE request, straight to WebSocket
+    expect(sseUrls).toEqual(["/stream?wire=2,1"]);
+    expect(controller.getMode()).toBe(DeliveryMode.WS_PRIMARY);
+    expect(FakeWebSocket.latest().url).toBe("/ws?wire=2,1");
+    
+    FakeWebSocket.latest().drop(4406);
+    await tick(controller, 250);
+    
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(controller.getMode()).toBe(DeliveryMode.REST_DEGRADED);
+    expect(fakeFetch.mock.calls[0][0]).toBe("/api/v1/latest?wire=2,1");
+    
+    controller.stop();
+  });
+});
+
+describe("late REST responses (contract 4.4)", () => {
+  /**
+   * Degrade to REST and let the recovery probe confirm SSE, with the
+   * first REST poll still in flight
+   */
+  async function recoverWithPollInFlight(controller: DeliveryController): Promise<void> {
+    await driveToREST(controller);
+    await tick(controller, 30000);
+    expect(controller.getMode()).toBe(DeliveryMode.RECOVERING);
+    
+    FakeEventSource.latest().emit("nav_update", PACKET, "7");
+    await tick(controller, 250);
+    expect(controller.getMode()).toBe(DeliveryMode.SSE_PRIMARY);
+  }
+  
+  function restPackets(packets: Harness["packets"]) {
+    return packets.filter((p) => p.source === DeliveryMode.REST_DEGRADED);
+  }
+  
+  it("aborts a poll whose fetch is pending when the stream takes over", async () => {
+    const { controller, packets } = createHarness({ restRequestTimeout: 120000 });
+    const poll = holdNextFetch();
+    
+    controller.start();
+    await recoverWithPollInFlight(controller);
+    
+    expect(poll.aborted()).toBe(true);
+    expect(controller.getDiagnostics().restPolls[RESTPollOutcome.DISCARDED]).toBe(1);
+    
+    // Answering now changes nothing: the request already failed with AbortError
+    poll.respond(new Response(PACKET, { status: 200, headers: { "Content-Type": "application/json" } }));
+    await tick(controller, 10000);
+    
+    expect(restPackets(packets)).toEqual([]);
+    expect(restPolls).toBe(1);
+    
+    controller.stop();
+  });
+  
+  it("drops a body that finishes downloading after the stream took over", async () => {
+    const { controller, packets } = createHarness({ restRequestTimeout: 120000 });
+    const poll = holdNextFetch();
+    const late = slowBodyResponse();
+    
+    controller.start();
+    await driveToREST(controller);
+    
+    // Headers arrive, the body does not yet
+    poll.respond(late.response);
+    await tick(controller, 250);
+    
+    await tick(controller, 30000);
+    FakeEventSource.latest().emit("nav_update", PACKET, "7");
+    await tick(controller, 250);
+    expect(controller.getMode()).toBe(DeliveryMode.SSE_PRIMARY);
+    
+    // The body completes after the switch: the session check drops it
+    late.send();
+    await tick(controller, 250);
+    
+    expect(restPackets(packets)).toEqual([]);
+    expect(controller.getDiagnostics().restPolls[RESTPollOutcome.DISCARDED]).toBe(1);
+    expect(controller.getDiagnostics().restPolls[RESTPollOutcome.UPDATED]).toBe(0);
+    
+    controller.stop();
+  });
+  
+  it("fails a poll that exceeds restRequestTimeout and keeps polling", async () => {
+    const { controller, packets } = createHarness({ restRequestTimeout: 5000 });
+    const poll = holdNextFetch();
+    
+    controller.start();
+    await driveToREST(controller);
+    const pollsBefore = restPolls;
+    
+    await tick(controller, 5000);
+    
+    expect(poll.aborted()).toBe(true);
+    expect(controller.getDiagnostics().restPolls[RESTPollOutcome.FAILED]).toBe(1);
+    expect(restPackets(packets)).toEqual([]);
+    
+    // Next poll on schedule (backed off after the failure), and it delivers
+    await tick(controller, 3000);
+    expect(restPolls).toBe(pollsBefore + 1);
+    expect(restPackets(packets)).toHaveLength(1);
+    
+    controller.stop();
+  });
+});
+
+describe("conditional REST polling", () => {
+  const SNAPSHOT = JSON.stringify({ nav: { regime: "EXPANSION", risk: "NORMAL", confidence: "HIGH", scope: "same" } });
+  const JSON_TYPE = { "Content-Type": "application/json" };
+  
+  interface PollRecord {
+    at: number;
+    headers: Record<string, string>;
+  }
+  
+  /**
+   * Answer the next REST polls in order, recording when each was sent
+   */
+  function scriptREST(polls: PollRecord[], ...responses: Array<() => Response>): void {
+    for (const response of responses) {
+      fakeFetch.mockImplementationOnce(async (_url: string, init?: RequestInit) => {
+        restPolls++;
+        polls.push({ at: Date.now(), headers: { ...(init?.headers as Record<string, string>) } });
+        return response();
+      });
+    }
+  }
+  
+  function gaps(polls: PollRecord[]): number[] {
+    return polls.slice(1).map((poll, i) => poll.at - polls[i].at);
+  }
+  
+  it("revalidates with If-None-Match and forwards neither a 304 nor an unchanged body", async () => {
+    const { controller, packets } = createHarness();
+    const polls: PollRecord[] = [];
+    scriptREST(
+      polls,
+      () => new Response(SNAPSHOT, { status: 200, headers: { ...JSON_TYPE, "ETag": "\"v1\"" } }),
+      () => new Response(null, { status: 304 }),
+      () => new Response(SNAPSHOT, { status: 200, headers: JSON_TYPE })
+    );
+    
+    controller.start();
+    await driveToREST(controller);
+    await tick(controller, 5000);
+    
+    expect(polls).toHaveLength(3);
+    expect(polls[0].headers["If-None-Match"]).toBeUndefined();
+    expect(polls[1].headers["If-None-Match"]).toBe("\"v1\"");
+    expect(polls[2].headers["If-None-Match"]).toBe("\"v1\"");
+    
+    // Only the first snapshot reached the state layer
+    expect(packets.filter((p) => p.source === DeliveryMode.REST_DEGRADED)).toHaveLength(1);
+    
+    const { restPolls: outcomes } = controller.getDiagnostics();
+    expect(outcomes[RESTPollOutcome.UPDATED]).toBe(1);
+    expect(outcomes[RESTPollOutcome.NOT_MODIFIED]).toBe(1);
+    expect(outcomes[RESTPollOutcome.UNCHANGED]).toBe(1);
+    
+    // Base interval after a new snapshot, then backing off while idle
+    expect(gaps(polls)).toEqual([2000, 3000]);
+    
+    controller.stop();
+  });
+  
+  it("waits Retry-After before polling again after a 429", async () => {
+    const { controller, packets } = createHarness();
+    const polls: PollRecord[] = [];
+    scriptREST(
+      polls,
+      () => new Response("", { status: 429, headers: { "Retry-After": "20" } }),
+      () => new Response(SNAPSHOT, { status: 200, headers: JSON_TYPE })
+    );
+    
+    controller.start();
+    await driveToREST(controller);
+    expect(packets.filter((p) => p.source === DeliveryMode.REST_DEGRADED)).toEqual([]);
+    
+    await tick(controller, 21000);
+    
+    expect(gaps(polls)).toEqual([20000]);
+    expect(controller.getDiagnostics().restPolls[RESTPollOutcome.RATE_LIMITED]).toBe(1);
+    expect(packets.find((p) => p.source === DeliveryMode.REST_DEGRADED)?.packet.nav).toMatchObject({ scope: "same" });
+    
+    controller.stop();
+  });
+});
@@ -2,13 +2,17 @@
  * Delivery Controller — Phase 22.3
  * Market Navigation System (MNS)
  * 
- * Purpose: Orchestrate primary (SSE) and fallback (REST) delivery mechanisms
- * Guarantee: Mutual exclusion - SSE and REST NEVER active simultaneously
+ * Purpose: Orchestrate streaming (SSE, WebSocket) and fallback (REST) delivery mechanisms
+ * Guarantee: Mutual exclusion - SSE, WebSocket and REST NEVER active simultaneously
  * 
  * Responsibilities:
- * - Manage delivery mode state (SSE_PRIMARY vs REST_DEGRADED)
- * - Switch to REST polling on SSE failure
- * - Attempt SSE recovery periodically
+ * - Manage delivery mode state (SSE_PRIMARY / WS_PRIMARY vs REST_DEGRADED)
+ *   through the transition table in deliveryStateMachine.ts
+ * - Fall through the stream preference order on repeated failure
+ * - Switch to REST polling when every stream mode has failed
+ * - Attempt stream recovery periodically, keeping REST until the trial
+ *   stream proves itself with a packet (RECOVERING probation)
+ * - Pause all delivery while offline (DISCONNECTED) or hidden (PAUSED)
  * - Forward packets to state layer
  * 
  * Non-goals (per Integration Contract):
@@ -25,26 +29,88 @@ import {
   SSEConnectionState,
   SSEClientConfig,
   SSEEventHandlers,
+  SSESequenceGap,
+  ThrottlePolicy,
   MarketPacket,
   createSSEClient
 } from "../sse/sseClient.js";
+import { SSETransportFactory, SSETransportKind } from "../sse/sseTransport.js";
+import {
+  WSClient,
+  WSConnectionState,
+  WSClientConfig,
+  WSEventHandlers,
+  createWSClient
+} from "../ws/wsClient.js";
+import { decodePacket, describePacketError } from "../packet/packetSchema.js";
+import {
+  WIRE_VERSIONS_REJECTED_CLOSE_CODE,
+  WIRE_VERSIONS_REJECTED_STATUS,
+  adaptWirePayload,
+  getSupportedWireVersions,
+  withWireVersions
+} from "../packet/wireFormat.js";
+import { ValidationResult } from "../packet/packetValidator.js";
+import { ReplayCheckResult } from "../packet/replayGuard.js";
+import {
+  RESTPollOutcome,
+  RESTPollValidators,
+  createPollValidators,
+  buildConditionalHeaders,
+  hashPayload,
+  parseRetryAfter,
+  computeNextPollDelay
+} from "./restPolling.js";
+import { RetryPolicy, createExponentialRetryPolicy } from "./retryPolicy.js";
+import { DeliveryMode, StreamDeliveryMode } from "./deliveryMode.js";
+import {
+  DeliveryEvent,
+  DeliveryGuard,
+  DeliveryEffect,
+  DeliveryStateMachine,
+  DeliveryStateMachineHooks,
+  DeliveryTransitionRecord,
+  createDeliveryStateMachine
+} from "./deliveryStateMachine.js";
+import {
+  DeliveryDiagnostics,
+  DeliveryDiagnosticsListener,
+  DeliveryDiagnosticsRecorder
+} from "./deliveryDiagnostics.js";
 
 /* ============================================
    DELIVERY MODE
    ============================================ */
 
-/**
- * Delivery mode state
- * 
- * CRITICAL INVARIANT: Only ONE mode can be active at any time.
- * SSE_PRIMARY and REST_DEGRADED are mutually exclusive.
- */
-export enum DeliveryMode {
-  /** SSE active, REST inactive */
-  SSE_PRIMARY = "SSE_PRIMARY",
+export { DeliveryMode } from "./deliveryMode.js";
+export type { StreamDeliveryMode } from "./deliveryMode.js";
+export type { DeliveryDiagnostics, DeliveryDiagnosticsListener } from "./deliveryDiagnostics.js";
+export { DeliveryEvent } from "./deliveryStateMachine.js";
+export type { DeliveryTransitionRecord } from "./deliveryStateMachine.js";
+
+/* ============================================
+   RECOVERY PROBE
+   ============================================ */
+
+export enum RecoveryProbeOutcome {
+  /** Trial stream delivered a valid packet — REST stopped */
+  CONFIRMED = "CONFIRMED",
+  
+  /** Trial stream errored or stalled — REST continues */
+  FAILED = "FAILED",
+  
+  /** No packet within recoveryProbeTimeout — REST continues */
+  TIMED_OUT = "TIMED_OUT"
+}
+
+export interface RecoveryProbeResult {
+  /** Stream mode that was on probation */
+  mode: StreamDeliveryMode;
   
-  /** REST polling active, SSE inactive */
-  REST_DEGRADED = "REST_DEGRADED"
+  outcome: RecoveryProbeOutcome;
+  
+  /** Time from probe start to outcome */
+  durationMs: number;
 }
 
 /* ============================================
@@ -61,23 +127,110 @@ export interface DeliveryControllerConfig {
   /** REST polling interval in milliseconds (default: 2000ms) */
   restPollingInterval: number;
   
-  /** SSE recovery attempt interval in milliseconds (default: 30000ms = 30s) */
+  /** Ceiling for the adaptive REST interval while nothing changes (default: 10000ms) */
+  restMaxPollingInterval: number;
+  
+  /** Abort a REST request (including body read) after this long (default: 8000ms) */
+  restRequestTimeout: number;
+  
+  /** WebSocket endpoint (default: /ws) */
+  wsEndpoint: string;
+  
+  /** WebSocket subprotocols (default: none) */
+  wsProtocols: string[];
+  
+  /**
+   * Stream modes in order of preference (default: SSE, then WebSocket)
+   * 
+   * Each mode is retried until the retry policy gives up, then the next
+   * one is tried; REST takes over once the list is exhausted.
+   */
+  streamPreference: StreamDeliveryMode[];
+  
+  /** Stream recovery attempt interval in milliseconds (default: 30000ms = 30s, default policy only) */
   sseRecoveryInterval: number;
   
-  /** Maximum payload size for SSE (default: 16384 bytes) */
+  /**
+   * Retry/recovery schedule (default: exponential 1s→16s, 5 attempts per
+   * mode, decorrelated jitter, recovery every ~sseRecoveryInterval)
+   */
+  retryPolicy: RetryPolicy | null;
+  
+  /**
+   * Time a stream must stay up after its first packet before the error
+   * count and retry policy reset (default: 10000ms, 0 = on first packet)
+   */
+  streamStableMs: number;
+  
+  /** Time a trial stream has to deliver its first packet (default: 15000ms) */
+  recoveryProbeTimeout: number;
+  
+  /** Follow online/offline events (default: true) */
+  trackNetworkStatus: boolean;
+  
+  /** Pause delivery while the document is hidden (default: true) */
+  pauseWhenHidden: boolean;
+  
+  /** How long the document must stay hidden before pausing (default: 10000ms) */
+  hiddenPauseDelay: number;
+  
+  /** Push interval for diagnostics subscribers (default: 1000ms) */
+  diagnosticsInterval: number;
+  
+  /** Maximum payload size for SSE and WebSocket (default: 16384 bytes) */
   maxPayloadSize: number;
   
-  /** Throttle interval for SSE messages (default: 1000ms) */
+  /** Throttle interval for stream messages (default: 1000ms) */
   throttleMs: number;
+  
+  /** Handling of stream packets inside the throttle window (default: LATEST_WINS, previously DROP) */
+  throttlePolicy: ThrottlePolicy;
+  
+  /** SSE stream transport (default: fetch) */
+  sseTransport: SSETransportKind;
+  
+  /** Custom SSE transport factory, overrides sseTransport (default: null; e.g. replay) */
+  sseTransportFactory: SSETransportFactory | null;
+  
+  /** How the SSE resume id is sent (default: query) */
+  sseResumeVia: "query" | "header";
+  
+  /** Extra SSE request headers, fetch transport only (default: none) */
+  sseHeaders: Record<string, string>;
+  
+  /** SSE silence timeout before the stream counts as failed (default: 60000ms) */
+  sseLivenessTimeout: number;
+  
+  /** WebSocket silence timeout before the socket counts as failed (default: 60000ms) */
+  wsLivenessTimeout: number;
 }
 
 const DEFAULT_CONFIG: DeliveryControllerConfig = {
   sseEndpoint: "/stream",
   restEndpoint: "/api/v1/latest",
   restPollingInterval: 2000,
+  restMaxPollingInterval: 10000,
+  restRequestTimeout: 8000,
+  wsEndpoint: "/ws",
+  wsProtocols: [],
+  streamPreference: [DeliveryMode.SSE_PRIMARY, DeliveryMode.WS_PRIMARY],
   sseRecoveryInterval: 30000,
+  retryPolicy: null,
+  streamStableMs: 10000,
+  recoveryProbeTimeout: 15000,
+  trackNetworkStatus: true,
+  pauseWhenHidden: true,
+  hiddenPauseDelay: 10000,
+  diagnosticsInterval: 1000,
   maxPayloadSize: 16384,
-  throttleMs: 1000
+  throttleMs: 1000,
+  throttlePolicy: ThrottlePolicy.LATEST_WINS,
+  sseTransport: "fetch",
+  sseTransportFactory: null,
+  sseResumeVia: "query",
+  sseHeaders: {},
+  sseLivenessTimeout: 60000,
+  wsLivenessTimeout: 60000
 };
 
 /* ============================================
@@ -86,7 +239,7 @@ const DEFAULT_CONFIG: DeliveryControllerConfig = {
 
 export interface DeliveryControllerHandlers {
   /**
-   * Called when a packet is received (from SSE or REST)
+   * Called when a packet is received (from SSE, WebSocket or REST)
    * @param packet - Market packet (Tier0/Tier1/Tier2)
    * @param source - Delivery mode that provided the packet
    */
@@ -103,6 +256,18 @@ export interface DeliveryControllerHandlers {
    * @param error - Error details
    */
   onError?: (error: Error) => void;
+  
+  /**
+   * Called when the SSE stream skipped event ids (packets missed)
+   * @param gap - Missing id range (inclusive)
+   */
+  onGap?: (gap: SSESequenceGap) => void;
+  
+  /**
+   * Called when a recovery probe ends
+   * @param result - Probed mode, outcome and duration
+   */
+  onRecoveryProbe?: (result: RecoveryProbeResult) => void;
 }
 
 /* ============================================
@@ -115,30 +280,147 @@ export class DeliveryController {
   
   // Delivery clients
   private sseClient: SSEClient | null = null;
+  private wsClient: WSClient | null = null;
   
-  // State
-  private currentMode: DeliveryMode = DeliveryMode.SSE_PRIMARY;
+  // SSE resume position (survives client teardown between retries)
+  private sseLastEventId: string | null = null;
+  
+  // State (mode changes only through machine.fire())
+  private machine: DeliveryStateMachine;
   private isStarted: boolean = false;
   
-  // Retry logic with exponential backoff
-  private sseErrorCount: number = 0;
-  private maxRetries: number = 5;
+  // Position in config.streamPreference of the stream mode in use
+  private streamIndex: number = 0;
+  
+  // Trial stream on probation (RECOVERING mode only)
+  private recoveryProbe: {
+    mode: StreamDeliveryMode;
+    startedAt: number;
+    timer: ReturnType<typeof setTimeout>;
+  } | null = null;
+  
+  // Retry logic (schedule decided by the retry policy)
+  private retryPolicy: RetryPolicy;
+  private streamErrorCount: number = 0;
   private retryTimer: ReturnType<typeof setTimeout> | null = null;
   
-  // Timers (mutually exclusive with SSE connection)
-  private restPollingTimer: ReturnType<typeof setInterval> | null = null;
-  private sseRecoveryTimer: ReturnType<typeof setInterval> | null = null;
+  // Stability window of the current stream (armed by its first packet)
+  private streamStableTimer: ReturnType<typeof setTimeout> | null = null;
+  private streamStable: boolean = false;
+  
+  // Failed recovery probes since entering REST_DEGRADED
+  private recoveryAttempts: number = 0;
+  
+  // Timers (REST polling is mutually exclusive with stream connections,
+  // except for the trial stream in RECOVERING)
+  private restPollingTimer: ReturnType<typeof setTimeout> | null = null;
+  private streamRecoveryTimer: ReturnType<typeof setTimeout> | null = null;
+  
+  // REST polling state (reset on every entry into REST_DEGRADED)
+  // restSession is the generation token: bumped whenever REST starts or
+  // stops, so a response from an older session is never forwarded
+  private restSession: number = 0;
+  private restAbortController: AbortController | null = null;
+  private restPollDelay: number = 0;
+  private restValidators: RESTPollValidators = createPollValidators();
+  
+  // Health counters and live subscribers
+  private diagnostics: DeliveryDiagnosticsRecorder;
+  private diagnosticsListeners: Set<DeliveryDiagnosticsListener> = new Set();
+  private diagnosticsTimer: ReturnType<typeof setInterval> | null = null;
+  
+  // Browser environment (network + visibility)
+  private isOnline: boolean = true;
+  private isVisible: boolean = true;
+  private pauseTimer: ReturnType<typeof setTimeout> | null = null;
+  private environmentListeners: Array<() => void> = [];
   
   constructor(config: Partial<DeliveryControllerConfig>, handlers: DeliveryControllerHandlers) {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.handlers = handlers;
+    
+    if (this.config.streamPreference.length === 0) {
+      throw new Error("streamPreference must list at least one stream mode");
+    }
+    
+    const initialMode = this.config.streamPreference[0];
+    this.machine = createDeliveryStateMachine(initialMode, this.createMachineHooks());
+    this.diagnostics = new DeliveryDiagnosticsRecorder(initialMode);
+    
+    this.retryPolicy = this.config.retryPolicy ?? createExponentialRetryPolicy({
+      recoveryIntervalMs: this.config.sseRecoveryInterval,
+      maxRecoveryIntervalMs: this.config.sseRecoveryInterval
+    });
   }
   
   /**
    * Get current delivery mode
    */
   public getMode(): DeliveryMode {
-    return this.currentMode;
+    return this.machine.getMode();
+  }
+  
+  /**
+   * Recent transitions, applied and rejected (oldest first)
+   */
+  public getTransitionLog(): DeliveryTransitionRecord[] {
+    return this.machine.getLog();
+  }
+  
+  /**
+   * Count the trust decision on a forwarded packet (validation happens
+   * outside the controller, on whichever thread renders or in the worker)
+   */
+  public recordValidation(result: ValidationResult): void {
+    this.diagnostics.recordValidation(result);
+  }
+  
+  /**
+   * Count the state layer's replay-guard decision on a verified Tier 1/2
+   * packet (only admitted packets count as verified)
+   */
+  public recordAdmission(check: ReplayCheckResult): void {
+    this.diagnostics.recordAdmission(check);
+  }
+  
+  /**
+   * Get a health snapshot (counters, uptime per mode, packet timing)
+   */
+  public getDiagnostics(): DeliveryDiagnostics {
+    const client = this.sseClient ?? this.wsClient;
+    
+    return this.diagnostics.snapshot(
+      client ? client.getIngestStats() : null,
+      client ? client.getThrottleStats() : null
+    );
+  }
+  
+  /**
+   * Receive diagnostics snapshots: immediately, on every mode change and
+   * every diagnosticsInterval while subscribed
+   * 
+   * @returns Unsubscribe function
+   */
+  public subscribeDiagnostics(listener: DeliveryDiagnosticsListener): () => void {
+    this.diagnosticsListeners.add(listener);
+    
+    if (this.diagnosticsTimer === null) {
+      this.diagnosticsTimer = setInterval(
+        this.emitDiagnostics.bind(this),
+        this.config.diagnosticsInterval
+      );
+    }
+    
+    this.notifyDiagnosticsListener(listener, this.getDiagnostics());
+    
+    return () => {
+      this.diagnosticsListeners.delete(listener);
+      
+      if (this.diagnosticsListeners.size === 0 && this.diagnosticsTimer !== null) {
+        clearInterval(this.diagnosticsTimer);
+        this.diagnosticsTimer = null;
+      }
+    };
   }
   
   /**
@@ -148,13 +430,46 @@ export class DeliveryController {
     return this.isStarted;
   }
   
+  /**
+   * Report network availability
+   * 
+   * Called by the online/offline listeners; hosts without window events
+   * (e.g. a worker fed by the page) may call it directly.
+   */
+  public setNetworkStatus(online: boolean): void {
+    if (this.isOnline === online) {
+      return;
+    }
+    
+    this.isOnline = online;
+    this.logLifecycle(`Network ${online ? "online" : "offline"}`);
+    this.applyEnvironment();
+  }
+  
+  /**
+   * Report document visibility
+   * 
+   * Called by the visibilitychange listener; hosts without a document
+   * may call it directly.
+   */
+  public setVisibility(visible: boolean): void {
+    if (this.isVisible === visible) {
+      return;
+    }
+    
+    this.isVisible = visible;
+    this.logLifecycle(`Document ${visible ? "visible" : "hidden"}`);
+    this.applyEnvironment();
+  }
+  
   /**
    * Start delivery system
    * 
    * Lifecycle:
-   * 1. Set started flag
-   * 2. Attempt SSE connection (primary mode)
-   * 3. If SSE fails, degradation handled by SSE error callback
+   * 1. Set started flag, subscribe to network/visibility events
+   * 2. Offline → DISCONNECTED; hidden → PAUSED; otherwise START the
+   *    most preferred stream mode
+   * 3. If it fails, fallthrough/degradation handled by the state callbacks
    */
   public start(): void {
     if (this.isStarted) {
@@ -165,19 +480,31 @@ export class DeliveryController {
     this.isStarted = true;
     this.logLifecycle("Starting delivery controller");
     
-    // Always start with SSE (primary mode)
-    this.startSSEMode();
+    this.attachEnvironmentListeners();
+    
+    if (!this.isOnline) {
+      this.suspend(DeliveryMode.DISCONNECTED);
+    } else if (!this.isVisible && this.config.pauseWhenHidden) {
+      this.suspend(DeliveryMode.PAUSED);
+    } else {
+      // Always start with the most preferred stream mode
+      this.fire(DeliveryEvent.START, this.config.streamPreference[0]);
+    }
   }
   
   /**
    * Stop delivery system
    * 
    * Lifecycle:
-   * 1. Stop SSE client if active
+   * 1. Stop SSE/WebSocket client if active
    * 2. Stop REST polling if active
    * 3. Clear recovery timer
-   * 4. Clear retry timer
+   * 4. Clear retry and pause timers, unsubscribe environment events
    * 5. Clear started flag
+   * 
+   * Not a transition: the mode is kept, and the next start() fires START
+   * from it. Timer callbacks that slip through are refused by the
+   * STARTED guard.
    */
   public stop(): void {
     if (!this.isStarted) {
@@ -188,19 +515,211 @@ export class DeliveryController {
     this.logLifecycle("Stopping delivery controller");
     
     // Stop all active mechanisms
-    this.stopSSEMode();
+    this.stopStreamMode();
     this.stopRESTMode();
+    this.cancelStreamRecovery();
+    this.clearRetryTimer();
+    this.clearStreamStableTimer();
+    
+    // Drop an unfinished probe (no outcome reported)
+    this.clearRecoveryProbe();
     
-    // Clear retry timer
+    this.clearPauseTimer();
+    this.detachEnvironmentListeners();
+    
+    // Reset error counter
+    this.streamErrorCount = 0;
+    
+    // Next start() is a fresh session, not a resume
+    this.sseLastEventId = null;
+    
+    this.isStarted = false;
+  }
+  
+  /* ============================================
+     PRIVATE: STREAM MODE MANAGEMENT
+     ============================================ */
+  
+  /**
+   * Create and connect the client for the current preference position
+   * 
+   * Does not touch REST or the mode (START_STREAM and START_PROBE effects).
+   */
+  private startStreamClient(): void {
+    if (this.currentStreamMode() === DeliveryMode.WS_PRIMARY) {
+      this.startWSMode();
+    } else {
+      this.startSSEMode();
+    }
+  }
+  
+  /**
+   * Stream mode at the current preference position
+   */
+  private currentStreamMode(): StreamDeliveryMode {
+    return this.config.streamPreference[this.streamIndex];
+  }
+  
+  /**
+   * Stop whichever stream client is active
+   */
+  private stopStreamMode(): void {
+    this.clearStreamStableTimer();
+    this.stopSSEMode();
+    this.stopWSMode();
+  }
+  
+  /**
+   * Forward a stream packet
+   */
+  private handleStreamMessage(packet: MarketPacket, source: StreamDeliveryMode): void {
+    // First packet of a trial stream: it becomes the source of truth
+    if (this.recoveryProbe !== null) {
+      this.confirmRecoveryProbe();
+    }
+    
+    // Error counter and policy state reset once the stream has proven
+    // stable, not on every packet: a stream that delivers one packet and
+    // dies must still count towards fall-through and the circuit breaker
+    this.armStreamStableTimer();
+    
+    // Forward to state layer with source annotation
+    this.diagnostics.recordPacket(source);
+    this.handlers.onPacket(packet, source);
+  }
+  
+  /**
+   * Handle a failed (ERROR or STALLED) stream connection
+   * 
+   * Critical logic:
+   * - Retry the same mode after the delay chosen by the retry policy
+   * - When the policy gives up, or the server rejected the offered wire
+   *   versions, fall through to the next preferred mode
+   * - Degrade to REST once the preference list is exhausted
+   * - A failed recovery probe ends the probe; REST never stopped
+   */
+  private handleStreamFailure(mode: StreamDeliveryMode): void {
+    if (this.recoveryProbe !== null) {
+      this.failRecoveryProbe(RecoveryProbeOutcome.FAILED);
+      return;
+    }
+    
+    this.clearStreamStableTimer();
+    this.streamErrorCount++;
+    console.warn(`[DELIVERY] ⚠️ ${mode} error #${this.streamErrorCount}`);
+    
+    // Retrying cannot help until the server supports one of our versions
+    const rejected = this.isWireVersionRejected(mode);
+    if (rejected) {
+      this.logError(`${mode} rejected wire versions ${getSupportedWireVersions().join(",")}`, null);
+    }
+    
+    const backoffMs = rejected ? null : this.retryPolicy.nextRetryDelay(this.streamErrorCount);
+    
+    // Policy gave up on this mode
+    if (backoffMs === null) {
+      const attempts = this.streamErrorCount;
+      
+      if (this.hasNextStreamMode()) {
+        const next = this.config.streamPreference[this.streamIndex + 1];
+        console.error(`[DELIVERY] ❌ ${mode} failed after ${attempts} attempts - trying ${next}`);
+        this.fire(DeliveryEvent.FALL_THROUGH, next);
+        return;
+      }
+      
+      console.error(`[DELIVERY] ❌ ${mode} failed after ${attempts} attempts - degrading to REST`);
+      this.fire(DeliveryEvent.DEGRADE, DeliveryMode.REST_DEGRADED);
+      return;
+    }
+    
+    console.log(`[DELIVERY] 🔄 Retrying ${mode} in ${backoffMs}ms...`);
+    this.diagnostics.recordRetry();
+    
+    // Clear any existing retry timer
+    this.clearRetryTimer();
+    
+    // Schedule retry after the policy delay
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      console.log(`[DELIVERY] 🔄 Attempting ${mode} reconnection...`);
+      this.fire(DeliveryEvent.RETRY, mode);
+    }, backoffMs);
+  }
+  
+  /**
+   * Handle an established stream connection
+   */
+  private handleStreamConnected(mode: StreamDeliveryMode): void {
+    console.log(`[DELIVERY] ✅ ${mode} connection established`);
+    
+    // A trial stream is confirmed by its first packet, not by the handshake
+    if (this.recoveryProbe !== null) {
+      return;
+    }
+    
+    // Error counter is reset by the first packet, not by the handshake:
+    // a stream that opens and then stalls must still count towards degrade
+    this.fire(DeliveryEvent.CONNECTED, mode);
+  }
+  
+  /**
+   * Whether the stream's server refused every offered wire version
+   * (HTTP 406 on the fetch transport, close code 4406 on WebSocket)
+   */
+  private isWireVersionRejected(mode: StreamDeliveryMode): boolean {
+    if (mode === DeliveryMode.WS_PRIMARY) {
+      return this.wsClient?.getLastCloseCode() === WIRE_VERSIONS_REJECTED_CLOSE_CODE;
+    }
+    return this.sseClient?.getLastHttpStatus() === WIRE_VERSIONS_REJECTED_STATUS;
+  }
+  
+  private hasNextStreamMode(): boolean {
+    return this.streamIndex + 1 < this.config.streamPreference.length;
+  }
+  
+  private clearRetryTimer(): void {
     if (this.retryTimer) {
       clearTimeout(this.retryTimer);
       this.retryTimer = null;
     }
+  }
+  
+  /**
+   * Start the stability window of the current stream (no-op once running
+   * or once the stream is stable)
+   */
+  private armStreamStableTimer(): void {
+    if (this.streamStable || this.streamStableTimer !== null) {
+      return;
+    }
     
-    // Reset error counter
-    this.sseErrorCount = 0;
+    if (this.config.streamStableMs <= 0) {
+      this.markStreamStable();
+      return;
+    }
     
-    this.isStarted = false;
+    this.streamStableTimer = setTimeout(() => {
+      this.streamStableTimer = null;
+      this.markStreamStable();
+    }, this.config.streamStableMs);
+  }
+  
+  /**
+   * Stream stayed up: forget its failures (and close the circuit breaker)
+   */
+  private markStreamStable(): void {
+    this.streamStable = true;
+    this.streamErrorCount = 0;
+    this.retryPolicy.reset();
+  }
+  
+  private clearStreamStableTimer(): void {
+    this.streamStable = false;
+    
+    if (this.streamStableTimer) {
+      clearTimeout(this.streamStableTimer);
+      this.streamStableTimer = null;
+    }
   }
   
   /* ============================================
@@ -210,34 +729,34 @@ export class DeliveryController {
   /**
    * Start SSE primary mode
    * 
-   * Preconditions:
-   * - REST mode must be stopped
-   * - Recovery timer must be cleared
+   * Called through startStreamClient() only.
    */
   private startSSEMode(): void {
-    // Ensure REST is stopped (mutual exclusion)
-    this.stopRESTMode();
-    
     this.logLifecycle("Starting SSE primary mode");
     
     // Create SSE client
     const sseConfig: Partial<SSEClientConfig> = {
       endpoint: this.config.sseEndpoint,
       maxPayloadSize: this.config.maxPayloadSize,
-      throttleMs: this.config.throttleMs
+      throttleMs: this.config.throttleMs,
+      throttlePolicy: this.config.throttlePolicy,
+      lastEventId: this.sseLastEventId,
+      transport: this.config.sseTransport,
+      transportFactory: this.config.sseTransportFactory,
+      resumeVia: this.config.sseResumeVia,
+      headers: this.config.sseHeaders,
+      livenessTimeoutMs: this.config.sseLivenessTimeout
     };
     
     const sseHandlers: SSEEventHandlers = {
       onMessage: this.handleSSEMessage.bind(this),
       onStateChange: this.handleSSEStateChange.bind(this),
-      onError: this.handleSSEError.bind(this)
+      onError: this.handleStreamError.bind(this),
+      onGap: this.handleSSEGap.bind(this)
     };
     
     this.sseClient = createSSEClient(sseConfig, sseHandlers);
     this.sseClient.connect();
-    
-    // Update mode
-    this.setMode(DeliveryMode.SSE_PRIMARY);
   }
   
   /**
@@ -246,7 +765,15 @@ export class DeliveryController {
   private stopSSEMode(): void {
     if (this.sseClient !== null) {
       this.logLifecycle("Stopping SSE mode");
+      
+      // Remember resume position for the next client
+      this.sseLastEventId = this.sseClient.getLastEventId();
+      
       this.sseClient.disconnect();
+      this.diagnostics.absorbClientStats(
+        this.sseClient.getIngestStats(),
+        this.sseClient.getThrottleStats()
+      );
       this.sseClient = null;
     }
   }
@@ -255,311 +782,677 @@ export class DeliveryController {
    * Handle SSE message
    */
   private handleSSEMessage(packet: MarketPacket): void {
-    // Reset error counter on successful message
-    this.sseErrorCount = 0;
-    
-    // Forward to state layer with source annotation
-    this.handlers.onPacket(packet, DeliveryMode.SSE_PRIMARY);
+    this.handleStreamMessage(packet, DeliveryMode.SSE_PRIMARY);
   }
   
   /**
    * Handle SSE state change
    * 
-   * Critical logic:
-   * - If SSE enters ERROR state → retry with exponential backoff
-   * - If SSE enters CONNECTED state → reset error counter
-   * - Only degrade to REST after MAX_RETRIES failures
+   * A stalled stream is failed per contract 4.1 — same path as an error.
    */
   private handleSSEStateChange(state: SSEConnectionState): void {
     console.log(`[DELIVERY] SSE state changed: ${state}`);
     
-    if (state === SSEConnectionState.ERROR) {
-      this.sseErrorCount++;
-      console.warn(`[DELIVERY] ⚠️ SSE error #${this.sseErrorCount}/${this.maxRetries}`);
-      
-      // Check if we've exceeded max retries
-      if (this.sseErrorCount >= this.maxRetries) {
-        console.error(`[DELIVERY] ❌ SSE failed after ${this.maxRetries} attempts - degrading to REST`);
-        this.degradeToRESTMode();
-        return;
-      }
-      
-      // Exponential backoff: 1s, 2s, 4s, 8s, 16s
-      const backoffMs = Math.min(1000 * Math.pow(2, this.sseErrorCount - 1), 16000);
-      console.log(`[DELIVERY] 🔄 Retrying SSE in ${backoffMs}ms...`);
-      
-      // Clear any existing retry timer
-      if (this.retryTimer) {
-        clearTimeout(this.retryTimer);
-      }
-      
-      // Schedule retry with exponential backoff
-      this.retryTimer = setTimeout(() => {
-        console.log(`[DELIVERY] 🔄 Attempting SSE reconnection...`);
-        this.stopSSEMode();
-        this.startSSEMode();
-      }, backoffMs);
+    if (state === SSEConnectionState.ERROR || state === SSEConnectionState.STALLED) {
+      this.handleStreamFailure(DeliveryMode.SSE_PRIMARY);
     }
     
     if (state === SSEConnectionState.CONNECTED) {
-      console.log("[DELIVERY] ✅ SSE connection established");
-      
-      // Reset error counter on successful connection
-      this.sseErrorCount = 0;
-      
-      // Clear any pending retry timer
-      if (this.retryTimer) {
-        clearTimeout(this.retryTimer);
-        this.retryTimer = null;
-      }
-      
-      // Ensure we're in SSE_PRIMARY mode
-      if (this.currentMode !== DeliveryMode.SSE_PRIMARY) {
-        this.setMode(DeliveryMode.SSE_PRIMARY);
-      }
+      this.handleStreamConnected(DeliveryMode.SSE_PRIMARY);
     }
   }
   
   /**
-   * Handle SSE error
+   * Handle SSE/WebSocket error
    */
-  private handleSSEError(error: Error): void {
+  private handleStreamError(error: Error): void {
     if (this.handlers.onError) {
       this.handlers.onError(error);
     }
   }
   
+  /**
+   * Handle SSE sequence gap
+   */
+  private handleSSEGap(gap: SSESequenceGap): void {
+    this.logLifecycle(`SSE missed events ${gap.from}–${gap.to}`);
+    
+    if (this.handlers.onGap) {
+      this.handlers.onGap(gap);
+    }
+  }
+  
   /* ============================================
-     PRIVATE: REST MODE MANAGEMENT
+     PRIVATE: WEBSOCKET MODE MANAGEMENT
      ============================================ */
   
   /**
-   * Degrade to REST polling mode
+   * Start WebSocket primary mode
    * 
-   * Preconditions:
-   * - SSE must be stopped
-   * 
-   * Actions:
-   * 1. Stop SSE client
-   * 2. Start REST polling timer
-   * 3. Start SSE recovery timer
-   * 4. Update mode to REST_DEGRADED
-   */
-  private degradeToRESTMode(): void {
-    // Ensure SSE is stopped (mutual exclusion)
-    this.stopSSEMode();
+   * Called through startStreamClient() only.
+   */
+  private startWSMode(): void {
+    this.logLifecycle("Starting WebSocket primary mode");
     
-    this.logLifecycle("Starting REST degraded mode");
+    // Create WebSocket client
+    const wsConfig: Partial<WSClientConfig> = {
+      endpoint: this.config.wsEndpoint,
+      protocols: this.config.wsProtocols,
+      maxPayloadSize: this.config.maxPayloadSize,
+      throttleMs: this.config.throttleMs,
+      throttlePolicy: this.config.throttlePolicy,
+      livenessTimeoutMs: this.config.wsLivenessTimeout
+    };
     
-    // Start REST polling
-    this.restPollingTimer = setInterval(
-      this.pollRESTEndpoint.bind(this),
-      this.config.restPollingInterval
-    );
+    const wsHandlers: WSEventHandlers = {
+      onMessage: this.handleWSMessage.bind(this),
+      onStateChange: this.handleWSStateChange.bind(this),
+      onError: this.handleStreamError.bind(this)
+    };
     
-    // Start SSE recovery attempts
-    this.sseRecoveryTimer = setInterval(
-      this.attemptSSERecovery.bind(this),
-      this.config.sseRecoveryInterval
-    );
+    this.wsClient = createWSClient(wsConfig, wsHandlers);
+    this.wsClient.connect();
+  }
+  
+  /**
+   * Stop WebSocket primary mode
+   */
+  private stopWSMode(): void {
+    if (this.wsClient !== null) {
+      this.logLifecycle("Stopping WebSocket mode");
+      this.wsClient.disconnect();
+      this.diagnostics.absorbClientStats(
+        this.wsClient.getIngestStats(),
+        this.wsClient.getThrottleStats()
+      );
+      this.wsClient = null;
+    }
+  }
+  
+  /**
+   * Handle WebSocket message
+   */
+  private handleWSMessage(packet: MarketPacket): void {
+    this.handleStreamMessage(packet, DeliveryMode.WS_PRIMARY);
+  }
+  
+  /**
+   * Handle WebSocket state change (same rules as SSE)
+   */
+  private handleWSStateChange(state: WSConnectionState): void {
+    console.log(`[DELIVERY] WebSocket state changed: ${state}`);
+    
+    if (state === WSConnectionState.ERROR || state === WSConnectionState.STALLED) {
+      this.handleStreamFailure(DeliveryMode.WS_PRIMARY);
+    }
     
-    // Update mode
-    this.setMode(DeliveryMode.REST_DEGRADED);
+    if (state === WSConnectionState.CONNECTED) {
+      this.handleStreamConnected(DeliveryMode.WS_PRIMARY);
+    }
+  }
+  
+  /* ============================================
+     PRIVATE: REST MODE MANAGEMENT
+     ============================================ */
+  
+  /**
+   * Start REST polling (START_REST effect of DEGRADE)
+   * 
+   * Streams are already stopped by the preceding STOP_STREAM effect;
+   * SCHEDULE_RECOVERY follows.
+   */
+  private startRESTMode(): void {
+    this.logLifecycle("Starting REST degraded mode");
+    this.diagnostics.recordDegradation();
+    
+    // Fresh polling session: the first poll is unconditional so the
+    // state layer gets the current snapshot even if it equals an old one
+    this.restSession++;
+    this.restPollDelay = this.config.restPollingInterval;
+    this.restValidators = createPollValidators();
+    
+    // Recovery attempts are counted from here
+    this.recoveryAttempts = 0;
     
     // Immediate first poll (don't wait for first interval)
-    this.pollRESTEndpoint();
+    this.runRESTPoll(this.restSession);
   }
   
   /**
    * Stop REST polling mode
+   * 
+   * Leaves the recovery timer alone (CANCEL_RECOVERY is a separate effect).
    */
   private stopRESTMode(): void {
+    // Invalidate and abort any in-flight poll (contract 4.4: pending
+    // REST requests are discarded when returning to a stream mode)
+    this.restSession++;
+    
+    if (this.restAbortController !== null) {
+      this.logLifecycle("Aborting in-flight REST poll");
+      this.restAbortController.abort();
+      this.restAbortController = null;
+    }
+    
     // Clear REST polling timer
     if (this.restPollingTimer !== null) {
       this.logLifecycle("Stopping REST polling");
-      clearInterval(this.restPollingTimer);
+      clearTimeout(this.restPollingTimer);
       this.restPollingTimer = null;
     }
+  }
+  
+  /**
+   * Run one poll and schedule the next one
+   * 
+   * Polls are chained with setTimeout (never setInterval) so the delay
+   * can adapt and a slow response never overlaps the next poll.
+   * 
+   * @param session - Polling session the poll belongs to
+   */
+  private async runRESTPoll(session: number): Promise<void> {
+    this.restPollingTimer = null;
+    
+    // Never overlap polls
+    if (this.restAbortController !== null) {
+      this.logLifecycle("REST poll skipped: previous poll still in flight");
+      return;
+    }
+    
+    const { outcome, retryAfterMs } = await this.pollRESTEndpoint(session);
+    this.diagnostics.recordRestPoll(outcome);
+    
+    // REST mode was stopped (or restarted) while the request was in flight
+    if (session !== this.restSession) {
+      return;
+    }
+    
+    const nextDelay = computeNextPollDelay(
+      outcome,
+      this.restPollDelay,
+      this.config.restPollingInterval,
+      this.config.restMaxPollingInterval,
+      retryAfterMs
+    );
     
-    // Clear SSE recovery timer
-    if (this.sseRecoveryTimer !== null) {
-      clearInterval(this.sseRecoveryTimer);
-      this.sseRecoveryTimer = null;
+    if (nextDelay !== this.restPollDelay) {
+      this.logLifecycle(`REST poll ${outcome} — next poll in ${nextDelay}ms`);
     }
+    this.restPollDelay = nextDelay;
+    
+    this.restPollingTimer = setTimeout(() => {
+      this.runRESTPoll(session);
+    }, nextDelay);
   }
   
   /**
    * Poll REST endpoint for snapshot
    * 
    * Lifecycle:
-   * 1. Fetch GET /api/v1/latest
-   * 2. Parse JSON
-   * 3. Validate structure
-   * 4. Forward to state layer
+   * 1. Fetch GET /api/v1/latest (conditional if validators are known),
+   *    abortable by stopRESTMode() and by restRequestTimeout
+   * 2. 304 → nothing to do; 429/503 → report Retry-After
+   * 3. Drop the response if the polling session ended meanwhile
+   * 4. Skip bodies identical to the last forwarded snapshot
+   * 5. Parse JSON, translate wire format, validate structure
+   * 6. Forward to state layer
+   * 
+   * @param session - Polling session the request belongs to
    */
-  private async pollRESTEndpoint(): Promise<void> {
+  private async pollRESTEndpoint(
+    session: number
+  ): Promise<{ outcome: RESTPollOutcome; retryAfterMs: number | null }> {
+    const failed = { outcome: RESTPollOutcome.FAILED, retryAfterMs: null };
+    const discarded = { outcome: RESTPollOutcome.DISCARDED, retryAfterMs: null };
+    
+    const abortController = new AbortController();
+    this.restAbortController = abortController;
+    
+    let timedOut = false;
+    const timeoutTimer = setTimeout(() => {
+      timedOut = true;
+      abortController.abort();
+    }, this.config.restRequestTimeout);
+    
     try {
-      // Fetch snapshot
-      const response = await fetch(this.config.restEndpoint, {
+      // Fetch snapshot (bypass the HTTP cache so 304s reach us)
+      const response = await fetch(withWireVersions(this.config.restEndpoint), {
         method: "GET",
+        cache: "no-store",
+        signal: abortController.signal,
         headers: {
-          "Accept": "application/json"
+          "Accept": "application/json",
+          ...buildConditionalHeaders(this.restValidators)
         }
       });
       
+      if (response.status === 304) {
+        return { outcome: RESTPollOutcome.NOT_MODIFIED, retryAfterMs: null };
+      }
+      
+      if (response.status === 429 || response.status === 503) {
+        const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+        this.logError(`REST poll rate limited: HTTP ${response.status}`, null);
+        return { outcome: RESTPollOutcome.RATE_LIMITED, retryAfterMs };
+      }
+      
+      if (response.status === WIRE_VERSIONS_REJECTED_STATUS) {
+        this.logError(`REST poll rejected wire versions ${getSupportedWireVersions().join(",")}`, null);
+        return failed;
+      }
+      
       if (!response.ok) {
         this.logError(`REST poll failed: HTTP ${response.status}`, null);
-        return;
+        return failed;
       }
       
       // Check content type
       const contentType = response.headers.get("content-type");
       if (!contentType || !contentType.includes("application/json")) {
         this.logError("REST poll failed: invalid content-type", null);
-        return;
+        return failed;
+      }
+      
+      // Dedup on raw body before any parsing or validation
+      const body = await response.text();
+      
+      // Generation check: a late response must never reach onPacket
+      if (session !== this.restSession) {
+        return discarded;
+      }
+      
+      const contentHash = hashPayload(body);
+      
+      if (contentHash === this.restValidators.contentHash) {
+        this.storeValidators(response);
+        return { outcome: RESTPollOutcome.UNCHANGED, retryAfterMs: null };
       }
       
       // Parse JSON
-      const data = await response.json();
+      const data = JSON.parse(body);
       
-      // Basic validation (structure only, no crypto)
-      if (!this.isValidPacketStructure(data)) {
-        this.logError("REST poll failed: invalid packet structure", null);
-        return;
+      // Translate wire format (v1 nav packet, v2 aggregate, ...)
+      const adapted = adaptWirePayload(data);
+      if (adapted.ok === false) {
+        this.logError(`REST poll failed: unsupported payload (${adapted.reason})`, null);
+        return failed;
       }
       
+      // Structural decode (shared schema, no crypto)
+      const decoded = decodePacket(adapted.packet);
+      if (decoded.ok === false) {
+        this.logError(`REST poll failed: invalid packet (${describePacketError(decoded.error)})`, null);
+        return failed;
+      }
+      
+      // Validators only advance with an accepted snapshot, so a rejected
+      // body is fetched in full (and re-checked) on the next poll
+      this.restValidators.contentHash = contentHash;
+      this.storeValidators(response);
+      
       // Forward to state layer with source annotation
-      this.handlers.onPacket(data as MarketPacket, DeliveryMode.REST_DEGRADED);
+      this.diagnostics.recordPacket(DeliveryMode.REST_DEGRADED);
+      this.handlers.onPacket(decoded.packet, DeliveryMode.REST_DEGRADED);
       
+      return { outcome: RESTPollOutcome.UPDATED, retryAfterMs: null };
+    
     } catch (err) {
+      if (timedOut) {
+        this.logError(`REST poll timed out after ${this.config.restRequestTimeout}ms`, null);
+        return failed;
+      }
+      
+      if (abortController.signal.aborted) {
+        // Aborted by stopRESTMode() — expected on mode switch
+        return discarded;
+      }
+      
       this.logError("REST poll failed", err);
+      return failed;
+    
+    } finally {
+      clearTimeout(timeoutTimer);
+      
+      if (this.restAbortController === abortController) {
+        this.restAbortController = null;
+      }
     }
   }
   
   /**
-   * Attempt to recover SSE connection
-   * 
-   * Called periodically when in REST_DEGRADED mode.
-   * 
-   * Lifecycle:
-   * 1. Attempt SSE connection
-   * 2. If successful, SSE state change handler will trigger mode switch
-   * 3. If failed, remain in REST mode (next attempt in 30s)
+   * Remember ETag / Last-Modified for the next conditional request
    */
-  private attemptSSERecovery(): void {
-    this.logLifecycle("Attempting SSE recovery");
+  private storeValidators(response: Response): void {
+    const etag = response.headers.get("etag");
+    const lastModified = response.headers.get("last-modified");
     
-    // Stop REST mode (mutual exclusion)
-    this.stopRESTMode();
-    
-    // Attempt SSE connection
-    this.startSSEMode();
-    
-    // Note: If SSE connection fails immediately, handleSSEStateChange(ERROR)
-    // will be called, which will call degradeToRESTMode() again.
+    if (etag !== null) {
+      this.restValidators.etag = etag;
+    }
+    if (lastModified !== null) {
+      this.restValidators.lastModified = lastModified;
+    }
   }
   
   /* ============================================
-     PRIVATE: MODE MANAGEMENT
+     PRIVATE: RECOVERY PROBATION
      ============================================ */
   
   /**
-   * Update delivery mode
+   * Schedule the next recovery attempt (delay chosen by the retry policy)
+   */
+  private scheduleStreamRecovery(): void {
+    this.cancelStreamRecovery();
+    
+    const delayMs = this.retryPolicy.nextRecoveryDelay(this.recoveryAttempts);
+    this.logLifecycle(`Next stream recovery attempt in ${delayMs}ms`);
+    
+    this.streamRecoveryTimer = setTimeout(() => {
+      this.streamRecoveryTimer = null;
+      this.fire(DeliveryEvent.RECOVERY_ATTEMPT, DeliveryMode.RECOVERING);
+    }, delayMs);
+  }
+  
+  private cancelStreamRecovery(): void {
+    if (this.streamRecoveryTimer !== null) {
+      clearTimeout(this.streamRecoveryTimer);
+      this.streamRecoveryTimer = null;
+    }
+  }
+  
+  /**
+   * Attempt to recover the most preferred stream connection (START_PROBE
+   * effect of RECOVERY_ATTEMPT, contract 4.3)
+   * 
+   * Lifecycle:
+   * 1. Enter RECOVERING: connect the first mode in streamPreference while
+   *    REST keeps polling and remains the source of truth
+   * 2. First valid packet within recoveryProbeTimeout → PROBE_CONFIRMED:
+   *    stop REST, switch to the stream mode, forward that packet
+   * 3. Error, stall or timeout → PROBE_FAILED: drop the trial stream, back
+   *    to REST_DEGRADED (next attempt per retry policy, ~30s by default)
+   */
+  private startRecoveryProbe(): void {
+    this.logLifecycle("Attempting stream recovery");
+    
+    this.recoveryProbe = {
+      mode: this.currentStreamMode(),
+      startedAt: Date.now(),
+      timer: setTimeout(() => {
+        this.failRecoveryProbe(RecoveryProbeOutcome.TIMED_OUT);
+      }, this.config.recoveryProbeTimeout)
+    };
+    
+    // REST keeps running: no STOP_REST until the probe is confirmed
+    this.startStreamClient();
+  }
+  
+  /**
+   * Trial stream delivered a packet: make it the source of truth
    * 
-   * Ensures mode transitions are logged and callbacks invoked.
+   * PROBE_CONFIRMED discards pending REST requests before the stream
+   * packet is forwarded (4.4).
+   */
+  private confirmRecoveryProbe(): void {
+    const probe = this.recoveryProbe!;
+    
+    this.logLifecycle(`Recovery confirmed: ${probe.mode} delivered data`);
+    if (this.fire(DeliveryEvent.PROBE_CONFIRMED, probe.mode)) {
+      this.reportRecoveryProbe(probe, RecoveryProbeOutcome.CONFIRMED);
+    }
+  }
+  
+  /**
+   * Trial stream failed or stayed silent: drop it, stay on REST
    */
-  private setMode(newMode: DeliveryMode): void {
-    if (this.currentMode === newMode) {
+  private failRecoveryProbe(outcome: RecoveryProbeOutcome): void {
+    const probe = this.recoveryProbe;
+    if (probe === null) {
       return;
     }
     
-    const oldMode = this.currentMode;
-    this.currentMode = newMode;
+    this.logLifecycle(`Recovery probe ${outcome}: ${probe.mode} — staying on REST`);
     
-    this.logLifecycle(`Mode transition: ${oldMode} → ${newMode}`);
-    this.handlers.onModeChange(newMode);
+    // SCHEDULE_RECOVERY backs off by the number of failed attempts
+    this.recoveryAttempts++;
+    
+    if (this.fire(DeliveryEvent.PROBE_FAILED, DeliveryMode.REST_DEGRADED)) {
+      this.reportRecoveryProbe(probe, outcome);
+    }
+  }
+  
+  private clearRecoveryProbe(): void {
+    if (this.recoveryProbe !== null) {
+      clearTimeout(this.recoveryProbe.timer);
+      this.recoveryProbe = null;
+    }
+  }
+  
+  private reportRecoveryProbe(
+    probe: { mode: StreamDeliveryMode; startedAt: number },
+    outcome: RecoveryProbeOutcome
+  ): void {
+    this.diagnostics.recordProbe(
+      outcome === RecoveryProbeOutcome.CONFIRMED,
+      outcome === RecoveryProbeOutcome.TIMED_OUT
+    );
+    
+    if (this.handlers.onRecoveryProbe) {
+      this.handlers.onRecoveryProbe({
+        mode: probe.mode,
+        outcome,
+        durationMs: Date.now() - probe.startedAt
+      });
+    }
   }
   
   /* ============================================
-     PRIVATE: VALIDATION
+     PRIVATE: NETWORK & VISIBILITY
      ============================================ */
   
   /**
-   * Basic packet structure validation (copied from SSEClient)
-   * 
-   * Note: This is NOT cryptographic validation.
-   * Signature verification is delegated to state layer.
+   * Subscribe to online/offline and visibilitychange, and read the
+   * current state. Works in windows and workers (no document there).
    */
-  private isValidPacketStructure(packet: any): boolean {
-    try {
-      if (!packet || typeof packet !== "object") {
-        return false;
+  private attachEnvironmentListeners(): void {
+    // Window or worker global; navigator and document may be missing
+    const scope: EventTarget & { navigator?: Navigator; document?: Document } = globalThis;
+    const { navigator, document } = scope;
+    
+    if (this.config.trackNetworkStatus && typeof scope.addEventListener === "function") {
+      if (navigator !== undefined && typeof navigator.onLine === "boolean") {
+        this.isOnline = navigator.onLine;
       }
       
-      // Check for nav field
-      if (!packet.nav || typeof packet.nav !== "object") {
-        return false;
-      }
+      const onOnline = () => this.setNetworkStatus(true);
+      const onOffline = () => this.setNetworkStatus(false);
+      scope.addEventListener("online", onOnline);
+      scope.addEventListener("offline", onOffline);
       
-      // Determine tier (default to 0 if not specified)
-      const tier = packet.meta?.tier ?? 0;
+      this.environmentListeners.push(() => {
+        scope.removeEventListener("online", onOnline);
+        scope.removeEventListener("offline", onOffline);
+      });
+    }
+    
+    if (this.config.pauseWhenHidden && document !== undefined) {
+      this.isVisible = document.visibilityState !== "hidden";
       
-      // Validate tier is 0, 1, or 2
-      if (![0, 1, 2].includes(tier)) {
-        return false;
-      }
+      const onVisibilityChange = () => this.setVisibility(document.visibilityState !== "hidden");
+      document.addEventListener("visibilitychange", onVisibilityChange);
       
-      // Tier 0: unsigned, minimal fields
-      if (tier === 0) {
-        return (
-          typeof packet.nav.regime === "string" &&
-          typeof packet.nav.risk === "string" &&
-          typeof packet.nav.confidence === "string"
-        );
+      this.environmentListeners.push(() => {
+        document.removeEventListener("visibilitychange", onVisibilityChange);
+      });
+    }
+  }
+  
+  private detachEnvironmentListeners(): void {
+    for (const detach of this.environmentListeners) {
+      detach();
+    }
+    this.environmentListeners = [];
+  }
+  
+  /**
+   * Reconcile the delivery mode with network and visibility
+   * 
+   * - Offline → DISCONNECTED immediately (takes precedence over hidden)
+   * - Hidden → PAUSED after hiddenPauseDelay (immediately if already suspended)
+   * - Online and visible again → resume without backoff
+   */
+  private applyEnvironment(): void {
+    if (!this.isStarted) {
+      return;
+    }
+    
+    if (!this.isOnline) {
+      this.clearPauseTimer();
+      this.suspend(DeliveryMode.DISCONNECTED);
+      return;
+    }
+    
+    if (!this.isVisible && this.config.pauseWhenHidden) {
+      if (this.isSuspended()) {
+        this.suspend(DeliveryMode.PAUSED);
+      } else if (this.pauseTimer === null) {
+        this.pauseTimer = setTimeout(() => {
+          this.pauseTimer = null;
+          this.suspend(DeliveryMode.PAUSED);
+        }, this.config.hiddenPauseDelay);
       }
-      
-      // Tier 1/2: signed, with meta
-      if (tier === 1 || tier === 2) {
-        if (!packet.meta || typeof packet.meta !== "object") {
-          return false;
-        }
-        
-        if (
-          typeof packet.meta.signature !== "string" ||
-          typeof packet.meta.kid !== "string" ||
-          typeof packet.meta.issued_at !== "string"
-        ) {
-          return false;
-        }
-        
-        // Tier 1: includes bias/stability
-        if (
-          typeof packet.nav.bias !== "string" ||
-          typeof packet.nav.stability !== "string"
-        ) {
-          return false;
-        }
-        
-        // Tier 2: includes navigator
-        if (tier === 2) {
-          if (!packet.navigator || typeof packet.navigator !== "object") {
-            return false;
-          }
-          
-          if (
-            !Array.isArray(packet.navigator.drivers) ||
-            !Array.isArray(packet.navigator.blockers) ||
-            !Array.isArray(packet.navigator.gaps)
-          ) {
-            return false;
-          }
-        }
+      return;
+    }
+    
+    this.clearPauseTimer();
+    
+    if (this.isSuspended()) {
+      this.resume();
+    }
+  }
+  
+  private isSuspended(): boolean {
+    const mode = this.machine.getMode();
+    return mode === DeliveryMode.DISCONNECTED || mode === DeliveryMode.PAUSED;
+  }
+  
+  /**
+   * Stop every delivery mechanism and enter DISCONNECTED or PAUSED
+   */
+  private suspend(mode: DeliveryMode.DISCONNECTED | DeliveryMode.PAUSED): void {
+    if (this.machine.getMode() === mode) {
+      return;
+    }
+    
+    this.logLifecycle(`Suspending delivery (${mode})`);
+    
+    const event = mode === DeliveryMode.DISCONNECTED ? DeliveryEvent.OFFLINE : DeliveryEvent.HIDDEN;
+    if (this.fire(event, mode)) {
+      this.diagnostics.recordSuspension();
+    }
+  }
+  
+  /**
+   * Leave DISCONNECTED/PAUSED: fresh attempt at the most preferred
+   * stream mode, skipping any backoff accumulated before suspension
+   */
+  private resume(): void {
+    this.logLifecycle(`Resuming delivery from ${this.machine.getMode()}`);
+    this.fire(DeliveryEvent.RESUME, this.config.streamPreference[0]);
+  }
+  
+  private clearPauseTimer(): void {
+    if (this.pauseTimer !== null) {
+      clearTimeout(this.pauseTimer);
+      this.pauseTimer = null;
+    }
+  }
+  
+  /* ============================================
+     PRIVATE: MODE MANAGEMENT
+     ============================================ */
+  
+  /**
+   * Fire a state machine event
+   * 
+   * @returns True if the transition was applied
+   */
+  private fire(event: DeliveryEvent, to: DeliveryMode): boolean {
+    return this.machine.fire(event, to).ok;
+  }
+  
+  /**
+   * Guards and effects named in the transition table
+   */
+  private createMachineHooks(): DeliveryStateMachineHooks {
+    return {
+      guards: {
+        [DeliveryGuard.STARTED]: () => this.isStarted,
+        [DeliveryGuard.NO_PROBE]: () => this.recoveryProbe === null,
+        [DeliveryGuard.PROBE_ACTIVE]: () => this.recoveryProbe !== null,
+        [DeliveryGuard.HAS_NEXT_STREAM]: () => this.hasNextStreamMode(),
+        [DeliveryGuard.STREAMS_EXHAUSTED]: () => !this.hasNextStreamMode()
+      },
+      effects: {
+        [DeliveryEffect.CLEAR_RETRY]: () => this.clearRetryTimer(),
+        [DeliveryEffect.CLEAR_PROBE]: () => this.clearRecoveryProbe(),
+        [DeliveryEffect.STOP_STREAM]: () => this.stopStreamMode(),
+        [DeliveryEffect.STOP_REST]: () => this.stopRESTMode(),
+        [DeliveryEffect.CANCEL_RECOVERY]: () => this.cancelStreamRecovery(),
+        [DeliveryEffect.RESET_STREAMS]: () => {
+          this.streamIndex = 0;
+          this.streamErrorCount = 0;
+        },
+        [DeliveryEffect.NEXT_STREAM]: () => {
+          this.streamIndex++;
+          this.streamErrorCount = 0;
+          this.diagnostics.recordFallthrough();
+        },
+        [DeliveryEffect.START_STREAM]: () => this.startStreamClient(),
+        [DeliveryEffect.START_REST]: () => this.startRESTMode(),
+        [DeliveryEffect.SCHEDULE_RECOVERY]: () => this.scheduleStreamRecovery(),
+        [DeliveryEffect.START_PROBE]: () => this.startRecoveryProbe()
+      },
+      onModeChange: this.handleModeChange.bind(this),
+      onRejected: (record) => {
+        this.logError(`Transition ${record.event} ${record.from} → ${record.to} rejected: ${record.rejected}`, null);
       }
-      
-      return true;
-      
+    };
+  }
+  
+  /**
+   * Log, record and announce an applied mode change
+   */
+  private handleModeChange(oldMode: DeliveryMode, newMode: DeliveryMode): void {
+    this.logLifecycle(`Mode transition: ${oldMode} → ${newMode}`);
+    this.diagnostics.recordModeChange(newMode);
+    this.handlers.onModeChange(newMode);
+    this.emitDiagnostics();
+  }
+  
+  /* ============================================
+     PRIVATE: DIAGNOSTICS
+     ============================================ */
+  
+  private emitDiagnostics(): void {
+    if (this.diagnosticsListeners.size === 0) {
+      return;
+    }
+    
+    const snapshot = this.getDiagnostics();
+    for (const listener of this.diagnosticsListeners) {
+      this.notifyDiagnosticsListener(listener, snapshot);
+    }
+  }
+  
+  private notifyDiagnosticsListener(
+    listener: DeliveryDiagnosticsListener,
+    snapshot: DeliveryDiagnostics
+  ): void {
+    try {
+      listener(snapshot);
     } catch (err) {
-      return false;
+      this.logError("Diagnostics listener failed", err);
     }
   }
   
@@ -0,0 +1,223 @@
+/**
+ * Delivery Diagnostics tests — Phase 22.3
+ * Market Navigation System (MNS)
+ * 
+ * A controller driven with fake timers, a scripted SSE transport and a
+ * fake fetch: ingest and throttle counters, per-mode uptime, the
+ * inter-arrival histogram, reconnects, REST outcomes and live
+ * subscriptions. Trust decisions are fed to the recorder directly.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DeliveryDiagnostics, DeliveryDiagnosticsRecorder } from "./deliveryDiagnostics.js";
+import { DeliveryMode } from "./deliveryMode.js";
+import { createDeliveryController } from "./deliveryController.js";
+import { createFixedRetryPolicy } from "./retryPolicy.js";
+import { RESTPollOutcome } from "./restPolling.js";
+import { ThrottlePolicy } from "../packet/packetThrottle.js";
+import { SSETransport, SSETransportError, SSETransportListener } from "../sse/sseTransport.js";
+import { MarketPacket, NavFields } from "../packet/packetSchema.js";
+import { ReplayReason } from "../packet/replayGuard.js";
+import { ValidationReason } from "../packet/validationReason.js";
+
+const PACKET = { nav: { regime: "EXPANSION" } } as MarketPacket;
+const NAV = { regime: "EXPANSION" } as NavFields;
+
+describe("validation counters", () => {
+  it("counts a verified packet only once the replay guard admits it", () => {
+    const recorder = new DeliveryDiagnosticsRecorder(DeliveryMode.SSE_PRIMARY, 0);
+    
+    recorder.recordValidation({ ok: true, tier: 2, packet: PACKET });
+    recorder.recordValidation({ ok: true, tier: 2, packet: PACKET });
+    recorder.recordValidation({ ok: true, tier: 2, packet: PACKET });
+    expect(recorder.snapshot(null, null, 0).validation.verified).toBe(0);
+    
+    recorder.recordAdmission({ ok: true });
+    recorder.recordAdmission({ ok: false, reason: ReplayReason.DUPLICATE });
+    recorder.recordAdmission({ ok: false, reason: ReplayReason.NON_MONOTONIC });
+    
+    const { validation } = recorder.snapshot(null, null, 0);
+    expect(validation.verified).toBe(1);
+    expect(validation.replayed).toEqual({
+      [ReplayReason.DUPLICATE]: 1,
+      [ReplayReason.NON_MONOTONIC]: 1,
+      [ReplayReason.MISSING_META]: 0
+    });
+  });
+  
+  it("counts public and unverified results as they arrive", () => {
+    const recorder = new DeliveryDiagnosticsRecorder(DeliveryMode.SSE_PRIMARY, 0);
+    
+    recorder.recordValidation({ ok: true, tier: 0, packet: NAV });
+    recorder.recordValidation({ ok: false, reason: ValidationReason.STALE_PACKET, detail: "" });
+    
+    const { validation } = recorder.snapshot(null, null, 0);
+    expect(validation.public).toBe(1);
+    expect(validation.unverified[ValidationReason.STALE_PACKET]).toBe(1);
+    expect(validation.verified).toBe(0);
+  });
+});
+
+/* ============================================
+   CONTROLLER SNAPSHOTS
+   ============================================ */
+
+const START = Date.parse("2026-10-19T12:00:00.000Z");
+const NAV_JSON = JSON.stringify({ nav: { regime: "EXPANSION", risk: "NORMAL", confidence: "HIGH" } });
+
+describe("DeliveryController diagnostics", () => {
+  let streams: SSETransportListener[];
+  let restStatus: number;
+  
+  function stream(): SSETransportListener {
+    return streams[streams.length - 1];
+  }
+  
+  function send(data: string): void {
+    stream().onEvent({ type: "nav_update", data, lastEventId: "" });
+  }
+  
+  function createController() {
+    return createDeliveryController(
+      {
+        sseTransportFactory: (): SSETransport => ({
+          supportsHeaders: true,
+          open: (_request, listener) => {
+            streams.push(listener);
+          },
+          close: () => undefined
+        }),
+        streamPreference: [DeliveryMode.SSE_PRIMARY],
+        retryPolicy: createFixedRetryPolicy({ maxRetries: 3, delayMs: 1000, recoveryIntervalMs: 60000 }),
+        throttleMs: 1000,
+        throttlePolicy: ThrottlePolicy.DROP,
+        maxPayloadSize: 256,
+        restPollingInterval: 2000,
+        diagnosticsInterval: 1000,
+        trackNetworkStatus: false,
+        pauseWhenHidden: false
+      },
+      { onPacket: () => undefined, onModeChange: () => undefined }
+    );
+  }
+  
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    
+    streams = [];
+    restStatus = 200;
+    vi.stubGlobal("fetch", vi.fn(async () => restStatus === 200
+      ? new Response(NAV_JSON, { status: 200, headers: { "Content-Type": "application/json" } })
+      : new Response("", { status: restStatus })));
+  });
+  
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+  
+  it("counts stream ingest, throttle drops and packet timing", async () => {
+    const controller = createController();
+    controller.start();
+    stream().onOpen({ status: 200 });
+    
+    send(NAV_JSON);
+    await vi.advanceTimersByTimeAsync(100);
+    send(NAV_JSON);
+    send("x".repeat(300));
+    send("{not json");
+    send(JSON.stringify({ foo: 1 }));
+    await vi.advanceTimersByTimeAsync(1100);
+    send(NAV_JSON);
+    await vi.advanceTimersByTimeAsync(3000);
+    send(NAV_JSON);
+    await vi.advanceTimersByTimeAsync(500);
+    
+    const snapshot = controller.getDiagnostics();
+    
+    expect(snapshot.mode).toBe(DeliveryMode.SSE_PRIMARY);
+    expect(snapshot.ingest).toEqual({ received: 7, oversized: 1, nonJson: 1, unnormalizable: 1 });
+    expect(snapshot.throttle).toEqual({ received: 4, delivered: 3, dropped: 1, coalesced: 0 });
+    expect(snapshot.forwarded[DeliveryMode.SSE_PRIMARY]).toBe(3);
+    expect(snapshot.lastPacketAt).toBe(START + 4200);
+    expect(snapshot.lastPacketAgeMs).toBe(500);
+    
+    // Gaps of 1200 and 3000 ms
+    expect(snapshot.interArrival).toMatchObject({ count: 2, meanMs: 2100, maxMs: 3000 });
+    expect(snapshot.interArrival.buckets.filter((bucket) => bucket.count > 0)).toEqual([
+      { upperMs: 2000, count: 1 },
+      { upperMs: 5000, count: 1 }
+    ]);
+    expect(snapshot.interArrival.buckets[snapshot.interArrival.buckets.length - 1].upperMs).toBe(Infinity);
+    
+    controller.stop();
+  });
+  
+  it("splits uptime per mode and tallies reconnects and REST outcomes", async () => {
+    const controller = createController();
+    controller.start();
+    await vi.advanceTimersByTimeAsync(2000);
+    
+    // Fail SSE until the policy gives up: two retries, then REST
+    stream().onError(new SSETransportError("Stream request failed: HTTP 502", 502, true));
+    await vi.advanceTimersByTimeAsync(1000);
+    stream().onError(new SSETransportError("Stream request failed: HTTP 502", 502, true));
+    await vi.advanceTimersByTimeAsync(1000);
+    stream().onError(new SSETransportError("Stream request failed: HTTP 502", 502, true));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(controller.getMode()).toBe(DeliveryMode.REST_DEGRADED);
+    
+    // First poll updated at once; then one unchanged poll and two failures
+    await vi.advanceTimersByTimeAsync(2000);
+    restStatus = 500;
+    await vi.advanceTimersByTimeAsync(3000 + 4500);
+    
+    const snapshot = controller.getDiagnostics();
+    
+    expect(snapshot.uptimeMs[DeliveryMode.SSE_PRIMARY]).toBe(4000);
+    expect(snapshot.uptimeMs[DeliveryMode.REST_DEGRADED]).toBe(9500);
+    expect(snapshot.modeAgeMs).toBe(9500);
+    expect(snapshot.reconnects).toMatchObject({ retries: 2, degradations: 1, fallthroughs: 0 });
+    expect(snapshot.restPolls).toMatchObject({
+      [RESTPollOutcome.UPDATED]: 1,
+      [RESTPollOutcome.UNCHANGED]: 1,
+      [RESTPollOutcome.FAILED]: 2
+    });
+    expect(snapshot.forwarded[DeliveryMode.REST_DEGRADED]).toBe(1);
+    
+    controller.stop();
+  });
+  
+  it("pushes snapshots on subscribe, every interval and on mode changes until unsubscribed", async () => {
+    const controller = createController();
+    const snapshots: DeliveryDiagnostics[] = [];
+    
+    controller.start();
+    const unsubscribe = controller.subscribeDiagnostics((snapshot) => snapshots.push(snapshot));
+    expect(snapshots).toHaveLength(1);
+    
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(snapshots.map((snapshot) => snapshot.timestamp - START)).toEqual([0, 1000, 2000, 3000]);
+    
+    // A mode change is pushed at once, between intervals
+    await vi.advanceTimersByTimeAsync(100);
+    for (let failure = 0; failure < 3; failure++) {
+      stream().onError(new SSETransportError("Stream request failed: HTTP 502", 502, true));
+      await vi.advanceTimersByTimeAsync(failure < 2 ? 1000 : 0);
+    }
+    expect(snapshots.map((snapshot) => snapshot.mode)).toContain(DeliveryMode.REST_DEGRADED);
+    expect(snapshots[snapshots.length - 1]).toMatchObject({ mode: DeliveryMode.REST_DEGRADED, timestamp: START + 5100 });
+    
+    unsubscribe();
+    const pushed = snapshots.length;
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(snapshots).toHaveLength(pushed);
+    
+    controller.stop();
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Delivery Diagnostics — Phase 22.3
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Health counters behind DeliveryController.getDiagnostics()
+ * Used by: DeliveryController
+ * 
+ * Everything here is aggregate numbers — no packet content, no URLs
+ * (Integration Contract Section 7.2).
+ */
+
+"use strict";
+
+import { DeliveryMode } from "./deliveryMode.js";
+import { RESTPollOutcome } from "./restPolling.js";
+import { PacketIngestStats, createIngestStats, addIngestStats } from "../packet/packetIngestStats.js";
+import { PacketThrottleStats } from "../packet/packetThrottle.js";
+import {
+  PacketValidationStats,
+  createValidationStats,
+  copyValidationStats
+} from "../packet/packetValidationStats.js";
+import { ValidationResult } from "../packet/packetValidator.js";
+import { ReplayCheckResult } from "../packet/replayGuard.js";
+
+/* ============================================
+   SNAPSHOT TYPES
+   ============================================ */
+
+/**
+ * One latency histogram bucket: arrivals with gap <= upperMs
+ * (the last bucket has upperMs = Infinity)
+ */
+export interface LatencyBucket {
+  upperMs: number;
+  count: number;
+}
+
+export interface InterArrivalStats {
+  /** Gaps measured (packets forwarded minus one) */
+  count: number;
+  
+  /** Mean gap (null until two packets arrived) */
+  meanMs: number | null;
+  
+  /** Largest gap seen */
+  maxMs: number | null;
+  
+  buckets: LatencyBucket[];
+}
+
+export interface ReconnectStats {
+  /** Stream retries scheduled after a failure */
+  retries: number;
+  
+  /** Moves to the next mode in streamPreference */
+  fallthroughs: number;
+  
+  /** Entries into REST_DEGRADED */
+  degradations: number;
+  
+  /** Recovery probes by outcome */
+  probesConfirmed: number;
+  probesFailed: number;
+  probesTimedOut: number;
+  
+  /** Entries into DISCONNECTED or PAUSED */
+  suspensions: number;
+}
+
+export interface DeliveryDiagnostics {
+  /** Snapshot time (epoch ms) */
+  timestamp: number;
+  
+  mode: DeliveryMode;
+  
+  /** Time spent in the current mode */
+  modeAgeMs: number;
+  
+  /** Cumulative time per mode since the controller was created */
+  uptimeMs: Record<DeliveryMode, number>;
+  
+  /** Stream ingest (all SSE/WebSocket clients, closed and live) */
+  ingest: PacketIngestStats;
+  
+  /** Stream throttle (all SSE/WebSocket clients, closed and live) */
+  throttle: PacketThrottleStats;
+  
+  /** Packets passed to onPacket, by source mode */
+  forwarded: Record<DeliveryMode, number>;
+  
+  /** Last packet passed to onPacket (epoch ms, null if none) */
+  lastPacketAt: number | null;
+  lastPacketAgeMs: number | null;
+  
+  /** Gaps between packets passed to onPacket */
+  interArrival: InterArrivalStats;
+  
+  reconnects: ReconnectStats;
+  
+  /** REST polls by outcome */
+  restPolls: Record<RESTPollOutcome, number>;
+  
+  /** Trust decisions on forwarded packets (reported by whoever validates) */
+  validation: PacketValidationStats;
+}
+
+export type DeliveryDiagnosticsListener = (diagnostics: DeliveryDiagnostics) => void;
+
+/* ============================================
+   RECORDER
+   ============================================ */
+
+/** Histogram upper bounds (ms) */
+const LATENCY_BUCKETS_MS = [100, 250, 500, 1000, 2000, 5000, 10000, 30000, Infinity];
+
+function zeroByMode(): Record<DeliveryMode, number> {
+  const counts = {} as Record<DeliveryMode, number>;
+  for (const mode of Object.values(DeliveryMode)) {
+    counts[mode] = 0;
+  }
+  return counts;
+}
+
+function zeroByOutcome(): Record<RESTPollOutcome, number> {
+  const counts = {} as Record<RESTPollOutcome, number>;
+  for (const outcome of Object.values(RESTPollOutcome)) {
+    counts[outcome] = 0;
+  }
+  return counts;
+}
+
+/**
+ * Accumulates delivery counters; the controller feeds it and asks for
+ * snapshots (adding the stats of whichever stream client is live)
+ */
+export class DeliveryDiagnosticsRecorder {
+  private mode: DeliveryMode;
+  private modeSince: number;
+  private uptime: Record<DeliveryMode, number> = zeroByMode();
+  
+  // Totals of stream clients that have been closed
+  private closedIngest: PacketIngestStats = createIngestStats();
+  private closedThrottle: PacketThrottleStats = { received: 0, delivered: 0, dropped: 0, coalesced: 0 };
+  
+  private forwarded: Record<DeliveryMode, number> = zeroByMode();
+  private lastPacketAt: number | null = null;
+  private gapCount: number = 0;
+  private gapTotalMs: number = 0;
+  private gapMaxMs: number | null = null;
+  private gapBuckets: number[] = LATENCY_BUCKETS_MS.map(() => 0);
+  
+  private reconnects: ReconnectStats = {
+    retries: 0,
+    fallthroughs: 0,
+    degradations: 0,
+    probesConfirmed: 0,
+    probesFailed: 0,
+    probesTimedOut: 0,
+    suspensions: 0
+  };
+  
+  private restPolls: Record<RESTPollOutcome, number> = zeroByOutcome();
+  private validation: PacketValidationStats = createValidationStats();
+  
+  constructor(initialMode: DeliveryMode, now: number = Date.now()) {
+    this.mode = initialMode;
+    this.modeSince = now;
+  }
+  
+  public recordModeChange(mode: DeliveryMode, now: number = Date.now()): void {
+    this.uptime[this.mode] += now - this.modeSince;
+    this.mode = mode;
+    this.modeSince = now;
+  }
+  
+  public recordRetry(): void {
+    this.reconnects.retries++;
+  }
+  
+  public recordFallthrough(): void {
+    this.reconnects.fallthroughs++;
+  }
+  
+  public recordDegradation(): void {
+    this.reconnects.degradations++;
+  }
+  
+  public recordSuspension(): void {
+    this.reconnects.suspensions++;
+  }
+  
+  /**
+   * @param confirmed - Probe delivered a packet
+   * @param timedOut - Probe failed by silence rather than an error
+   */
+  public recordProbe(confirmed: boolean, timedOut: boolean = false): void {
+    if (confirmed) {
+      this.reconnects.probesConfirmed++;
+    } else if (timedOut) {
+      this.reconnects.probesTimedOut++;
+    } else {
+      this.reconnects.probesFailed++;
+    }
+  }
+  
+  public recordRestPoll(outcome: RESTPollOutcome): void {
+    this.restPolls[outcome]++;
+  }
+  
+  /**
+   * Count a validation outcome (a verified Tier 1/2 packet is counted
+   * by recordAdmission, once the replay guard has decided on it)
+   */
+  public recordValidation(result: ValidationResult): void {
+    if (result.ok === false) {
+      this.validation.unverified[result.reason]++;
+    } else if (result.tier === 0) {
+      this.validation.public++;
+    }
+  }
+  
+  public recordAdmission(check: ReplayCheckResult): void {
+    if (check.ok === false) {
+      this.validation.replayed[check.reason]++;
+    } else {
+      this.validation.verified++;
+    }
+  }
+  
+  public recordPacket(source: DeliveryMode, now: number = Date.now()): void {
+    this.forwarded[source]++;
+    
+    if (this.lastPacketAt !== null) {
+      const gap = Math.max(now - this.lastPacketAt, 0);
+      this.gapCount++;
+      this.gapTotalMs += gap;
+      this.gapMaxMs = this.gapMaxMs === null ? gap : Math.max(this.gapMaxMs, gap);
+      this.gapBuckets[LATENCY_BUCKETS_MS.findIndex((upper) => gap <= upper)]++;
+    }
+    
+    this.lastPacketAt = now;
+  }
+  
+  /**
+   * Fold the final counters of a stream client that is being closed
+   */
+  public absorbClientStats(ingest: PacketIngestStats, throttle: PacketThrottleStats): void {
+    this.closedIngest = addIngestStats(this.closedIngest, ingest);
+    this.closedThrottle = addThrottleStats(this.closedThrottle, throttle);
+  }
+  
+  /**
+   * Build a snapshot
+   * 
+   * @param liveIngest - Counters of the live stream client (if any)
+   * @param liveThrottle - Throttle counters of the live stream client (if any)
+   */
+  public snapshot(
+    liveIngest: PacketIngestStats | null,
+    liveThrottle: PacketThrottleStats | null,
+    now: number = Date.now()
+  ): DeliveryDiagnostics {
+    const uptimeMs = { ...this.uptime };
+    uptimeMs[this.mode] += now - this.modeSince;
+    
+    return {
+      timestamp: now,
+      mode: this.mode,
+      modeAgeMs: now - this.modeSince,
+      uptimeMs,
+      ingest: liveIngest ? addIngestStats(this.closedIngest, liveIngest) : { ...this.closedIngest },
+      throttle: liveThrottle ? addThrottleStats(this.closedThrottle, liveThrottle) : { ...this.closedThrottle },
+      forwarded: { ...this.forwarded },
+      lastPacketAt: this.lastPacketAt,
+      lastPacketAgeMs: this.lastPacketAt === null ? null : now - this.lastPacketAt,
+      interArrival: {
+        count: this.gapCount,
+        meanMs: this.gapCount === 0 ? null : Math.round(this.gapTotalMs / this.gapCount),
+        maxMs: this.gapMaxMs,
+        buckets: LATENCY_BUCKETS_MS.map((upperMs, i) => ({ upperMs, count: this.gapBuckets[i] }))
+      },
+      reconnects: { ...this.reconnects },
+      restPolls: { ...this.restPolls },
+      validation: copyValidationStats(this.validation)
+    };
+  }
+}
+
+function addThrottleStats(a: PacketThrottleStats, b: PacketThrottleStats): PacketThrottleStats {
+  return {
+    received: a.received + b.received,
+    delivered: a.delivered + b.delivered,
+    dropped: a.dropped + b.dropped,
+    coalesced: a.coalesced + b.coalesced
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Delivery Mode — Phase 22.3
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Delivery mode enum shared by DeliveryController and its helpers
+ * (kept separate so helpers do not import the controller)
+ */
+
+"use strict";
+
+/* ============================================
+   DELIVERY MODE
+   ============================================ */
+
+/**
+ * Delivery mode state
+ * 
+ * CRITICAL INVARIANT: Only ONE mode can be active at any time.
+ * SSE_PRIMARY, WS_PRIMARY, REST_DEGRADED, RECOVERING, DISCONNECTED and
+ * PAUSED are mutually exclusive. In RECOVERING a trial stream is
+ * connected next to REST, but only REST forwards packets until the
+ * trial stream is confirmed.
+ */
+export enum DeliveryMode {
+  /** SSE active, WebSocket and REST inactive */
+  SSE_PRIMARY = "SSE_PRIMARY",
+  
+  /** WebSocket active, SSE and REST inactive */
+  WS_PRIMARY = "WS_PRIMARY",
+  
+  /** REST polling active, SSE and WebSocket inactive */
+  REST_DEGRADED = "REST_DEGRADED",
+  
+  /** REST polling active (source of truth), trial stream on probation */
+  RECOVERING = "RECOVERING",
+  
+  /** Browser offline — nothing active (contract 5.3) */
+  DISCONNECTED = "DISCONNECTED",
+  
+  /** Tab hidden — nothing active */
+  PAUSED = "PAUSED"
+}
+
+/**
+ * Stream modes, in the order tried by default
+ */
+export type StreamDeliveryMode = DeliveryMode.SSE_PRIMARY | DeliveryMode.WS_PRIMARY;
@@ -0,0 +1,458 @@
+/**
+ * Delivery State Machine — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Declarative transition table for the delivery modes
+ * Used by: DeliveryController, contract docs (renderDeliveryStateDiagram)
+ * 
+ * Every mode change goes through DeliveryStateMachine.fire():
+ * 1. A row must exist for (event, current mode, target mode)
+ * 2. All guards of the row must pass (plus STARTED, for every row)
+ * 3. The mode changes, then the row's effects run in order
+ * 
+ * Anything else is rejected: nothing changes, no effect runs, and the
+ * rejection is kept in the transition log. Guards and effects are named
+ * here and implemented by the controller, so the table stays data that
+ * can be rendered (see docs/INTEGRATION_CONTRACT_PHASE_22.md, 7.8).
+ */
+
+"use strict";
+
+import { DeliveryMode } from "./deliveryMode.js";
+
+/* ============================================
+   EVENTS, GUARDS, EFFECTS
+   ============================================ */
+
+export enum DeliveryEvent {
+  /** start() while online and visible */
+  START = "START",
+  
+  /** Retry timer fired for the current stream mode */
+  RETRY = "RETRY",
+  
+  /** Retry policy gave up; next mode in streamPreference */
+  FALL_THROUGH = "FALL_THROUGH",
+  
+  /** Stream client reached CONNECTED */
+  CONNECTED = "CONNECTED",
+  
+  /** Retry policy gave up on the last stream mode */
+  DEGRADE = "DEGRADE",
+  
+  /** Recovery timer fired while on REST */
+  RECOVERY_ATTEMPT = "RECOVERY_ATTEMPT",
+  
+  /** Trial stream delivered its first packet */
+  PROBE_CONFIRMED = "PROBE_CONFIRMED",
+  
+  /** Trial stream errored, stalled or timed out */
+  PROBE_FAILED = "PROBE_FAILED",
+  
+  /** Browser went offline */
+  OFFLINE = "OFFLINE",
+  
+  /** Document hidden for hiddenPauseDelay */
+  HIDDEN = "HIDDEN",
+  
+  /** Online and visible again */
+  RESUME = "RESUME"
+}
+
+export enum DeliveryGuard {
+  /** Controller is started (checked for every row) */
+  STARTED = "STARTED",
+  
+  /** No trial stream on probation */
+  NO_PROBE = "NO_PROBE",
+  
+  /** A trial stream is on probation */
+  PROBE_ACTIVE = "PROBE_ACTIVE",
+  
+  /** streamPreference has a mode after the current one */
+  HAS_NEXT_STREAM = "HAS_NEXT_STREAM",
+  
+  /** Current mode is the last one in streamPreference */
+  STREAMS_EXHAUSTED = "STREAMS_EXHAUSTED"
+}
+
+export enum DeliveryEffect {
+  /** Cancel a pending stream retry */
+  CLEAR_RETRY = "CLEAR_RETRY",
+  
+  /** Drop the recovery probe (timer only, no outcome reported) */
+  CLEAR_PROBE = "CLEAR_PROBE",
+  
+  /** Disconnect the SSE/WebSocket client */
+  STOP_STREAM = "STOP_STREAM",
+  
+  /** Abort in-flight polls, cancel the next poll */
+  STOP_REST = "STOP_REST",
+  
+  /** Cancel the recovery timer */
+  CANCEL_RECOVERY = "CANCEL_RECOVERY",
+  
+  /** Back to the first mode in streamPreference, error count cleared */
+  RESET_STREAMS = "RESET_STREAMS",
+  
+  /** Advance to the next mode in streamPreference, error count cleared */
+  NEXT_STREAM = "NEXT_STREAM",
+  
+  /** Connect the client for the current preference position */
+  START_STREAM = "START_STREAM",
+  
+  /** Fresh REST session and immediate first poll */
+  START_REST = "START_REST",
+  
+  /** Schedule the next recovery attempt (retry policy delay) */
+  SCHEDULE_RECOVERY = "SCHEDULE_RECOVERY",
+  
+  /** Connect a trial stream next to REST, start the probe timer */
+  START_PROBE = "START_PROBE"
+}
+
+/* ============================================
+   TRANSITION TABLE
+   ============================================ */
+
+export interface DeliveryTransition {
+  event: DeliveryEvent;
+  
+  /** Source modes ("ANY": every mode, drawn as the initial state) */
+  from: readonly DeliveryMode[] | "ANY";
+  
+  /** Allowed targets (the caller names the target when firing) */
+  to: readonly DeliveryMode[];
+  
+  guards: readonly DeliveryGuard[];
+  
+  effects: readonly DeliveryEffect[];
+}
+
+const STREAM_MODES: readonly DeliveryMode[] = [DeliveryMode.SSE_PRIMARY, DeliveryMode.WS_PRIMARY];
+
+const ACTIVE_MODES: readonly DeliveryMode[] = [
+  DeliveryMode.SSE_PRIMARY,
+  DeliveryMode.WS_PRIMARY,
+  DeliveryMode.REST_DEGRADED,
+  DeliveryMode.RECOVERING
+];
+
+const SUSPEND_EFFECTS: readonly DeliveryEffect[] = [
+  DeliveryEffect.CLEAR_PROBE,
+  DeliveryEffect.CLEAR_RETRY,
+  DeliveryEffect.STOP_STREAM,
+  DeliveryEffect.STOP_REST,
+  DeliveryEffect.CANCEL_RECOVERY
+];
+
+/**
+ * Every legal transition
+ * 
+ * REST is only ever stopped where it can be running (RECOVERING and
+ * suspension); stream-to-stream transitions never touch REST or the
+ * recovery timer.
+ */
+export const DELIVERY_TRANSITIONS: readonly DeliveryTransition[] = Object.freeze([
+  {
+    event: DeliveryEvent.START,
+    from: "ANY",
+    to: STREAM_MODES,
+    guards: [],
+    effects: [DeliveryEffect.RESET_STREAMS, DeliveryEffect.CLEAR_RETRY, DeliveryEffect.STOP_STREAM, DeliveryEffect.START_STREAM]
+  },
+  {
+    event: DeliveryEvent.RETRY,
+    from: [DeliveryMode.SSE_PRIMARY],
+    to: [DeliveryMode.SSE_PRIMARY],
+    guards: [DeliveryGuard.NO_PROBE],
+    effects: [DeliveryEffect.STOP_STREAM, DeliveryEffect.START_STREAM]
+  },
+  {
+    event: DeliveryEvent.RETRY,
+    from: [DeliveryMode.WS_PRIMARY],
+    to: [DeliveryMode.WS_PRIMARY],
+    guards: [DeliveryGuard.NO_PROBE],
+    effects: [DeliveryEffect.STOP_STREAM, DeliveryEffect.START_STREAM]
+  },
+  {
+    event: DeliveryEvent.FALL_THROUGH,
+    from: [DeliveryMode.SSE_PRIMARY],
+    to: [DeliveryMode.WS_PRIMARY],
+    guards: [DeliveryGuard.NO_PROBE, DeliveryGuard.HAS_NEXT_STREAM],
+    effects: [DeliveryEffect.CLEAR_RETRY, DeliveryEffect.STOP_STREAM, DeliveryEffect.NEXT_STREAM, DeliveryEffect.START_STREAM]
+  },
+  {
+    event: DeliveryEvent.FALL_THROUGH,
+    from: [DeliveryMode.WS_PRIMARY],
+    to: [DeliveryMode.SSE_PRIMARY],
+    guards: [DeliveryGuard.NO_PROBE, DeliveryGuard.HAS_NEXT_STREAM],
+    effects: [DeliveryEffect.CLEAR_RETRY, DeliveryEffect.STOP_STREAM, DeliveryEffect.NEXT_STREAM, DeliveryEffect.START_STREAM]
+  },
+  {
+    event: DeliveryEvent.CONNECTED,
+    from: [DeliveryMode.SSE_PRIMARY],
+    to: [DeliveryMode.SSE_PRIMARY],
+    guards: [DeliveryGuard.NO_PROBE],
+    effects: [DeliveryEffect.CLEAR_RETRY]
+  },
+  {
+    event: DeliveryEvent.CONNECTED,
+    from: [DeliveryMode.WS_PRIMARY],
+    to: [DeliveryMode.WS_PRIMARY],
+    guards: [DeliveryGuard.NO_PROBE],
+    effects: [DeliveryEffect.CLEAR_RETRY]
+  },
+  {
+    event: DeliveryEvent.DEGRADE,
+    from: STREAM_MODES,
+    to: [DeliveryMode.REST_DEGRADED],
+    guards: [DeliveryGuard.NO_PROBE, DeliveryGuard.STREAMS_EXHAUSTED],
+    effects: [DeliveryEffect.CLEAR_RETRY, DeliveryEffect.STOP_STREAM, DeliveryEffect.START_REST, DeliveryEffect.SCHEDULE_RECOVERY]
+  },
+  {
+    event: DeliveryEvent.RECOVERY_ATTEMPT,
+    from: [DeliveryMode.REST_DEGRADED],
+    to: [DeliveryMode.RECOVERING],
+    guards: [DeliveryGuard.NO_PROBE],
+    effects: [DeliveryEffect.RESET_STREAMS, DeliveryEffect.START_PROBE]
+  },
+  {
+    event: DeliveryEvent.PROBE_CONFIRMED,
+    from: [DeliveryMode.RECOVERING],
+    to: STREAM_MODES,
+    guards: [DeliveryGuard.PROBE_ACTIVE],
+    effects: [DeliveryEffect.CLEAR_PROBE, DeliveryEffect.STOP_REST, DeliveryEffect.CANCEL_RECOVERY]
+  },
+  {
+    event: DeliveryEvent.PROBE_FAILED,
+    from: [DeliveryMode.RECOVERING],
+    to: [DeliveryMode.REST_DEGRADED],
+    guards: [DeliveryGuard.PROBE_ACTIVE],
+    effects: [DeliveryEffect.CLEAR_PROBE, DeliveryEffect.CLEAR_RETRY, DeliveryEffect.STOP_STREAM, DeliveryEffect.SCHEDULE_RECOVERY]
+  },
+  {
+    event: DeliveryEvent.OFFLINE,
+    from: [...ACTIVE_MODES, DeliveryMode.PAUSED],
+    to: [DeliveryMode.DISCONNECTED],
+    guards: [],
+    effects: SUSPEND_EFFECTS
+  },
+  {
+    event: DeliveryEvent.HIDDEN,
+    from: [...ACTIVE_MODES, DeliveryMode.DISCONNECTED],
+    to: [DeliveryMode.PAUSED],
+    guards: [],
+    effects: SUSPEND_EFFECTS
+  },
+  {
+    event: DeliveryEvent.RESUME,
+    from: [DeliveryMode.DISCONNECTED, DeliveryMode.PAUSED],
+    to: STREAM_MODES,
+    guards: [],
+    effects: [DeliveryEffect.RESET_STREAMS, DeliveryEffect.STOP_STREAM, DeliveryEffect.START_STREAM]
+  }
+] as DeliveryTransition[]);
+
+/**
+ * Row for an event between two modes, if any
+ */
+export function findTransition(
+  event: DeliveryEvent,
+  from: DeliveryMode,
+  to: DeliveryMode,
+  transitions: readonly DeliveryTransition[] = DELIVERY_TRANSITIONS
+): DeliveryTransition | null {
+  for (const transition of transitions) {
+    if (
+      transition.event === event &&
+      (transition.from === "ANY" || transition.from.includes(from)) &&
+      transition.to.includes(to)
+    ) {
+      return transition;
+    }
+  }
+  
+  return null;
+}
+
+/* ============================================
+   DIAGRAM
+   ============================================ */
+
+/**
+ * Render the table as a Mermaid state diagram
+ * 
+ * Edges are labelled "EVENT [GUARDS]"; STARTED is implied and omitted.
+ */
+export function renderDeliveryStateDiagram(
+  transitions: readonly DeliveryTransition[] = DELIVERY_TRANSITIONS
+): string {
+  const lines = ["stateDiagram-v2"];
+  
+  for (const transition of transitions) {
+    const guards = transition.guards.length > 0 ? ` [${transition.guards.join(", ")}]` : "";
+    const label = `${transition.event}${guards}`;
+    const sources = transition.from === "ANY" ? ["[*]"] : transition.from;
+    
+    for (const from of sources) {
+      for (const to of transition.to) {
+        lines.push(`    ${from} --> ${to}: ${label}`);
+      }
+    }
+  }
+  
+  return lines.join("\n");
+}
+
+/* ============================================
+   STATE MACHINE
+   ============================================ */
+
+export interface DeliveryTransitionRecord {
+  /** Epoch milliseconds */
+  at: number;
+  
+  event: DeliveryEvent;
+  from: DeliveryMode;
+  to: DeliveryMode;
+  
+  /** Why the transition was refused (null: applied) */
+  rejected: string | null;
+}
+
+export type DeliveryTransitionResult =
+  | { ok: true; record: DeliveryTransitionRecord }
+  | { ok: false; error: string };
+
+export interface DeliveryStateMachineHooks {
+  guards: Record<DeliveryGuard, () => boolean>;
+  effects: Record<DeliveryEffect, () => void>;
+  
+  /** Called after the mode changed, before the effects run (not for self-transitions) */
+  onModeChange: (from: DeliveryMode, to: DeliveryMode) => void;
+  
+  /** Called for every refused transition */
+  onRejected?: (record: DeliveryTransitionRecord) => void;
+}
+
+export interface DeliveryStateMachineConfig {
+  /** Transition table (default: DELIVERY_TRANSITIONS) */
+  transitions: readonly DeliveryTransition[];
+  
+  /** Records kept in the transition log (default: 100) */
+  logSize: number;
+}
+
+const DEFAULT_CONFIG: DeliveryStateMachineConfig = {
+  transitions: DELIVERY_TRANSITIONS,
+  logSize: 100
+};
+
+export class DeliveryStateMachine {
+  private config: DeliveryStateMachineConfig;
+  private hooks: DeliveryStateMachineHooks;
+  private mode: DeliveryMode;
+  private log: DeliveryTransitionRecord[] = [];
+  
+  constructor(
+    initialMode: DeliveryMode,
+    hooks: DeliveryStateMachineHooks,
+    config: Partial<DeliveryStateMachineConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.hooks = hooks;
+    this.mode = initialMode;
+  }
+  
+  public getMode(): DeliveryMode {
+    return this.mode;
+  }
+  
+  /**
+   * Applied and refused transitions, oldest first (copy)
+   */
+  public getLog(): DeliveryTransitionRecord[] {
+    return [...this.log];
+  }
+  
+  /**
+   * Check whether an event would be accepted, without firing it
+   */
+  public can(event: DeliveryEvent, to: DeliveryMode): boolean {
+    return this.check(event, to) === null;
+  }
+  
+  /**
+   * Fire an event towards a target mode
+   * 
+   * Effects may fire further events; those see the new mode.
+   */
+  public fire(event: DeliveryEvent, to: DeliveryMode, now: number = Date.now()): DeliveryTransitionResult {
+    const from = this.mode;
+    const error = this.check(event, to);
+    
+    if (error !== null) {
+      const rejected: DeliveryTransitionRecord = { at: now, event, from, to, rejected: error };
+      this.record(rejected);
+      
+      if (this.hooks.onRejected) {
+        this.hooks.onRejected(rejected);
+      }
+      return { ok: false, error };
+    }
+    
+    const transition = findTransition(event, from, to, this.config.transitions)!;
+    const record: DeliveryTransitionRecord = { at: now, event, from, to, rejected: null };
+    this.record(record);
+    
+    this.mode = to;
+    if (from !== to) {
+      this.hooks.onModeChange(from, to);
+    }
+    
+    for (const effect of transition.effects) {
+      this.hooks.effects[effect]();
+    }
+    
+    return { ok: true, record };
+  }
+  
+  /**
+   * @returns Rejection reason, or null if the event is allowed
+   */
+  private check(event: DeliveryEvent, to: DeliveryMode): string | null {
+    const transition = findTransition(event, this.mode, to, this.config.transitions);
+    if (transition === null) {
+      return `no ${event} transition from ${this.mode} to ${to}`;
+    }
+    
+    for (const guard of [DeliveryGuard.STARTED, ...transition.guards]) {
+      if (!this.hooks.guards[guard]()) {
+        return `guard ${guard} failed`;
+      }
+    }
+    
+    return null;
+  }
+  
+  private record(record: DeliveryTransitionRecord): void {
+    this.log.push(record);
+    
+    if (this.log.length > this.config.logSize) {
+      this.log.shift();
+    }
+  }
+}
+
+/* ============================================
+   FACTORY FUNCTION
+   ============================================ */
+
+export function createDeliveryStateMachine(
+  initialMode: DeliveryMode,
+  hooks: DeliveryStateMachineHooks,
+  config: Partial<DeliveryStateMachineConfig> = {}
+): DeliveryStateMachine {
+  return new DeliveryStateMachine(initialMode, hooks, config);
+}
@@ -0,0 +1,116 @@
+/**
+ * REST Polling Helpers tests — Phase 22.3
+ * Market Navigation System (MNS)
+ * 
+ * Conditional headers, body hashing, Retry-After parsing and the
+ * adaptive polling delay. The controller side (304, unchanged bodies,
+ * Retry-After pacing) is covered in deliveryController.test.ts.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  RESTPollOutcome,
+  buildConditionalHeaders,
+  computeNextPollDelay,
+  createPollValidators,
+  hashPayload,
+  parseRetryAfter
+} from "./restPolling.js";
+
+describe("buildConditionalHeaders", () => {
+  it("sends nothing before validators are known", () => {
+    expect(buildConditionalHeaders(createPollValidators())).toEqual({});
+  });
+  
+  it("sends If-None-Match and If-Modified-Since from stored validators", () => {
+    const validators = { etag: "\"v42\"", lastModified: "Mon, 19 Oct 2026 12:00:00 GMT", contentHash: "x" };
+    
+    expect(buildConditionalHeaders(validators)).toEqual({
+      "If-None-Match": "\"v42\"",
+      "If-Modified-Since": "Mon, 19 Oct 2026 12:00:00 GMT"
+    });
+  });
+  
+  it("sends only the validator the server provided", () => {
+    expect(buildConditionalHeaders({ ...createPollValidators(), etag: "W/\"v1\"" })).toEqual({ "If-None-Match": "W/\"v1\"" });
+  });
+});
+
+describe("hashPayload", () => {
+  it("is stable for identical bodies", () => {
+    const body = "{\"nav\":{\"regime\":\"EXPANSION\"}}";
+    
+    expect(hashPayload(body)).toBe(hashPayload(String(body)));
+  });
+  
+  it("differs for bodies that differ in one character or in length", () => {
+    expect(hashPayload("{\"risk\":\"LOW\"}")).not.toBe(hashPayload("{\"risk\":\"LOX\"}"));
+    expect(hashPayload("{}")).not.toBe(hashPayload("{} "));
+  });
+  
+  it("prefixes the hash with the body length", () => {
+    expect(hashPayload("")).toBe("0:811c9dc5");
+    expect(hashPayload("a".repeat(20))).toMatch(/^14:[0-9a-f]+$/);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  const NOW = Date.parse("2026-10-19T12:00:00.000Z");
+  
+  it("reads delta-seconds", () => {
+    expect(parseRetryAfter("120", NOW)).toBe(120000);
+    expect(parseRetryAfter(" 0 ", NOW)).toBe(0);
+  });
+  
+  it("reads an HTTP-date relative to now, never negative", () => {
+    expect(parseRetryAfter("Mon, 19 Oct 2026 12:00:30 GMT", NOW)).toBe(30000);
+    expect(parseRetryAfter("Mon, 19 Oct 2026 11:59:00 GMT", NOW)).toBe(0);
+  });
+  
+  it("ignores an absent or malformed header", () => {
+    expect(parseRetryAfter(null, NOW)).toBeNull();
+    expect(parseRetryAfter("soon", NOW)).toBeNull();
+    expect(parseRetryAfter("-5", NOW)).toBeNull();
+    expect(parseRetryAfter("1.5", NOW)).toBeNull();
+  });
+});
+
+describe("computeNextPollDelay", () => {
+  const BASE = 2000;
+  const MAX = 10000;
+  
+  it("returns to the base interval on a new snapshot", () => {
+    expect(computeNextPollDelay(RESTPollOutcome.UPDATED, 9000, BASE, MAX)).toBe(BASE);
+  });
+  
+  it.each([RESTPollOutcome.NOT_MODIFIED, RESTPollOutcome.UNCHANGED, RESTPollOutcome.FAILED])(
+    "grows by half on %s up to the maximum",
+    (outcome) => {
+      const delays: number[] = [];
+      let delay = BASE;
+      for (let i = 0; i < 6; i++) {
+        delay = computeNextPollDelay(outcome, delay, BASE, MAX);
+        delays.push(delay);
+      }
+      
+      expect(delays).toEqual([3000, 4500, 6750, 10000, 10000, 10000]);
+    }
+  );
+  
+  it("waits Retry-After when rate limited, even beyond the maximum", () => {
+    expect(computeNextPollDelay(RESTPollOutcome.RATE_LIMITED, BASE, BASE, MAX, 60000)).toBe(60000);
+  });
+  
+  it("never polls faster than the base interval on a short Retry-After", () => {
+    expect(computeNextPollDelay(RESTPollOutcome.RATE_LIMITED, BASE, BASE, MAX, 0)).toBe(BASE);
+  });
+  
+  it("doubles up to the maximum when rate limited without Retry-After", () => {
+    expect(computeNextPollDelay(RESTPollOutcome.RATE_LIMITED, BASE, BASE, MAX)).toBe(4000);
+    expect(computeNextPollDelay(RESTPollOutcome.RATE_LIMITED, 8000, BASE, MAX)).toBe(MAX);
+  });
+  
+  it("treats a maximum below the base interval as the base interval", () => {
+    expect(computeNextPollDelay(RESTPollOutcome.UNCHANGED, BASE, BASE, 1000)).toBe(BASE);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * REST Polling Helpers — Phase 22.3
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Conditional requests, dedup and pacing for REST_DEGRADED polling
+ * Used by: DeliveryController
+ * 
+ * Responsibilities:
+ * - Remember validators (ETag / Last-Modified) between polls
+ * - Hash snapshot bodies so unchanged packets are never re-forwarded
+ * - Parse Retry-After (delta-seconds or HTTP-date)
+ * - Compute the next polling delay from the last outcome
+ * 
+ * Cross-origin note: ETag and Retry-After are only readable when the
+ * backend lists them in Access-Control-Expose-Headers. Without that the
+ * validators stay empty, no conditional headers are sent (so no extra
+ * preflight), and dedup falls back to the content hash alone.
+ */
+
+"use strict";
+
+/* ============================================
+   POLL OUTCOME
+   ============================================ */
+
+export enum RESTPollOutcome {
+  /** New snapshot forwarded to the state layer */
+  UPDATED = "UPDATED",
+  
+  /** Server answered 304 Not Modified */
+  NOT_MODIFIED = "NOT_MODIFIED",
+  
+  /** 200 with a body identical to the last forwarded snapshot */
+  UNCHANGED = "UNCHANGED",
+  
+  /** Server answered 429 or 503 (honours Retry-After) */
+  RATE_LIMITED = "RATE_LIMITED",
+  
+  /** Network, HTTP or payload error, or request timeout */
+  FAILED = "FAILED",
+  
+  /** REST mode stopped mid-flight; response dropped unread */
+  DISCARDED = "DISCARDED"
+}
+
+/**
+ * Validators and dedup state carried between polls
+ */
+export interface RESTPollValidators {
+  /** Last ETag seen (sent as If-None-Match) */
+  etag: string | null;
+  
+  /** Last Last-Modified seen (sent as If-Modified-Since) */
+  lastModified: string | null;
+  
+  /** Hash of the last forwarded snapshot body */
+  contentHash: string | null;
+}
+
+export function createPollValidators(): RESTPollValidators {
+  return { etag: null, lastModified: null, contentHash: null };
+}
+
+/**
+ * Build conditional request headers from stored validators
+ */
+export function buildConditionalHeaders(validators: RESTPollValidators): Record<string, string> {
+  const headers: Record<string, string> = {};
+  
+  if (validators.etag !== null) {
+    headers["If-None-Match"] = validators.etag;
+  }
+  if (validators.lastModified !== null) {
+    headers["If-Modified-Since"] = validators.lastModified;
+  }
+  
+  return headers;
+}
+
+/* ============================================
+   CONTENT HASH
+   ============================================ */
+
+/**
+ * FNV-1a (32-bit) hash of a snapshot body
+ * 
+ * Not cryptographic — only detects "same bytes as last time" so the
+ * state layer is spared re-validation and re-rendering.
+ */
+export function hashPayload(text: string): string {
+  let hash = 0x811c9dc5;
+  
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  
+  return `${text.length.toString(16)}:${(hash >>> 0).toString(16)}`;
+}
+
+/* ============================================
+   PACING
+   ============================================ */
+
+/**
+ * Parse a Retry-After header value into a delay in milliseconds
+ * 
+ * @returns Delay (>= 0), or null if absent or malformed
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (value === null) {
+    return null;
+  }
+  
+  const trimmed = value.trim();
+  
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+  
+  // HTTP-date always names the day and month (Date.parse would also
+  // take "-5" or "1.5" as a year or a date)
+  if (!/[A-Za-z]/.test(trimmed)) {
+    return null;
+  }
+  
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  
+  return Math.max(date - now, 0);
+}
+
+/** Growth factor applied while the snapshot does not change */
+const IDLE_BACKOFF_FACTOR = 1.5;
+
+/**
+ * Compute the delay before the next poll
+ * 
+ * - UPDATED: back to the base interval
+ * - NOT_MODIFIED / UNCHANGED / FAILED: grow gradually up to maxMs
+ * - RATE_LIMITED: Retry-After if given (may exceed maxMs), else double
+ * 
+ * @param currentMs - Delay used before this poll
+ * @param baseMs - Configured polling interval
+ * @param maxMs - Ceiling for adaptive growth
+ * @param retryAfterMs - Parsed Retry-After (RATE_LIMITED only)
+ */
+export function computeNextPollDelay(
+  outcome: RESTPollOutcome,
+  currentMs: number,
+  baseMs: number,
+  maxMs: number,
+  retryAfterMs: number | null = null
+): number {
+  const ceiling = Math.max(maxMs, baseMs);
+  
+  switch (outcome) {
+    case RESTPollOutcome.UPDATED:
+      return baseMs;
+    
+    case RESTPollOutcome.RATE_LIMITED:
+      if (retryAfterMs !== null) {
+        return Math.max(retryAfterMs, baseMs);
+      }
+      return Math.min(currentMs * 2, ceiling);
+    
+    default:
+      return Math.min(Math.round(currentMs * IDLE_BACKOFF_FACTOR), ceiling);
+  }
+}
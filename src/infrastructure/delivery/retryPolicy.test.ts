@@ -0,0 +1,145 @@
+/**
+ * Retry Policy tests — Phase 22.3
+ * Market Navigation System (MNS)
+ * 
+ * Backoff caps, jitter with a scripted random source, and circuit
+ * breaker states. The breaker inside a running controller (cooldown,
+ * half-open probe, stable stream) is covered in deliveryController.test.ts.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  createCircuitBreakerRetryPolicy,
+  createExponentialRetryPolicy,
+  createFixedRetryPolicy
+} from "./retryPolicy.js";
+
+/**
+ * Random source returning the given values in turn (cycling)
+ */
+function scripted(...values: number[]): () => number {
+  let index = 0;
+  return () => values[index++ % values.length];
+}
+
+function retryDelays(policy: { nextRetryDelay(failures: number): number | null }, count: number) {
+  return Array.from({ length: count }, (_, index) => policy.nextRetryDelay(index + 1));
+}
+
+describe("ExponentialRetryPolicy", () => {
+  it("doubles from the base delay up to the cap, then gives up", () => {
+    const policy = createExponentialRetryPolicy({ jitter: "none", baseDelayMs: 1000, maxDelayMs: 5000, maxRetries: 6 });
+    
+    expect(retryDelays(policy, 6)).toEqual([1000, 2000, 4000, 5000, 5000, null]);
+  });
+  
+  it("picks full jitter uniformly below the exponential delay", () => {
+    const policy = createExponentialRetryPolicy({ jitter: "full", random: scripted(0.5, 0, 0.999) });
+    
+    expect(retryDelays(policy, 4)).toEqual([500, 0, 3996, 4000]);
+  });
+  
+  it("grows decorrelated jitter from the previous delay, within base and cap", () => {
+    const policy = createExponentialRetryPolicy({
+      jitter: "decorrelated",
+      baseDelayMs: 1000,
+      maxDelayMs: 16000,
+      maxRetries: 10,
+      random: scripted(0.5)
+    });
+    
+    // upper bound = min(cap, previous * 3); first previous = base
+    expect(retryDelays(policy, 5)).toEqual([2000, 3500, 5750, 8500, 8500]);
+  });
+  
+  it("never exceeds the cap with decorrelated jitter", () => {
+    const policy = createExponentialRetryPolicy({ jitter: "decorrelated", maxRetries: 50, random: scripted(0.9999) });
+    
+    const delays = retryDelays(policy, 49) as number[];
+    
+    // Reaches the cap region within a few failures, never beyond it
+    expect(delays.slice(0, 4)).toEqual([3000, 8999, 15999, 15999]);
+    expect(Math.max(...delays)).toBeLessThanOrEqual(16000);
+    expect(Math.min(...delays)).toBeGreaterThanOrEqual(1000);
+  });
+  
+  it("starts decorrelated growth over after reset", () => {
+    const policy = createExponentialRetryPolicy({ jitter: "decorrelated", random: scripted(0.9999) });
+    
+    retryDelays(policy, 3);
+    policy.reset();
+    
+    expect(policy.nextRetryDelay(1)).toBe(3000);
+  });
+  
+  it("keeps a fixed recovery interval, jittered into its second half", () => {
+    const plain = createExponentialRetryPolicy({ jitter: "none", recoveryIntervalMs: 30000 });
+    const jittered = createExponentialRetryPolicy({ recoveryIntervalMs: 30000, random: scripted(0, 0.5, 0.9999) });
+    
+    expect([0, 1, 2].map((attempt) => plain.nextRecoveryDelay(attempt))).toEqual([30000, 30000, 30000]);
+    expect([0, 1, 2].map((attempt) => jittered.nextRecoveryDelay(attempt))).toEqual([15000, 22500, 29999]);
+  });
+  
+  it("backs recovery off up to maxRecoveryIntervalMs", () => {
+    const policy = createExponentialRetryPolicy({ jitter: "none", recoveryIntervalMs: 30000, maxRecoveryIntervalMs: 100000 });
+    
+    expect([0, 1, 2, 3].map((attempt) => policy.nextRecoveryDelay(attempt))).toEqual([30000, 60000, 100000, 100000]);
+  });
+});
+
+describe("FixedRetryPolicy", () => {
+  it("waits the same delay until maxRetries", () => {
+    const policy = createFixedRetryPolicy({ maxRetries: 3, delayMs: 2000, recoveryIntervalMs: 45000 });
+    
+    expect(retryDelays(policy, 3)).toEqual([2000, 2000, null]);
+    expect(policy.nextRecoveryDelay(4)).toBe(45000);
+  });
+});
+
+describe("CircuitBreakerRetryPolicy", () => {
+  function createBreaker() {
+    return createCircuitBreakerRetryPolicy(
+      createFixedRetryPolicy({ maxRetries: 5, delayMs: 1000, recoveryIntervalMs: 30000 }),
+      { failureThreshold: 3, cooldownMs: 60000 }
+    );
+  }
+  
+  it("defers to the inner policy while closed", () => {
+    const breaker = createBreaker();
+    
+    expect(retryDelays(breaker, 2)).toEqual([1000, 1000]);
+    expect(breaker.isOpen()).toBe(false);
+    expect(breaker.nextRecoveryDelay(0)).toBe(30000);
+  });
+  
+  it("opens on consecutive failures across modes and recovers only after the cooldown", () => {
+    const breaker = createBreaker();
+    
+    // Two failures on the first mode, then the next mode starts at 1
+    retryDelays(breaker, 2);
+    expect(breaker.nextRetryDelay(1)).toBeNull();
+    
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.nextRecoveryDelay(0)).toBe(60000);
+  });
+  
+  it("stays open when the half-open trial fails", () => {
+    const breaker = createBreaker();
+    retryDelays(breaker, 3);
+    
+    expect(breaker.nextRetryDelay(1)).toBeNull();
+    expect(breaker.isOpen()).toBe(true);
+  });
+  
+  it("closes on reset and resets the inner policy", () => {
+    const inner = createExponentialRetryPolicy({ jitter: "decorrelated", random: scripted(0.9999) });
+    const breaker = createCircuitBreakerRetryPolicy(inner, { failureThreshold: 3, cooldownMs: 60000 });
+    
+    retryDelays(breaker, 3);
+    breaker.reset();
+    
+    expect(breaker.isOpen()).toBe(false);
+    expect(breaker.nextRecoveryDelay(0)).toBe(29999);
+    expect(breaker.nextRetryDelay(1)).toBe(3000);
+  });
+});
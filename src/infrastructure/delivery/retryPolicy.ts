@@ -0,0 +1,293 @@
+/**
+ * Retry Policies — Phase 22.3
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Decide when DeliveryController retries a failed stream and
+ *          how long it waits between recovery attempts from REST
+ * Used by: DeliveryController (config.retryPolicy)
+ * 
+ * Policies:
+ * - ExponentialRetryPolicy: doubling delays with none/full/decorrelated jitter
+ * - FixedRetryPolicy: constant delay
+ * - CircuitBreakerRetryPolicy: wraps another policy, stops retrying after
+ *   a run of failures and only probes again after a cooldown
+ * 
+ * Jitter spreads reconnects of many clients after a backend restart;
+ * without it every tab retries at the same instants. Randomness is
+ * injectable (`random`) so schedules are reproducible under fake timers.
+ */
+
+"use strict";
+
+/* ============================================
+   POLICY INTERFACE
+   ============================================ */
+
+export interface RetryPolicy {
+  /**
+   * Delay before retrying the current stream mode
+   * @param failures - Consecutive failures of this mode (1 = first failure)
+   * @returns Delay in milliseconds, or null to give up on this mode
+   */
+  nextRetryDelay(failures: number): number | null;
+  
+  /**
+   * Delay before the next recovery attempt while on REST
+   * @param attempt - Failed recovery attempts since entering REST (0 = first)
+   */
+  nextRecoveryDelay(attempt: number): number;
+  
+  /**
+   * Called when a stream has stayed up for the controller's
+   * streamStableMs (clears accumulated state)
+   */
+  reset(): void;
+}
+
+export type JitterMode = "none" | "full" | "decorrelated";
+
+/* ============================================
+   EXPONENTIAL
+   ============================================ */
+
+export interface ExponentialRetryOptions {
+  /** Failures per mode before giving up (default: 5) */
+  maxRetries: number;
+  
+  /** First delay (default: 1000ms) */
+  baseDelayMs: number;
+  
+  /** Delay ceiling (default: 16000ms) */
+  maxDelayMs: number;
+  
+  /** Jitter applied to retry and recovery delays (default: decorrelated) */
+  jitter: JitterMode;
+  
+  /** First recovery delay (default: 30000ms) */
+  recoveryIntervalMs: number;
+  
+  /** Recovery delay ceiling; equal to recoveryIntervalMs keeps it fixed (default: 30000ms) */
+  maxRecoveryIntervalMs: number;
+  
+  /** Random source in [0, 1) (default: Math.random) */
+  random: () => number;
+}
+
+const DEFAULT_EXPONENTIAL_OPTIONS: ExponentialRetryOptions = {
+  maxRetries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+  jitter: "decorrelated",
+  recoveryIntervalMs: 30000,
+  maxRecoveryIntervalMs: 30000,
+  random: Math.random
+};
+
+export class ExponentialRetryPolicy implements RetryPolicy {
+  private options: ExponentialRetryOptions;
+  
+  // Previous delays (decorrelated jitter grows from these)
+  private lastRetryDelay: number | null = null;
+  private lastRecoveryDelay: number | null = null;
+  
+  constructor(options: Partial<ExponentialRetryOptions> = {}) {
+    this.options = { ...DEFAULT_EXPONENTIAL_OPTIONS, ...options };
+  }
+  
+  public nextRetryDelay(failures: number): number | null {
+    if (failures >= this.options.maxRetries) {
+      return null;
+    }
+    
+    const { baseDelayMs, maxDelayMs } = this.options;
+    const delay = this.jittered(
+      Math.min(baseDelayMs * Math.pow(2, failures - 1), maxDelayMs),
+      baseDelayMs,
+      maxDelayMs,
+      this.lastRetryDelay
+    );
+    
+    this.lastRetryDelay = delay;
+    return delay;
+  }
+  
+  public nextRecoveryDelay(attempt: number): number {
+    const { recoveryIntervalMs, maxRecoveryIntervalMs } = this.options;
+    const ceiling = Math.max(recoveryIntervalMs, maxRecoveryIntervalMs);
+    
+    // Fixed recovery interval: jitter picks a point in its second half,
+    // so recovery is spread out but never later than configured
+    if (ceiling === recoveryIntervalMs) {
+      const delay = this.options.jitter === "none"
+        ? recoveryIntervalMs
+        : Math.round(recoveryIntervalMs * (0.5 + this.options.random() / 2));
+      this.lastRecoveryDelay = delay;
+      return delay;
+    }
+    
+    const delay = this.jittered(
+      Math.min(recoveryIntervalMs * Math.pow(2, attempt), ceiling),
+      recoveryIntervalMs,
+      ceiling,
+      this.lastRecoveryDelay
+    );
+    
+    this.lastRecoveryDelay = delay;
+    return delay;
+  }
+  
+  public reset(): void {
+    this.lastRetryDelay = null;
+    this.lastRecoveryDelay = null;
+  }
+  
+  /**
+   * Apply the configured jitter to an exponential delay
+   * 
+   * - none: the delay itself
+   * - full: uniform in [0, delay]
+   * - decorrelated: uniform in [base, previous * 3], capped
+   */
+  private jittered(delay: number, base: number, cap: number, previous: number | null): number {
+    const random = this.options.random;
+    
+    switch (this.options.jitter) {
+      case "full":
+        return Math.round(random() * delay);
+      
+      case "decorrelated": {
+        const upper = Math.min(cap, (previous ?? base) * 3);
+        return Math.round(Math.min(cap, base + random() * (upper - base)));
+      }
+      
+      default:
+        return delay;
+    }
+  }
+}
+
+/* ============================================
+   FIXED
+   ============================================ */
+
+export interface FixedRetryOptions {
+  /** Failures per mode before giving up (default: 5) */
+  maxRetries: number;
+  
+  /** Delay between retries (default: 2000ms) */
+  delayMs: number;
+  
+  /** Delay between recovery attempts (default: 30000ms) */
+  recoveryIntervalMs: number;
+}
+
+const DEFAULT_FIXED_OPTIONS: FixedRetryOptions = {
+  maxRetries: 5,
+  delayMs: 2000,
+  recoveryIntervalMs: 30000
+};
+
+export class FixedRetryPolicy implements RetryPolicy {
+  private options: FixedRetryOptions;
+  
+  constructor(options: Partial<FixedRetryOptions> = {}) {
+    this.options = { ...DEFAULT_FIXED_OPTIONS, ...options };
+  }
+  
+  public nextRetryDelay(failures: number): number | null {
+    return failures >= this.options.maxRetries ? null : this.options.delayMs;
+  }
+  
+  public nextRecoveryDelay(_attempt: number): number {
+    return this.options.recoveryIntervalMs;
+  }
+  
+  public reset(): void {
+    // Stateless
+  }
+}
+
+/* ============================================
+   CIRCUIT BREAKER
+   ============================================ */
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures (across modes) that open the circuit (default: 5) */
+  failureThreshold: number;
+  
+  /** Recovery delay while the circuit is open (default: 60000ms) */
+  cooldownMs: number;
+}
+
+const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 60000
+};
+
+/**
+ * Circuit breaker around another policy
+ * 
+ * Closed: the inner policy decides. Open (threshold reached): no more
+ * retries, recovery only after cooldownMs — the recovery probe is the
+ * half-open trial. A stream that stays up (reset) closes the circuit;
+ * one that fails again re-opens it at once.
+ */
+export class CircuitBreakerRetryPolicy implements RetryPolicy {
+  private inner: RetryPolicy;
+  private options: CircuitBreakerOptions;
+  private consecutiveFailures: number = 0;
+  
+  constructor(inner: RetryPolicy, options: Partial<CircuitBreakerOptions> = {}) {
+    this.inner = inner;
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+  
+  /**
+   * Whether the breaker currently refuses retries
+   */
+  public isOpen(): boolean {
+    return this.consecutiveFailures >= this.options.failureThreshold;
+  }
+  
+  public nextRetryDelay(failures: number): number | null {
+    this.consecutiveFailures++;
+    
+    if (this.isOpen()) {
+      return null;
+    }
+    
+    return this.inner.nextRetryDelay(failures);
+  }
+  
+  public nextRecoveryDelay(attempt: number): number {
+    return this.isOpen()
+      ? this.options.cooldownMs
+      : this.inner.nextRecoveryDelay(attempt);
+  }
+  
+  public reset(): void {
+    this.consecutiveFailures = 0;
+    this.inner.reset();
+  }
+}
+
+/* ============================================
+   FACTORY FUNCTIONS
+   ============================================ */
+
+export function createExponentialRetryPolicy(
+  options: Partial<ExponentialRetryOptions> = {}
+): ExponentialRetryPolicy {
+  return new ExponentialRetryPolicy(options);
+}
+
+export function createFixedRetryPolicy(options: Partial<FixedRetryOptions> = {}): FixedRetryPolicy {
+  return new FixedRetryPolicy(options);
+}
+
+export function createCircuitBreakerRetryPolicy(
+  inner: RetryPolicy,
+  options: Partial<CircuitBreakerOptions> = {}
+): CircuitBreakerRetryPolicy {
+  return new CircuitBreakerRetryPolicy(inner, options);
+}
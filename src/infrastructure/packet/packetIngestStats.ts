@@ -0,0 +1,40 @@
+/**
+ * Packet Ingest Stats — Phase 22.2
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Count what happened to incoming stream payloads before the
+ *          throttle (size, JSON, wire format / schema rejections)
+ * Used by: SSEClient, WSClient, DeliveryController diagnostics
+ */
+
+"use strict";
+
+export interface PacketIngestStats {
+  /** Data events/frames received (keep-alives excluded) */
+  received: number;
+  
+  /** Rejected for exceeding maxPayloadSize */
+  oversized: number;
+  
+  /** Rejected as empty, binary or not valid JSON */
+  nonJson: number;
+  
+  /** JSON that no wire adapter or the packet schema accepted */
+  unnormalizable: number;
+}
+
+export function createIngestStats(): PacketIngestStats {
+  return { received: 0, oversized: 0, nonJson: 0, unnormalizable: 0 };
+}
+
+/**
+ * Sum two sets of counters (e.g. totals of closed clients + live client)
+ */
+export function addIngestStats(a: PacketIngestStats, b: PacketIngestStats): PacketIngestStats {
+  return {
+    received: a.received + b.received,
+    oversized: a.oversized + b.oversized,
+    nonJson: a.nonJson + b.nonJson,
+    unnormalizable: a.unnormalizable + b.unnormalizable
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * Packet Schema fixture tests — Phase 22.2
+ * Market Navigation System (MNS)
+ * 
+ * Valid, invalid and adversarial packets through both decoding levels,
+ * and through the delivery path (wire adapter + structural decode) into
+ * the state layer's strict check.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PacketErrorCode, decodePacket } from "./packetSchema.js";
+import { adaptWirePayload } from "./wireFormat.js";
+import { ValidationReason, validatePacket } from "./packetValidator.js";
+import { createTrustedKeyRing } from "./trustedKeys.js";
+
+/* ============================================
+   FIXTURES
+   ============================================ */
+
+const TIER0 = {
+  nav: { regime: "EXPANSION", risk: "NORMAL", confidence: "HIGH", status: "LIVE", scope: "PUBLIC" },
+  meta: { tier: 0 }
+};
+
+const TIER1 = {
+  nav: { regime: "ACCUMULATION", risk: "LOW", confidence: "MEDIUM", bias: "BULLISH", stability: "FORMING" },
+  meta: { tier: 1, kid: "key_001", signature: "c2ln", issued_at: "2026-10-18T12:00:00.000Z" }
+};
+
+const TIER2 = {
+  nav: { regime: "DISLOCATION", risk: "HIGH", confidence: "LOW", bias: "BEARISH", stability: "WEAKENING" },
+  navigator: {
+    drivers: ["VOLATILITY_SPIKE", "MOMENTUM_SHIFT"],
+    blockers: ["LIQUIDITY_DROUGHT"],
+    gaps: [],
+    liquidity_state: "THIN"
+  },
+  forecast: { symbol: "BTCUSDT", horizon: "7D", p10: 60000, p50: 65000, p90: 70000, confidence: 0.7 },
+  meta: { tier: 2, kid: "key_001", signature: "c2ln", issued_at: "2026-10-18T12:00:00.000Z" }
+};
+
+function clone<T>(value: T): any {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function withChange(base: object, change: (packet: any) => void): any {
+  const packet = clone(base);
+  change(packet);
+  return packet;
+}
+
+interface Rejection {
+  name: string;
+  input: unknown;
+  code: PacketErrorCode;
+  path: string;
+}
+
+/** Rejected at both levels (the delivery path must not forward them) */
+const STRUCTURAL_REJECTIONS: Rejection[] = [
+  { name: "non-object", input: "nav", code: PacketErrorCode.NOT_OBJECT, path: "" },
+  { name: "array", input: [TIER0], code: PacketErrorCode.NOT_OBJECT, path: "" },
+  { name: "missing nav", input: { meta: { tier: 0 } }, code: PacketErrorCode.MISSING_FIELD, path: "nav" },
+  { name: "numeric regime", input: withChange(TIER0, (p) => { p.nav.regime = 3; }), code: PacketErrorCode.WRONG_TYPE, path: "nav.regime" },
+  { name: "tier 3", input: withChange(TIER1, (p) => { p.meta.tier = 3; }), code: PacketErrorCode.INVALID_TIER, path: "meta.tier" },
+  { name: "tier 1 without signature", input: withChange(TIER1, (p) => { delete p.meta.signature; }), code: PacketErrorCode.MISSING_FIELD, path: "meta.signature" },
+  { name: "tier 2 without navigator", input: withChange(TIER2, (p) => { delete p.navigator; }), code: PacketErrorCode.MISSING_FIELD, path: "navigator" },
+  { name: "driver list as string", input: withChange(TIER2, (p) => { p.navigator.drivers = "MOMENTUM_SHIFT"; }), code: PacketErrorCode.WRONG_TYPE, path: "navigator.drivers" },
+  { name: "non-finite quantile", input: withChange(TIER2, (p) => { p.forecast.p50 = "65000"; }), code: PacketErrorCode.WRONG_TYPE, path: "forecast.p50" },
+  
+  // Tier mixing
+  { name: "tier 0 with navigator", input: withChange(TIER0, (p) => { p.navigator = TIER2.navigator; }), code: PacketErrorCode.FORBIDDEN_FIELD, path: "navigator" },
+  { name: "tier 0 with signature", input: withChange(TIER0, (p) => { p.meta.signature = "c2ln"; }), code: PacketErrorCode.FORBIDDEN_FIELD, path: "meta.signature" },
+  { name: "tier 0 with empty kid", input: withChange(TIER0, (p) => { p.meta.kid = ""; }), code: PacketErrorCode.FORBIDDEN_FIELD, path: "meta.kid" },
+  { name: "tier 0 with bias", input: withChange(TIER0, (p) => { p.nav.bias = "BULLISH"; }), code: PacketErrorCode.FORBIDDEN_FIELD, path: "nav.bias" },
+  { name: "tier 1 with navigator", input: withChange(TIER1, (p) => { p.navigator = TIER2.navigator; }), code: PacketErrorCode.FORBIDDEN_FIELD, path: "navigator" },
+  { name: "tier 1 with unsigned status", input: withChange(TIER1, (p) => { p.nav.status = "LIVE"; }), code: PacketErrorCode.FORBIDDEN_FIELD, path: "nav.status" },
+  
+  // Unknown fields
+  { name: "unknown root field", input: withChange(TIER1, (p) => { p.debug = true; }), code: PacketErrorCode.UNKNOWN_FIELD, path: "" },
+  { name: "unknown nav field", input: withChange(TIER2, (p) => { p.nav.target = "MOON"; }), code: PacketErrorCode.UNKNOWN_FIELD, path: "nav" },
+  { name: "unknown meta field", input: withChange(TIER1, (p) => { p.meta.alg = "none"; }), code: PacketErrorCode.UNKNOWN_FIELD, path: "meta" },
+  { name: "unknown navigator field", input: withChange(TIER2, (p) => { p.navigator.notes = []; }), code: PacketErrorCode.UNKNOWN_FIELD, path: "navigator" },
+  { name: "unknown forecast field", input: withChange(TIER2, (p) => { p.forecast.p99 = 1; }), code: PacketErrorCode.UNKNOWN_FIELD, path: "forecast" },
+  
+  // Prototype keys (JSON.parse makes them own properties)
+  { name: "__proto__ at root", input: JSON.parse(`{"__proto__":{"tier":2},${JSON.stringify(TIER0).slice(1)}`), code: PacketErrorCode.UNKNOWN_FIELD, path: "" },
+  { name: "__proto__ in nav", input: JSON.parse(`{"nav":{"__proto__":{"bias":"BULLISH"},"regime":"EXPANSION","risk":"LOW","confidence":"LOW"}}`), code: PacketErrorCode.UNKNOWN_FIELD, path: "nav" },
+  { name: "constructor in meta", input: withChange(TIER1, (p) => { p.meta.constructor = { name: "x" }; }), code: PacketErrorCode.UNKNOWN_FIELD, path: "meta" }
+];
+
+/** Structurally fine, rejected by the strict level only */
+const STRICT_REJECTIONS: Rejection[] = [
+  { name: "regime outside catalog", input: withChange(TIER0, (p) => { p.nav.regime = "MOONING"; }), code: PacketErrorCode.UNKNOWN_VALUE, path: "nav.regime" },
+  { name: "stability outside catalog", input: withChange(TIER1, (p) => { p.nav.stability = "STABLE"; }), code: PacketErrorCode.UNKNOWN_VALUE, path: "nav.stability" },
+  { name: "driver outside catalog", input: withChange(TIER2, (p) => { p.navigator.drivers = ["MOMENTUM"]; }), code: PacketErrorCode.UNKNOWN_VALUE, path: "navigator.drivers[0]" },
+  { name: "too many blockers", input: withChange(TIER2, (p) => { p.navigator.blockers = ["RESISTANCE_ZONE", "LIQUIDITY_DROUGHT", "VOLATILITY_COLLAPSE"]; }), code: PacketErrorCode.TOO_MANY_ITEMS, path: "navigator.blockers" },
+  { name: "empty kid", input: withChange(TIER1, (p) => { p.meta.kid = ""; }), code: PacketErrorCode.MISSING_FIELD, path: "meta.kid" },
+  { name: "class instance", input: Object.assign(Object.create({ polluted: true }), clone(TIER0)), code: PacketErrorCode.BAD_PROTOTYPE, path: "" },
+  { name: "nested class instance", input: { ...clone(TIER0), nav: Object.assign(Object.create({}), TIER0.nav) }, code: PacketErrorCode.BAD_PROTOTYPE, path: "nav" }
+];
+
+/* ============================================
+   DECODE
+   ============================================ */
+
+describe("decodePacket", () => {
+  it.each([
+    ["tier 0", TIER0],
+    ["tier 1", TIER1],
+    ["tier 2", TIER2]
+  ])("accepts a valid %s packet at both levels", (_name, fixture) => {
+    for (const strict of [false, true]) {
+      const decoded = decodePacket(clone(fixture), { strict });
+      expect(decoded).toEqual({ ok: true, packet: expect.objectContaining({ nav: fixture.nav }) });
+    }
+  });
+  
+  it("returns a fresh object", () => {
+    const input = clone(TIER2);
+    const decoded = decodePacket(input);
+    
+    expect(decoded.ok).toBe(true);
+    if (decoded.ok === true) {
+      expect(decoded.packet).not.toBe(input);
+      expect(decoded.packet.nav).not.toBe(input.nav);
+    }
+  });
+  
+  it.each(STRUCTURAL_REJECTIONS.map((r) => [r.name, r] as const))("rejects %s at both levels", (_name, rejection) => {
+    for (const strict of [false, true]) {
+      expect(decodePacket(rejection.input, { strict })).toEqual({
+        ok: false,
+        error: { code: rejection.code, path: rejection.path }
+      });
+    }
+  });
+  
+  it.each(STRICT_REJECTIONS.map((r) => [r.name, r] as const))("rejects %s in strict mode only", (_name, rejection) => {
+    expect(decodePacket(rejection.input).ok).toBe(true);
+    expect(decodePacket(rejection.input, { strict: true })).toEqual({
+      ok: false,
+      error: { code: rejection.code, path: rejection.path }
+    });
+  });
+  
+  it("ignores fields inherited from a polluted prototype", () => {
+    const proto = Object.prototype as Record<string, unknown>;
+    proto.signature = "c2ln";
+    proto.navigator = TIER2.navigator;
+    
+    try {
+      const decoded = decodePacket(clone(TIER0), { strict: true });
+      expect(decoded.ok).toBe(true);
+      if (decoded.ok === true) {
+        expect(Object.keys(decoded.packet)).toEqual(["nav", "meta"]);
+      }
+    } finally {
+      delete proto.signature;
+      delete proto.navigator;
+    }
+  });
+  
+  it("survives hostile getters", () => {
+    const hostile = clone(TIER0);
+    Object.defineProperty(hostile, "nav", {
+      enumerable: true,
+      get: () => {
+        throw new Error("boom");
+      }
+    });
+    
+    expect(decodePacket(hostile)).toEqual({ ok: false, error: { code: PacketErrorCode.NOT_OBJECT, path: "" } });
+  });
+});
+
+/* ============================================
+   DELIVERY PATH → STATE LAYER
+   ============================================ */
+
+describe("delivery path", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+  
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+  
+  /**
+   * What SSEClient / WSClient / REST polling forward for a raw payload
+   */
+  function forward(raw: unknown) {
+    const adapted = adaptWirePayload(raw);
+    return adapted.ok === true ? decodePacket(adapted.packet) : null;
+  }
+  
+  it("forwards a versioned v1 packet without its envelope", () => {
+    const decoded = forward({ version: 1, ...clone(TIER0) });
+    expect(decoded?.ok).toBe(true);
+  });
+  
+  it.each([
+    ["navigator", (p: any) => { p.navigator = TIER2.navigator; }],
+    ["meta.signature", (p: any) => { p.meta.signature = "c2ln"; }],
+    ["unknown field", (p: any) => { p.nav.extra = 1; }]
+  ])("does not strip a smuggled %s from a tier 0 packet", async (_name, change) => {
+    const raw = withChange(TIER0, change);
+    
+    expect(forward(raw)?.ok).toBe(false);
+    
+    const result = await validatePacket(raw, createTrustedKeyRing());
+    expect(result).toMatchObject({ ok: false, reason: ValidationReason.SCHEMA_INVALID });
+  });
+  
+  it("accepts a clean tier 0 packet end to end", async () => {
+    const decoded = forward(clone(TIER0));
+    expect(decoded?.ok).toBe(true);
+    
+    if (decoded?.ok === true) {
+      const result = await validatePacket(decoded.packet, createTrustedKeyRing());
+      expect(result).toMatchObject({ ok: true, tier: 0, packet: { regime: "EXPANSION", status: "LIVE" } });
+    }
+  });
+});
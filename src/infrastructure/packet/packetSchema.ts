@@ -0,0 +1,615 @@
+/**
+ * Packet Schema — Phase 22.2
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Single source of truth for Tier0/Tier1/Tier2 packet shape
+ * Used by: SSEClient, DeliveryController (REST), state layer (main.tsx)
+ * 
+ * Two decoding levels:
+ * - Structural (strict: false): field presence and types, tier field
+ *   exclusivity, no unknown fields. Used by delivery transports to
+ *   reject garbage before forwarding.
+ * - Strict (strict: true): structural + catalog values, navigator
+ *   limits and plain prototypes. Used by the state layer before
+ *   signature verification.
+ * 
+ * Extra fields are rejected at both levels, never stripped: the state
+ * layer re-checks what the transport forwarded, so a field the transport
+ * silently dropped (a navigator on a Tier 0 packet, a signature where
+ * none belongs) would otherwise never reach the strict check. Only own
+ * properties are read; inherited ones count as absent.
+ * 
+ * Non-goals:
+ * - No cryptographic validation (state layer)
+ * - No wire-format translation (input must already be a nav packet)
+ * - No logging (callers log error codes, never packet content)
+ */
+
+"use strict";
+
+/* ============================================
+   PACKET TYPES
+   ============================================ */
+
+/**
+ * Forecast quantiles carried alongside nav data (aggregate wire format)
+ */
+export interface ForecastQuantiles {
+  symbol?: string;
+  horizon?: string;
+  p10?: number;
+  p25?: number;
+  p50?: number;
+  p75?: number;
+  p90?: number;
+  confidence?: number;
+}
+
+/**
+ * Tier0 packet structure (unsigned, public)
+ */
+export interface Tier0Packet {
+  nav: {
+    regime: string;
+    risk: string;
+    confidence: string;
+    status?: string;
+    scope?: string;
+  };
+  forecast?: ForecastQuantiles;
+  meta?: {
+    tier: 0;
+    synthesized?: string[];
+  };
+}
+
+/**
+ * Tier1 packet structure (signed, with bias/stability)
+ */
+export interface Tier1Packet {
+  nav: {
+    regime: string;
+    risk: string;
+    confidence: string;
+    bias: string;
+    stability: string;
+  };
+  forecast?: ForecastQuantiles;
+  meta: {
+    tier: 1;
+    signature: string;
+    kid: string;
+    issued_at: string;
+    synthesized?: string[];
+  };
+}
+
+/**
+ * Tier2 packet structure (signed, with navigator fields)
+ */
+export interface Tier2Packet {
+  nav: {
+    regime: string;
+    risk: string;
+    confidence: string;
+    bias: string;
+    stability: string;
+  };
+  navigator: {
+    drivers: string[];
+    blockers: string[];
+    gaps: string[];
+    liquidity_state?: string;
+  };
+  forecast?: ForecastQuantiles;
+  meta: {
+    tier: 2;
+    signature: string;
+    kid: string;
+    issued_at: string;
+    synthesized?: string[];
+  };
+}
+
+export type MarketPacket = Tier0Packet | Tier1Packet | Tier2Packet;
+
+/**
+ * Flat nav fields, as Tier 0 renders them (see validatePacket)
+ */
+export type NavFields = Tier0Packet["nav"];
+
+export type PacketTier = 0 | 1 | 2;
+
+/**
+ * Whether any metadata was fabricated by a wire-format adapter
+ * (see wireFormat.ts). Synthesized signatures are never valid.
+ */
+export function hasSynthesizedField(packet: MarketPacket, path: string): boolean {
+  return packet.meta?.synthesized?.includes(path) ?? false;
+}
+
+/* ============================================
+   CATALOGS (IMMUTABLE)
+   ============================================ */
+
+export const REGIMES: readonly string[] = Object.freeze([
+  "ACCUMULATION",
+  "EXPANSION",
+  "DISLOCATION",
+  "EXHAUSTION",
+  "COMPRESSION"
+]);
+
+export const RISK_LEVELS: readonly string[] = Object.freeze([
+  "LOW",
+  "NORMAL",
+  "HIGH"
+]);
+
+export const CONFIDENCE_LEVELS: readonly string[] = Object.freeze([
+  "LOW",
+  "MEDIUM",
+  "HIGH"
+]);
+
+export const BIAS_LEVELS: readonly string[] = Object.freeze([
+  "BULLISH",
+  "BEARISH",
+  "NEUTRAL"
+]);
+
+export const STABILITY_LEVELS: readonly string[] = Object.freeze([
+  "FORMING",
+  "MATURE",
+  "WEAKENING"
+]);
+
+export const DRIVER_TYPES: readonly string[] = Object.freeze([
+  "LIQUIDITY_SURGE",
+  "MOMENTUM_SHIFT",
+  "VOLATILITY_SPIKE",
+  "VOLUME_EXPANSION",
+  "SENTIMENT_REVERSAL"
+]);
+
+export const BLOCKER_TYPES: readonly string[] = Object.freeze([
+  "RESISTANCE_ZONE",
+  "LIQUIDITY_DROUGHT",
+  "MOMENTUM_EXHAUSTION",
+  "VOLATILITY_COLLAPSE"
+]);
+
+export const GAP_TYPES: readonly string[] = Object.freeze([
+  "INFORMATION_ASYMMETRY",
+  "STRUCTURAL_IMBALANCE",
+  "TEMPORAL_DISLOCATION"
+]);
+
+/** Navigator list limits (strict mode) */
+export const NAVIGATOR_LIMITS = Object.freeze({
+  drivers: 3,
+  blockers: 2,
+  gaps: 2
+});
+
+/* ============================================
+   DECODE RESULT
+   ============================================ */
+
+export enum PacketErrorCode {
+  /** Input is not a plain object */
+  NOT_OBJECT = "NOT_OBJECT",
+  
+  /** Object has a non-default prototype (strict) */
+  BAD_PROTOTYPE = "BAD_PROTOTYPE",
+  
+  /** meta.tier is not 0, 1 or 2 */
+  INVALID_TIER = "INVALID_TIER",
+  
+  /** A required field is absent */
+  MISSING_FIELD = "MISSING_FIELD",
+  
+  /** A field has the wrong type */
+  WRONG_TYPE = "WRONG_TYPE",
+  
+  /** A string is not in its catalog (strict) */
+  UNKNOWN_VALUE = "UNKNOWN_VALUE",
+  
+  /** A field is present that the tier must not carry */
+  FORBIDDEN_FIELD = "FORBIDDEN_FIELD",
+  
+  /** A field is present that no tier defines (path is its parent) */
+  UNKNOWN_FIELD = "UNKNOWN_FIELD",
+  
+  /** A navigator list exceeds its limit (strict) */
+  TOO_MANY_ITEMS = "TOO_MANY_ITEMS"
+}
+
+export interface PacketDecodeError {
+  code: PacketErrorCode;
+  
+  /** Field path, e.g. "nav.regime" or "navigator.drivers[1]" ("" for root) */
+  path: string;
+}
+
+export type PacketDecodeResult =
+  | { ok: true; packet: MarketPacket }
+  | { ok: false; error: PacketDecodeError };
+
+export interface PacketDecodeOptions {
+  /** Enforce catalogs, navigator limits and prototypes (default: false) */
+  strict: boolean;
+}
+
+/**
+ * Format a decode error for lifecycle logs (never includes values)
+ */
+export function describePacketError(error: PacketDecodeError): string {
+  return error.path ? `${error.code} at ${error.path}` : error.code;
+}
+
+/* ============================================
+   FIELD SETS
+   ============================================ */
+
+/**
+ * Fields each object may carry, per tier; `forbidden` lists fields that
+ * belong to another tier (FORBIDDEN_FIELD rather than UNKNOWN_FIELD)
+ */
+interface FieldSet {
+  allowed: readonly string[];
+  forbidden: readonly string[];
+}
+
+const FORECAST_FIELDS: FieldSet = {
+  allowed: ["symbol", "horizon", "p10", "p25", "p50", "p75", "p90", "confidence"],
+  forbidden: []
+};
+
+const NAVIGATOR_FIELDS: FieldSet = {
+  allowed: ["drivers", "blockers", "gaps", "liquidity_state"],
+  forbidden: []
+};
+
+const TIER_FIELDS: Record<PacketTier, { root: FieldSet; nav: FieldSet; meta: FieldSet }> = {
+  0: {
+    root: { allowed: ["nav", "meta", "forecast"], forbidden: ["navigator"] },
+    nav: { allowed: ["regime", "risk", "confidence", "status", "scope"], forbidden: ["bias", "stability"] },
+    meta: { allowed: ["tier", "synthesized"], forbidden: ["signature", "kid", "issued_at"] }
+  },
+  1: {
+    root: { allowed: ["nav", "meta", "forecast"], forbidden: ["navigator"] },
+    nav: { allowed: ["regime", "risk", "confidence", "bias", "stability"], forbidden: ["status", "scope"] },
+    meta: { allowed: ["tier", "signature", "kid", "issued_at", "synthesized"], forbidden: [] }
+  },
+  2: {
+    root: { allowed: ["nav", "meta", "forecast", "navigator"], forbidden: [] },
+    nav: { allowed: ["regime", "risk", "confidence", "bias", "stability"], forbidden: ["status", "scope"] },
+    meta: { allowed: ["tier", "signature", "kid", "issued_at", "synthesized"], forbidden: [] }
+  }
+};
+
+/* ============================================
+   DECODER
+   ============================================ */
+
+/**
+ * Internal failure signal, converted to PacketDecodeResult at the boundary
+ */
+class DecodeFailure {
+  constructor(public readonly error: PacketDecodeError) {}
+}
+
+function fail(code: PacketErrorCode, path: string): never {
+  throw new DecodeFailure({ code, path });
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Own property only: a polluted or crafted prototype cannot supply fields
+ */
+function field(parent: Record<string, any>, key: string): any {
+  return Object.prototype.hasOwnProperty.call(parent, key) ? parent[key] : undefined;
+}
+
+function checkPrototype(value: Record<string, any>, path: string): void {
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== Object.prototype && proto !== null) {
+    fail(PacketErrorCode.BAD_PROTOTYPE, path);
+  }
+}
+
+/**
+ * Reject fields outside the set (undefined values count as absent)
+ */
+function checkFields(value: Record<string, any>, fields: FieldSet, path: string): void {
+  for (const key of Object.keys(value)) {
+    if (value[key] === undefined || fields.allowed.includes(key)) {
+      continue;
+    }
+    if (fields.forbidden.includes(key)) {
+      fail(PacketErrorCode.FORBIDDEN_FIELD, path ? `${path}.${key}` : key);
+    }
+    fail(PacketErrorCode.UNKNOWN_FIELD, path);
+  }
+}
+
+function readObject(parent: Record<string, any>, key: string, path: string, strict: boolean): Record<string, any> {
+  const value = field(parent, key);
+  if (value === undefined || value === null) {
+    fail(PacketErrorCode.MISSING_FIELD, path);
+  }
+  if (!isPlainObject(value)) {
+    fail(PacketErrorCode.WRONG_TYPE, path);
+  }
+  if (strict) {
+    checkPrototype(value, path);
+  }
+  return value;
+}
+
+function readString(
+  parent: Record<string, any>,
+  key: string,
+  path: string,
+  catalog: readonly string[] | null
+): string {
+  const value = field(parent, key);
+  if (value === undefined || value === null) {
+    fail(PacketErrorCode.MISSING_FIELD, path);
+  }
+  if (typeof value !== "string") {
+    fail(PacketErrorCode.WRONG_TYPE, path);
+  }
+  if (catalog !== null && !catalog.includes(value)) {
+    fail(PacketErrorCode.UNKNOWN_VALUE, path);
+  }
+  return value;
+}
+
+function readOptionalString(parent: Record<string, any>, key: string, path: string): string | undefined {
+  const value = field(parent, key);
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    fail(PacketErrorCode.WRONG_TYPE, path);
+  }
+  return value;
+}
+
+function readOptionalNumber(parent: Record<string, any>, key: string, path: string): number | undefined {
+  const value = field(parent, key);
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    fail(PacketErrorCode.WRONG_TYPE, path);
+  }
+  return value;
+}
+
+function readStringList(
+  parent: Record<string, any>,
+  key: string,
+  path: string,
+  catalog: readonly string[] | null,
+  limit: number
+): string[] {
+  const value = field(parent, key);
+  if (value === undefined || value === null) {
+    fail(PacketErrorCode.MISSING_FIELD, path);
+  }
+  if (!Array.isArray(value)) {
+    fail(PacketErrorCode.WRONG_TYPE, path);
+  }
+  if (value.length > limit) {
+    fail(PacketErrorCode.TOO_MANY_ITEMS, path);
+  }
+  
+  return value.map((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    if (typeof item !== "string") {
+      fail(PacketErrorCode.WRONG_TYPE, itemPath);
+    }
+    if (catalog !== null && !catalog.includes(item)) {
+      fail(PacketErrorCode.UNKNOWN_VALUE, itemPath);
+    }
+    return item;
+  });
+}
+
+function decodeTier(input: Record<string, any>): PacketTier {
+  const meta = field(input, "meta");
+  if (meta === undefined || meta === null) {
+    return 0;
+  }
+  if (!isPlainObject(meta)) {
+    fail(PacketErrorCode.WRONG_TYPE, "meta");
+  }
+  
+  const tier = field(meta, "tier") ?? 0;
+  if (tier !== 0 && tier !== 1 && tier !== 2) {
+    fail(PacketErrorCode.INVALID_TIER, "meta.tier");
+  }
+  return tier;
+}
+
+function decodeSynthesized(meta: Record<string, any>): string[] | undefined {
+  const synthesized = field(meta, "synthesized");
+  if (synthesized === undefined || synthesized === null) {
+    return undefined;
+  }
+  return readStringList(meta, "synthesized", "meta.synthesized", null, Infinity);
+}
+
+function decodeSignedMeta(input: Record<string, any>, tier: 1 | 2, strict: boolean) {
+  const meta = readObject(input, "meta", "meta", strict);
+  checkFields(meta, TIER_FIELDS[tier].meta, "meta");
+  const signature = readString(meta, "signature", "meta.signature", null);
+  const kid = readString(meta, "kid", "meta.kid", null);
+  const issued_at = readString(meta, "issued_at", "meta.issued_at", null);
+  const synthesized = decodeSynthesized(meta);
+  
+  if (strict) {
+    if (signature.length === 0) fail(PacketErrorCode.MISSING_FIELD, "meta.signature");
+    if (kid.length === 0) fail(PacketErrorCode.MISSING_FIELD, "meta.kid");
+    if (issued_at.length === 0) fail(PacketErrorCode.MISSING_FIELD, "meta.issued_at");
+  }
+  
+  return synthesized
+    ? { tier, signature, kid, issued_at, synthesized }
+    : { tier, signature, kid, issued_at };
+}
+
+function decodeForecast(input: Record<string, any>, strict: boolean): ForecastQuantiles | undefined {
+  const value = field(input, "forecast");
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  
+  const forecast = readObject(input, "forecast", "forecast", strict);
+  checkFields(forecast, FORECAST_FIELDS, "forecast");
+  const decoded: ForecastQuantiles = {};
+  
+  for (const key of ["symbol", "horizon"] as const) {
+    const value = readOptionalString(forecast, key, `forecast.${key}`);
+    if (value !== undefined) decoded[key] = value;
+  }
+  
+  for (const key of ["p10", "p25", "p50", "p75", "p90", "confidence"] as const) {
+    const value = readOptionalNumber(forecast, key, `forecast.${key}`);
+    if (value !== undefined) decoded[key] = value;
+  }
+  
+  return decoded;
+}
+
+function withForecast<T extends MarketPacket>(packet: T, forecast: ForecastQuantiles | undefined): T {
+  if (forecast !== undefined) {
+    packet.forecast = forecast;
+  }
+  return packet;
+}
+
+function decodeUnchecked(input: unknown, strict: boolean): MarketPacket {
+  if (!isPlainObject(input)) {
+    fail(PacketErrorCode.NOT_OBJECT, "");
+  }
+  
+  if (strict) {
+    checkPrototype(input, "");
+  }
+  
+  const tier = decodeTier(input);
+  const fields = TIER_FIELDS[tier];
+  checkFields(input, fields.root, "");
+  
+  const nav = readObject(input, "nav", "nav", strict);
+  checkFields(nav, fields.nav, "nav");
+  const forecast = decodeForecast(input, strict);
+  
+  const regime = readString(nav, "regime", "nav.regime", strict ? REGIMES : null);
+  const risk = readString(nav, "risk", "nav.risk", strict ? RISK_LEVELS : null);
+  const confidence = readString(nav, "confidence", "nav.confidence", strict ? CONFIDENCE_LEVELS : null);
+  
+  if (tier === 0) {
+    const meta = field(input, "meta");
+    if (meta !== undefined && meta !== null) {
+      if (strict) {
+        checkPrototype(meta, "meta");
+      }
+      checkFields(meta, fields.meta, "meta");
+    }
+    
+    const packet: Tier0Packet = {
+      nav: {
+        regime,
+        risk,
+        confidence,
+        status: readOptionalString(nav, "status", "nav.status"),
+        scope: readOptionalString(nav, "scope", "nav.scope")
+      }
+    };
+    
+    if (meta !== undefined && meta !== null) {
+      const synthesized = decodeSynthesized(meta);
+      packet.meta = synthesized ? { tier: 0, synthesized } : { tier: 0 };
+    }
+    
+    return withForecast(packet, forecast);
+  }
+  
+  const meta = decodeSignedMeta(input, tier, strict);
+  const bias = readString(nav, "bias", "nav.bias", strict ? BIAS_LEVELS : null);
+  const stability = readString(nav, "stability", "nav.stability", strict ? STABILITY_LEVELS : null);
+  
+  if (tier === 1) {
+    const tier1: Tier1Packet = {
+      nav: { regime, risk, confidence, bias, stability },
+      meta: { ...meta, tier: 1 }
+    };
+    return withForecast(tier1, forecast);
+  }
+  
+  const navigator = readObject(input, "navigator", "navigator", strict);
+  checkFields(navigator, NAVIGATOR_FIELDS, "navigator");
+  const liquidityState = readOptionalString(navigator, "liquidity_state", "navigator.liquidity_state");
+  
+  const tier2: Tier2Packet = {
+    nav: { regime, risk, confidence, bias, stability },
+    navigator: {
+      drivers: readStringList(navigator, "drivers", "navigator.drivers",
+        strict ? DRIVER_TYPES : null, strict ? NAVIGATOR_LIMITS.drivers : Infinity),
+      blockers: readStringList(navigator, "blockers", "navigator.blockers",
+        strict ? BLOCKER_TYPES : null, strict ? NAVIGATOR_LIMITS.blockers : Infinity),
+      gaps: readStringList(navigator, "gaps", "navigator.gaps",
+        strict ? GAP_TYPES : null, strict ? NAVIGATOR_LIMITS.gaps : Infinity)
+    },
+    meta: { ...meta, tier: 2 }
+  };
+  
+  if (liquidityState !== undefined) {
+    tier2.navigator.liquidity_state = liquidityState;
+  }
+  
+  return withForecast(tier2, forecast);
+}
+
+/**
+ * Decode an untrusted value into a MarketPacket
+ * 
+ * Returns a fresh object with the schema fields; an input carrying any
+ * other field is rejected (UNKNOWN_FIELD / FORBIDDEN_FIELD), not stripped.
+ * 
+ * @param input - Parsed JSON (or any value)
+ * @param options - Decoding level (default: structural)
+ * @returns Packet, or the first error found
+ */
+export function decodePacket(
+  input: unknown,
+  options: Partial<PacketDecodeOptions> = {}
+): PacketDecodeResult {
+  const strict = options.strict ?? false;
+  
+  try {
+    return { ok: true, packet: decodeUnchecked(input, strict) };
+  } catch (err) {
+    if (err instanceof DecodeFailure) {
+      return { ok: false, error: err.error };
+    }
+    // Hostile getters / proxies
+    return { ok: false, error: { code: PacketErrorCode.NOT_OBJECT, path: "" } };
+  }
+}
+
+/**
+ * Read the declared tier of a packet-like value (0 if absent or invalid)
+ */
+export function getPacketTier(input: any): PacketTier {
+  const tier = input?.meta?.tier;
+  return tier === 1 || tier === 2 ? tier : 0;
+}
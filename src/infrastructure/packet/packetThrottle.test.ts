@@ -0,0 +1,122 @@
+/**
+ * Packet Throttle tests — Phase 22.2
+ * Market Navigation System (MNS)
+ * 
+ * Leading-edge delivery, trailing-edge flushes per policy, and counters.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PacketThrottle, ThrottlePolicy } from "./packetThrottle.js";
+import { MarketPacket } from "./packetSchema.js";
+
+function packet(tier: 0 | 1 | 2, scope: string): MarketPacket {
+  return { nav: { regime: "EXPANSION", risk: "NORMAL", confidence: "HIGH", scope }, meta: { tier } } as MarketPacket;
+}
+
+function createThrottle(policy: ThrottlePolicy) {
+  const delivered: string[] = [];
+  const throttle = new PacketThrottle(1000, policy, (next: any) => delivered.push(next.nav.scope));
+  return { throttle, delivered };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+  vi.setSystemTime(Date.parse("2026-10-18T12:00:00.000Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("leading edge", () => {
+  it.each([ThrottlePolicy.DROP, ThrottlePolicy.LATEST_WINS, ThrottlePolicy.PER_TIER_LATEST_WINS])(
+    "%s delivers the first packet after a quiet window at once",
+    (policy) => {
+      const { throttle, delivered } = createThrottle(policy);
+      
+      throttle.submit(packet(0, "a"));
+      expect(delivered).toEqual(["a"]);
+      
+      vi.advanceTimersByTime(1000);
+      throttle.submit(packet(0, "b"));
+      expect(delivered).toEqual(["a", "b"]);
+    }
+  );
+  
+  it("DROP discards packets inside the window", () => {
+    const { throttle, delivered } = createThrottle(ThrottlePolicy.DROP);
+    
+    throttle.submit(packet(0, "a"));
+    vi.advanceTimersByTime(300);
+    throttle.submit(packet(0, "b"));
+    vi.advanceTimersByTime(2000);
+    
+    expect(delivered).toEqual(["a"]);
+    expect(throttle.getStats()).toEqual({ received: 2, delivered: 1, dropped: 1, coalesced: 0 });
+  });
+});
+
+describe("trailing edge", () => {
+  it("LATEST_WINS delivers the newest held packet when the window closes", () => {
+    const { throttle, delivered } = createThrottle(ThrottlePolicy.LATEST_WINS);
+    
+    throttle.submit(packet(0, "a"));
+    vi.advanceTimersByTime(200);
+    throttle.submit(packet(2, "b"));
+    vi.advanceTimersByTime(200);
+    throttle.submit(packet(0, "c"));
+    
+    vi.advanceTimersByTime(599);
+    expect(delivered).toEqual(["a"]);
+    vi.advanceTimersByTime(1);
+    expect(delivered).toEqual(["a", "c"]);
+    expect(throttle.getStats()).toEqual({ received: 3, delivered: 2, dropped: 0, coalesced: 1 });
+  });
+  
+  it("PER_TIER_LATEST_WINS flushes only the highest tier held", () => {
+    const { throttle, delivered } = createThrottle(ThrottlePolicy.PER_TIER_LATEST_WINS);
+    
+    throttle.submit(packet(0, "a"));
+    vi.advanceTimersByTime(100);
+    throttle.submit(packet(2, "tier2-old"));
+    throttle.submit(packet(1, "tier1"));
+    throttle.submit(packet(2, "tier2-new"));
+    throttle.submit(packet(0, "tier0"));
+    
+    vi.advanceTimersByTime(900);
+    
+    // A Tier 0 flushed after the Tier 2 would have replaced it in the state layer
+    expect(delivered).toEqual(["a", "tier2-new"]);
+    expect(throttle.getStats()).toEqual({ received: 5, delivered: 2, dropped: 0, coalesced: 3 });
+  });
+  
+  it("starts the next window at the flush", () => {
+    const { throttle, delivered } = createThrottle(ThrottlePolicy.LATEST_WINS);
+    
+    throttle.submit(packet(0, "a"));
+    vi.advanceTimersByTime(500);
+    throttle.submit(packet(0, "b"));
+    vi.advanceTimersByTime(500);
+    expect(delivered).toEqual(["a", "b"]);
+    
+    vi.advanceTimersByTime(500);
+    throttle.submit(packet(0, "c"));
+    expect(delivered).toEqual(["a", "b"]);
+    vi.advanceTimersByTime(500);
+    expect(delivered).toEqual(["a", "b", "c"]);
+  });
+  
+  it("drops held packets on discardPending", () => {
+    const { throttle, delivered } = createThrottle(ThrottlePolicy.PER_TIER_LATEST_WINS);
+    
+    throttle.submit(packet(0, "a"));
+    throttle.submit(packet(1, "b"));
+    throttle.submit(packet(2, "c"));
+    throttle.discardPending();
+    vi.advanceTimersByTime(2000);
+    
+    expect(delivered).toEqual(["a"]);
+    expect(throttle.getStats()).toEqual({ received: 3, delivered: 1, dropped: 2, coalesced: 0 });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Packet Throttle — Phase 22.2
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Rate-limit packet delivery to the state layer
+ * Used by: SSEClient, WSClient
+ * 
+ * Leading edge: the first packet after a quiet window is delivered
+ * immediately. Trailing edge (LATEST_WINS / PER_TIER_LATEST_WINS):
+ * one held packet is delivered when the window closes, so a burst
+ * followed by silence never leaves a stale packet on screen.
+ * 
+ * The trailing flush delivers exactly one packet: the state layer keeps
+ * only the last packet it received, so several back to back would just
+ * overwrite each other (a Tier 0 flushed last would hide a Tier 2).
+ */
+
+"use strict";
+
+import { MarketPacket, getPacketTier } from "./packetSchema.js";
+
+/* ============================================
+   POLICY
+   ============================================ */
+
+/**
+ * What happens to packets arriving inside the throttle window
+ */
+export enum ThrottlePolicy {
+  /** Discard them (leading edge only) */
+  DROP = "DROP",
+  
+  /** Keep the newest one and deliver it when the window closes */
+  LATEST_WINS = "LATEST_WINS",
+  
+  /**
+   * Keep the newest one per tier; deliver the highest tier held when the
+   * window closes (a lower-tier packet never replaces a richer one)
+   */
+  PER_TIER_LATEST_WINS = "PER_TIER_LATEST_WINS"
+}
+
+/**
+ * Throttle counters (cumulative for the throttle lifetime)
+ */
+export interface PacketThrottleStats {
+  /** Packets submitted to the throttle */
+  received: number;
+  
+  /** Packets forwarded to the deliver callback */
+  delivered: number;
+  
+  /** Packets discarded (DROP policy, or pending at discard) */
+  dropped: number;
+  
+  /** Packets superseded inside the window (by a newer one, or a higher tier at flush) */
+  coalesced: number;
+}
+
+/* ============================================
+   THROTTLE
+   ============================================ */
+
+export class PacketThrottle {
+  private intervalMs: number;
+  private policy: ThrottlePolicy;
+  private deliver: (packet: MarketPacket) => void;
+  
+  private lastDeliveryTime: number = 0;
+  private pendingPackets: Map<string, MarketPacket> = new Map();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private stats: PacketThrottleStats = { received: 0, delivered: 0, dropped: 0, coalesced: 0 };
+  
+  /**
+   * @param intervalMs - Minimum time between deliveries
+   * @param policy - Handling of packets inside the window
+   * @param deliver - Called with each packet that passes the throttle
+   */
+  constructor(intervalMs: number, policy: ThrottlePolicy, deliver: (packet: MarketPacket) => void) {
+    this.intervalMs = intervalMs;
+    this.policy = policy;
+    this.deliver = deliver;
+  }
+  
+  /**
+   * Get throttle counters
+   */
+  public getStats(): PacketThrottleStats {
+    return { ...this.stats };
+  }
+  
+  /**
+   * Forward a packet, or hold/drop it inside the throttle window
+   */
+  public submit(packet: MarketPacket, now: number = Date.now()): void {
+    this.stats.received++;
+    
+    const windowOpen = now - this.lastDeliveryTime < this.intervalMs;
+    
+    if (!windowOpen && this.timer === null) {
+      this.lastDeliveryTime = now;
+      this.forward(packet);
+      return;
+    }
+    
+    if (this.policy === ThrottlePolicy.DROP) {
+      // Silent drop (per contract, no logging of packet content)
+      this.stats.dropped++;
+      return;
+    }
+    
+    const key = this.policy === ThrottlePolicy.PER_TIER_LATEST_WINS
+      ? `tier${getPacketTier(packet)}`
+      : "latest";
+    
+    if (this.pendingPackets.has(key)) {
+      this.stats.coalesced++;
+    }
+    this.pendingPackets.set(key, packet);
+    
+    if (this.timer === null) {
+      const delay = Math.max(this.lastDeliveryTime + this.intervalMs - now, 0);
+      this.timer = setTimeout(this.flush.bind(this), delay);
+    }
+  }
+  
+  /**
+   * Drop held packets and cancel the pending flush
+   */
+  public discardPending(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    
+    this.stats.dropped += this.pendingPackets.size;
+    this.pendingPackets.clear();
+  }
+  
+  /**
+   * Deliver the held packet (highest tier held) at the end of the window
+   */
+  private flush(): void {
+    this.timer = null;
+    
+    if (this.pendingPackets.size === 0) {
+      return;
+    }
+    
+    let selected: MarketPacket | null = null;
+    for (const packet of this.pendingPackets.values()) {
+      if (selected === null || getPacketTier(packet) > getPacketTier(selected)) {
+        selected = packet;
+      }
+    }
+    
+    this.stats.coalesced += this.pendingPackets.size - 1;
+    this.pendingPackets.clear();
+    this.lastDeliveryTime = Date.now();
+    
+    this.forward(selected);
+  }
+  
+  private forward(packet: MarketPacket): void {
+    this.stats.delivered++;
+    
+    try {
+      this.deliver(packet);
+    } catch (err) {
+      console.warn("[Throttle] ⚠️ Deliver callback error:", err);
+      // Don't throw - keep the source connection alive
+    }
+  }
+}
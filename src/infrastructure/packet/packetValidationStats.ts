@@ -0,0 +1,50 @@
+/**
+ * Packet Validation Stats — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Count validatePacket outcomes (verified, public, unverified
+ *          by reason) and replay-guard drops for diagnostics
+ * Used by: DeliveryController diagnostics (fed by main.tsx or the
+ *          delivery worker, whichever thread validates; replay-guard
+ *          decisions always come from main.tsx)
+ */
+
+"use strict";
+
+import { ValidationReason } from "./validationReason.js";
+import { ReplayReason } from "./replayGuard.js";
+
+export interface PacketValidationStats {
+  /** Tier 1/2 packets whose signature verified and the replay guard admitted */
+  verified: number;
+  
+  /** Unsigned Tier 0 packets that passed the schema check */
+  public: number;
+  
+  /** Failed validations by reason (SUPERSEDED: dropped, never shown) */
+  unverified: Record<ValidationReason, number>;
+  
+  /** Verified packets the replay guard dropped, by reason (never shown) */
+  replayed: Record<ReplayReason, number>;
+}
+
+export function createValidationStats(): PacketValidationStats {
+  const unverified = {} as Record<ValidationReason, number>;
+  for (const reason of Object.values(ValidationReason)) {
+    unverified[reason] = 0;
+  }
+  const replayed = {} as Record<ReplayReason, number>;
+  for (const reason of Object.values(ReplayReason)) {
+    replayed[reason] = 0;
+  }
+  return { verified: 0, public: 0, unverified, replayed };
+}
+
+export function copyValidationStats(stats: PacketValidationStats): PacketValidationStats {
+  return {
+    verified: stats.verified,
+    public: stats.public,
+    unverified: { ...stats.unverified },
+    replayed: { ...stats.replayed }
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Packet Validator tests — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * What a verified packet carries: the signed Tier 2 vector from
+ * mock-backend/signing-vectors.json, with unsigned fields added on top.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import vectorFile from "../../../mock-backend/signing-vectors.json";
+import { ValidationReason, validatePacket } from "./packetValidator.js";
+import { KEYSET_FORMAT, KEYSET_VERSION, KeySetDocument, buildKeySetPayload, createTrustedKeyRing } from "./trustedKeys.js";
+
+/**
+ * Key ring trusting the vector key, via a key set signed by a fresh root
+ */
+async function createVectorKeyRing() {
+  const root = await crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign", "verify"]) as CryptoKeyPair;
+  const document: KeySetDocument = {
+    format: KEYSET_FORMAT,
+    version: KEYSET_VERSION,
+    sequence: 1,
+    issued_at: "2025-12-01T00:00:00.000Z",
+    keys: [{
+      kid: vectorFile.kid,
+      public_key: vectorFile.public_key,
+      not_before: "2025-12-01T00:00:00.000Z",
+      expires: null,
+      revoked: false
+    }],
+    signed_by: "root_test",
+    signature: ""
+  };
+  const signature = await crypto.subtle.sign("Ed25519", root.privateKey, buildKeySetPayload(document) as BufferSource);
+  
+  const ring = createTrustedKeyRing({
+    rootKeys: { root_test: Buffer.from(await crypto.subtle.exportKey("raw", root.publicKey)).toString("base64") }
+  });
+  expect((await ring.install({ ...document, signature: Buffer.from(signature).toString("base64") })).ok).toBe(true);
+  
+  return ring;
+}
+
+/**
+ * The signed Tier 2 vector plus fields its signature does not cover
+ */
+function tier2WithUnsignedFields(): any {
+  const entry = vectorFile.vectors.find((vector) => vector.name === "tier2")!;
+  
+  return {
+    ...entry.packet,
+    navigator: { ...entry.packet.navigator, liquidity_state: "THIN" },
+    forecast: { symbol: "BTC", horizon: "24h", p10: 1, p50: 2, p90: 3, confidence: 0.9 },
+    meta: { ...entry.packet.meta, signature: entry.signature }
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("validatePacket", () => {
+  it("returns only the signed fields of a verified packet", async () => {
+    const ring = await createVectorKeyRing();
+    const input = tier2WithUnsignedFields();
+    const clockOffsetMs = Date.parse(input.meta.issued_at) - Date.now();
+    
+    const result = await validatePacket(input, ring, undefined, { clockOffsetMs });
+    
+    expect(result.ok).toBe(true);
+    if (result.ok === false) {
+      return;
+    }
+    
+    const packet: any = result.packet;
+    expect(result.tier).toBe(2);
+    expect("forecast" in packet).toBe(false);
+    expect(packet.navigator).toStrictEqual(
+      { drivers: ["MOMENTUM_SHIFT", "VOLUME_EXPANSION"], blockers: ["RESISTANCE_ZONE"], gaps: [] }
+    );
+    expect(packet.nav).toEqual(input.nav);
+    expect(Object.isFrozen(packet.navigator)).toBe(true);
+  });
+  
+  it("still rejects a signed field changed after signing", async () => {
+    const ring = await createVectorKeyRing();
+    const input = tier2WithUnsignedFields();
+    input.navigator.blockers = [];
+    const clockOffsetMs = Date.parse(input.meta.issued_at) - Date.now();
+    
+    expect(await validatePacket(input, ring, undefined, { clockOffsetMs })).toMatchObject({
+      ok: false,
+      reason: ValidationReason.SIGNATURE_INVALID
+    });
+  });
+});
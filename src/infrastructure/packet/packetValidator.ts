@@ -0,0 +1,243 @@
+/**
+ * Packet Validator — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Trust decision for delivered packets (state layer)
+ * Used by: main.tsx, delivery worker (deliveryWorker.ts)
+ * 
+ * Pipeline:
+ * 1. Reject adapter-synthesized signatures
+ * 2. Strict schema check (packetSchema, strict: true)
+ * 3. Tier 0 passes unsigned; Tier 1/2 need a fresh issued_at, a kid
+ *    that is valid in the key set (trustedKeys.ts) and an Ed25519
+ *    signature over the canonical payload (signedPayload.ts; the legacy
+ *    payload only with allowLegacyPayload)
+ * 
+ * Returns a ValidationResult: the packet to render, or the
+ * ValidationReason it failed with. A failed packet is never replaced by
+ * placeholder data — the caller shows it as UNVERIFIED.
+ * 
+ * Runs unchanged on the main thread or inside a worker: only WebCrypto,
+ * atob and TextEncoder are used, no DOM.
+ */
+
+"use strict";
+
+import {
+  MarketPacket,
+  NavFields,
+  decodePacket,
+  describePacketError,
+  getPacketTier,
+  hasSynthesizedField
+} from "./packetSchema.js";
+import { ValidationReason } from "./validationReason.js";
+import { TrustedKeyRing, decodeBase64ToUint8, verifySignature } from "./trustedKeys.js";
+import { buildLegacyPayload, buildSignedPayload } from "./signedPayload.js";
+
+export { ValidationReason };
+
+const MAX_SKEW_MS = 30000;
+
+/* ============================================
+   STATIC NAV PACKET (TIER 0)
+   ============================================ */
+
+/**
+ * Placeholder rendered before the first packet (status UNKNOWN, never
+ * LIVE; not used for failed validations)
+ */
+export const STATIC_NAV_PACKET = Object.freeze({
+  regime: "COMPRESSION",
+  risk: "NORMAL",
+  confidence: "MEDIUM",
+  status: "UNKNOWN",
+  scope: "PUBLIC"
+});
+
+/* ============================================
+   CRYPTOGRAPHIC VALIDATION
+   ============================================ */
+
+function isFresh(issuedAtISO: string, now: number): boolean {
+  try {
+    if (typeof issuedAtISO !== 'string') return false;
+    
+    const iso8601Pattern = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/;
+    if (!iso8601Pattern.test(issuedAtISO)) return false;
+    
+    const issued = Date.parse(issuedAtISO);
+    if (isNaN(issued)) return false;
+    
+    const skew = Math.abs(now - issued);
+    
+    const maxReasonable = 365 * 24 * 60 * 60 * 1000;
+    if (skew > maxReasonable) return false;
+    
+    return skew <= MAX_SKEW_MS;
+  } catch (err) {
+    return false;
+  }
+}
+
+/* ============================================
+   OPTIONS
+   ============================================ */
+
+export interface PacketValidationOptions {
+  /**
+   * Also accept signatures over the legacy concatenated payload
+   * (ambiguous field boundaries — migration only, default: false)
+   */
+  allowLegacyPayload: boolean;
+  
+  /**
+   * Server time − local time (ClockOffsetEstimator), applied to
+   * freshness and key validity checks (default: 0)
+   */
+  clockOffsetMs: number;
+}
+
+const DEFAULT_OPTIONS: PacketValidationOptions = {
+  allowLegacyPayload: false,
+  clockOffsetMs: 0
+};
+
+const MAX_PAYLOAD_BYTES = 2048;
+
+// Logged once per thread, not per packet
+let legacyAcceptedWarned = false;
+
+/**
+ * Outcome of validatePacket: the packet to render at its own tier, or
+ * why it could not be trusted (no packet — nothing to render as live)
+ */
+export type ValidationResult =
+  | { ok: true; tier: number; packet: MarketPacket | NavFields }
+  | { ok: false; reason: ValidationReason; detail: string };
+
+function reject(reason: ValidationReason, detail: string = ""): ValidationResult {
+  // Superseded results are dropped by the caller, nothing to report
+  if (reason !== ValidationReason.SUPERSEDED) {
+    console.warn(`[STATE] ⚠️ Packet unverified: ${reason}${detail ? ` (${detail})` : ""}`);
+  }
+  
+  return { ok: false, reason, detail };
+}
+
+/**
+ * Full validation: structure, freshness, key validity, Ed25519 signature
+ * 
+ * Never throws. isCurrent is checked between the async steps; once it
+ * returns false (a newer packet superseded this one) the result is a
+ * SUPERSEDED rejection and the caller is expected to drop it.
+ * 
+ * @param input - Packet as forwarded by the delivery layer
+ * @param keys - Key ring the packet's kid is resolved against
+ * @param isCurrent - Whether this validation is still wanted
+ * @param options - Verification policy (defaults: canonical payload only, no clock offset)
+ */
+export async function validatePacket(
+  input: any,
+  keys: TrustedKeyRing,
+  isCurrent: () => boolean = () => true,
+  options: Partial<PacketValidationOptions> = {}
+): Promise<ValidationResult> {
+  const policy = { ...DEFAULT_OPTIONS, ...options };
+  const serverNow = () => Date.now() + policy.clockOffsetMs;
+  
+  try {
+    if (!isCurrent()) {
+      return reject(ValidationReason.SUPERSEDED);
+    }
+    
+    // Adapter-synthesized signatures are placeholders, never verifiable
+    if (input && hasSynthesizedField(input, "meta.signature")) {
+      return reject(ValidationReason.SYNTHESIZED_SIGNATURE);
+    }
+    
+    // Strict schema check (catalogs, tier exclusivity, navigator limits)
+    const decoded = decodePacket(input, { strict: true });
+    if (decoded.ok === false) {
+      return reject(ValidationReason.SCHEMA_INVALID, describePacketError(decoded.error));
+    }
+    
+    const packet: any = decoded.packet;
+    const tier = getPacketTier(packet);
+    
+    if (tier === 0) {
+      // Tier 0 renders flat nav fields (see sanitizeForTier0)
+      return { ok: true, tier: 0, packet: packet.nav };
+    }
+    
+    if (!isFresh(packet.meta.issued_at, serverNow())) {
+      return reject(ValidationReason.STALE_PACKET, packet.meta.issued_at);
+    }
+    
+    const payloadBytes = buildSignedPayload(packet);
+    if (payloadBytes.length > MAX_PAYLOAD_BYTES) {
+      return reject(ValidationReason.PAYLOAD_SIZE, `${payloadBytes.length} bytes`);
+    }
+    
+    let signatureBytes: Uint8Array;
+    try {
+      signatureBytes = decodeBase64ToUint8(packet.meta.signature);
+    } catch (err) {
+      return reject(ValidationReason.MALFORMED_SIGNATURE);
+    }
+    if (signatureBytes.length !== 64) {
+      return reject(ValidationReason.MALFORMED_SIGNATURE, `${signatureBytes.length} bytes`);
+    }
+    
+    const kid = packet.meta.kid;
+    const resolved = await keys.resolve(kid, serverNow());
+    
+    if (!isCurrent()) {
+      return reject(ValidationReason.SUPERSEDED);
+    }
+    
+    if (resolved.ok === false) {
+      return reject(resolved.reason, kid);
+    }
+    
+    let valid = await verifySignature(payloadBytes, signatureBytes, resolved.key);
+    
+    if (!valid && policy.allowLegacyPayload) {
+      const legacyBytes = buildLegacyPayload(packet);
+      valid = legacyBytes.length <= MAX_PAYLOAD_BYTES &&
+        await verifySignature(legacyBytes, signatureBytes, resolved.key);
+      
+      if (valid && !legacyAcceptedWarned) {
+        legacyAcceptedWarned = true;
+        console.warn('[STATE] ⚠️ Accepting legacy signed payloads (ambiguous encoding, VITE_ALLOW_LEGACY_SIGNATURES)');
+      }
+    }
+    
+    if (!isCurrent()) {
+      return reject(ValidationReason.SUPERSEDED);
+    }
+    
+    if (!valid) {
+      return reject(ValidationReason.SIGNATURE_INVALID, kid);
+    }
+    
+    // Only what the signature covers: forecast and navigator.liquidity_state
+    // are outside the signed payload, so a verified packet never carries them
+    return {
+      ok: true,
+      tier: tier,
+      packet: Object.freeze({
+        nav: Object.freeze({ ...packet.nav }),
+        navigator: packet.navigator ? Object.freeze({
+          drivers: Object.freeze([...packet.navigator.drivers]),
+          blockers: Object.freeze([...packet.navigator.blockers]),
+          gaps: Object.freeze([...packet.navigator.gaps])
+        }) : undefined,
+        meta: Object.freeze({ ...packet.meta })
+      })
+    };
+  
+  } catch (err) {
+    return reject(ValidationReason.INTERNAL_ERROR, err instanceof Error ? err.message : "");
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Replay Guard tests — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Duplicate signatures, issued_at order per kid, and the bounded
+ * signature cache.
+ */
+
+import { describe, expect, it } from "vitest";
+import { ReplayReason, createReplayGuard } from "./replayGuard.js";
+
+const BASE = Date.parse("2026-10-19T12:00:00.000Z");
+
+function meta(kid: string, offsetMs: number, signature: string) {
+  return { kid, issued_at: new Date(BASE + offsetMs).toISOString(), signature };
+}
+
+describe("ReplayGuard", () => {
+  it("admits new packets in issued_at order", () => {
+    const guard = createReplayGuard();
+    
+    expect(guard.admit(meta("k1", 0, "sig-a"))).toEqual({ ok: true });
+    expect(guard.admit(meta("k1", 1000, "sig-b"))).toEqual({ ok: true });
+    expect(guard.getHighWater()).toEqual({ k1: "2026-10-19T12:00:01.000Z" });
+  });
+  
+  it("rejects a signature it has already admitted", () => {
+    const guard = createReplayGuard();
+    guard.admit(meta("k1", 0, "sig-a"));
+    
+    expect(guard.admit(meta("k1", 0, "sig-a"))).toEqual({ ok: false, reason: ReplayReason.DUPLICATE });
+    
+    // Same signature under a later issued_at is still the same packet
+    expect(guard.admit(meta("k1", 5000, "sig-a"))).toEqual({ ok: false, reason: ReplayReason.DUPLICATE });
+  });
+  
+  it("rejects an issued_at not after the latest admitted one of the kid", () => {
+    const guard = createReplayGuard();
+    guard.admit(meta("k1", 1000, "sig-a"));
+    
+    expect(guard.admit(meta("k1", 1000, "sig-b"))).toEqual({ ok: false, reason: ReplayReason.NON_MONOTONIC });
+    expect(guard.admit(meta("k1", 500, "sig-c"))).toEqual({ ok: false, reason: ReplayReason.NON_MONOTONIC });
+    
+    // Rejections do not move the high-water mark
+    expect(guard.admit(meta("k1", 1001, "sig-d"))).toEqual({ ok: true });
+  });
+  
+  it("tracks each kid independently", () => {
+    const guard = createReplayGuard();
+    guard.admit(meta("k1", 5000, "sig-a"));
+    
+    // Older than k1's latest, but the first of k2 (key rotation overlap)
+    expect(guard.admit(meta("k2", 1000, "sig-b"))).toEqual({ ok: true });
+    expect(guard.admit(meta("k1", 4000, "sig-c"))).toEqual({ ok: false, reason: ReplayReason.NON_MONOTONIC });
+    expect(guard.getHighWater()).toEqual({
+      k1: "2026-10-19T12:00:05.000Z",
+      k2: "2026-10-19T12:00:01.000Z"
+    });
+  });
+  
+  it("rejects signed packets without kid, issued_at or signature", () => {
+    const guard = createReplayGuard();
+    
+    expect(guard.admit({ issued_at: new Date(BASE).toISOString(), signature: "sig-a" }))
+      .toEqual({ ok: false, reason: ReplayReason.MISSING_META });
+    expect(guard.admit({ kid: "k1", issued_at: "not a date", signature: "sig-a" }))
+      .toEqual({ ok: false, reason: ReplayReason.MISSING_META });
+    expect(guard.admit({ kid: "k1", issued_at: new Date(BASE).toISOString() }))
+      .toEqual({ ok: false, reason: ReplayReason.MISSING_META });
+    expect(guard.getHighWater()).toEqual({});
+  });
+  
+  it("forgets the oldest signatures first once the cache is full", () => {
+    const guard = createReplayGuard({ cacheSize: 2 });
+    
+    // One kid per packet so only the signature cache can reject them
+    guard.admit(meta("k1", 0, "sig-a"));
+    guard.admit(meta("k2", 0, "sig-b"));
+    guard.admit(meta("k3", 0, "sig-c"));
+    
+    expect(guard.admit(meta("k4", 0, "sig-b"))).toEqual({ ok: false, reason: ReplayReason.DUPLICATE });
+    expect(guard.admit(meta("k4", 0, "sig-c"))).toEqual({ ok: false, reason: ReplayReason.DUPLICATE });
+    expect(guard.admit(meta("k4", 0, "sig-a"))).toEqual({ ok: true });
+  });
+});
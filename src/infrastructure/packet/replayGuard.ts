@@ -0,0 +1,124 @@
+/**
+ * Replay Guard — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Drop replayed or out-of-order signed packets (state layer)
+ * Used by: main.tsx (applyValidationResult, for packets validated on either thread)
+ * 
+ * The freshness check in packetValidator.ts accepts any packet within
+ * ±30s of the client clock, so on its own it lets a captured packet be
+ * replayed inside that window, or an older packet overwrite a newer one.
+ * This guard runs after signature verification (only verified packets
+ * may advance it) and admits a packet only if:
+ * - its signature has not been seen before (bounded FIFO cache), and
+ * - its issued_at is later than the last admitted one for the same kid
+ * 
+ * Unsigned tier 0 packets carry neither and are not tracked.
+ */
+
+"use strict";
+
+/* ============================================
+   TYPES
+   ============================================ */
+
+export enum ReplayReason {
+  /** Signature already admitted (replay, SSE resume overlap, REST re-poll) */
+  DUPLICATE = "DUPLICATE",
+  
+  /** issued_at not after the latest admitted packet of the same kid */
+  NON_MONOTONIC = "NON_MONOTONIC",
+  
+  /** kid, issued_at or signature missing on a signed packet */
+  MISSING_META = "MISSING_META"
+}
+
+export type ReplayCheckResult =
+  | { ok: true }
+  | { ok: false; reason: ReplayReason };
+
+export interface ReplayGuardConfig {
+  /** Signatures remembered (default: 256, several freshness windows at stream rate) */
+  cacheSize: number;
+}
+
+const DEFAULT_CONFIG: ReplayGuardConfig = {
+  cacheSize: 256
+};
+
+/* ============================================
+   REPLAY GUARD
+   ============================================ */
+
+export class ReplayGuard {
+  private config: ReplayGuardConfig;
+  
+  // Highest admitted issued_at (epoch ms) per kid
+  private highWater: Map<string, number> = new Map();
+  
+  // Admitted signatures, oldest first
+  private seen: Set<string> = new Set();
+  private order: string[] = [];
+  
+  constructor(config: Partial<ReplayGuardConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+  
+  /**
+   * Check a verified packet's meta and record it if admitted
+   * 
+   * @param meta - meta block of a signature-verified packet
+   */
+  public admit(meta: { kid?: string; issued_at?: string; signature?: string }): ReplayCheckResult {
+    const issuedAt = Date.parse(meta?.issued_at ?? "");
+    
+    if (!meta?.kid || !meta.signature || isNaN(issuedAt)) {
+      return { ok: false, reason: ReplayReason.MISSING_META };
+    }
+    
+    if (this.seen.has(meta.signature)) {
+      return { ok: false, reason: ReplayReason.DUPLICATE };
+    }
+    
+    const previous = this.highWater.get(meta.kid);
+    if (previous !== undefined && issuedAt <= previous) {
+      return { ok: false, reason: ReplayReason.NON_MONOTONIC };
+    }
+    
+    this.highWater.set(meta.kid, issuedAt);
+    this.remember(meta.signature);
+    return { ok: true };
+  }
+  
+  /**
+   * Latest admitted issued_at per kid (diagnostics)
+   */
+  public getHighWater(): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [kid, issuedAt] of this.highWater) {
+      result[kid] = new Date(issuedAt).toISOString();
+    }
+    return result;
+  }
+  
+  /* ============================================
+     PRIVATE
+     ============================================ */
+  
+  private remember(signature: string): void {
+    this.seen.add(signature);
+    this.order.push(signature);
+    
+    while (this.order.length > this.config.cacheSize) {
+      this.seen.delete(this.order.shift()!);
+    }
+  }
+}
+
+/* ============================================
+   FACTORY FUNCTION
+   ============================================ */
+
+export function createReplayGuard(config: Partial<ReplayGuardConfig> = {}): ReplayGuard {
+  return new ReplayGuard(config);
+}
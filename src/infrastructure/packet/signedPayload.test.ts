@@ -0,0 +1,89 @@
+/**
+ * Signed Payload vector tests — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Checks the terminal's payload bytes and signature verification against
+ * the shared vectors in mock-backend/signing-vectors.json (regenerate
+ * with npm run signing-vectors).
+ */
+
+import { describe, expect, it } from "vitest";
+import vectorFile from "../../../mock-backend/signing-vectors.json";
+import { SIGNED_PAYLOAD_VERSION, buildLegacyPayload, buildSignedPayload } from "./signedPayload.js";
+import { decodeBase64ToUint8, importPublicKey, verifySignature } from "./trustedKeys.js";
+import { decodePacket } from "./packetSchema.js";
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function vector(name: string) {
+  const found = vectorFile.vectors.find((entry) => entry.name === name);
+  if (!found) {
+    throw new Error(`No vector "${name}"`);
+  }
+  return found;
+}
+
+describe("signing vectors", () => {
+  it("match the terminal's payload version", () => {
+    expect(vectorFile.payload_version).toBe(SIGNED_PAYLOAD_VERSION);
+    expect(vectorFile.vectors.length).toBeGreaterThan(0);
+  });
+  
+  describe.each(vectorFile.vectors.map((entry) => [entry.name, entry] as const))("%s", (_name, entry) => {
+    it("decodes strictly once signed", () => {
+      const packet = { ...entry.packet, meta: { ...entry.packet.meta, signature: entry.signature } };
+      
+      expect(decodePacket(packet, { strict: true })).toMatchObject({ ok: true });
+    });
+    
+    it("builds the canonical payload bytes", () => {
+      expect(toHex(buildSignedPayload(entry.packet))).toBe(entry.canonical_hex);
+    });
+    
+    it("builds the legacy payload bytes", () => {
+      expect(toHex(buildLegacyPayload(entry.packet))).toBe(entry.legacy_hex);
+    });
+    
+    it("verifies both signatures with the vector key", async () => {
+      const key = await importPublicKey(vectorFile.public_key);
+      
+      expect(await verifySignature(
+        buildSignedPayload(entry.packet),
+        decodeBase64ToUint8(entry.signature),
+        key
+      )).toBe(true);
+      expect(await verifySignature(
+        buildLegacyPayload(entry.packet),
+        decodeBase64ToUint8(entry.legacy_signature),
+        key
+      )).toBe(true);
+    });
+  });
+  
+  describe.each(["fields", "lists"])("collision-%s pair", (pair) => {
+    const a = vector(`collision-${pair}-a`);
+    const b = vector(`collision-${pair}-b`);
+    
+    it("shares a legacy payload but not a canonical one", () => {
+      expect(toHex(buildLegacyPayload(a.packet))).toBe(toHex(buildLegacyPayload(b.packet)));
+      expect(toHex(buildSignedPayload(a.packet))).not.toBe(toHex(buildSignedPayload(b.packet)));
+    });
+    
+    it("does not carry a canonical signature over to its twin", async () => {
+      const key = await importPublicKey(vectorFile.public_key);
+      
+      expect(await verifySignature(
+        buildSignedPayload(b.packet),
+        decodeBase64ToUint8(a.signature),
+        key
+      )).toBe(false);
+      expect(await verifySignature(
+        buildLegacyPayload(b.packet),
+        decodeBase64ToUint8(a.legacy_signature),
+        key
+      )).toBe(true);
+    });
+  });
+});
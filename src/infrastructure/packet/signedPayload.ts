@@ -0,0 +1,136 @@
+/**
+ * Signed Payload — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Bytes a nav packet's Ed25519 signature covers
+ * Used by: packetValidator.ts, trustedKeys.ts (encodeLengthPrefixed)
+ * Mirrored by: mock-backend/signing.mjs (test vectors: mock-backend/signing-vectors.json)
+ * 
+ * Canonical encoding (version 1):
+ *   byte 0       0x01 (SIGNED_PAYLOAD_VERSION)
+ *   then, in order: tier, regime, risk, confidence, bias, stability,
+ *                   drivers, blockers, gaps, kid, issued_at
+ *   string       uint32 BE byte length + UTF-8 bytes (missing → length 0)
+ *   list         uint32 BE item count + each item as a string (missing → count 0)
+ *   tier         decimal string ("2")
+ * 
+ * Every field carries its own length, so no two packets share a payload.
+ * The legacy encoding concatenated the same fields without separators
+ * ("HIGH"+"LOW" == "HIGHL"+"OW") and is only verified when explicitly
+ * allowed (VITE_ALLOW_LEGACY_SIGNATURES).
+ */
+
+"use strict";
+
+/* ============================================
+   CANONICAL ENCODING
+   ============================================ */
+
+export const SIGNED_PAYLOAD_VERSION = 1;
+
+/**
+ * Signed fields in encoding order
+ */
+function signedFields(packet: any): Array<string | string[]> {
+  return [
+    String(packet.meta?.tier ?? 0),
+    packet.nav?.regime ?? "",
+    packet.nav?.risk ?? "",
+    packet.nav?.confidence ?? "",
+    packet.nav?.bias ?? "",
+    packet.nav?.stability ?? "",
+    packet.navigator?.drivers ?? [],
+    packet.navigator?.blockers ?? [],
+    packet.navigator?.gaps ?? [],
+    packet.meta?.kid ?? "",
+    packet.meta?.issued_at ?? ""
+  ];
+}
+
+export function buildSignedPayload(packet: any): Uint8Array {
+  try {
+    return encodeLengthPrefixed(SIGNED_PAYLOAD_VERSION, signedFields(packet));
+  } catch (err) {
+    throw new Error("Signed payload build failed");
+  }
+}
+
+/**
+ * Version byte, then each field length-prefixed (strings) or
+ * count-prefixed (lists). Shared with the key-set payload
+ * (trustedKeys.ts), which uses its own version byte.
+ */
+export function encodeLengthPrefixed(version: number, fields: Array<string | string[]>): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [Uint8Array.of(version)];
+  
+  const pushLength = (value: number) => {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, false);
+    chunks.push(bytes);
+  };
+  
+  const pushString = (value: string) => {
+    const bytes = encoder.encode(String(value));
+    pushLength(bytes.length);
+    chunks.push(bytes);
+  };
+  
+  for (const field of fields) {
+    if (Array.isArray(field)) {
+      pushLength(field.length);
+      field.forEach(pushString);
+    } else {
+      pushString(field);
+    }
+  }
+  
+  const payload = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    payload.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return payload;
+}
+
+/* ============================================
+   LEGACY ENCODING (AMBIGUOUS)
+   ============================================ */
+
+/**
+ * Pre-canonical payload: fields concatenated, lists comma-joined
+ */
+export function buildLegacyPayload(packet: any): Uint8Array {
+  try {
+    const tier = packet.meta?.tier ?? 0;
+    const regime = packet.nav?.regime ?? "";
+    const risk = packet.nav?.risk ?? "";
+    const confidence = packet.nav?.confidence ?? "";
+    const bias = packet.nav?.bias ?? "";
+    const stability = packet.nav?.stability ?? "";
+    const drivers = packet.navigator?.drivers ? packet.navigator.drivers.join(",") : "";
+    const blockers = packet.navigator?.blockers ? packet.navigator.blockers.join(",") : "";
+    const gaps = packet.navigator?.gaps ? packet.navigator.gaps.join(",") : "";
+    const kid = packet.meta?.kid ?? "";
+    const issued_at = packet.meta?.issued_at ?? "";
+    
+    const payload =
+      String(tier) +
+      regime +
+      risk +
+      confidence +
+      bias +
+      stability +
+      drivers +
+      blockers +
+      gaps +
+      kid +
+      issued_at;
+    
+    const encoder = new TextEncoder();
+    return encoder.encode(payload);
+  } catch (err) {
+    throw new Error("Legacy payload build failed");
+  }
+}
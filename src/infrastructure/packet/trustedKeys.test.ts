@@ -0,0 +1,97 @@
+/**
+ * Trusted Keys tests — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Key-set payload encoding and root signature checks on install().
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  KEYSET_FORMAT,
+  KEYSET_PAYLOAD_VERSION,
+  KEYSET_VERSION,
+  KeySetDocument,
+  KeySetEntry,
+  buildKeySetPayload,
+  createTrustedKeyRing
+} from "./trustedKeys.js";
+
+const PUBLIC_KEY = "1HGxVUid+CmORx+UyvT16Aq0493ZIe0CM0s+Ghqwd0U=";
+
+function entry(kid: string): KeySetEntry {
+  return { kid, public_key: PUBLIC_KEY, not_before: "2026-01-01T00:00:00.000Z", expires: null, revoked: false };
+}
+
+function unsignedDocument(keys: KeySetEntry[]): KeySetDocument {
+  return {
+    format: KEYSET_FORMAT,
+    version: KEYSET_VERSION,
+    sequence: 1,
+    issued_at: "2026-10-18T12:00:00.000Z",
+    keys,
+    signed_by: "root_test",
+    signature: ""
+  };
+}
+
+async function createRoot() {
+  const pair = await crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign", "verify"]) as CryptoKeyPair;
+  const raw = new Uint8Array(await crypto.subtle.exportKey("raw", pair.publicKey));
+  
+  return {
+    rootKeys: { root_test: Buffer.from(raw).toString("base64") },
+    
+    async sign(document: KeySetDocument): Promise<KeySetDocument> {
+      const signature = await crypto.subtle.sign("Ed25519", pair.privateKey, buildKeySetPayload(document) as BufferSource);
+      return { ...document, signature: Buffer.from(signature).toString("base64") };
+    }
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("buildKeySetPayload", () => {
+  it("starts with its own version byte", () => {
+    expect(buildKeySetPayload(unsignedDocument([entry("key_001")]))[0]).toBe(KEYSET_PAYLOAD_VERSION);
+  });
+  
+  it("keeps separators inside fields from shifting field boundaries", () => {
+    // Equal under the former "kid|public_key|…" lines joined by "\n"
+    const twoKeys = unsignedDocument([entry("key_001"), entry("key_002")]);
+    const oneKey = unsignedDocument([
+      entry(`key_001|${PUBLIC_KEY}|2026-01-01T00:00:00.000Z||0\nkey_002`)
+    ]);
+    
+    expect(buildKeySetPayload(oneKey)).not.toEqual(buildKeySetPayload(twoKeys));
+  });
+});
+
+describe("TrustedKeyRing.install", () => {
+  it("installs a document signed by a pinned root key", async () => {
+    const root = await createRoot();
+    const ring = createTrustedKeyRing({ rootKeys: root.rootKeys });
+    
+    const result = await ring.install(await root.sign(unsignedDocument([entry("key_001")])));
+    
+    expect(result).toEqual({ ok: true, sequence: 1, changed: true });
+    expect(ring.getKeys().map((key) => key.kid)).toEqual(["key_001"]);
+  });
+  
+  it("rejects a document changed after signing", async () => {
+    const root = await createRoot();
+    const ring = createTrustedKeyRing({ rootKeys: root.rootKeys });
+    const signed = await root.sign(unsignedDocument([entry("key_001"), { ...entry("key_002"), revoked: true }]));
+    
+    const result = await ring.install({ ...signed, keys: [entry("key_001"), entry("key_002")] });
+    
+    expect(result).toEqual({ ok: false, error: "root signature invalid" });
+    expect(ring.getSequence()).toBeNull();
+  });
+});
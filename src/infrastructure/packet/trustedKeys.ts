@@ -0,0 +1,586 @@
+/**
+ * Trusted Keys — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Packet signing keys from a signed key-set document
+ * Used by: packetValidator.ts (resolve), main.tsx and deliveryWorker.ts
+ *          (each owns one ring)
+ * 
+ * Document (GET /api/v1/keys):
+ *   {
+ *     "format": "mns-keyset", "version": 1, "sequence": 7,
+ *     "issued_at": "<ISO>",
+ *     "keys": [{ "kid": "key_001", "public_key": "<Base64 raw Ed25519>",
+ *                "not_before": "<ISO>", "expires": "<ISO>" | null, "revoked": false }],
+ *     "signed_by": "root_001",
+ *     "signature": "<Base64 Ed25519 over buildKeySetPayload()>"
+ *   }
+ * 
+ * Only documents signed by a pinned root key (config.rootKeys, from
+ * VITE_KEYSET_ROOT_KEYS) are installed, and never one with a lower
+ * sequence than the installed set (rollback). Rotation is a new
+ * document: the ring refreshes on an interval, and early when a packet
+ * names a kid it does not know. Imported CryptoKeys are cached per
+ * public key.
+ */
+
+"use strict";
+
+import { ValidationReason } from "./validationReason.js";
+import { encodeLengthPrefixed } from "./signedPayload.js";
+
+/* ============================================
+   ED25519 PRIMITIVES
+   ============================================ */
+
+export function decodeBase64ToUint8(base64: string): Uint8Array {
+  try {
+    if (typeof base64 !== 'string') {
+      throw new Error("Not a string");
+    }
+    const normalized = base64.replace(/\s/g, '').trim();
+    if (normalized.length === 0) {
+      throw new Error("Empty Base64");
+    }
+    if (normalized.length < 4) {
+      throw new Error("Base64 too short");
+    }
+    
+    const binaryString = atob(normalized);
+    const len = binaryString.length;
+    const bytes = new Uint8Array(len);
+    for (let i = 0; i < len; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+  } catch (err) {
+    throw new Error("Invalid Base64");
+  }
+}
+
+export async function importPublicKey(base64: string): Promise<CryptoKey> {
+  try {
+    const keyData = decodeBase64ToUint8(base64);
+    return await crypto.subtle.importKey(
+      "raw",
+      keyData as BufferSource,
+      {
+        name: "Ed25519",
+        namedCurve: "Ed25519"
+      } as any,
+      false,
+      ["verify"]
+    );
+  } catch (err) {
+    throw new Error("Key import failed");
+  }
+}
+
+export async function verifySignature(
+  payloadUint8: Uint8Array,
+  signatureUint8: Uint8Array,
+  publicKey: CryptoKey
+): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify(
+      "Ed25519",
+      publicKey,
+      signatureUint8 as BufferSource,
+      payloadUint8 as BufferSource
+    );
+  } catch (err) {
+    return false;
+  }
+}
+
+/* ============================================
+   KEY-SET DOCUMENT
+   ============================================ */
+
+export const KEYSET_FORMAT = "mns-keyset";
+export const KEYSET_VERSION = 1;
+
+/** First byte of the key-set payload (packet payloads start with 0x01) */
+export const KEYSET_PAYLOAD_VERSION = 0x81;
+
+export interface KeySetEntry {
+  kid: string;
+  
+  /** Base64 raw Ed25519 public key (32 bytes) */
+  public_key: string;
+  
+  /** ISO timestamp from which the key may sign */
+  not_before: string;
+  
+  /** ISO timestamp after which the key is no longer trusted (null: open-ended) */
+  expires: string | null;
+  
+  revoked: boolean;
+}
+
+export interface KeySetDocument {
+  format: typeof KEYSET_FORMAT;
+  version: number;
+  
+  /** Increases with every published document */
+  sequence: number;
+  
+  issued_at: string;
+  keys: KeySetEntry[];
+  
+  /** Root kid that signed the document */
+  signed_by: string;
+  
+  signature: string;
+}
+
+export type KeySetCheckResult =
+  | { ok: true; document: KeySetDocument }
+  | { ok: false; error: string };
+
+/**
+ * Bytes covered by the root signature
+ * 
+ * Length-prefixed like the packet payload (signedPayload.ts), with
+ * version byte 0x81: format, version, sequence, issued_at, key count,
+ * then per key in document order the list [kid, public_key, not_before,
+ * expires, revoked] (expires "" when null, revoked "1"/"0").
+ */
+export function buildKeySetPayload(document: KeySetDocument): Uint8Array {
+  return encodeLengthPrefixed(KEYSET_PAYLOAD_VERSION, [
+    KEYSET_FORMAT,
+    String(document.version),
+    String(document.sequence),
+    document.issued_at,
+    String(document.keys.length),
+    ...document.keys.map((key) => [
+      key.kid,
+      key.public_key,
+      key.not_before,
+      key.expires ?? "",
+      key.revoked ? "1" : "0"
+    ])
+  ]);
+}
+
+/**
+ * Structural check of a key-set document (no signature check)
+ */
+export function checkKeySetDocument(value: any, maxKeys: number): KeySetCheckResult {
+  if (!value || typeof value !== "object") {
+    return { ok: false, error: "document is not an object" };
+  }
+  
+  if (value.format !== KEYSET_FORMAT || value.version !== KEYSET_VERSION) {
+    return { ok: false, error: `unsupported format ${String(value.format)} v${String(value.version)}` };
+  }
+  
+  if (!Number.isInteger(value.sequence) || value.sequence < 0) {
+    return { ok: false, error: "invalid sequence" };
+  }
+  
+  if (typeof value.issued_at !== "string" || isNaN(Date.parse(value.issued_at))) {
+    return { ok: false, error: "invalid issued_at" };
+  }
+  
+  if (typeof value.signed_by !== "string" || typeof value.signature !== "string") {
+    return { ok: false, error: "missing signed_by or signature" };
+  }
+  
+  if (!Array.isArray(value.keys) || value.keys.length === 0 || value.keys.length > maxKeys) {
+    return { ok: false, error: `keys must list 1–${maxKeys} entries` };
+  }
+  
+  const seen = new Set<string>();
+  for (const key of value.keys) {
+    const error = checkKeySetEntry(key);
+    if (error !== null) {
+      return { ok: false, error };
+    }
+    if (seen.has(key.kid)) {
+      return { ok: false, error: `duplicate kid ${key.kid}` };
+    }
+    seen.add(key.kid);
+  }
+  
+  return { ok: true, document: value as KeySetDocument };
+}
+
+function checkKeySetEntry(key: any): string | null {
+  if (!key || typeof key !== "object") {
+    return "key entry is not an object";
+  }
+  
+  if (typeof key.kid !== "string" || key.kid.length === 0 || key.kid.length > 64) {
+    return "invalid kid";
+  }
+  
+  try {
+    if (decodeBase64ToUint8(key.public_key).length !== 32) {
+      return `public_key of ${key.kid} is not 32 bytes`;
+    }
+  } catch (err) {
+    return `public_key of ${key.kid} is not Base64`;
+  }
+  
+  if (typeof key.not_before !== "string" || isNaN(Date.parse(key.not_before))) {
+    return `invalid not_before for ${key.kid}`;
+  }
+  
+  if (key.expires !== null && (typeof key.expires !== "string" || isNaN(Date.parse(key.expires)))) {
+    return `invalid expires for ${key.kid}`;
+  }
+  
+  if (typeof key.revoked !== "boolean") {
+    return `invalid revoked for ${key.kid}`;
+  }
+  
+  return null;
+}
+
+/**
+ * Parse "kid:base64,kid:base64" (VITE_KEYSET_ROOT_KEYS) into root keys
+ */
+export function parseRootKeys(value: string | undefined): Record<string, string> {
+  const rootKeys: Record<string, string> = {};
+  
+  for (const item of (value ?? "").split(",")) {
+    const separator = item.indexOf(":");
+    if (separator > 0) {
+      rootKeys[item.slice(0, separator).trim()] = item.slice(separator + 1).trim();
+    }
+  }
+  
+  return rootKeys;
+}
+
+/* ============================================
+   CONFIGURATION
+   ============================================ */
+
+export interface TrustedKeyRingConfig {
+  /** Keys allowed to sign key-set documents: kid → Base64 raw Ed25519 */
+  rootKeys: Record<string, string>;
+  
+  /** Key-set endpoint (null: no fetching, install() only) */
+  endpoint: string | null;
+  
+  /** Refresh interval after a successful fetch (default: 600000ms = 10min) */
+  refreshInterval: number;
+  
+  /** Retry interval after a failed fetch (default: 30000ms) */
+  retryInterval: number;
+  
+  /** Minimum time between fetches triggered by unknown kids (default: 60000ms) */
+  minRefreshGap: number;
+  
+  /** Abort a fetch after this long (default: 8000ms) */
+  requestTimeout: number;
+  
+  /** Keys accepted in one document (default: 8) */
+  maxKeys: number;
+}
+
+const DEFAULT_CONFIG: TrustedKeyRingConfig = {
+  rootKeys: {},
+  endpoint: null,
+  refreshInterval: 600000,
+  retryInterval: 30000,
+  minRefreshGap: 60000,
+  requestTimeout: 8000,
+  maxKeys: 8
+};
+
+/**
+ * Cloneable subset for the delivery worker (the worker builds its own ring)
+ */
+export type TrustedKeyRingOptions = Partial<TrustedKeyRingConfig>;
+
+export type KeySetInstallResult =
+  | { ok: true; sequence: number; changed: boolean }
+  | { ok: false; error: string };
+
+export type KeyResolution =
+  | { ok: true; key: CryptoKey }
+  | { ok: false; reason: ValidationReason };
+
+/* ============================================
+   TRUSTED KEY RING
+   ============================================ */
+
+export class TrustedKeyRing {
+  private config: TrustedKeyRingConfig;
+  private document: KeySetDocument | null = null;
+  private entries: Map<string, KeySetEntry> = new Map();
+  
+  // Imports are cached per public key, so a rotated key under a reused
+  // kid is never verified with the old material
+  private cryptoKeys: Map<string, Promise<CryptoKey>> = new Map();
+  
+  private isStarted: boolean = false;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: Promise<KeySetInstallResult> | null = null;
+  private lastFetchAt: number = 0;
+  
+  constructor(config: Partial<TrustedKeyRingConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+  
+  /**
+   * Sequence of the installed document (null: none yet)
+   */
+  public getSequence(): number | null {
+    return this.document ? this.document.sequence : null;
+  }
+  
+  /**
+   * Installed key entries (copies)
+   */
+  public getKeys(): KeySetEntry[] {
+    return [...this.entries.values()].map((entry) => ({ ...entry }));
+  }
+  
+  /**
+   * Fetch now and keep refreshing (no-op without endpoint or root keys)
+   */
+  public start(): void {
+    if (this.isStarted || this.config.endpoint === null) {
+      return;
+    }
+    
+    if (Object.keys(this.config.rootKeys).length === 0) {
+      this.logError("No key-set root keys configured — Tier 1/2 packets will be unverified", null);
+      return;
+    }
+    
+    this.isStarted = true;
+    void this.refresh();
+  }
+  
+  public stop(): void {
+    this.isStarted = false;
+    
+    if (this.refreshTimer !== null) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+  
+  /**
+   * Fetch and install the key set (concurrent calls share one request)
+   */
+  public refresh(): Promise<KeySetInstallResult> {
+    if (this.inFlight === null) {
+      this.inFlight = this.fetchAndInstall().then((result) => {
+        this.inFlight = null;
+        this.scheduleRefresh(result.ok ? this.config.refreshInterval : this.config.retryInterval);
+        return result;
+      });
+    }
+    
+    return this.inFlight;
+  }
+  
+  /**
+   * Verify a key-set document and make it current
+   * 
+   * Rejected: malformed, unknown root kid, bad signature, lower sequence.
+   * The same sequence again is accepted without change.
+   */
+  public async install(value: unknown): Promise<KeySetInstallResult> {
+    const checked = checkKeySetDocument(value, this.config.maxKeys);
+    if (checked.ok === false) {
+      return this.rejectKeySet(checked.error);
+    }
+    
+    const document = checked.document;
+    const rootKey = this.config.rootKeys[document.signed_by];
+    if (!rootKey) {
+      return this.rejectKeySet(`signed by unknown root ${document.signed_by}`);
+    }
+    
+    let signature: Uint8Array;
+    try {
+      signature = decodeBase64ToUint8(document.signature);
+    } catch (err) {
+      return this.rejectKeySet("signature is not Base64");
+    }
+    
+    let valid = false;
+    try {
+      valid = signature.length === 64 &&
+        await verifySignature(buildKeySetPayload(document), signature, await this.getCryptoKey(rootKey));
+    } catch (err) {
+      return this.rejectKeySet("root key import failed");
+    }
+    
+    if (!valid) {
+      return this.rejectKeySet("root signature invalid");
+    }
+    
+    if (this.document !== null && document.sequence <= this.document.sequence) {
+      if (document.sequence < this.document.sequence) {
+        return this.rejectKeySet(`rollback to sequence ${document.sequence} (installed ${this.document.sequence})`);
+      }
+      return { ok: true, sequence: document.sequence, changed: false };
+    }
+    
+    this.document = document;
+    this.entries = new Map(document.keys.map((key) => [key.kid, { ...key }]));
+    
+    // Drop imports of keys that left the set (root keys stay)
+    const retained = new Set([
+      ...document.keys.map((key) => key.public_key),
+      ...Object.values(this.config.rootKeys)
+    ]);
+    for (const publicKey of [...this.cryptoKeys.keys()]) {
+      if (!retained.has(publicKey)) {
+        this.cryptoKeys.delete(publicKey);
+      }
+    }
+    
+    this.logLifecycle(`Key set ${document.sequence} installed: ${document.keys.map(describeKey).join(", ")}`);
+    return { ok: true, sequence: document.sequence, changed: true };
+  }
+  
+  /**
+   * Verification key for a kid at a point in time
+   */
+  public async resolve(kid: string, now: number = Date.now()): Promise<KeyResolution> {
+    if (this.document === null) {
+      this.refreshEarly();
+      return { ok: false, reason: ValidationReason.KEYSET_UNAVAILABLE };
+    }
+    
+    const entry = this.entries.get(kid);
+    if (!entry) {
+      // Possibly signed with a key published after our last fetch
+      this.refreshEarly();
+      return { ok: false, reason: ValidationReason.UNKNOWN_KID };
+    }
+    
+    if (entry.revoked) {
+      return { ok: false, reason: ValidationReason.KEY_REVOKED };
+    }
+    
+    if (Date.parse(entry.not_before) > now) {
+      return { ok: false, reason: ValidationReason.KEY_NOT_YET_VALID };
+    }
+    
+    if (entry.expires !== null && Date.parse(entry.expires) <= now) {
+      return { ok: false, reason: ValidationReason.KEY_EXPIRED };
+    }
+    
+    try {
+      return { ok: true, key: await this.getCryptoKey(entry.public_key) };
+    } catch (err) {
+      return { ok: false, reason: ValidationReason.INTERNAL_ERROR };
+    }
+  }
+  
+  /* ============================================
+     PRIVATE
+     ============================================ */
+  
+  private getCryptoKey(publicKey: string): Promise<CryptoKey> {
+    let key = this.cryptoKeys.get(publicKey);
+    
+    if (!key) {
+      key = importPublicKey(publicKey);
+      this.cryptoKeys.set(publicKey, key);
+      
+      // A failed import is retried on next use
+      key.catch(() => this.cryptoKeys.delete(publicKey));
+    }
+    
+    return key;
+  }
+  
+  private async fetchAndInstall(): Promise<KeySetInstallResult> {
+    this.lastFetchAt = Date.now();
+    
+    const abortController = new AbortController();
+    const timeoutTimer = setTimeout(() => abortController.abort(), this.config.requestTimeout);
+    
+    try {
+      const response = await fetch(this.config.endpoint!, {
+        method: "GET",
+        cache: "no-store",
+        signal: abortController.signal,
+        headers: { "Accept": "application/json" }
+      });
+      
+      if (!response.ok) {
+        return this.rejectKeySet(`HTTP ${response.status}`);
+      }
+      
+      return await this.install(await response.json());
+    
+    } catch (err) {
+      return this.rejectKeySet(abortController.signal.aborted ? "request timed out" : "request failed");
+    
+    } finally {
+      clearTimeout(timeoutTimer);
+    }
+  }
+  
+  private scheduleRefresh(delayMs: number): void {
+    if (this.refreshTimer !== null) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    
+    if (!this.isStarted) {
+      return;
+    }
+    
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      void this.refresh();
+    }, delayMs);
+  }
+  
+  /**
+   * Fetch ahead of schedule, at most once per minRefreshGap
+   */
+  private refreshEarly(): void {
+    if (this.isStarted && this.inFlight === null && Date.now() - this.lastFetchAt >= this.config.minRefreshGap) {
+      this.logLifecycle("Unknown or missing key — refreshing key set early");
+      void this.refresh();
+    }
+  }
+  
+  private rejectKeySet(error: string): KeySetInstallResult {
+    this.logError(`Key set rejected: ${error}`, null);
+    return { ok: false, error };
+  }
+  
+  private logLifecycle(message: string): void {
+    const timestamp = new Date().toISOString();
+    console.log(`[TrustedKeys][${timestamp}] ${message}`);
+  }
+  
+  private logError(message: string, error: any): void {
+    const timestamp = new Date().toISOString();
+    console.error(`[TrustedKeys][${timestamp}] ERROR: ${message}`);
+    
+    if (error && error instanceof Error) {
+      console.error(`[TrustedKeys][${timestamp}] ${error.message}`);
+    }
+  }
+}
+
+function describeKey(entry: KeySetEntry): string {
+  if (entry.revoked) {
+    return `${entry.kid} (revoked)`;
+  }
+  return entry.expires ? `${entry.kid} (until ${entry.expires})` : entry.kid;
+}
+
+/* ============================================
+   FACTORY FUNCTION
+   ============================================ */
+
+export function createTrustedKeyRing(config: Partial<TrustedKeyRingConfig> = {}): TrustedKeyRing {
+  return new TrustedKeyRing(config);
+}
@@ -0,0 +1,55 @@
+/**
+ * Validation Reason — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Why a packet failed validation and is shown as UNVERIFIED
+ * (kept separate so trustedKeys.ts and packetValidator.ts share it
+ * without importing each other)
+ */
+
+"use strict";
+
+/* ============================================
+   VALIDATION REASON
+   ============================================ */
+
+export enum ValidationReason {
+  /** Signature was a placeholder filled in by the wire adapter */
+  SYNTHESIZED_SIGNATURE = "SYNTHESIZED_SIGNATURE",
+  
+  /** Strict schema check failed (structural) */
+  SCHEMA_INVALID = "SCHEMA_INVALID",
+  
+  /** No verified key set loaded yet (or no root keys configured) */
+  KEYSET_UNAVAILABLE = "KEYSET_UNAVAILABLE",
+  
+  /** kid not in the key set */
+  UNKNOWN_KID = "UNKNOWN_KID",
+  
+  /** Key's not_before is in the future */
+  KEY_NOT_YET_VALID = "KEY_NOT_YET_VALID",
+  
+  /** Key's expires is in the past */
+  KEY_EXPIRED = "KEY_EXPIRED",
+  
+  /** Key is marked revoked */
+  KEY_REVOKED = "KEY_REVOKED",
+  
+  /** issued_at missing, malformed or outside the allowed skew */
+  STALE_PACKET = "STALE_PACKET",
+  
+  /** Signed payload too large */
+  PAYLOAD_SIZE = "PAYLOAD_SIZE",
+  
+  /** Signature is not 64 bytes of Base64 */
+  MALFORMED_SIGNATURE = "MALFORMED_SIGNATURE",
+  
+  /** Ed25519 verification failed */
+  SIGNATURE_INVALID = "SIGNATURE_INVALID",
+  
+  /** A newer packet arrived while this one was validated (dropped by the caller) */
+  SUPERSEDED = "SUPERSEDED",
+  
+  /** Unexpected failure (e.g. WebCrypto without Ed25519) */
+  INTERNAL_ERROR = "INTERNAL_ERROR"
+}
@@ -0,0 +1,127 @@
+/**
+ * Wire Format Adapter tests — Phase 22.2
+ * Market Navigation System (MNS)
+ * 
+ * Version negotiation and the v2 aggregate → nav packet translation,
+ * checked through the strict schema.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  WireFormatErrorCode,
+  adaptWirePayload,
+  getSupportedWireVersions,
+  withWireVersions
+} from "./wireFormat.js";
+import { PacketErrorCode, decodePacket } from "./packetSchema.js";
+
+const TIER0 = {
+  symbol: "BTCUSDT",
+  horizon: "7D",
+  regime: "EXPANSION",
+  risk: "NORMAL",
+  confidence: 0.7,
+  p10: 60000,
+  p50: 65000,
+  p90: 70000
+};
+
+const SIGNED = {
+  tier1: { bias: "BULLISH", stability: "MATURE" },
+  meta: { kid: "key_001", signature: "c2ln", issued_at: "2026-10-18T12:00:00.000Z" }
+};
+
+function adapt(payload: unknown): any {
+  const adapted = adaptWirePayload(payload);
+  if (adapted.ok === false) {
+    throw new Error(adapted.reason);
+  }
+  return adapted.packet;
+}
+
+describe("wire version negotiation", () => {
+  it("lists the registered versions newest first", () => {
+    expect(getSupportedWireVersions()).toEqual([2, 1]);
+  });
+  
+  it("appends the versions to request URLs", () => {
+    expect(withWireVersions("/stream")).toBe("/stream?wire=2,1");
+    expect(withWireVersions("/stream?lastEventId=7")).toBe("/stream?lastEventId=7&wire=2,1");
+  });
+  
+  it("rejects payloads declaring an unknown version", () => {
+    expect(adaptWirePayload({ version: 99, nav: {} })).toEqual({
+      ok: false,
+      reason: WireFormatErrorCode.UNSUPPORTED_VERSION
+    });
+  });
+});
+
+describe("v2 aggregate", () => {
+  it("marks a missing tier 0 status UNKNOWN, never LIVE", () => {
+    const packet = adapt({ tier0: TIER0 });
+    
+    expect(packet.nav.status).toBe("UNKNOWN");
+    expect(packet.meta.synthesized).toEqual(["nav.status"]);
+    expect(decodePacket(packet, { strict: true }).ok).toBe(true);
+  });
+  
+  it("keeps a status sent by the backend", () => {
+    const packet = adapt({ tier0: { ...TIER0, status: "STALE" } });
+    
+    expect(packet.nav.status).toBe("STALE");
+    expect(packet.meta.synthesized).toBeUndefined();
+  });
+  
+  it.each([
+    [0.2, "LOW"],
+    [0.55, "MEDIUM"],
+    [0.7, "MEDIUM"],
+    [0.75, "HIGH"],
+    [1, "HIGH"]
+  ])("maps confidence %s to %s", (confidence, level) => {
+    const packet = adapt({ tier0: { ...TIER0, confidence }, ...SIGNED });
+    
+    expect(packet.nav.confidence).toBe(level);
+    expect(packet.forecast.confidence).toBe(confidence);
+    expect(decodePacket(packet, { strict: true }).ok).toBe(true);
+  });
+  
+  it("passes catalog confidence through and leaves out-of-range numbers to the schema", () => {
+    expect(adapt({ tier0: { ...TIER0, confidence: "LOW" } }).nav.confidence).toBe("LOW");
+    expect(decodePacket(adapt({ tier0: { ...TIER0, confidence: 70 } }))).toMatchObject({
+      ok: false,
+      error: { code: PacketErrorCode.WRONG_TYPE, path: "nav.confidence" }
+    });
+  });
+  
+  it.each([
+    ["regime", { tier0: { ...TIER0, regime: undefined } }, "nav.regime"],
+    ["risk", { tier0: { ...TIER0, risk: undefined } }, "nav.risk"],
+    ["confidence", { tier0: { ...TIER0, confidence: undefined } }, "nav.confidence"],
+    ["stability", { ...SIGNED, tier0: TIER0, tier1: { bias: "BULLISH" } }, "nav.stability"],
+    ["bias", { ...SIGNED, tier0: TIER0, tier2: { drivers: [] }, tier1: undefined }, "nav.bias"]
+  ])("rejects a packet without %s instead of inventing one", (_name, payload, path) => {
+    expect(decodePacket(adapt(payload))).toMatchObject({
+      ok: false,
+      error: { code: PacketErrorCode.MISSING_FIELD, path }
+    });
+  });
+  
+  it("preserves navigator lists and the signature block", () => {
+    const packet = adapt({
+      ...SIGNED,
+      tier0: TIER0,
+      tier2: { drivers: ["MOMENTUM_SHIFT"], blockers: [], gaps: ["STRUCTURAL_IMBALANCE"], liquidity_state: "THIN" }
+    });
+    
+    expect(packet.meta).toEqual({ tier: 2, ...SIGNED.meta });
+    expect(packet.navigator).toEqual({
+      drivers: ["MOMENTUM_SHIFT"],
+      blockers: [],
+      gaps: ["STRUCTURAL_IMBALANCE"],
+      liquidity_state: "THIN"
+    });
+    expect(decodePacket(packet, { strict: true }).ok).toBe(true);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Wire Format Adapters — Phase 22.2
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Translate versioned backend payloads into nav packets
+ * Used by: SSEClient (nav_update events), DeliveryController (REST snapshots)
+ * 
+ * Supported formats:
+ * - v1 "nav":       { nav, navigator?, meta? } — already a MarketPacket
+ * - v2 "aggregate": { tier0, tier1?, tier2?, timestamp } — backend aggregate
+ * 
+ * Selection order: `version` field, then `format` field, then shape
+ * detection (for payloads that predate versioning).
+ * 
+ * Negotiation: every SSE, WebSocket and REST request carries the
+ * supported versions as a query parameter (withWireVersions(), e.g.
+ * "?wire=2,1"). A server that serves none of them answers HTTP 406
+ * (SSE fetch transport, REST) or closes the socket with code 4406; the
+ * DeliveryController then gives up on that mode without retrying.
+ * 
+ * Guarantees:
+ * - Every aggregate field with a packet counterpart is preserved
+ *   (navigator gaps, liquidity_state, forecast quantiles)
+ * - Classifications are never invented: a missing regime, risk,
+ *   confidence, bias or stability stays missing and decodePacket rejects
+ *   the packet. Numeric confidence is mapped onto the catalog.
+ * - Any other value the adapter has to invent is listed in
+ *   meta.synthesized (tier 0 status is "UNKNOWN", never "LIVE"); missing
+ *   signatures stay empty and are rejected by the state layer instead of
+ *   passing as "unsigned"
+ * 
+ * Non-goals:
+ * - No validation (output goes through decodePacket)
+ * - No cryptographic checks
+ */
+
+"use strict";
+
+/* ============================================
+   ADAPTER REGISTRY
+   ============================================ */
+
+export interface WireFormatAdapter {
+  /** Protocol version accepted in the `version` field */
+  version: number;
+  
+  /** Format name accepted in the `format` field */
+  format: string;
+  
+  /** Whether an unversioned payload has this format's shape */
+  detect: (payload: Record<string, any>) => boolean;
+  
+  /** Translate payload into a packet candidate (validated by the caller) */
+  toPacket: (payload: Record<string, any>) => unknown;
+}
+
+export enum WireFormatErrorCode {
+  /** Payload is not a JSON object */
+  NOT_OBJECT = "NOT_OBJECT",
+  
+  /** Declared version/format has no registered adapter */
+  UNSUPPORTED_VERSION = "UNSUPPORTED_VERSION",
+  
+  /** Unversioned payload matches no known shape */
+  UNRECOGNIZED_FORMAT = "UNRECOGNIZED_FORMAT"
+}
+
+export type WireAdaptResult =
+  | { ok: true; version: number; packet: unknown }
+  | { ok: false; reason: WireFormatErrorCode };
+
+const adapters: WireFormatAdapter[] = [];
+
+/**
+ * Register an adapter for a new protocol version
+ * 
+ * Later registrations for the same version replace earlier ones.
+ * Detection runs in registration order.
+ */
+export function registerWireFormat(adapter: WireFormatAdapter): void {
+  const index = adapters.findIndex((a) => a.version === adapter.version);
+  if (index === -1) {
+    adapters.push(adapter);
+  } else {
+    adapters[index] = adapter;
+  }
+}
+
+/**
+ * Protocol versions this client understands, newest first
+ */
+export function getSupportedWireVersions(): number[] {
+  return adapters.map((a) => a.version).sort((a, b) => b - a);
+}
+
+/* ============================================
+   VERSION NEGOTIATION
+   ============================================ */
+
+/** Query parameter listing the supported versions */
+export const WIRE_VERSIONS_PARAM = "wire";
+
+/** HTTP status of a server that serves none of the offered versions */
+export const WIRE_VERSIONS_REJECTED_STATUS = 406;
+
+/** WebSocket close code of a server that serves none of the offered versions */
+export const WIRE_VERSIONS_REJECTED_CLOSE_CODE = 4406;
+
+/**
+ * Append the supported versions to a request URL ("/stream?wire=2,1")
+ */
+export function withWireVersions(url: string): string {
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}${WIRE_VERSIONS_PARAM}=${getSupportedWireVersions().join(",")}`;
+}
+
+/* ============================================
+   ADAPTATION
+   ============================================ */
+
+/**
+ * Translate a parsed backend payload into a packet candidate
+ */
+export function adaptWirePayload(payload: unknown): WireAdaptResult {
+  if (payload === null || typeof payload !== "object" || Array.isArray(payload)) {
+    return { ok: false, reason: WireFormatErrorCode.NOT_OBJECT };
+  }
+  
+  const record = payload as Record<string, any>;
+  let adapter: WireFormatAdapter | undefined;
+  
+  if (record.version !== undefined && record.version !== null) {
+    const version = Number(record.version);
+    adapter = adapters.find((a) => a.version === version);
+    if (!adapter) {
+      return { ok: false, reason: WireFormatErrorCode.UNSUPPORTED_VERSION };
+    }
+  } else if (typeof record.format === "string") {
+    adapter = adapters.find((a) => a.format === record.format);
+    if (!adapter) {
+      return { ok: false, reason: WireFormatErrorCode.UNSUPPORTED_VERSION };
+    }
+  } else {
+    adapter = adapters.find((a) => a.detect(record));
+    if (!adapter) {
+      return { ok: false, reason: WireFormatErrorCode.UNRECOGNIZED_FORMAT };
+    }
+  }
+  
+  return { ok: true, version: adapter.version, packet: adapter.toPacket(record) };
+}
+
+/* ============================================
+   V1: NAV PACKET
+   ============================================ */
+
+registerWireFormat({
+  version: 1,
+  format: "nav",
+  detect: (payload) => typeof payload.nav === "object" && payload.nav !== null,
+  // Envelope fields are not packet fields (decodePacket rejects unknown ones)
+  toPacket: ({ version, format, ...packet }) => packet
+});
+
+/* ============================================
+   V2: BACKEND AGGREGATE
+   ============================================ */
+
+const FORECAST_STRING_FIELDS = ["symbol", "horizon"] as const;
+const FORECAST_NUMBER_FIELDS = ["p10", "p25", "p50", "p75", "p90", "confidence"] as const;
+
+/**
+ * Convert aggregate timestamp (seconds, or milliseconds if large) to ISO 8601
+ */
+function timestampToISO(timestamp: unknown): string | null {
+  if (typeof timestamp !== "number" || !Number.isFinite(timestamp)) {
+    return null;
+  }
+  const ms = timestamp < 1e12 ? timestamp * 1000 : timestamp;
+  return new Date(ms).toISOString();
+}
+
+/**
+ * Numeric confidence (0–1) as a catalog level, with the bands of the
+ * confidence gauge (ui/charts.ts); anything else is passed through for
+ * decodePacket to judge
+ */
+function toConfidenceLevel(confidence: unknown): unknown {
+  if (typeof confidence !== "number" || !Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+    return confidence;
+  }
+  if (confidence >= 0.75) return "HIGH";
+  if (confidence >= 0.55) return "MEDIUM";
+  return "LOW";
+}
+
+function aggregateToPacket(payload: Record<string, any>): unknown {
+  const synthesized: string[] = [];
+  
+  // Use the payload value, or record that a placeholder was invented
+  const take = <T>(value: T | undefined | null, fallback: T, path: string): T => {
+    if (value === undefined || value === null) {
+      synthesized.push(path);
+      return fallback;
+    }
+    return value;
+  };
+  
+  const tier0 = payload.tier0 ?? {};
+  const tier1 = payload.tier1;
+  const tier2 = payload.tier2;
+  const tier = tier2 ? 2 : tier1 ? 1 : 0;
+  
+  // Missing classifications stay missing (decodePacket rejects them)
+  const nav: Record<string, any> = {
+    regime: tier0.regime,
+    risk: tier0.risk,
+    confidence: toConfidenceLevel(tier0.confidence)
+  };
+  
+  const packet: Record<string, any> = { nav };
+  
+  // Forecast quantiles ride along untouched
+  const forecast: Record<string, any> = {};
+  for (const key of FORECAST_STRING_FIELDS) {
+    if (typeof tier0[key] === "string") forecast[key] = tier0[key];
+  }
+  for (const key of FORECAST_NUMBER_FIELDS) {
+    if (typeof tier0[key] === "number") forecast[key] = tier0[key];
+  }
+  if (Object.keys(forecast).length > 0) {
+    packet.forecast = forecast;
+  }
+  
+  if (tier === 0) {
+    nav.status = take(tier0.status, "UNKNOWN", "nav.status");
+    if (typeof tier0.scope === "string") {
+      nav.scope = tier0.scope;
+    }
+    packet.meta = { tier: 0 };
+  } else {
+    nav.bias = tier1?.bias;
+    nav.stability = tier1?.stability;
+    
+    // Signature block may be nested under meta or flat on the aggregate
+    const signed = payload.meta ?? payload;
+    const issuedAt = signed.issued_at ?? timestampToISO(payload.timestamp);
+    
+    packet.meta = {
+      tier,
+      signature: take(signed.signature, "", "meta.signature"),
+      kid: take(signed.kid, "", "meta.kid"),
+      issued_at: take(issuedAt, new Date().toISOString(), "meta.issued_at")
+    };
+  }
+  
+  if (tier === 2) {
+    packet.navigator = {
+      drivers: take(tier2.drivers, [], "navigator.drivers"),
+      blockers: take(tier2.blockers, [], "navigator.blockers"),
+      gaps: take(tier2.gaps, [], "navigator.gaps")
+    };
+    if (tier2.liquidity_state !== undefined && tier2.liquidity_state !== null) {
+      packet.navigator.liquidity_state = tier2.liquidity_state;
+    }
+  }
+  
+  if (synthesized.length > 0) {
+    packet.meta.synthesized = synthesized;
+  }
+  
+  return packet;
+}
+
+registerWireFormat({
+  version: 2,
+  format: "aggregate",
+  detect: (payload) => Boolean(payload.tier0 || payload.tier1 || payload.tier2),
+  toPacket: aggregateToPacket
+});
@@ -0,0 +1,270 @@
+/**
+ * Delivery Recording — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Capture what DeliveryController handed to the state layer
+ * Used by: main.tsx (?record), ReplaySession, headless scripts
+ * 
+ * Format (JSON lines, one object per line):
+ *   {"type":"header","format":"mns-delivery-recording","version":1,"startedAt":"<ISO>"}
+ *   {"type":"packet","t":120,"source":"SSE_PRIMARY","packet":{...}}
+ *   {"type":"mode","t":4031,"mode":"REST_DEGRADED"}
+ *   {"type":"error","t":4030,"message":"SSE stream failed"}
+ * 
+ * `t` is milliseconds since recording start. Packets are stored exactly
+ * as forwarded by onPacket (after wire adaptation and structural decode,
+ * before signature validation).
+ * 
+ * Recordings contain packet content: they are written only on request
+ * and never leave the browser on their own.
+ */
+
+"use strict";
+
+import {
+  DeliveryControllerHandlers,
+  DeliveryMode
+} from "../delivery/deliveryController.js";
+import { MarketPacket } from "../sse/sseClient.js";
+
+/* ============================================
+   FORMAT
+   ============================================ */
+
+export const RECORDING_FORMAT = "mns-delivery-recording";
+export const RECORDING_VERSION = 1;
+
+export interface RecordingHeader {
+  type: "header";
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  startedAt: string;
+}
+
+export type RecordingEntry =
+  | { type: "packet"; t: number; source: DeliveryMode; packet: MarketPacket }
+  | { type: "mode"; t: number; mode: DeliveryMode }
+  | { type: "error"; t: number; message: string };
+
+export interface DeliveryRecording {
+  header: RecordingHeader;
+  entries: RecordingEntry[];
+}
+
+export interface RecordingParseError {
+  /** 1-based line number */
+  line: number;
+  message: string;
+}
+
+export type RecordingParseResult =
+  | { ok: true; recording: DeliveryRecording }
+  | { ok: false; error: RecordingParseError };
+
+/**
+ * Serialize a recording to JSON lines (trailing newline included)
+ */
+export function serializeRecording(recording: DeliveryRecording): string {
+  const lines = [JSON.stringify(recording.header)];
+  
+  for (const entry of recording.entries) {
+    lines.push(JSON.stringify(entry));
+  }
+  
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Parse JSON lines into a recording
+ * 
+ * Blank lines are skipped. Entries must be in non-decreasing `t` order.
+ */
+export function parseRecording(text: string): RecordingParseResult {
+  const lines = text.split(/\r?\n/);
+  let header: RecordingHeader | null = null;
+  const entries: RecordingEntry[] = [];
+  let lastT = 0;
+  
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === "") {
+      continue;
+    }
+    
+    let value: any;
+    try {
+      value = JSON.parse(line);
+    } catch (err) {
+      return { ok: false, error: { line: i + 1, message: "Invalid JSON" } };
+    }
+    
+    if (header === null) {
+      if (value?.type !== "header" || value.format !== RECORDING_FORMAT) {
+        return { ok: false, error: { line: i + 1, message: "Missing recording header" } };
+      }
+      if (value.version !== RECORDING_VERSION) {
+        return { ok: false, error: { line: i + 1, message: `Unsupported version ${value.version}` } };
+      }
+      header = value as RecordingHeader;
+      continue;
+    }
+    
+    const entryError = checkEntry(value, lastT);
+    if (entryError !== null) {
+      return { ok: false, error: { line: i + 1, message: entryError } };
+    }
+    
+    lastT = value.t;
+    entries.push(value as RecordingEntry);
+  }
+  
+  if (header === null) {
+    return { ok: false, error: { line: 1, message: "Empty recording" } };
+  }
+  
+  return { ok: true, recording: { header, entries } };
+}
+
+function checkEntry(value: any, lastT: number): string | null {
+  if (!value || typeof value !== "object") {
+    return "Entry is not an object";
+  }
+  
+  if (typeof value.t !== "number" || !Number.isFinite(value.t) || value.t < lastT) {
+    return "Missing or out-of-order timestamp";
+  }
+  
+  switch (value.type) {
+    case "packet":
+      return value.packet && typeof value.packet === "object" ? null : "Packet entry without packet";
+    case "mode":
+      return typeof value.mode === "string" ? null : "Mode entry without mode";
+    case "error":
+      return typeof value.message === "string" ? null : "Error entry without message";
+    default:
+      return `Unknown entry type ${String(value.type)}`;
+  }
+}
+
+/* ============================================
+   RECORDER
+   ============================================ */
+
+export interface DeliveryRecorderConfig {
+  /** Entries kept; the oldest are dropped beyond this (default: 10000) */
+  maxEntries: number;
+}
+
+const DEFAULT_CONFIG: DeliveryRecorderConfig = {
+  maxEntries: 10000
+};
+
+/**
+ * Records packets, mode changes and errors
+ * 
+ * Usually attached by wrapping the controller handlers:
+ *   createDeliveryController(config, recorder.wrap(handlers))
+ */
+export class DeliveryRecorder {
+  private config: DeliveryRecorderConfig;
+  private startedAtMs: number;
+  private entries: RecordingEntry[] = [];
+  private dropped: number = 0;
+  
+  constructor(config: Partial<DeliveryRecorderConfig> = {}, now: number = Date.now()) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.startedAtMs = now;
+  }
+  
+  /**
+   * Return handlers that record every call before delegating
+   */
+  public wrap(handlers: DeliveryControllerHandlers): DeliveryControllerHandlers {
+    return {
+      ...handlers,
+      onPacket: (packet, source) => {
+        this.recordPacket(packet, source);
+        handlers.onPacket(packet, source);
+      },
+      onModeChange: (mode) => {
+        this.recordMode(mode);
+        handlers.onModeChange(mode);
+      },
+      onError: (error) => {
+        this.recordError(error.message);
+        if (handlers.onError) {
+          handlers.onError(error);
+        }
+      }
+    };
+  }
+  
+  public recordPacket(packet: MarketPacket, source: DeliveryMode, now: number = Date.now()): void {
+    // Deep copy: the state layer must not be able to alter the record
+    this.push({ type: "packet", t: this.elapsed(now), source, packet: JSON.parse(JSON.stringify(packet)) });
+  }
+  
+  public recordMode(mode: DeliveryMode, now: number = Date.now()): void {
+    this.push({ type: "mode", t: this.elapsed(now), mode });
+  }
+  
+  public recordError(message: string, now: number = Date.now()): void {
+    this.push({ type: "error", t: this.elapsed(now), message });
+  }
+  
+  /**
+   * Entries dropped because of maxEntries
+   */
+  public getDroppedCount(): number {
+    return this.dropped;
+  }
+  
+  /**
+   * Current recording (copy of the entry list)
+   */
+  public getRecording(): DeliveryRecording {
+    return {
+      header: {
+        type: "header",
+        format: RECORDING_FORMAT,
+        version: RECORDING_VERSION,
+        startedAt: new Date(this.startedAtMs).toISOString()
+      },
+      entries: [...this.entries]
+    };
+  }
+  
+  public toJSONLines(): string {
+    return serializeRecording(this.getRecording());
+  }
+  
+  /**
+   * Drop all entries and restart the clock
+   */
+  public clear(now: number = Date.now()): void {
+    this.entries = [];
+    this.dropped = 0;
+    this.startedAtMs = now;
+  }
+  
+  private elapsed(now: number): number {
+    return Math.max(now - this.startedAtMs, 0);
+  }
+  
+  private push(entry: RecordingEntry): void {
+    this.entries.push(entry);
+    
+    if (this.entries.length > this.config.maxEntries) {
+      this.entries.shift();
+      this.dropped++;
+    }
+  }
+}
+
+/* ============================================
+   FACTORY FUNCTION
+   ============================================ */
+
+export function createDeliveryRecorder(config: Partial<DeliveryRecorderConfig> = {}): DeliveryRecorder {
+  return new DeliveryRecorder(config);
+}
@@ -0,0 +1,300 @@
+/**
+ * Replay tests — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Headless replay as in docs/REPLAY.md: recordings fed through the real
+ * DeliveryController, recorded timing, reconnects, and freshness of
+ * recorded signed packets against the recording's clock.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DeliveryMode, createDeliveryController } from "../delivery/deliveryController.js";
+import {
+  DeliveryRecorder,
+  DeliveryRecording,
+  RecordingEntry,
+  parseRecording,
+  serializeRecording
+} from "./deliveryRecording.js";
+import { ReplaySession, createReplaySession } from "./replayTransport.js";
+import { MarketPacket } from "../packet/packetSchema.js";
+import { buildSignedPayload } from "../packet/signedPayload.js";
+import { KEYSET_FORMAT, KEYSET_VERSION, buildKeySetPayload, createTrustedKeyRing } from "../packet/trustedKeys.js";
+import { ValidationReason, validatePacket } from "../packet/packetValidator.js";
+
+const STARTED_AT = "2026-01-01T00:00:00.000Z";
+const LOCAL_NOW = Date.parse("2026-10-18T12:00:00.000Z");
+
+function tier0(scope: string): MarketPacket {
+  return { nav: { regime: "EXPANSION", risk: "NORMAL", confidence: "HIGH", scope }, meta: { tier: 0 } };
+}
+
+function packetEntry(t: number, packet: MarketPacket): RecordingEntry {
+  return { type: "packet", t, source: DeliveryMode.SSE_PRIMARY, packet };
+}
+
+function recording(entries: RecordingEntry[]): DeliveryRecording {
+  return {
+    header: { type: "header", format: "mns-delivery-recording", version: 1, startedAt: STARTED_AT },
+    entries
+  };
+}
+
+/**
+ * Controller configured as in the headless example of docs/REPLAY.md
+ */
+function replayController(session: ReplaySession) {
+  const received: MarketPacket[] = [];
+  const controller = createDeliveryController(
+    {
+      sseTransportFactory: session.transportFactory(),
+      streamPreference: [DeliveryMode.SSE_PRIMARY],
+      throttleMs: 0,
+      sseLivenessTimeout: 0,
+      trackNetworkStatus: false,
+      pauseWhenHidden: false
+    },
+    { onPacket: (packet) => received.push(packet), onModeChange: () => undefined }
+  );
+  
+  return { controller, received };
+}
+
+function scopes(packets: MarketPacket[]): Array<string | undefined> {
+  return packets.map((packet: any) => packet.nav.scope);
+}
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  return Buffer.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)).toString("base64");
+}
+
+/**
+ * Key ring trusting one packet key (valid from before the recording),
+ * and a signer for packets under that key
+ */
+async function createSigningSetup() {
+  const generate = () => crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign", "verify"]) as Promise<CryptoKeyPair>;
+  const root = await generate();
+  const packetKey = await generate();
+  
+  const unsigned = {
+    format: KEYSET_FORMAT,
+    version: KEYSET_VERSION,
+    sequence: 1,
+    issued_at: "2025-12-01T00:00:00.000Z",
+    keys: [{
+      kid: "key_001",
+      public_key: toBase64(await crypto.subtle.exportKey("raw", packetKey.publicKey)),
+      not_before: "2025-12-01T00:00:00.000Z",
+      expires: null,
+      revoked: false
+    }],
+    signed_by: "root_test",
+    signature: ""
+  } as const;
+  const keySet = {
+    ...unsigned,
+    keys: [...unsigned.keys],
+    signature: toBase64(await crypto.subtle.sign("Ed25519", root.privateKey, buildKeySetPayload({ ...unsigned, keys: [...unsigned.keys] }) as BufferSource))
+  };
+  
+  const ring = createTrustedKeyRing({
+    rootKeys: { root_test: toBase64(await crypto.subtle.exportKey("raw", root.publicKey)) }
+  });
+  expect((await ring.install(keySet)).ok).toBe(true);
+  
+  const sign = async (issuedAt: string): Promise<MarketPacket> => {
+    const packet: any = {
+      nav: { regime: "EXPANSION", risk: "NORMAL", confidence: "HIGH", bias: "BULLISH", stability: "MATURE" },
+      meta: { tier: 1, kid: "key_001", issued_at: issuedAt, signature: "" }
+    };
+    packet.meta.signature = toBase64(await crypto.subtle.sign("Ed25519", packetKey.privateKey, buildSignedPayload(packet) as BufferSource));
+    return packet;
+  };
+  
+  return { ring, sign };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("headless replay", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "setInterval", "clearInterval", "Date"] });
+    vi.setSystemTime(LOCAL_NOW);
+  });
+  
+  it("steps recorded packets through the controller in order", async () => {
+    const markers: string[] = [];
+    const onComplete = vi.fn();
+    const session = createReplaySession(
+      recording([
+        packetEntry(0, tier0("a")),
+        { type: "error", t: 400, message: "SSE stream failed" },
+        { type: "mode", t: 401, mode: DeliveryMode.REST_DEGRADED },
+        packetEntry(2000, tier0("b")),
+        packetEntry(2500, tier0("c"))
+      ]),
+      { speed: "stepped" },
+      { onEntry: (entry) => markers.push(entry.type), onComplete }
+    );
+    const { controller, received } = replayController(session);
+    
+    controller.start();
+    expect(session.step()).toBe(false);
+    await vi.advanceTimersByTimeAsync(0);
+    
+    while (session.step()) {
+      // play everything
+    }
+    
+    expect(scopes(received)).toEqual(["a", "b", "c"]);
+    expect(markers).toEqual(["packet", "error", "mode", "packet", "packet"]);
+    expect(session.getProgress()).toEqual({ position: 5, total: 5, done: true });
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(controller.getMode()).toBe(DeliveryMode.SSE_PRIMARY);
+    
+    controller.stop();
+  });
+  
+  it("keeps recorded gaps, scaled by speed", async () => {
+    const playedAt: number[] = [];
+    const session = createReplaySession(
+      recording([packetEntry(0, tier0("a")), packetEntry(1000, tier0("b")), packetEntry(5000, tier0("c"))]),
+      { speed: 10 },
+      { onEntry: () => playedAt.push(Date.now()) }
+    );
+    const { controller, received } = replayController(session);
+    
+    controller.start();
+    await vi.advanceTimersByTimeAsync(10);
+    expect(scopes(received)).toEqual(["a"]);
+    
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(scopes(received)).toEqual(["a", "b", "c"]);
+    expect([playedAt[1] - playedAt[0], playedAt[2] - playedAt[1]]).toEqual([100, 400]);
+    
+    controller.stop();
+  });
+  
+  it("continues where the previous transport stopped", async () => {
+    const session = createReplaySession(
+      recording([packetEntry(0, tier0("a")), packetEntry(10, tier0("b")), packetEntry(20, tier0("c"))]),
+      { speed: "stepped" }
+    );
+    
+    const first = replayController(session);
+    first.controller.start();
+    await vi.advanceTimersByTimeAsync(0);
+    session.step();
+    first.controller.stop();
+    
+    // Nothing attached: playback waits
+    expect(session.step()).toBe(false);
+    
+    const second = replayController(session);
+    second.controller.start();
+    await vi.advanceTimersByTimeAsync(0);
+    while (session.step()) {
+      // play the rest
+    }
+    
+    expect(scopes(first.received)).toEqual(["a"]);
+    expect(scopes(second.received)).toEqual(["b", "c"]);
+    
+    second.controller.stop();
+  });
+  
+  it("runs the recording clock from startedAt at playback speed", async () => {
+    const startedAt = Date.parse(STARTED_AT);
+    let playedAt = 0;
+    const session = createReplaySession(
+      recording([packetEntry(3000, tier0("a")), packetEntry(60000, tier0("b"))]),
+      { speed: 10 },
+      { onEntry: () => { playedAt = Date.now(); } }
+    );
+    const { controller } = replayController(session);
+    const expected = () => startedAt + 3000 + (Date.now() - playedAt) * 10 - Date.now();
+    
+    expect(session.getClockOffset()).toBe(startedAt - LOCAL_NOW);
+    
+    controller.start();
+    await vi.advanceTimersByTimeAsync(10);
+    expect(playedAt).toBeGreaterThan(0);
+    expect(session.getClockOffset()).toBe(expected());
+    
+    await vi.advanceTimersByTimeAsync(200);
+    expect(session.getClockOffset()).toBe(expected());
+    
+    // Stepped: the recording clock stands still
+    session.setSpeed("stepped");
+    const frozen = Date.now() + session.getClockOffset();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(Date.now() + session.getClockOffset()).toBe(frozen);
+    
+    controller.stop();
+  });
+});
+
+describe("replayed signed packets", () => {
+  it("are fresh against the recording clock and stale against today's", async () => {
+    const { ring, sign } = await createSigningSetup();
+    const recorded = await sign("2026-01-01T00:00:04.000Z");
+    const session = createReplaySession(recording([packetEntry(5000, recorded)]), { speed: "stepped" });
+    const transport = session.createTransport();
+    const delivered: Array<{ packet: MarketPacket; offset: number }> = [];
+    
+    transport.open(
+      { url: "/stream", headers: {}, lastEventId: null, eventTypes: [], maxEventSize: 65536 },
+      {
+        onOpen: () => undefined,
+        onError: () => undefined,
+        onEvent: (event) => delivered.push({ packet: JSON.parse(event.data), offset: session.getClockOffset() })
+      }
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    session.step();
+    
+    expect(delivered).toHaveLength(1);
+    const { packet, offset } = delivered[0];
+    
+    expect(await validatePacket(packet, ring, undefined, { clockOffsetMs: offset })).toMatchObject({ ok: true, tier: 1 });
+    expect(await validatePacket(packet, ring, undefined, { clockOffsetMs: 0 })).toMatchObject({
+      ok: false,
+      reason: ValidationReason.STALE_PACKET
+    });
+    
+    transport.close();
+  });
+});
+
+describe("recording round trip", () => {
+  it("parses what the recorder serializes", () => {
+    const recorder = new DeliveryRecorder({}, LOCAL_NOW);
+    recorder.recordPacket(tier0("a"), DeliveryMode.SSE_PRIMARY, LOCAL_NOW + 120);
+    recorder.recordError("SSE stream failed", LOCAL_NOW + 4030);
+    recorder.recordMode(DeliveryMode.REST_DEGRADED, LOCAL_NOW + 4031);
+    
+    const parsed = parseRecording(recorder.toJSONLines());
+    
+    expect(parsed).toEqual({ ok: true, recording: recorder.getRecording() });
+    expect(serializeRecording(recorder.getRecording())).toBe(recorder.toJSONLines());
+  });
+  
+  it("rejects out-of-order entries with their line number", () => {
+    const text = serializeRecording(recording([packetEntry(500, tier0("a")), packetEntry(100, tier0("b"))]));
+    
+    expect(parseRecording(text)).toEqual({
+      ok: false,
+      error: { line: 3, message: "Missing or out-of-order timestamp" }
+    });
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * Replay Transport — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Feed a DeliveryRecording back through SSEClient/DeliveryController
+ * Used by: main.tsx (?replay=<url>), headless scripts
+ * 
+ * Packets are re-emitted as `nav_update` SSE events, so they pass through
+ * the real pipeline again (size check, wire adapter, structural decode,
+ * throttle, controller, state layer). Ids are the packet's position in
+ * the recording (1-based), so the SSE sequence tracking sees no gaps.
+ * 
+ * Speed:
+ * - 1 (default): recorded timing
+ * - N: N times faster
+ * - "stepped": nothing happens until step() is called
+ * 
+ * Mode and error entries are not re-enacted (the controller decides its
+ * own modes); they are reported through onEntry as markers so a UI or a
+ * test can compare the replayed run against the recorded one.
+ * 
+ * Clock: recorded Tier 1/2 packets carry their original issued_at, so
+ * the state layer must judge freshness by the recording's clock
+ * (header.startedAt + t, advancing with playback speed), not today's.
+ * getClockOffset() is that clock minus local time, for
+ * PacketValidationOptions.clockOffsetMs.
+ * 
+ * Usage:
+ *   const session = createReplaySession(recording, { speed: 10 });
+ *   createDeliveryController({ sseTransportFactory: session.transportFactory(),
+ *                              streamPreference: [DeliveryMode.SSE_PRIMARY] }, handlers);
+ */
+
+"use strict";
+
+import {
+  SSETransport,
+  SSETransportFactory,
+  SSETransportListener,
+  SSETransportRequest
+} from "../sse/sseTransport.js";
+import { DeliveryRecording, RecordingEntry } from "./deliveryRecording.js";
+
+/* ============================================
+   CONFIGURATION
+   ============================================ */
+
+export type ReplaySpeed = number | "stepped";
+
+export interface ReplaySessionConfig {
+  /** Playback speed (default: 1) */
+  speed: ReplaySpeed;
+}
+
+const DEFAULT_CONFIG: ReplaySessionConfig = {
+  speed: 1
+};
+
+export interface ReplaySessionHandlers {
+  /**
+   * Called for every entry as playback reaches it (packets included)
+   */
+  onEntry?: (entry: RecordingEntry, index: number) => void;
+  
+  /**
+   * Called once after the last entry
+   */
+  onComplete?: () => void;
+}
+
+export interface ReplayProgress {
+  /** Entries played */
+  position: number;
+  total: number;
+  done: boolean;
+}
+
+/* ============================================
+   REPLAY SESSION
+   ============================================ */
+
+/**
+ * Playback cursor shared by all transports it creates
+ * 
+ * The controller opens a new transport on every (re)connect; playback
+ * continues where the previous transport stopped instead of restarting.
+ * Only one transport is attached at a time; while none is, playback waits.
+ */
+export class ReplaySession {
+  private config: ReplaySessionConfig;
+  private handlers: ReplaySessionHandlers;
+  private entries: RecordingEntry[];
+  
+  private position: number = 0;
+  private packetSequence: number = 0;
+  private completed: boolean = false;
+  
+  // Recording clock: start of the recording (local clock of the
+  // recording tab), and the recorded `t` reached at local time anchorAt
+  private startedAtMs: number;
+  private anchorT: number = 0;
+  private anchorAt: number;
+  
+  private attached: ReplaySSETransport | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  
+  constructor(
+    recording: DeliveryRecording,
+    config: Partial<ReplaySessionConfig> = {},
+    handlers: ReplaySessionHandlers = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.handlers = handlers;
+    this.entries = recording.entries;
+    this.startedAtMs = Date.parse(recording.header.startedAt);
+    this.anchorAt = Date.now();
+  }
+  
+  /**
+   * Factory for DeliveryControllerConfig.sseTransportFactory
+   */
+  public transportFactory(): SSETransportFactory {
+    return () => this.createTransport();
+  }
+  
+  /**
+   * New transport bound to this session
+   */
+  public createTransport(): SSETransport {
+    return new ReplaySSETransport(this);
+  }
+  
+  public getProgress(): ReplayProgress {
+    return {
+      position: this.position,
+      total: this.entries.length,
+      done: this.position >= this.entries.length
+    };
+  }
+  
+  /**
+   * Recording time − local time at the current playback position
+   * (0 if the header has no usable startedAt)
+   * 
+   * Before the first entry the recording clock stands at startedAt; it
+   * jumps to each entry's time as it plays and runs at playback speed in
+   * between (stands still while stepped).
+   */
+  public getClockOffset(now: number = Date.now()): number {
+    if (isNaN(this.startedAtMs)) {
+      return 0;
+    }
+    return this.startedAtMs + this.recordedTime(now) - now;
+  }
+  
+  /**
+   * Change speed; takes effect from the next entry
+   */
+  public setSpeed(speed: ReplaySpeed): void {
+    // Re-anchor so time already played keeps its old rate
+    this.setRecordedTime(this.recordedTime(Date.now()));
+    this.config.speed = speed;
+    this.clearTimer();
+    this.scheduleNext();
+  }
+  
+  /**
+   * Play the next entry now (stepped mode, or to skip a timed wait)
+   * 
+   * @returns false if playback is finished or no transport is attached
+   */
+  public step(): boolean {
+    if (this.attached === null || this.position >= this.entries.length) {
+      return false;
+    }
+    
+    this.clearTimer();
+    this.playNext();
+    this.scheduleNext();
+    return true;
+  }
+  
+  /**
+   * Stop playback timers (transports stay attached but silent)
+   */
+  public stop(): void {
+    this.clearTimer();
+    this.position = this.entries.length;
+  }
+  
+  /* ============================================
+     INTERNAL: TRANSPORT ATTACHMENT
+     ============================================ */
+  
+  /** @internal */
+  public attach(transport: ReplaySSETransport): void {
+    this.clearTimer();
+    this.attached = transport;
+    this.scheduleNext();
+  }
+  
+  /** @internal */
+  public detach(transport: ReplaySSETransport): void {
+    if (this.attached !== transport) {
+      return;
+    }
+    
+    this.clearTimer();
+    this.attached = null;
+  }
+  
+  /* ============================================
+     PRIVATE: PLAYBACK
+     ============================================ */
+  
+  private scheduleNext(): void {
+    if (this.attached === null || this.timer !== null) {
+      return;
+    }
+    
+    if (this.position >= this.entries.length) {
+      this.complete();
+      return;
+    }
+    
+    const speed = this.config.speed;
+    if (speed === "stepped") {
+      return;
+    }
+    
+    // The first entry plays at once (recordings may start mid-stream)
+    const gap = this.position === 0
+      ? 0
+      : this.entries[this.position].t - this.entries[this.position - 1].t;
+    const delay = Math.max(Math.round(gap / Math.max(speed, 0.001)), 0);
+    
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.playNext();
+      this.scheduleNext();
+    }, delay);
+  }
+  
+  private playNext(): void {
+    const index = this.position;
+    const entry = this.entries[index];
+    this.position++;
+    
+    // Before emitting: the packet is validated against this time
+    this.setRecordedTime(entry.t);
+    
+    if (entry.type === "packet" && this.attached !== null) {
+      this.packetSequence++;
+      this.attached.emit(JSON.stringify(entry.packet), String(this.packetSequence));
+    }
+    
+    if (this.handlers.onEntry) {
+      this.handlers.onEntry(entry, index);
+    }
+  }
+  
+  private complete(): void {
+    if (this.completed) {
+      return;
+    }
+    
+    this.completed = true;
+    
+    if (this.handlers.onComplete) {
+      this.handlers.onComplete();
+    }
+  }
+  
+  private recordedTime(now: number): number {
+    const speed = this.config.speed;
+    if (this.position === 0 || speed === "stepped") {
+      return this.anchorT;
+    }
+    return this.anchorT + Math.max(now - this.anchorAt, 0) * speed;
+  }
+  
+  private setRecordedTime(t: number): void {
+    this.anchorT = t;
+    this.anchorAt = Date.now();
+  }
+  
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/* ============================================
+   REPLAY TRANSPORT
+   ============================================ */
+
+/**
+ * SSE transport backed by a ReplaySession (opens instantly, never fails)
+ */
+export class ReplaySSETransport implements SSETransport {
+  public readonly supportsHeaders: boolean = false;
+  
+  private session: ReplaySession;
+  private listener: SSETransportListener | null = null;
+  
+  constructor(session: ReplaySession) {
+    this.session = session;
+  }
+  
+  public open(_request: SSETransportRequest, listener: SSETransportListener): void {
+    this.listener = listener;
+    
+    // Asynchronous like a real stream: the client finishes connect() first
+    setTimeout(() => {
+      if (this.listener !== listener) {
+        return;
+      }
+      listener.onOpen({ status: 200 });
+      this.session.attach(this);
+    }, 0);
+  }
+  
+  public close(): void {
+    this.listener = null;
+    this.session.detach(this);
+  }
+  
+  /** @internal */
+  public emit(data: string, id: string): void {
+    if (this.listener !== null) {
+      this.listener.onEvent({ type: "nav_update", data, lastEventId: id });
+    }
+  }
+}
+
+/* ============================================
+   FACTORY FUNCTION
+   ============================================ */
+
+/**
+ * Create a replay session for a parsed recording
+ * 
+ * @param recording - Recording (see parseRecording)
+ * @param config - Playback speed (optional, default 1x)
+ * @param handlers - Entry and completion callbacks (optional)
+ */
+export function createReplaySession(
+  recording: DeliveryRecording,
+  config: Partial<ReplaySessionConfig> = {},
+  handlers: ReplaySessionHandlers = {}
+): ReplaySession {
+  return new ReplaySession(recording, config, handlers);
+}
@@ -0,0 +1,68 @@
+/**
+ * SSE Client tests — Phase 22.2
+ * Market Navigation System (MNS)
+ * 
+ * How the resume id reaches the server, per transport capability.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SSEClient, createSSEClient } from "./sseClient.js";
+import { SSETransport, SSETransportRequest } from "./sseTransport.js";
+
+function recordingTransport(supportsHeaders: boolean, requests: SSETransportRequest[]) {
+  return (): SSETransport => ({
+    supportsHeaders,
+    open: (request) => {
+      requests.push(request);
+    },
+    close: () => undefined
+  });
+}
+
+function resumingClient(supportsHeaders: boolean, requests: SSETransportRequest[]): SSEClient {
+  const client = createSSEClient(
+    {
+      endpoint: "/stream",
+      resumeVia: "header",
+      transportFactory: recordingTransport(supportsHeaders, requests),
+      livenessTimeoutMs: 0
+    },
+    { onMessage: () => undefined, onStateChange: () => undefined }
+  );
+  client["lastEventId"] = "41";
+  return client;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("resume id", () => {
+  it("goes in the Last-Event-ID header when the transport can send headers", () => {
+    const requests: SSETransportRequest[] = [];
+    const client = resumingClient(true, requests);
+    
+    client.connect();
+    
+    expect(requests[0].url).toBe("/stream?wire=2,1");
+    expect(requests[0].lastEventId).toBe("41");
+    
+    client.disconnect();
+  });
+  
+  it("falls back to the query parameter when the transport cannot", () => {
+    const requests: SSETransportRequest[] = [];
+    const client = resumingClient(false, requests);
+    
+    client.connect();
+    
+    expect(requests[0].url).toBe("/stream?lastEventId=41&wire=2,1");
+    expect(requests[0].lastEventId).toBeNull();
+    
+    client.disconnect();
+  });
+});
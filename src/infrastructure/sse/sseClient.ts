@@ -4,22 +4,49 @@
  * 
  * Purpose: Primary real-time delivery mechanism via Server-Sent Events
  * Backend: GET /stream
+ * Transport: pluggable (fetch stream by default, see sseTransport.ts)
  * 
  * Responsibilities:
  * - Connect/disconnect lifecycle management
  * - Receive signed Tier0/Tier1/Tier2 packets
  * - Forward validated packets to state layer
  * - Expose explicit connection status
+ * - Track SSE event ids for gap-free resume
+ * - Detect silent (half-open) streams via liveness watchdog
+ * - Throttle delivery (drop or coalesce bursts)
  * 
  * Non-goals (per Integration Contract):
  * - No REST fallback (Phase 22.3)
- * - No retry logic (browser EventSource handles reconnection)
+ * - No retry logic (orchestrated by DeliveryController)
  * - No business logic (packets are opaque)
  * - No authentication
  */
 
 "use strict";
 
+import {
+  SSEEvent,
+  SSETransport,
+  SSETransportError,
+  SSETransportFactory,
+  SSETransportKind,
+  SSETransportOpenInfo,
+  SSETransportRequest,
+  createSSETransport
+} from "./sseTransport.js";
+import {
+  MarketPacket,
+  decodePacket,
+  describePacketError
+} from "../packet/packetSchema.js";
+import { adaptWirePayload, withWireVersions } from "../packet/wireFormat.js";
+import {
+  PacketThrottle,
+  PacketThrottleStats,
+  ThrottlePolicy
+} from "../packet/packetThrottle.js";
+import { PacketIngestStats, createIngestStats } from "../packet/packetIngestStats.js";
+
 /* ============================================
    CONNECTION STATE
    ============================================ */
@@ -28,6 +55,10 @@ export enum SSEConnectionState {
   DISCONNECTED = "DISCONNECTED",
   CONNECTING = "CONNECTING",
   CONNECTED = "CONNECTED",
+  
+  /** No data or keep-alive within livenessTimeoutMs (contract 4.1) */
+  STALLED = "STALLED",
+  
   ERROR = "ERROR"
 }
 
@@ -35,66 +66,23 @@ export enum SSEConnectionState {
    PACKET TYPES (OPAQUE TO CLIENT)
    ============================================ */
 
-/**
- * Tier0 packet structure (unsigned, public)
- */
-export interface Tier0Packet {
-  nav: {
-    regime: string;
-    risk: string;
-    confidence: string;
-    status: string;
-    scope: string;
-  };
-  meta?: {
-    tier: 0;
-  };
-}
+export type {
+  Tier0Packet,
+  Tier1Packet,
+  Tier2Packet,
+  MarketPacket
+} from "../packet/packetSchema.js";
 
-/**
- * Tier1 packet structure (signed, with bias/stability)
- */
-export interface Tier1Packet {
-  nav: {
-    regime: string;
-    risk: string;
-    confidence: string;
-    bias: string;
-    stability: string;
-  };
-  meta: {
-    tier: 1;
-    signature: string;
-    kid: string;
-    issued_at: string;
-  };
-}
+/* ============================================
+   THROTTLING
+   ============================================ */
+
+export { ThrottlePolicy } from "../packet/packetThrottle.js";
 
 /**
- * Tier2 packet structure (signed, with navigator fields)
+ * Throttle counters (cumulative for the client lifetime)
  */
-export interface Tier2Packet {
-  nav: {
-    regime: string;
-    risk: string;
-    confidence: string;
-    bias: string;
-    stability: string;
-  };
-  navigator: {
-    drivers: string[];
-    blockers: string[];
-    gaps: string[];
-  };
-  meta: {
-    tier: 2;
-    signature: string;
-    kid: string;
-    issued_at: string;
-  };
-}
-
-export type MarketPacket = Tier0Packet | Tier1Packet | Tier2Packet;
+export type SSEThrottleStats = PacketThrottleStats;
 
 /* ============================================
    CONFIGURATION
@@ -109,14 +97,61 @@ export interface SSEClientConfig {
   
   /** Throttle interval in milliseconds (default: 1000 = 1Hz) */
   throttleMs: number;
+  
+  /** Handling of packets inside the throttle window (default: LATEST_WINS, previously DROP) */
+  throttlePolicy: ThrottlePolicy;
+  
+  /** Last event id to resume from on connect (default: null = fresh stream) */
+  lastEventId: string | null;
+  
+  /** Query parameter carrying the resume id (default: lastEventId) */
+  resumeParam: string;
+  
+  /** How the resume id is sent (default: query; header falls back to query if the transport cannot send headers) */
+  resumeVia: "query" | "header";
+  
+  /** Stream transport (default: fetch, falls back to EventSource if unsupported) */
+  transport: SSETransportKind;
+  
+  /** Custom transport factory, overrides `transport` (default: null) */
+  transportFactory: SSETransportFactory | null;
+  
+  /** Extra request headers (fetch transport only, default: none) */
+  headers: Record<string, string>;
+  
+  /** Silence before the stream is considered stalled (default: 60000ms, 0 = disabled) */
+  livenessTimeoutMs: number;
 }
 
 const DEFAULT_CONFIG: SSEClientConfig = {
   endpoint: "/stream",
   maxPayloadSize: 16384,
-  throttleMs: 1000
+  throttleMs: 1000,
+  throttlePolicy: ThrottlePolicy.LATEST_WINS,
+  lastEventId: null,
+  resumeParam: "lastEventId",
+  resumeVia: "query",
+  transport: "fetch",
+  transportFactory: null,
+  headers: {},
+  livenessTimeoutMs: 60000
 };
 
+/* ============================================
+   SEQUENCE GAPS
+   ============================================ */
+
+/**
+ * Range of event ids missed by the client (inclusive bounds)
+ * 
+ * Only reported when the backend uses numeric, monotonically
+ * increasing SSE ids.
+ */
+export interface SSESequenceGap {
+  from: number;
+  to: number;
+}
+
 /* ============================================
    EVENT HANDLERS
    ============================================ */
@@ -149,6 +184,12 @@ export interface SSEEventHandlers {
    * Called on keep_alive ping (optional, for monitoring)
    */
   onKeepAlive?: () => void;
+  
+  /**
+   * Called when event ids skip ahead (packets missed while disconnected)
+   * @param gap - Missing id range (inclusive)
+   */
+  onGap?: (gap: SSESequenceGap) => void;
 }
 
 /* ============================================
@@ -158,15 +199,33 @@ export interface SSEEventHandlers {
 export class SSEClient {
   private config: SSEClientConfig;
   private handlers: SSEEventHandlers;
-  private eventSource: EventSource | null = null;
+  private transport: SSETransport | null = null;
   private state: SSEConnectionState = SSEConnectionState.DISCONNECTED;
-  private lastMessageTime: number = 0;
-  private navUpdateHandler: ((event: MessageEvent) => void) | null = null;
-  private keepAliveHandler: ((event: MessageEvent) => void) | null = null;
+  private livenessTimer: ReturnType<typeof setTimeout> | null = null;
+  
+  // Delivery throttle (drop or coalesce bursts)
+  private throttle: PacketThrottle;
+  
+  // Rejections before the throttle
+  private ingestStats: PacketIngestStats = createIngestStats();
+  
+  // Last observed HTTP status / server retry hint (fetch transport only)
+  private lastHttpStatus: number | null = null;
+  private serverRetryMs: number | null = null;
+  
+  // Resume tracking (SSE `id:` field)
+  private lastEventId: string | null = null;
+  private lastSequence: number | null = null;
   
   constructor(config: Partial<SSEClientConfig>, handlers: SSEEventHandlers) {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.handlers = handlers;
+    this.throttle = new PacketThrottle(
+      this.config.throttleMs,
+      this.config.throttlePolicy,
+      this.deliverPacket.bind(this)
+    );
+    this.trackEventId(this.config.lastEventId);
   }
   
   /**
@@ -176,20 +235,57 @@ export class SSEClient {
     return this.state;
   }
   
+  /**
+   * Get id of the last event received (or the configured resume id)
+   */
+  public getLastEventId(): string | null {
+    return this.lastEventId;
+  }
+  
+  /**
+   * Get throttle counters
+   */
+  public getThrottleStats(): SSEThrottleStats {
+    return this.throttle.getStats();
+  }
+  
+  /**
+   * Get ingest counters (received / rejected before the throttle)
+   */
+  public getIngestStats(): PacketIngestStats {
+    return { ...this.ingestStats };
+  }
+  
+  /**
+   * Get HTTP status of the last stream response (null if unknown)
+   */
+  public getLastHttpStatus(): number | null {
+    return this.lastHttpStatus;
+  }
+  
+  /**
+   * Get reconnection delay requested by the server via `retry:` (null if none)
+   */
+  public getServerRetryMs(): number | null {
+    return this.serverRetryMs;
+  }
+  
   /**
    * Connect to SSE stream
    * 
    * Lifecycle:
    * 1. Set state to CONNECTING
-   * 2. Create EventSource
-   * 3. Attach event listeners
+   * 2. Create transport (fetch stream or EventSource)
+   * 3. Open stream with listener
    * 4. Transition to CONNECTED on open
-   * 5. Transition to ERROR on error
+   * 5. Transition to ERROR on fatal transport error
+   * 6. Transition to STALLED if nothing arrives within livenessTimeoutMs
    * 
-   * Browser EventSource handles automatic reconnection.
+   * The fetch transport does not reconnect by itself; EventSource
+   * reconnects on transient errors.
    */
   public connect(): void {
-    if (this.eventSource !== null) {
+    if (this.transport !== null) {
       this.logLifecycle("connect() called but already connected/connecting");
       return;
     }
@@ -199,27 +295,40 @@ export class SSEClient {
       this.logLifecycle(`Connecting to ${this.config.endpoint}`);
       console.log("[SSE] Initializing connection to:", this.config.endpoint);
       
-      this.eventSource = new EventSource(this.config.endpoint, {
-        withCredentials: false
-      });
+      this.transport = this.config.transportFactory
+        ? this.config.transportFactory()
+        : createSSETransport(this.config.transport);
       
-      // Standard EventSource events
-      this.eventSource.onopen = this.handleOpen.bind(this);
-      this.eventSource.onerror = this.handleError.bind(this);
-      this.eventSource.onmessage = this.handleDefaultMessage.bind(this);
+      const transport = this.transport;
+      const request = this.buildRequest(transport);
       
-      // Custom event types (backend-specific)
-      this.navUpdateHandler = this.handleNavUpdate.bind(this);
-      this.keepAliveHandler = this.handleKeepAlive.bind(this);
-      this.eventSource.addEventListener("nav_update", this.navUpdateHandler);
-      this.eventSource.addEventListener("keep_alive", this.keepAliveHandler);
+      if (this.lastEventId !== null) {
+        this.logLifecycle(`Resuming stream from last event id (via ${request.lastEventId !== null ? "header" : "query"})`);
+      }
+      
+      const isCurrent = () => this.transport === transport;
+      
+      // Armed before open so a hanging handshake also counts as silence
+      this.armLivenessWatchdog();
       
+      transport.open(request, {
+        onOpen: (info) => isCurrent() && this.handleOpen(info),
+        onEvent: (event) => isCurrent() && this.handleEvent(event),
+        onError: (error) => isCurrent() && this.handleError(error),
+        onRetry: (retryMs) => {
+          if (isCurrent()) {
+            this.serverRetryMs = retryMs;
+          }
+        }
+      });
+    
     } catch (err) {
       this.logError("connect() failed", err);
+      this.transport = null;
       this.setState(SSEConnectionState.ERROR);
       
       if (this.handlers.onError) {
-        this.handlers.onError(new Error("Failed to create EventSource"));
+        this.handlers.onError(new Error("Failed to open SSE transport"));
       }
     }
   }
@@ -228,37 +337,32 @@ export class SSEClient {
    * Disconnect from SSE stream
    * 
    * Lifecycle:
-   * 1. Close EventSource
+   * 1. Close transport (aborts in-flight read)
    * 2. Set state to DISCONNECTED
    * 3. Clean up references
    */
   public disconnect(): void {
-    if (this.eventSource === null) {
+    if (this.transport === null) {
       this.logLifecycle("disconnect() called but not connected");
       return;
     }
     
     try {
       this.logLifecycle("Disconnecting");
-
-      if (this.navUpdateHandler !== null) {
-        this.eventSource.removeEventListener("nav_update", this.navUpdateHandler);
-        this.navUpdateHandler = null;
-      }
-
-      if (this.keepAliveHandler !== null) {
-        this.eventSource.removeEventListener("keep_alive", this.keepAliveHandler);
-        this.keepAliveHandler = null;
-      }
-
-      this.eventSource.close();
-      this.eventSource = null;
-      this.setState(SSEConnectionState.DISCONNECTED);
+      this.clearLivenessWatchdog();
+      this.throttle.discardPending();
       
+      const transport = this.transport;
+      this.transport = null;
+      transport.close();
+      this.setState(SSEConnectionState.DISCONNECTED);
+    
     } catch (err) {
       this.logError("disconnect() failed", err);
       // Force cleanup
-      this.eventSource = null;
+      this.clearLivenessWatchdog();
+      this.throttle.discardPending();
+      this.transport = null;
       this.setState(SSEConnectionState.DISCONNECTED);
     }
   }
@@ -274,8 +378,9 @@ export class SSEClient {
      PRIVATE: EVENT HANDLERS
      ============================================ */
   
-  private handleOpen(): void {
-    this.logLifecycle("Connection opened");
+  private handleOpen(info: SSETransportOpenInfo): void {
+    this.lastHttpStatus = info.status;
+    this.logLifecycle(`Connection opened (HTTP ${info.status ?? "n/a"})`);
     console.log("[SSE] ✅ Connection opened");
     this.setState(SSEConnectionState.CONNECTED);
     
@@ -284,49 +389,75 @@ export class SSEClient {
     }
   }
   
-  private handleError(_event: Event): void {
-    const readyState = this.eventSource?.readyState ?? -1;
-    this.logLifecycle("Connection error (readyState: " + readyState + ")");
-    console.warn("[SSE] ⚠️ Connection error, readyState:", readyState);
+  private handleError(error: SSETransportError): void {
+    if (error.status !== null) {
+      this.lastHttpStatus = error.status;
+    }
+    
+    this.logLifecycle(`Connection error: ${error.message}`);
+    console.warn("[SSE] ⚠️ Connection error:", error.message);
     
     // Only set ERROR state if connection is truly closed
-    if (readyState === EventSource.CLOSED) {
+    if (error.fatal) {
       console.error("[SSE] ❌ Connection CLOSED");
+      this.clearLivenessWatchdog();
+      this.throttle.discardPending();
       this.setState(SSEConnectionState.ERROR);
       
       if (this.handlers.onError) {
-        this.handlers.onError(new Error("EventSource closed"));
+        this.handlers.onError(error);
       }
     } else {
       // Transient error - browser will reconnect automatically
       console.log("[SSE] 🔄 Transient error, awaiting auto-reconnection...");
     }
   }
-
-  private handleDefaultMessage(event: MessageEvent): void {
-    console.log("[SSE] 📨 Message received:", event.data);
+  
+  private handleEvent(event: SSEEvent): void {
+    // Any event (including keep_alive) proves the connection is alive
+    this.armLivenessWatchdog();
+    
+    switch (event.type) {
+      case "nav_update":
+        this.handleNavUpdate(event);
+        break;
+      case "keep_alive":
+        this.handleKeepAlive(event);
+        break;
+      case "message":
+        this.handleDefaultMessage(event);
+        break;
+      default:
+        // Unknown event types still advance the resume position
+        this.trackEventId(event.lastEventId);
+        break;
+    }
+  }
+  
+  private handleDefaultMessage(event: SSEEvent): void {
+    console.log("[SSE] 📨 Message received");
     this.handleNavUpdate(event);
   }
   
-  private handleNavUpdate(event: MessageEvent): void {
+  private handleNavUpdate(event: SSEEvent): void {
     try {
       console.log("[SSE] 📨 nav_update received");
       const now = Date.now();
       
-      // Throttle check (prevent overwhelming state layer)
-      if (now - this.lastMessageTime < this.config.throttleMs) {
-        // Silent drop (per contract, no logging of packet content)
-        return;
-      }
+      // Track resume position before any filtering (throttled packets were still delivered)
+      this.trackEventId(event.lastEventId);
+      this.ingestStats.received++;
       
       // Payload size check
       const data = event.data;
-      if (!data || typeof data !== "string") {
+      if (!data) {
+        this.ingestStats.nonJson++;
         console.warn("[SSE] ⚠️ Invalid data type, ignoring");
         return;
       }
       
       if (data.length > this.config.maxPayloadSize) {
+        this.ingestStats.oversized++;
         console.warn("[SSE] ⚠️ Payload too large, ignoring");
         return;
       }
@@ -336,103 +467,41 @@ export class SSEClient {
       try {
         payload = JSON.parse(data);
       } catch (parseErr) {
+        this.ingestStats.nonJson++;
         console.warn("[SSE] ⚠️ Non-JSON packet ignored");
         return;
       }
       
-      // Tolerant validation - accept any object with minimal nav structure
-      if (!payload || typeof payload !== "object") {
-        console.warn("[SSE] ⚠️ Invalid payload structure, ignoring");
+      // Translate wire format (v1 nav packet, v2 aggregate, ...)
+      const adapted = adaptWirePayload(payload);
+      if (adapted.ok === false) {
+        this.ingestStats.unnormalizable++;
+        console.warn(`[SSE] ⚠️ Unsupported payload (${adapted.reason}), ignoring`);
         return;
       }
       
-      // Handle aggregated backend format
-      // Backend sends: { tier0: {...}, tier1: {...}, tier2: {...}, timestamp: number }
-      let normalizedPayload: any = payload;
-      
-      if (payload.tier2) {
-        // Build Tier2Packet from aggregated format
-        normalizedPayload = {
-          nav: {
-            regime: payload.tier0?.regime ?? "UNKNOWN",
-            risk: payload.tier0?.risk ?? "UNKNOWN",
-            confidence: String(payload.tier0?.confidence ?? "0"),
-            bias: payload.tier1?.bias ?? "NEUTRAL",
-            stability: payload.tier1?.stability ?? "UNKNOWN"
-          },
-          navigator: {
-            drivers: payload.tier2?.drivers ?? [],
-            blockers: payload.tier2?.blockers ?? [],
-            gaps: []
-          },
-          meta: {
-            tier: 2,
-            signature: "unsigned",
-            kid: "internal",
-            issued_at: payload.timestamp
-              ? new Date(payload.timestamp * 1000).toISOString()
-              : new Date().toISOString()
-          }
-        };
-      } else if (payload.tier1) {
-        // Build Tier1Packet from aggregated format
-        normalizedPayload = {
-          nav: {
-            regime: payload.tier0?.regime ?? "UNKNOWN",
-            risk: payload.tier0?.risk ?? "UNKNOWN",
-            confidence: String(payload.tier0?.confidence ?? "0"),
-            bias: payload.tier1?.bias ?? "NEUTRAL",
-            stability: payload.tier1?.stability ?? "UNKNOWN"
-          },
-          meta: {
-            tier: 1,
-            signature: "unsigned",
-            kid: "internal",
-            issued_at: payload.timestamp
-              ? new Date(payload.timestamp * 1000).toISOString()
-              : new Date().toISOString()
-          }
-        };
-      } else if (payload.tier0) {
-        // Build Tier0Packet from aggregated format
-        normalizedPayload = {
-          nav: {
-            regime: payload.tier0?.regime ?? "UNKNOWN",
-            risk: payload.tier0?.risk ?? "UNKNOWN",
-            confidence: String(payload.tier0?.confidence ?? "0"),
-            status: "LIVE",
-            scope: "NAV"
-          },
-          meta: {
-            tier: 0
-          }
-        };
-      }
-      // Else: use payload as-is (fallback to existing format)
-      
-      // Accept packet if it has nav field (defensive parsing)
-      const packet = this.normalizePacket(normalizedPayload);
-      if (!packet) {
-        console.warn("[SSE] ⚠️ Cannot normalize packet, ignoring");
+      // Structural decode (shared schema; catalogs are enforced by the state layer)
+      const decoded = decodePacket(adapted.packet);
+      if (decoded.ok === false) {
+        this.ingestStats.unnormalizable++;
+        console.warn(`[SSE] ⚠️ Invalid packet (${describePacketError(decoded.error)}), ignoring`);
         return;
       }
+      const packet = decoded.packet;
       
-      // Update throttle timestamp
-      this.lastMessageTime = now;
-      
-      console.log("[SSE] ✅ Packet accepted and forwarded");
-      
-      // Forward to state layer
-      this.handlers.onMessage(packet);
-      
+      // Throttle (prevent overwhelming state layer)
+      this.throttle.submit(packet, now);
+    
     } catch (err) {
       console.warn("[SSE] ⚠️ Handler error:", err);
       // Don't throw - keep connection alive
     }
   }
   
-  private handleKeepAlive(_event: MessageEvent): void {
+  private handleKeepAlive(event: SSEEvent): void {
     console.log("[SSE] 📨 keep_alive received");
+    this.trackEventId(event.lastEventId);
+    
     // Keep-alive ping from backend (no action required)
     if (this.handlers.onKeepAlive) {
       this.handlers.onKeepAlive();
@@ -440,63 +509,161 @@ export class SSEClient {
   }
   
   /* ============================================
-     PRIVATE: VALIDATION
+     PRIVATE: DELIVERY
+     ============================================ */
+  
+  private deliverPacket(packet: MarketPacket): void {
+    console.log("[SSE] ✅ Packet accepted and forwarded");
+    
+    // Forward to state layer
+    this.handlers.onMessage(packet);
+  }
+  
+  /* ============================================
+     PRIVATE: LIVENESS WATCHDOG
      ============================================ */
   
   /**
-   * Normalize and validate packet structure (TOLERANT)
+   * (Re)start the silence timer
    * 
-   * Note: This is NOT cryptographic validation.
-   * Accepts any structure with nav field using defensive optional chaining.
-   * Signature verification is delegated to the state layer.
+   * Per Integration Contract Section 4.1, SSE is failed after 60s
+   * without data. A half-open TCP connection never errors on its own,
+   * so the client must time it out explicitly.
+   */
+  private armLivenessWatchdog(): void {
+    this.clearLivenessWatchdog();
+    
+    if (this.config.livenessTimeoutMs <= 0) {
+      return;
+    }
+    
+    this.livenessTimer = setTimeout(
+      this.handleLivenessTimeout.bind(this),
+      this.config.livenessTimeoutMs
+    );
+  }
+  
+  private clearLivenessWatchdog(): void {
+    if (this.livenessTimer !== null) {
+      clearTimeout(this.livenessTimer);
+      this.livenessTimer = null;
+    }
+  }
+  
+  /**
+   * Abandon a silent stream and report STALLED
    */
-  private normalizePacket(payload: any): MarketPacket | null {
+  private handleLivenessTimeout(): void {
+    this.livenessTimer = null;
+    
+    if (this.transport === null) {
+      return;
+    }
+    
+    this.logLifecycle(`No data for ${this.config.livenessTimeoutMs}ms — stream stalled`);
+    console.error("[SSE] ❌ Connection STALLED");
+    
+    const transport = this.transport;
+    this.transport = null;
+    this.throttle.discardPending();
+    
     try {
-      // Minimum requirement: nav object exists
-      if (!payload?.nav || typeof payload.nav !== "object") {
-        return null;
-      }
-      
-      // Determine tier (default to 0 if not specified)
-      const tier = payload.meta?.tier ?? 0;
-      
-      // Build normalized packet with defensive optional chaining
-      const normalized: any = {
-        nav: {
-          regime: payload.nav.regime ?? "unknown",
-          risk: payload.nav.risk ?? "unknown",
-          confidence: payload.nav.confidence ?? "unknown",
-          status: payload.nav.status ?? undefined,
-          scope: payload.nav.scope ?? undefined,
-          bias: payload.nav.bias ?? undefined,
-          stability: payload.nav.stability ?? undefined
-        }
-      };
-      
-      // Add meta if present
-      if (payload.meta) {
-        normalized.meta = {
-          tier: tier,
-          signature: payload.meta.signature ?? undefined,
-          kid: payload.meta.kid ?? undefined,
-          issued_at: payload.meta.issued_at ?? undefined
-        };
-      }
-      
-      // Add navigator if present (Tier 2)
-      if (payload.navigator) {
-        normalized.navigator = {
-          drivers: Array.isArray(payload.navigator.drivers) ? payload.navigator.drivers : [],
-          blockers: Array.isArray(payload.navigator.blockers) ? payload.navigator.blockers : [],
-          gaps: Array.isArray(payload.navigator.gaps) ? payload.navigator.gaps : []
-        };
-      }
-      
-      return normalized as MarketPacket;
-      
+      transport.close();
     } catch (err) {
-      console.warn("[SSE] ⚠️ Normalization error:", err);
-      return null;
+      this.logError("close() on stalled transport failed", err);
+    }
+    
+    this.setState(SSEConnectionState.STALLED);
+    
+    if (this.handlers.onError) {
+      this.handlers.onError(new Error(`No data received for ${this.config.livenessTimeoutMs}ms`));
+    }
+  }
+  
+  /* ============================================
+     PRIVATE: RESUME TRACKING
+     ============================================ */
+  
+  /**
+   * Build transport request, carrying the resume id and the supported
+   * wire versions
+   * 
+   * Transports that cannot send headers (EventSource, including the
+   * fetch fallback, or a custom factory's) resume via query parameter
+   * even when resumeVia is "header".
+   */
+  private buildRequest(transport: SSETransport): SSETransportRequest {
+    const viaHeader =
+      this.config.resumeVia === "header" &&
+      transport.supportsHeaders;
+    
+    return {
+      url: withWireVersions(viaHeader ? this.config.endpoint : this.buildStreamUrl()),
+      headers: { ...this.config.headers },
+      lastEventId: viaHeader ? this.lastEventId : null,
+      eventTypes: ["nav_update", "keep_alive"],
+      // Generous stream-level bound; per-packet size is enforced in handleNavUpdate
+      maxEventSize: this.config.maxPayloadSize * 4
+    };
+  }
+  
+  /**
+   * Build stream URL with the resume id as a query parameter
+   */
+  private buildStreamUrl(): string {
+    const endpoint = this.config.endpoint;
+    
+    if (this.lastEventId === null) {
+      return endpoint;
+    }
+    
+    const separator = endpoint.includes("?") ? "&" : "?";
+    return (
+      endpoint +
+      separator +
+      encodeURIComponent(this.config.resumeParam) +
+      "=" +
+      encodeURIComponent(this.lastEventId)
+    );
+  }
+  
+  /**
+   * Record an event id and report sequence gaps
+   * 
+   * Events without an id keep the previous value (per SSE spec the
+   * id persists until the server changes it). Numeric ids that jump
+   * ahead are reported via onGap; ids that go backwards are treated
+   * as a backend sequence reset.
+   */
+  private trackEventId(id: string | null | undefined): void {
+    if (id === null || id === undefined || id === "") {
+      return;
+    }
+    
+    if (id === this.lastEventId) {
+      return;
+    }
+    
+    this.lastEventId = id;
+    
+    if (!/^\d+$/.test(id)) {
+      this.lastSequence = null;
+      return;
+    }
+    
+    const sequence = Number(id);
+    const previous = this.lastSequence;
+    this.lastSequence = sequence;
+    
+    if (previous === null || sequence <= previous + 1) {
+      return;
+    }
+    
+    const gap: SSESequenceGap = { from: previous + 1, to: sequence - 1 };
+    this.logLifecycle(`Sequence gap detected: ${gap.from}–${gap.to}`);
+    
+    if (this.handlers.onGap) {
+      this.handlers.onGap(gap);
     }
   }
   
@@ -0,0 +1,171 @@
+/**
+ * SSE Stream Parser tests — Phase 22.2
+ * Market Navigation System (MNS)
+ * 
+ * Streams are cut at every byte and decoded the way FetchSSETransport
+ * does (streaming UTF-8 TextDecoder), so line endings, multi-byte
+ * characters and the BOM are checked across chunk borders.
+ */
+
+import { describe, expect, it } from "vitest";
+import { SSEEvent, SSEParseError, SSEStreamParser } from "./sseParser.js";
+
+interface ParseResult {
+  events: SSEEvent[];
+  retries: number[];
+}
+
+function createParser(maxBufferLength?: number) {
+  const result: ParseResult = { events: [], retries: [] };
+  const parser = new SSEStreamParser(
+    {
+      onEvent: (event) => result.events.push(event),
+      onRetry: (retryMs) => result.retries.push(retryMs)
+    },
+    maxBufferLength
+  );
+  return { parser, result };
+}
+
+/**
+ * Parse raw bytes delivered in the given chunks, as FetchSSETransport does
+ */
+function parseChunks(chunks: Uint8Array[]): ParseResult {
+  const { parser, result } = createParser();
+  const decoder = new TextDecoder("utf-8");
+  
+  for (const chunk of chunks) {
+    parser.feed(decoder.decode(chunk, { stream: true }));
+  }
+  parser.feed(decoder.decode());
+  parser.end();
+  
+  return result;
+}
+
+/**
+ * Every way of cutting the stream in two, plus one byte per chunk
+ */
+function splits(stream: string): Array<[string, Uint8Array[]]> {
+  const bytes = new TextEncoder().encode(stream);
+  const cases: Array<[string, Uint8Array[]]> = [];
+  
+  for (let at = 1; at < bytes.length; at++) {
+    cases.push([`split at byte ${at}`, [bytes.slice(0, at), bytes.slice(at)]]);
+  }
+  cases.push(["one byte per chunk", Array.from(bytes, (byte) => Uint8Array.of(byte))]);
+  
+  return cases;
+}
+
+function expectSameForEverySplit(stream: string, expected: ParseResult): void {
+  expect(parseChunks([new TextEncoder().encode(stream)])).toEqual(expected);
+  
+  for (const [name, chunks] of splits(stream)) {
+    expect(parseChunks(chunks), name).toEqual(expected);
+  }
+}
+
+function event(data: string, type: string = "message", lastEventId: string = ""): SSEEvent {
+  return { type, data, lastEventId };
+}
+
+describe("split byte streams", () => {
+  it("treats CRLF split across chunks as one line ending", () => {
+    expectSameForEverySplit("id: 7\r\nevent: nav_update\r\ndata: first\r\ndata: second\r\n\r\n", {
+      events: [event("first\nsecond", "nav_update", "7")],
+      retries: []
+    });
+  });
+  
+  it("accepts CR-only and mixed line endings", () => {
+    expectSameForEverySplit("data: a\r\rdata: b\n\ndata: c\r\n\r", {
+      events: [event("a"), event("b"), event("c")],
+      retries: []
+    });
+  });
+  
+  it("joins multi-line data with LF, keeping empty lines and inner spaces", () => {
+    expectSameForEverySplit("data: line1\ndata:line2\ndata\ndata:  indented\n\n", {
+      events: [event("line1\nline2\n\n indented")],
+      retries: []
+    });
+  });
+  
+  it("ignores comments, including comment-only blocks", () => {
+    expectSameForEverySplit(": keep-alive\n\n:\ndata: x\n: between\ndata: y\n\n", {
+      events: [event("x\ny")],
+      retries: []
+    });
+  });
+  
+  it("strips a leading BOM, even when its bytes are split", () => {
+    expectSameForEverySplit("\uFEFFdata: x\n\n", {
+      events: [event("x")],
+      retries: []
+    });
+  });
+  
+  it("keeps multi-byte characters split between chunks intact", () => {
+    expectSameForEverySplit("id: ключ_Δ1\ndata: {\"scope\":\"Δ\"}\n\n", {
+      events: [event("{\"scope\":\"Δ\"}", "message", "ключ_Δ1")],
+      retries: []
+    });
+  });
+  
+  it("reports retry hints and keeps the last id for later events", () => {
+    expectSameForEverySplit("retry: 2500\nid: 1\ndata: a\n\nretry: soon\ndata: b\n\n", {
+      events: [event("a", "message", "1"), event("b", "message", "1")],
+      retries: [2500]
+    });
+  });
+});
+
+describe("SSEStreamParser", () => {
+  it("strips the BOM only at stream start", () => {
+    const { parser, result } = createParser();
+    
+    parser.feed("\uFEFF");
+    parser.feed("data: a\n\n\uFEFFdata: b\n\n");
+    
+    // "\uFEFFdata" is an unknown field name mid-stream
+    expect(result.events).toEqual([event("a")]);
+  });
+  
+  it("dispatches an event ending in CR at a chunk border before the next chunk", () => {
+    const { parser, result } = createParser();
+    
+    parser.feed("data: a\r\r");
+    expect(result.events).toEqual([event("a")]);
+    
+    // The LF completes the CRLF, it is not another (blank) line
+    parser.feed("\ndata: b\r");
+    parser.feed("\n\r\n");
+    expect(result.events).toEqual([event("a"), event("b")]);
+    
+    parser.feed("data: c\r");
+    parser.feed("\r");
+    expect(result.events).toEqual([event("a"), event("b"), event("c")]);
+  });
+  
+  it("discards an event without a terminating blank line at end of stream", () => {
+    const { parser, result } = createParser();
+    
+    parser.feed("data: a\n\ndata: b\n");
+    parser.end();
+    
+    expect(result.events).toEqual([event("a")]);
+  });
+  
+  it("rejects a line longer than the limit", () => {
+    const { parser } = createParser(16);
+    
+    expect(() => parser.feed("data: 0123456789abcdef")).toThrow(SSEParseError);
+  });
+  
+  it("rejects event data longer than the limit", () => {
+    const { parser } = createParser(16);
+    
+    expect(() => parser.feed("data: 0123456789\ndata: 0123456789\n")).toThrow(SSEParseError);
+  });
+});
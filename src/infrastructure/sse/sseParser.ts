@@ -0,0 +1,259 @@
+/**
+ * SSE Stream Parser — Phase 22.2
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Incremental text/event-stream parser for fetch-based transports
+ * Spec: WHATWG HTML "Server-sent events" — interpreting an event stream
+ * 
+ * Responsibilities:
+ * - Split decoded chunks into lines (CRLF, LF or CR, across chunk borders)
+ * - Handle event/data/id/retry fields and comments
+ * - Join multi-line data with LF
+ * - Dispatch complete events on blank lines
+ * 
+ * Non-goals:
+ * - No byte decoding (caller feeds UTF-8 decoded text)
+ * - No packet parsing (event data is opaque)
+ * - No I/O
+ */
+
+"use strict";
+
+/* ============================================
+   EVENT TYPES
+   ============================================ */
+
+/**
+ * A dispatched server-sent event
+ */
+export interface SSEEvent {
+  /** Event type (`event:` field, default "message") */
+  type: string;
+  
+  /** Event data (`data:` lines joined with LF) */
+  data: string;
+  
+  /** Last event id in effect when the event was dispatched ("" if none) */
+  lastEventId: string;
+}
+
+export interface SSEParserCallbacks {
+  /**
+   * Called for every dispatched event
+   */
+  onEvent: (event: SSEEvent) => void;
+  
+  /**
+   * Called when the server sets a reconnection time (`retry:` field)
+   * @param retryMs - Reconnection delay in milliseconds
+   */
+  onRetry?: (retryMs: number) => void;
+}
+
+/**
+ * Raised when a single line or event exceeds the configured limit
+ */
+export class SSEParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SSEParseError";
+  }
+}
+
+/* ============================================
+   PARSER
+   ============================================ */
+
+export class SSEStreamParser {
+  private callbacks: SSEParserCallbacks;
+  private maxBufferLength: number;
+  
+  // Unterminated input carried over between chunks
+  private buffer: string = "";
+  private isFirstChunk: boolean = true;
+  
+  // Previous chunk ended in CR: a leading LF is the rest of its CRLF
+  private skipLeadingLF: boolean = false;
+  
+  // Event being assembled
+  private eventType: string = "";
+  private data: string = "";
+  private lastEventId: string = "";
+  
+  /**
+   * @param callbacks - Event and retry callbacks
+   * @param maxBufferLength - Maximum length of a pending line or event data
+   *                          (default: unlimited)
+   */
+  constructor(callbacks: SSEParserCallbacks, maxBufferLength: number = Infinity) {
+    this.callbacks = callbacks;
+    this.maxBufferLength = maxBufferLength;
+  }
+  
+  /**
+   * Get the last event id seen on the stream
+   */
+  public getLastEventId(): string {
+    return this.lastEventId;
+  }
+  
+  /**
+   * Feed a decoded chunk of the stream
+   * 
+   * @throws SSEParseError if a line or event exceeds maxBufferLength
+   */
+  public feed(chunk: string): void {
+    if (chunk.length === 0) {
+      return;
+    }
+    
+    let text = this.buffer + chunk;
+    
+    if (this.skipLeadingLF) {
+      this.skipLeadingLF = false;
+      if (text[0] === "\n") {
+        text = text.slice(1);
+      }
+    }
+    
+    // Strip a single leading BOM at stream start
+    if (this.isFirstChunk) {
+      this.isFirstChunk = false;
+      if (text.charCodeAt(0) === 0xfeff) {
+        text = text.slice(1);
+      }
+    }
+    
+    let position = 0;
+    
+    while (position < text.length) {
+      const lf = text.indexOf("\n", position);
+      const cr = text.indexOf("\r", position);
+      
+      let lineEnd: number;
+      if (lf === -1 && cr === -1) {
+        break;
+      } else if (lf === -1) {
+        lineEnd = cr;
+      } else if (cr === -1) {
+        lineEnd = lf;
+      } else {
+        lineEnd = Math.min(lf, cr);
+      }
+      
+      let next = lineEnd + 1;
+      
+      if (text[lineEnd] === "\r") {
+        // CR at chunk end ends its line now; the next chunk's LF may complete a CRLF
+        if (next === text.length) {
+          this.skipLeadingLF = true;
+        } else if (text[next] === "\n") {
+          next++;
+        }
+      }
+      
+      this.processLine(text.slice(position, lineEnd));
+      position = next;
+    }
+    
+    this.buffer = text.slice(position);
+    
+    if (this.buffer.length > this.maxBufferLength) {
+      this.buffer = "";
+      throw new SSEParseError("Line exceeds maximum length");
+    }
+  }
+  
+  /**
+   * Signal end of stream
+   * 
+   * An event without a terminating blank line is discarded (per spec).
+   */
+  public end(): void {
+    this.buffer = "";
+    this.skipLeadingLF = false;
+    this.eventType = "";
+    this.data = "";
+  }
+  
+  /* ============================================
+     PRIVATE: LINE PROCESSING
+     ============================================ */
+  
+  private processLine(line: string): void {
+    // Blank line: dispatch
+    if (line.length === 0) {
+      this.dispatch();
+      return;
+    }
+    
+    // Comment
+    if (line[0] === ":") {
+      return;
+    }
+    
+    const colon = line.indexOf(":");
+    let field: string;
+    let value: string;
+    
+    if (colon === -1) {
+      field = line;
+      value = "";
+    } else {
+      field = line.slice(0, colon);
+      value = line.slice(colon + 1);
+      if (value[0] === " ") {
+        value = value.slice(1);
+      }
+    }
+    
+    switch (field) {
+      case "event":
+        this.eventType = value;
+        break;
+      
+      case "data":
+        this.data += value + "\n";
+        if (this.data.length > this.maxBufferLength) {
+          this.data = "";
+          throw new SSEParseError("Event data exceeds maximum length");
+        }
+        break;
+      
+      case "id":
+        // Ids containing NULL are ignored (per spec)
+        if (!value.includes("\u0000")) {
+          this.lastEventId = value;
+        }
+        break;
+      
+      case "retry":
+        if (/^\d+$/.test(value) && this.callbacks.onRetry) {
+          this.callbacks.onRetry(parseInt(value, 10));
+        }
+        break;
+      
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+  
+  private dispatch(): void {
+    if (this.data.length === 0) {
+      this.eventType = "";
+      return;
+    }
+    
+    const event: SSEEvent = {
+      type: this.eventType || "message",
+      data: this.data.slice(0, -1),
+      lastEventId: this.lastEventId
+    };
+    
+    this.eventType = "";
+    this.data = "";
+    
+    this.callbacks.onEvent(event);
+  }
+}
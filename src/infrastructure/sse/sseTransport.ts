@@ -0,0 +1,295 @@
+/**
+ * SSE Transports — Phase 22.2
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Pluggable byte-stream layer behind SSEClient
+ * 
+ * Implementations:
+ * - FetchSSETransport: fetch + ReadableStream + SSEStreamParser
+ *   (custom headers, HTTP status, clean abort)
+ * - EventSourceTransport: native browser EventSource
+ *   (fallback where streaming fetch is unavailable)
+ * 
+ * Non-goals:
+ * - No packet parsing (event data is opaque)
+ * - No retry logic (orchestrated by DeliveryController)
+ */
+
+"use strict";
+
+import { SSEEvent, SSEStreamParser } from "./sseParser.js";
+
+export type { SSEEvent } from "./sseParser.js";
+
+/* ============================================
+   TRANSPORT INTERFACE
+   ============================================ */
+
+export type SSETransportKind = "fetch" | "eventsource";
+
+export interface SSETransportRequest {
+  /** Stream URL */
+  url: string;
+  
+  /** Extra request headers (ignored by EventSource) */
+  headers: Record<string, string>;
+  
+  /** Resume id sent as Last-Event-ID header (ignored by EventSource) */
+  lastEventId: string | null;
+  
+  /** Named event types to subscribe to (EventSource only) */
+  eventTypes: string[];
+  
+  /** Maximum length of a single line or event */
+  maxEventSize: number;
+}
+
+export interface SSETransportOpenInfo {
+  /** HTTP status of the stream response (null if not observable) */
+  status: number | null;
+}
+
+export interface SSETransportListener {
+  onOpen: (info: SSETransportOpenInfo) => void;
+  onEvent: (event: SSEEvent) => void;
+  onError: (error: SSETransportError) => void;
+  onRetry?: (retryMs: number) => void;
+}
+
+export interface SSETransport {
+  /**
+   * Whether request.headers and request.lastEventId reach the server
+   * (false: the caller must carry them in the URL)
+   */
+  readonly supportsHeaders: boolean;
+  
+  /**
+   * Open the stream; events are delivered to the listener until close()
+   */
+  open(request: SSETransportRequest, listener: SSETransportListener): void;
+  
+  /**
+   * Close the stream; no listener calls are made afterwards
+   */
+  close(): void;
+}
+
+export type SSETransportFactory = () => SSETransport;
+
+/**
+ * Transport failure
+ * 
+ * fatal = true means the stream is closed and will not recover by itself.
+ */
+export class SSETransportError extends Error {
+  public readonly status: number | null;
+  public readonly fatal: boolean;
+  
+  constructor(message: string, status: number | null, fatal: boolean) {
+    super(message);
+    this.name = "SSETransportError";
+    this.status = status;
+    this.fatal = fatal;
+  }
+}
+
+/* ============================================
+   FETCH TRANSPORT
+   ============================================ */
+
+export class FetchSSETransport implements SSETransport {
+  public readonly supportsHeaders: boolean = true;
+  
+  private abortController: AbortController | null = null;
+  private closed: boolean = false;
+  
+  public open(request: SSETransportRequest, listener: SSETransportListener): void {
+    this.closed = false;
+    this.abortController = new AbortController();
+    void this.run(request, listener, this.abortController.signal);
+  }
+  
+  public close(): void {
+    this.closed = true;
+    
+    if (this.abortController !== null) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+  }
+  
+  private async run(
+    request: SSETransportRequest,
+    listener: SSETransportListener,
+    signal: AbortSignal
+  ): Promise<void> {
+    const headers: Record<string, string> = {
+      "Accept": "text/event-stream",
+      ...request.headers
+    };
+    
+    if (request.lastEventId !== null) {
+      headers["Last-Event-ID"] = request.lastEventId;
+    }
+    
+    let response: Response;
+    try {
+      response = await fetch(request.url, {
+        method: "GET",
+        headers,
+        credentials: "omit",
+        cache: "no-store",
+        signal
+      });
+    } catch (err) {
+      this.fail(listener, new SSETransportError("Stream request failed", null, true));
+      return;
+    }
+    
+    if (this.closed) {
+      return;
+    }
+    
+    if (!response.ok) {
+      this.fail(listener, new SSETransportError(`Stream request failed: HTTP ${response.status}`, response.status, true));
+      return;
+    }
+    
+    const contentType = response.headers.get("content-type");
+    if (!contentType || !contentType.includes("text/event-stream")) {
+      this.fail(listener, new SSETransportError("Stream request failed: invalid content-type", response.status, true));
+      return;
+    }
+    
+    if (!response.body) {
+      this.fail(listener, new SSETransportError("Stream request failed: no body", response.status, true));
+      return;
+    }
+    
+    listener.onOpen({ status: response.status });
+    
+    const parser = new SSEStreamParser(
+      {
+        onEvent: (event) => {
+          if (!this.closed) {
+            listener.onEvent(event);
+          }
+        },
+        onRetry: (retryMs) => {
+          if (!this.closed && listener.onRetry) {
+            listener.onRetry(retryMs);
+          }
+        }
+      },
+      request.maxEventSize
+    );
+    
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder("utf-8");
+    
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        
+        if (this.closed) {
+          return;
+        }
+        
+        if (done) {
+          break;
+        }
+        
+        parser.feed(decoder.decode(value, { stream: true }));
+      }
+      
+      parser.feed(decoder.decode());
+      parser.end();
+      
+      this.fail(listener, new SSETransportError("Stream ended", response.status, true));
+    
+    } catch (err) {
+      reader.cancel().catch(() => undefined);
+      const message = err instanceof Error ? `Stream read failed: ${err.message}` : "Stream read failed";
+      this.fail(listener, new SSETransportError(message, response.status, true));
+    }
+  }
+  
+  private fail(listener: SSETransportListener, error: SSETransportError): void {
+    if (this.closed) {
+      return;
+    }
+    listener.onError(error);
+  }
+}
+
+/* ============================================
+   EVENTSOURCE TRANSPORT
+   ============================================ */
+
+export class EventSourceTransport implements SSETransport {
+  public readonly supportsHeaders: boolean = false;
+  
+  private eventSource: EventSource | null = null;
+  private listeners: Array<[string, (event: MessageEvent) => void]> = [];
+  
+  public open(request: SSETransportRequest, listener: SSETransportListener): void {
+    const eventSource = new EventSource(request.url, {
+      withCredentials: false
+    });
+    this.eventSource = eventSource;
+    
+    eventSource.onopen = () => {
+      listener.onOpen({ status: null });
+    };
+    
+    eventSource.onerror = () => {
+      // CONNECTING: browser is reconnecting on its own
+      const fatal = eventSource.readyState === EventSource.CLOSED;
+      listener.onError(new SSETransportError(fatal ? "EventSource closed" : "EventSource reconnecting", null, fatal));
+    };
+    
+    for (const type of ["message", ...request.eventTypes]) {
+      const handler = (event: MessageEvent) => {
+        listener.onEvent({
+          type,
+          data: typeof event.data === "string" ? event.data : "",
+          lastEventId: event.lastEventId
+        });
+      };
+      eventSource.addEventListener(type, handler);
+      this.listeners.push([type, handler]);
+    }
+  }
+  
+  public close(): void {
+    if (this.eventSource === null) {
+      return;
+    }
+    
+    for (const [type, handler] of this.listeners) {
+      this.eventSource.removeEventListener(type, handler);
+    }
+    this.listeners = [];
+    
+    this.eventSource.onopen = null;
+    this.eventSource.onerror = null;
+    this.eventSource.close();
+    this.eventSource = null;
+  }
+}
+
+/* ============================================
+   FACTORY FUNCTION
+   ============================================ */
+
+/**
+ * Create a transport of the given kind
+ * 
+ * Falls back to EventSource when streaming fetch is unavailable.
+ */
+export function createSSETransport(kind: SSETransportKind): SSETransport {
+  if (kind === "fetch" && typeof ReadableStream !== "undefined" && typeof AbortController !== "undefined") {
+    return new FetchSSETransport();
+  }
+  return new EventSourceTransport();
+}
@@ -0,0 +1,173 @@
+/**
+ * Market Store tests — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Selector subscriptions and equality, the nav slice and its validation
+ * epoch, and the Phase 23 price history.
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BTCPriceData, MarketState, createMarketStore, shallowEqual } from "./marketStore.js";
+import { DeliveryMode } from "../delivery/deliveryMode.js";
+import { NavFields } from "../packet/packetSchema.js";
+import { ValidationReason } from "../packet/validationReason.js";
+
+const NAV: NavFields = { regime: "EXPANSION", risk: "NORMAL", confidence: "HIGH", scope: "PUBLIC" };
+
+function price(timestamp: number, value: number = 60000 + timestamp): BTCPriceData {
+  return { symbol: "BTC", price: value, timestamp };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("subscriptions", () => {
+  it("notify only when the selected value changes, with the previous value", () => {
+    const store = createMarketStore();
+    const modes: Array<[DeliveryMode | null, DeliveryMode | null]> = [];
+    store.subscribe((state) => state.delivery.mode, (mode, previous) => modes.push([mode, previous]));
+    
+    store.setDeliveryMode(DeliveryMode.SSE_PRIMARY);
+    store.setNav(0, NAV);
+    store.setDeliveryMode(DeliveryMode.SSE_PRIMARY);
+    store.setDeliveryMode(DeliveryMode.REST_DEGRADED);
+    
+    expect(modes).toEqual([
+      [DeliveryMode.SSE_PRIMARY, null],
+      [DeliveryMode.REST_DEGRADED, DeliveryMode.SSE_PRIMARY]
+    ]);
+  });
+  
+  it("compare built selections with shallowEqual", () => {
+    const store = createMarketStore();
+    const byIdentity = vi.fn();
+    const byShallow = vi.fn();
+    const select = (state: MarketState) => ({ tier: state.nav.tier, reason: state.nav.unverifiedReason });
+    store.subscribe(select, byIdentity);
+    store.subscribe(select, byShallow, shallowEqual);
+    
+    // The epoch changes, the selected fields do not
+    store.supersedeValidation();
+    
+    expect(byIdentity).toHaveBeenCalledTimes(1);
+    expect(byShallow).not.toHaveBeenCalled();
+    
+    store.setUnverified(ValidationReason.STALE_PACKET);
+    expect(byShallow).toHaveBeenCalledWith(
+      { tier: 0, reason: ValidationReason.STALE_PACKET },
+      { tier: 0, reason: null }
+    );
+  });
+  
+  it("stop after unsubscribe, even when unsubscribed by another listener", () => {
+    const store = createMarketStore();
+    const second = vi.fn();
+    let unsubscribeSecond: () => void = () => undefined;
+    
+    store.subscribe((state) => state.delivery.mode, () => unsubscribeSecond());
+    unsubscribeSecond = store.subscribe((state) => state.delivery.mode, second);
+    
+    store.setDeliveryMode(DeliveryMode.WS_PRIMARY);
+    
+    expect(second).not.toHaveBeenCalled();
+  });
+  
+  it("keep notifying the others when one listener throws", () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const store = createMarketStore();
+    const healthy = vi.fn();
+    store.subscribe((state) => state.delivery.mode, () => {
+      throw new Error("render failed");
+    });
+    store.subscribe((state) => state.delivery.mode, healthy);
+    
+    store.setDeliveryMode(DeliveryMode.SSE_PRIMARY);
+    
+    expect(healthy).toHaveBeenCalledWith(DeliveryMode.SSE_PRIMARY, null);
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("shallowEqual", () => {
+  it("compares own keys by identity", () => {
+    const packet = { regime: "EXPANSION" };
+    
+    expect(shallowEqual({ a: 1, packet }, { a: 1, packet })).toBe(true);
+    expect(shallowEqual({ a: 1, packet }, { a: 1, packet: { ...packet } })).toBe(false);
+    expect(shallowEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(shallowEqual([1, 2], [1, 2])).toBe(true);
+    expect(shallowEqual<unknown>(null, {})).toBe(false);
+    expect(shallowEqual(NaN, NaN)).toBe(true);
+  });
+});
+
+describe("nav slice", () => {
+  it("supersedes validations in flight by bumping the epoch", () => {
+    const store = createMarketStore();
+    
+    const first = store.supersedeValidation();
+    expect(store.isCurrentValidation(first)).toBe(true);
+    
+    const second = store.supersedeValidation();
+    expect(second).toBe(first + 1);
+    expect(store.isCurrentValidation(first)).toBe(false);
+    expect(store.isCurrentValidation(second)).toBe(true);
+  });
+  
+  it("keeps the epoch across packets and unverified results", () => {
+    const store = createMarketStore();
+    const epoch = store.supersedeValidation();
+    
+    store.setNav(0, NAV);
+    store.setUnverified(ValidationReason.SIGNATURE_INVALID);
+    
+    expect(store.isCurrentValidation(epoch)).toBe(true);
+  });
+  
+  it("freezes the stored packet and clears it when a packet is unverified", () => {
+    const store = createMarketStore();
+    
+    store.setNav(0, { ...NAV });
+    expect(Object.isFrozen(store.getState().nav.packet)).toBe(true);
+    expect(Object.isFrozen(store.getState())).toBe(true);
+    
+    store.setUnverified(ValidationReason.UNKNOWN_KID);
+    expect(store.getState().nav).toMatchObject({ tier: 0, packet: null, unverifiedReason: ValidationReason.UNKNOWN_KID });
+    
+    store.setNav(0, NAV);
+    expect(store.getState().nav.unverifiedReason).toBeNull();
+  });
+});
+
+describe("price history", () => {
+  it("appends prices with a new timestamp, up to priceHistoryLimit", () => {
+    const store = createMarketStore({ priceHistoryLimit: 3 });
+    
+    for (const timestamp of [1, 2, 3, 4]) {
+      store.setPhase23(price(timestamp), null, null, timestamp);
+    }
+    
+    expect(store.getState().price.history.map((point) => point.timestamp)).toEqual([2, 3, 4]);
+    expect(store.getState().price.current).toEqual(price(4));
+  });
+  
+  it("ignores a re-sent price and keeps snapshots a fetch did not return", () => {
+    const store = createMarketStore();
+    const regimes = {
+      volatility_regime: "LOW",
+      trend_regime: "UP",
+      stress_regime: "CALM",
+      liquidity_regime: "DEEP",
+      timestamp: "2026-10-19T12:00:00Z"
+    };
+    store.setPhase23(price(1), regimes, null, 100);
+    const priceSlice = store.getState().price;
+    
+    store.setPhase23(price(1), null, null, 200);
+    
+    expect(store.getState().price).toBe(priceSlice);
+    expect(store.getState().regimes).toBe(regimes);
+    expect(store.getState().delivery.lastFetchTime).toBe(200);
+  });
+});
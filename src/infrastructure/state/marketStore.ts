@@ -0,0 +1,335 @@
+/**
+ * Market Store — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Single observable source of truth for what the terminal shows
+ * Used by: main.tsx (DOM renderers, delivery and Phase 23 wiring),
+ *          useMarketStore / useMarketData (React 3D scene)
+ * 
+ * Slices:
+ * - nav: validated packet (or UNVERIFIED reason) and the validation epoch
+ * - price: latest BTC price and the history behind the price chart
+ * - regimes / forecast: latest Phase 23 snapshots
+ * - delivery: delivery mode and time of the last Phase 23 fetch
+ * 
+ * State is replaced, never mutated: every action builds new frozen slices
+ * for what it changes, so listeners can compare selected values by
+ * reference. Selector subscriptions fire only when the selected value
+ * changes.
+ */
+
+"use strict";
+
+import { DeliveryMode } from "../delivery/deliveryMode.js";
+import { ValidationReason } from "../packet/validationReason.js";
+import { MarketPacket, NavFields } from "../packet/packetSchema.js";
+
+/* ============================================
+   PHASE 23 DATA
+   ============================================ */
+
+export interface BTCPriceData {
+  symbol: string;
+  price: number;
+  timestamp: number;
+}
+
+export interface RegimesData {
+  volatility_regime: string;
+  trend_regime: string;
+  stress_regime: string;
+  liquidity_regime: string;
+  timestamp: string;
+}
+
+export interface ForecastData {
+  tier0: {
+    symbol: string;
+    horizon: string;
+    p10: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p90: number;
+    confidence: number;
+  };
+  tier1: {
+    bias: string;
+    stability: string;
+  };
+  tier2: {
+    liquidity_state: string;
+    drivers: string[];
+    blockers: string[];
+  };
+  timestamp: number;
+}
+
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+}
+
+/* ============================================
+   STATE
+   ============================================ */
+
+export interface NavSlice {
+  tier: number;
+  
+  /**
+   * Render-ready packet: the signed Tier 1/2 packet, or the nav fields of
+   * a Tier 0 one (null: none yet, or the latest was unverified)
+   */
+  packet: MarketPacket | NavFields | null;
+  
+  /** Set while the latest packet failed validation */
+  unverifiedReason: ValidationReason | null;
+  
+  /** Bumped whenever validations in flight are superseded */
+  validationEpoch: number;
+}
+
+export interface PriceSlice {
+  current: BTCPriceData | null;
+  
+  /** Oldest first, capped at priceHistoryLimit */
+  history: readonly PricePoint[];
+}
+
+export interface DeliverySlice {
+  /** null until the controller (or the leader tab) reports a mode */
+  mode: DeliveryMode | null;
+  
+  /** Last Phase 23 fetch (epoch ms, 0: never) */
+  lastFetchTime: number;
+}
+
+export interface MarketState {
+  nav: NavSlice;
+  price: PriceSlice;
+  regimes: RegimesData | null;
+  forecast: ForecastData | null;
+  delivery: DeliverySlice;
+}
+
+export type MarketSelector<T> = (state: MarketState) => T;
+export type MarketEquality<T> = (a: T, b: T) => boolean;
+export type MarketListener<T> = (value: T, previous: T) => void;
+
+export interface MarketStoreConfig {
+  /** Price points kept for the chart (default: 288, 24h at 5-minute intervals) */
+  priceHistoryLimit: number;
+}
+
+const DEFAULT_CONFIG: MarketStoreConfig = {
+  priceHistoryLimit: 288
+};
+
+const INITIAL_STATE: MarketState = Object.freeze({
+  nav: Object.freeze({ tier: 0, packet: null, unverifiedReason: null, validationEpoch: 0 }),
+  price: Object.freeze({ current: null, history: Object.freeze([]) as readonly PricePoint[] }),
+  regimes: null,
+  forecast: null,
+  delivery: Object.freeze({ mode: null, lastFetchTime: 0 })
+});
+
+/**
+ * Equality for selectors that build an object or array: same keys
+ * (or items) with identical values
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  
+  return keysA.length === keysB.length &&
+    keysA.every((key) => Object.prototype.hasOwnProperty.call(b, key) &&
+      Object.is((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/* ============================================
+   MARKET STORE
+   ============================================ */
+
+/**
+ * One selector subscription: re-selects from a new state and notifies
+ * its listener if the selected value changed (the selected type stays
+ * inside the closure built by subscribe())
+ */
+interface Subscription {
+  update(state: MarketState): void;
+}
+
+export class MarketStore {
+  private config: MarketStoreConfig;
+  private state: MarketState = INITIAL_STATE;
+  private subscriptions: Set<Subscription> = new Set();
+  
+  constructor(config: Partial<MarketStoreConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+  
+  public getState(): MarketState {
+    return this.state;
+  }
+  
+  /**
+   * Subscribe to a selected value; the listener is called whenever it
+   * changes (not immediately)
+   * 
+   * @param selector - Picks the value from the state (keep it cheap and pure)
+   * @param listener - Called with the new and previous value
+   * @param equals - When the value counts as unchanged (default: Object.is)
+   * @returns Unsubscribe function
+   */
+  public subscribe<T>(
+    selector: MarketSelector<T>,
+    listener: MarketListener<T>,
+    equals: MarketEquality<T> = Object.is
+  ): () => void {
+    let value = selector(this.state);
+    
+    const subscription: Subscription = {
+      update: (state) => {
+        const next = selector(state);
+        if (equals(value, next)) {
+          return;
+        }
+        
+        const previous = value;
+        value = next;
+        listener(next, previous);
+      }
+    };
+    this.subscriptions.add(subscription);
+    
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+  
+  /* ============================================
+     NAV
+     ============================================ */
+  
+  /**
+   * Supersede every validation in flight
+   * 
+   * @returns The new epoch (a validation is current while it matches)
+   */
+  public supersedeValidation(): number {
+    this.setState({ nav: Object.freeze({ ...this.state.nav, validationEpoch: this.state.nav.validationEpoch + 1 }) });
+    return this.state.nav.validationEpoch;
+  }
+  
+  public isCurrentValidation(epoch: number): boolean {
+    return this.state.nav.validationEpoch === epoch;
+  }
+  
+  public setNav(tier: number, packet: MarketPacket | NavFields): void {
+    this.setState({
+      nav: Object.freeze({
+        ...this.state.nav,
+        tier,
+        packet: Object.isFrozen(packet) ? packet : Object.freeze(packet),
+        unverifiedReason: null
+      })
+    });
+  }
+  
+  public setUnverified(reason: ValidationReason): void {
+    this.setState({
+      nav: Object.freeze({ ...this.state.nav, tier: 0, packet: null, unverifiedReason: reason })
+    });
+  }
+  
+  /* ============================================
+     PHASE 23
+     ============================================ */
+  
+  /**
+   * Store a Phase 23 fetch (or a leader's broadcast of one); null keeps
+   * the previous snapshot, a price with a new timestamp is appended to
+   * the history
+   */
+  public setPhase23(
+    price: BTCPriceData | null,
+    regimes: RegimesData | null,
+    forecast: ForecastData | null,
+    fetchedAt: number
+  ): void {
+    const update: Partial<MarketState> = {
+      delivery: Object.freeze({ ...this.state.delivery, lastFetchTime: fetchedAt })
+    };
+    
+    // Same timestamp: a re-sent snapshot (failed fetch, leader broadcast)
+    if (price !== null && price.timestamp !== this.state.price.current?.timestamp) {
+      const history = [...this.state.price.history, { timestamp: price.timestamp, price: price.price }];
+      update.price = Object.freeze({
+        current: price,
+        history: Object.freeze(history.slice(-this.config.priceHistoryLimit))
+      });
+    }
+    
+    if (regimes !== null) {
+      update.regimes = regimes;
+    }
+    
+    if (forecast !== null) {
+      update.forecast = forecast;
+    }
+    
+    this.setState(update);
+  }
+  
+  /* ============================================
+     DELIVERY
+     ============================================ */
+  
+  public setDeliveryMode(mode: DeliveryMode): void {
+    this.setState({ delivery: Object.freeze({ ...this.state.delivery, mode }) });
+  }
+  
+  /* ============================================
+     PRIVATE
+     ============================================ */
+  
+  private setState(update: Partial<MarketState>): void {
+    this.state = Object.freeze({ ...this.state, ...update });
+    
+    // Snapshot: listeners may subscribe or unsubscribe while notified
+    for (const subscription of [...this.subscriptions]) {
+      if (!this.subscriptions.has(subscription)) {
+        continue;
+      }
+      
+      try {
+        subscription.update(this.state);
+      } catch (err) {
+        // A failing renderer must not keep the others from updating
+        this.logError("Listener failed", err);
+      }
+    }
+  }
+  
+  private logError(message: string, error: any): void {
+    const timestamp = new Date().toISOString();
+    console.error(`[MarketStore][${timestamp}] ${message}`, error);
+  }
+}
+
+/* ============================================
+   FACTORY FUNCTION
+   ============================================ */
+
+export function createMarketStore(config: Partial<MarketStoreConfig> = {}): MarketStore {
+  return new MarketStore(config);
+}
@@ -0,0 +1,241 @@
+/**
+ * Tab Coordinator tests — Phase 22.3
+ * Market Navigation System (MNS)
+ * 
+ * Several coordinators in one process, joined by an in-memory
+ * BroadcastChannel (asynchronous delivery, never to the sender) and
+ * driven with fake timers: election, lowest-id tie-break, heartbeat
+ * timeout failover and resign hand-off.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TabCoordinator, TabRole, createTabCoordinator } from "./tabCoordinator.js";
+
+/* ============================================
+   BROADCAST CHANNEL STAND-IN
+   ============================================ */
+
+class MemoryBroadcastChannel {
+  static open: MemoryBroadcastChannel[] = [];
+  
+  public onmessage: ((event: { data: unknown }) => void) | null = null;
+  private closed: boolean = false;
+  
+  constructor(public readonly name: string) {
+    MemoryBroadcastChannel.open.push(this);
+  }
+  
+  postMessage(data: unknown): void {
+    if (this.closed) {
+      throw new DOMException("BroadcastChannel is closed", "InvalidStateError");
+    }
+    
+    const message = structuredClone(data);
+    for (const peer of MemoryBroadcastChannel.open) {
+      if (peer !== this && peer.name === this.name) {
+        setTimeout(() => {
+          if (!peer.closed) {
+            peer.onmessage?.({ data: message });
+          }
+        }, 0);
+      }
+    }
+  }
+  
+  close(): void {
+    this.closed = true;
+    MemoryBroadcastChannel.open = MemoryBroadcastChannel.open.filter((channel) => channel !== this);
+  }
+}
+
+/* ============================================
+   HARNESS
+   ============================================ */
+
+interface Tab {
+  coordinator: TabCoordinator<string>;
+  roles: TabRole[];
+  received: string[];
+  peersJoined: number;
+}
+
+function openTab(): Tab {
+  const tab: Tab = { coordinator: null!, roles: [], received: [], peersJoined: 0 };
+  tab.coordinator = createTabCoordinator<string>(
+    {},
+    {
+      onRoleChange: (role) => tab.roles.push(role),
+      onData: (payload) => tab.received.push(payload),
+      onPeerJoined: () => tab.peersJoined++
+    }
+  );
+  tab.coordinator.start();
+  return tab;
+}
+
+function tabId(tab: Tab): string {
+  return tab.coordinator["tabId"];
+}
+
+/**
+ * The tab's process dies: no resign, no more heartbeats
+ */
+function crash(tab: Tab): void {
+  tab.coordinator["clearTimers"]();
+  tab.coordinator["channel"]!.close();
+}
+
+function leaders(tabs: Tab[]): Tab[] {
+  return tabs.filter((tab) => tab.coordinator.isLeader());
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal("BroadcastChannel", MemoryBroadcastChannel);
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+  MemoryBroadcastChannel.open = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+/* ============================================
+   SCENARIOS
+   ============================================ */
+
+describe("TabCoordinator", () => {
+  it("lets a tab that finds no leader take the lead after electionTimeout", async () => {
+    const tab = openTab();
+    
+    await vi.advanceTimersByTimeAsync(1499);
+    expect(tab.coordinator.getRole()).toBe(TabRole.CANDIDATE);
+    
+    await vi.advanceTimersByTimeAsync(1);
+    expect(tab.roles).toEqual([TabRole.LEADER]);
+  });
+  
+  it("makes a late tab follow the existing leader and relays the leader's data", async () => {
+    const first = openTab();
+    await vi.advanceTimersByTimeAsync(1500);
+    
+    const second = openTab();
+    await vi.advanceTimersByTimeAsync(10);
+    
+    expect(second.roles).toEqual([TabRole.FOLLOWER]);
+    expect(first.peersJoined).toBe(1);
+    
+    first.coordinator.broadcast("nav-1");
+    second.coordinator.broadcast("ignored: not the leader");
+    await vi.advanceTimersByTimeAsync(10);
+    
+    expect(second.received).toEqual(["nav-1"]);
+    expect(first.received).toEqual([]);
+    
+    // Stays settled: heartbeats keep the follower from electing
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(leaders([first, second])).toEqual([first]);
+  });
+  
+  it("resolves two tabs electing at once to the one with the lowest id", async () => {
+    const tabs = [openTab(), openTab()];
+    
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(leaders(tabs)).toHaveLength(2);
+    
+    // First heartbeats cross: the higher id steps down
+    await vi.advanceTimersByTimeAsync(10);
+    
+    const [winner] = [...tabs].sort((a, b) => (tabId(a) < tabId(b) ? -1 : 1));
+    expect(leaders(tabs)).toEqual([winner]);
+    
+    const loser = tabs.find((tab) => tab !== winner)!;
+    expect(loser.roles).toEqual([TabRole.LEADER, TabRole.FOLLOWER]);
+    
+    // The loser's hello makes the winner resend its state
+    expect(winner.peersJoined).toBe(1);
+    
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(leaders(tabs)).toEqual([winner]);
+  });
+  
+  it("replaces a leader that stops sending heartbeats within leaderTimeout", async () => {
+    const leader = openTab();
+    await vi.advanceTimersByTimeAsync(1500);
+    const follower = openTab();
+    await vi.advanceTimersByTimeAsync(10);
+    
+    await vi.advanceTimersByTimeAsync(490);
+    crash(leader);
+    const crashedAt = Date.now();
+    
+    // Silent for leaderTimeout, then one watchdog tick, then up to half a heartbeat of spread
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(follower.coordinator.getRole()).toBe(TabRole.FOLLOWER);
+    
+    await vi.advanceTimersByTimeAsync(2500);
+    expect(follower.roles).toEqual([TabRole.FOLLOWER, TabRole.CANDIDATE, TabRole.LEADER]);
+    expect(Date.now() - crashedAt).toBeLessThanOrEqual(3500 + 1000 + 500 + 500);
+  });
+  
+  it("elects one new leader by lowest id when several followers lose the leader", async () => {
+    const leader = openTab();
+    await vi.advanceTimersByTimeAsync(1500);
+    const followers = [openTab(), openTab()];
+    await vi.advanceTimersByTimeAsync(10);
+    
+    // No spread: both followers claim at the same instant
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    crash(leader);
+    await vi.advanceTimersByTimeAsync(6000);
+    
+    const [lowest] = [...followers].sort((a, b) => (tabId(a) < tabId(b) ? -1 : 1));
+    expect(leaders(followers)).toEqual([lowest]);
+  });
+  
+  it("hands the lead to a follower on stop() without waiting for the timeout", async () => {
+    const leader = openTab();
+    await vi.advanceTimersByTimeAsync(1500);
+    const follower = openTab();
+    await vi.advanceTimersByTimeAsync(10);
+    
+    leader.coordinator.stop();
+    await vi.advanceTimersByTimeAsync(510);
+    
+    expect(follower.coordinator.isLeader()).toBe(true);
+  });
+  
+  it("lets a resigning leader be replaced, then follow the new leader", async () => {
+    const leader = openTab();
+    await vi.advanceTimersByTimeAsync(1500);
+    const follower = openTab();
+    await vi.advanceTimersByTimeAsync(10);
+    
+    leader.coordinator.resign();
+    expect(leader.coordinator.getRole()).toBe(TabRole.CANDIDATE);
+    
+    // The follower claims within half a heartbeat, before the resigner may reclaim
+    await vi.advanceTimersByTimeAsync(510);
+    expect(follower.coordinator.isLeader()).toBe(true);
+    expect(leader.roles).toEqual([TabRole.LEADER, TabRole.CANDIDATE, TabRole.FOLLOWER]);
+    
+    follower.coordinator.broadcast("from the new leader");
+    await vi.advanceTimersByTimeAsync(10);
+    expect(leader.received).toEqual(["from the new leader"]);
+    
+    // Past the resigner's own election timeout: still following
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(leaders([leader, follower])).toEqual([follower]);
+  });
+  
+  it("acts as leader on its own without BroadcastChannel", () => {
+    vi.stubGlobal("BroadcastChannel", undefined);
+    
+    const tab = openTab();
+    
+    expect(tab.roles).toEqual([TabRole.LEADER]);
+  });
+});
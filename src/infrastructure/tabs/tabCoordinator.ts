@@ -0,0 +1,445 @@
+/**
+ * Tab Coordinator — Phase 22.3
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Elect one leader tab per browser profile to own delivery
+ * Transport: BroadcastChannel (same-origin only)
+ * 
+ * Responsibilities:
+ * - Leader election with heartbeats (lowest tab id wins conflicts)
+ * - Automatic failover when the leader closes (resign) or dies (timeout)
+ * - Voluntary hand-off (a hidden leader lets a visible tab take over)
+ * - Relay application messages from the leader to followers
+ * - Tell the leader when a follower joins so it can resend current state
+ * 
+ * Protocol (all messages carry `from`, the sender's tab id):
+ * - hello      tab looking for a leader (or a demoted leader asking for state)
+ * - heartbeat  leader is alive (every heartbeatInterval)
+ * - resign     leader is closing; followers elect immediately
+ * - data       application payload, leader → followers
+ * 
+ * Without BroadcastChannel every tab is its own leader (pre-coordination
+ * behaviour).
+ * 
+ * Non-goals:
+ * - No packet validation (payloads are opaque)
+ * - No follower → leader data
+ */
+
+"use strict";
+
+/* ============================================
+   ROLE
+   ============================================ */
+
+export enum TabRole {
+  /** Looking for a leader / election in progress */
+  CANDIDATE = "CANDIDATE",
+  
+  /** Owns delivery and broadcasts data */
+  LEADER = "LEADER",
+  
+  /** Receives data from the leader */
+  FOLLOWER = "FOLLOWER"
+}
+
+/* ============================================
+   CONFIGURATION
+   ============================================ */
+
+export interface TabCoordinatorConfig {
+  /** BroadcastChannel name (default: mns-terminal) */
+  channelName: string;
+  
+  /** Leader heartbeat period (default: 1000ms) */
+  heartbeatInterval: number;
+  
+  /** Silence after which followers replace the leader (default: 3500ms) */
+  leaderTimeout: number;
+  
+  /** Time a candidate waits for an existing leader (default: 1500ms) */
+  electionTimeout: number;
+}
+
+const DEFAULT_CONFIG: TabCoordinatorConfig = {
+  channelName: "mns-terminal",
+  heartbeatInterval: 1000,
+  leaderTimeout: 3500,
+  electionTimeout: 1500
+};
+
+/* ============================================
+   MESSAGES
+   ============================================ */
+
+export type TabMessage<T> =
+  | { type: "hello"; from: string }
+  | { type: "heartbeat"; from: string }
+  | { type: "resign"; from: string }
+  | { type: "data"; from: string; payload: T };
+
+/* ============================================
+   EVENT HANDLERS
+   ============================================ */
+
+export interface TabCoordinatorHandlers<T> {
+  /**
+   * Called when this tab's role changes
+   * @param role - New role
+   */
+  onRoleChange: (role: TabRole) => void;
+  
+  /**
+   * Called on followers for every payload the leader broadcasts
+   */
+  onData: (payload: T) => void;
+  
+  /**
+   * Called on the leader when a new tab appears (resend current state)
+   */
+  onPeerJoined?: () => void;
+}
+
+/* ============================================
+   TAB COORDINATOR
+   ============================================ */
+
+export class TabCoordinator<T> {
+  private config: TabCoordinatorConfig;
+  private handlers: TabCoordinatorHandlers<T>;
+  private channel: BroadcastChannel | null = null;
+  private role: TabRole = TabRole.CANDIDATE;
+  
+  /** Random id; ordering decides conflicts between simultaneous leaders */
+  private readonly tabId: string = createTabId();
+  
+  private leaderId: string | null = null;
+  private lastHeartbeatAt: number = 0;
+  
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private watchdogTimer: ReturnType<typeof setInterval> | null = null;
+  private electionTimer: ReturnType<typeof setTimeout> | null = null;
+  
+  constructor(config: Partial<TabCoordinatorConfig>, handlers: TabCoordinatorHandlers<T>) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.handlers = handlers;
+  }
+  
+  /**
+   * Get current role
+   */
+  public getRole(): TabRole {
+    return this.role;
+  }
+  
+  /**
+   * Check if this tab is the leader
+   */
+  public isLeader(): boolean {
+    return this.role === TabRole.LEADER;
+  }
+  
+  /**
+   * Join the tab group and start the election
+   * 
+   * Falls back to LEADER immediately if BroadcastChannel is unavailable.
+   */
+  public start(): void {
+    if (this.channel !== null || this.role !== TabRole.CANDIDATE) {
+      this.logLifecycle("start() called but already started");
+      return;
+    }
+    
+    if (typeof BroadcastChannel === "undefined") {
+      this.logLifecycle("BroadcastChannel unavailable — acting as leader");
+      this.setRole(TabRole.LEADER);
+      return;
+    }
+    
+    this.channel = new BroadcastChannel(this.config.channelName);
+    this.channel.onmessage = (event: MessageEvent) => {
+      this.handleMessage(event.data as TabMessage<T>);
+    };
+    
+    this.post({ type: "hello", from: this.tabId });
+    this.scheduleElection(this.config.electionTimeout);
+    
+    this.watchdogTimer = setInterval(
+      this.checkLeader.bind(this),
+      this.config.heartbeatInterval
+    );
+  }
+  
+  /**
+   * Leave the tab group (resigning leadership so followers take over at once)
+   */
+  public stop(): void {
+    if (this.role === TabRole.LEADER) {
+      this.post({ type: "resign", from: this.tabId });
+    }
+    
+    this.clearTimers();
+    
+    if (this.channel !== null) {
+      this.channel.close();
+      this.channel = null;
+    }
+    
+    this.leaderId = null;
+    this.role = TabRole.CANDIDATE;
+  }
+  
+  /**
+   * Hand leadership to another tab (e.g. this tab was hidden)
+   * 
+   * Followers claim within half a heartbeat; this tab only reclaims after
+   * electionTimeout, i.e. when nobody else did.
+   */
+  public resign(): void {
+    if (this.role !== TabRole.LEADER || this.channel === null) {
+      return;
+    }
+    
+    this.logLifecycle("Resigning leadership");
+    this.post({ type: "resign", from: this.tabId });
+    this.stopHeartbeat();
+    this.leaderId = null;
+    
+    this.setRole(TabRole.CANDIDATE);
+    this.scheduleElection(this.config.electionTimeout);
+  }
+  
+  /**
+   * Broadcast a payload to followers (leader only; ignored otherwise)
+   */
+  public broadcast(payload: T): void {
+    if (this.role !== TabRole.LEADER) {
+      return;
+    }
+    
+    this.post({ type: "data", from: this.tabId, payload });
+  }
+  
+  /* ============================================
+     PRIVATE: MESSAGE HANDLING
+     ============================================ */
+  
+  private handleMessage(message: TabMessage<T>): void {
+    if (!message || typeof message !== "object" || typeof message.from !== "string") {
+      return;
+    }
+    
+    switch (message.type) {
+      case "hello":
+        if (this.role === TabRole.LEADER) {
+          // Answer right away so the newcomer does not start an election
+          this.post({ type: "heartbeat", from: this.tabId });
+          if (this.handlers.onPeerJoined) {
+            this.handlers.onPeerJoined();
+          }
+        }
+        break;
+      
+      case "heartbeat":
+        this.handleHeartbeat(message.from);
+        break;
+      
+      case "resign":
+        if (message.from === this.leaderId) {
+          this.logLifecycle("Leader resigned — electing");
+          this.leaderId = null;
+          this.becomeCandidate();
+        }
+        break;
+      
+      case "data":
+        if (this.role === TabRole.FOLLOWER && message.from === this.leaderId) {
+          this.handlers.onData(message.payload);
+        }
+        break;
+      
+      default:
+        break;
+    }
+  }
+  
+  private handleHeartbeat(from: string): void {
+    if (this.role === TabRole.LEADER) {
+      // Two leaders (e.g. simultaneous election): lowest id keeps the role
+      if (from < this.tabId) {
+        this.logLifecycle("Conflicting leader with lower id — stepping down");
+        this.stopHeartbeat();
+        this.followLeader(from);
+        
+        // Announce ourselves so the winner resends its current state
+        this.post({ type: "hello", from: this.tabId });
+      }
+      return;
+    }
+    
+    if (this.leaderId !== null && this.leaderId !== from && from > this.leaderId) {
+      // Stale heartbeat from a leader that is about to step down
+      return;
+    }
+    
+    this.followLeader(from);
+  }
+  
+  /* ============================================
+     PRIVATE: ELECTION
+     ============================================ */
+  
+  private followLeader(leaderId: string): void {
+    this.leaderId = leaderId;
+    this.lastHeartbeatAt = Date.now();
+    
+    if (this.electionTimer !== null) {
+      clearTimeout(this.electionTimer);
+      this.electionTimer = null;
+    }
+    
+    this.setRole(TabRole.FOLLOWER);
+  }
+  
+  private becomeCandidate(): void {
+    this.setRole(TabRole.CANDIDATE);
+    
+    // Random spread so followers do not all claim at the same instant
+    this.scheduleElection(Math.round(Math.random() * this.config.heartbeatInterval / 2));
+  }
+  
+  private scheduleElection(delayMs: number): void {
+    if (this.electionTimer !== null) {
+      clearTimeout(this.electionTimer);
+    }
+    
+    this.electionTimer = setTimeout(() => {
+      this.electionTimer = null;
+      
+      if (this.role === TabRole.CANDIDATE) {
+        this.becomeLeader();
+      }
+    }, delayMs);
+  }
+  
+  private becomeLeader(): void {
+    this.leaderId = this.tabId;
+    this.setRole(TabRole.LEADER);
+    
+    this.stopHeartbeat();
+    this.post({ type: "heartbeat", from: this.tabId });
+    this.heartbeatTimer = setInterval(() => {
+      this.post({ type: "heartbeat", from: this.tabId });
+    }, this.config.heartbeatInterval);
+  }
+  
+  /**
+   * Follower watchdog: replace a leader that stopped sending heartbeats
+   */
+  private checkLeader(): void {
+    if (this.role !== TabRole.FOLLOWER) {
+      return;
+    }
+    
+    if (Date.now() - this.lastHeartbeatAt > this.config.leaderTimeout) {
+      this.logLifecycle("Leader heartbeat lost — electing");
+      this.leaderId = null;
+      this.becomeCandidate();
+    }
+  }
+  
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer !== null) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+  
+  private clearTimers(): void {
+    this.stopHeartbeat();
+    
+    if (this.watchdogTimer !== null) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+    
+    if (this.electionTimer !== null) {
+      clearTimeout(this.electionTimer);
+      this.electionTimer = null;
+    }
+  }
+  
+  /* ============================================
+     PRIVATE: STATE MANAGEMENT
+     ============================================ */
+  
+  private setRole(newRole: TabRole): void {
+    if (this.role === newRole) {
+      return;
+    }
+    
+    const oldRole = this.role;
+    this.role = newRole;
+    
+    this.logLifecycle(`Role transition: ${oldRole} → ${newRole}`);
+    this.handlers.onRoleChange(newRole);
+  }
+  
+  private post(message: TabMessage<T>): void {
+    if (this.channel === null) {
+      return;
+    }
+    
+    try {
+      this.channel.postMessage(message);
+    } catch (err) {
+      this.logError("postMessage failed", err);
+    }
+  }
+  
+  /* ============================================
+     PRIVATE: LOGGING (LIFECYCLE ONLY)
+     ============================================ */
+  
+  private logLifecycle(message: string): void {
+    const timestamp = new Date().toISOString();
+    console.log(`[TabCoordinator][${timestamp}] ${message}`);
+  }
+  
+  private logError(message: string, error: any): void {
+    const timestamp = new Date().toISOString();
+    console.error(`[TabCoordinator][${timestamp}] ERROR: ${message}`);
+    
+    if (error && error instanceof Error) {
+      console.error(`[TabCoordinator][${timestamp}] ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Random tab id (crypto.randomUUID where available)
+ */
+function createTabId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/* ============================================
+   FACTORY FUNCTION
+   ============================================ */
+
+/**
+ * Create and return a new tab coordinator instance
+ * 
+ * @param config - Coordinator configuration (optional, uses defaults)
+ * @param handlers - Role and data handlers
+ * @returns Configured tab coordinator
+ */
+export function createTabCoordinator<T>(
+  config: Partial<TabCoordinatorConfig>,
+  handlers: TabCoordinatorHandlers<T>
+): TabCoordinator<T> {
+  return new TabCoordinator<T>(config, handlers);
+}
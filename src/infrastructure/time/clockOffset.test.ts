@@ -0,0 +1,90 @@
+/**
+ * Clock Offset Estimator tests — Phase 22.4
+ * Market Navigation System (MNS)
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createClockOffsetEstimator } from "./clockOffset.js";
+
+const LOCAL_NOW = Date.parse("2026-10-18T12:00:00.000Z");
+
+/**
+ * Date header for a server offset ending in 500ms (the header has 1s
+ * resolution; the estimator assumes the middle of the second)
+ */
+function header(offsetMs: number): string {
+  return new Date(LOCAL_NOW + offsetMs).toUTCString();
+}
+
+function issuedAt(offsetMs: number): string {
+  return new Date(LOCAL_NOW + offsetMs).toISOString();
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("ClockOffsetEstimator", () => {
+  it("takes the Date header offset against the request midpoint", () => {
+    const clock = createClockOffsetEstimator();
+    
+    expect(clock.addDateHeaderSample(header(-120500), LOCAL_NOW - 100, LOCAL_NOW + 100)).toBe(true);
+    expect(clock.getOffset()).toBe(-120500);
+    expect(clock.getStatus()).toMatchObject({ synced: true, skewed: true, samples: 1 });
+  });
+  
+  it("ignores Date headers from slow round trips", () => {
+    const clock = createClockOffsetEstimator();
+    
+    expect(clock.addDateHeaderSample(header(-500), LOCAL_NOW - 6000, LOCAL_NOW)).toBe(false);
+    expect(clock.getStatus().synced).toBe(false);
+  });
+  
+  it("does not let packet timestamps outvote the Date headers", () => {
+    const clock = createClockOffsetEstimator();
+    clock.addDateHeaderSample(header(-500), LOCAL_NOW, LOCAL_NOW);
+    
+    // A stream of forged timestamps one hour ahead fills the packet window
+    for (let i = 0; i < 30; i++) {
+      clock.addTimestampSample(issuedAt(3600000), LOCAL_NOW);
+    }
+    
+    expect(clock.getOffset()).toBe(4500);
+  });
+  
+  it("bounds packet-only estimates around the local clock", () => {
+    const clock = createClockOffsetEstimator({ maxPacketShiftMs: 2000 });
+    
+    for (let i = 0; i < 5; i++) {
+      clock.addTimestampSample(issuedAt(-600000), LOCAL_NOW);
+    }
+    
+    expect(clock.getOffset()).toBe(-2000);
+  });
+  
+  it("lets packet timestamps refine the estimate within the bound", () => {
+    const clock = createClockOffsetEstimator();
+    clock.addDateHeaderSample(header(-3500), LOCAL_NOW, LOCAL_NOW);
+    
+    clock.addTimestampSample(issuedAt(-2400), LOCAL_NOW);
+    clock.addTimestampSample(issuedAt(-2200), LOCAL_NOW);
+    
+    expect(clock.getOffset()).toBe(-2400);
+  });
+  
+  it("keeps Date headers when packets arrive much faster", () => {
+    const clock = createClockOffsetEstimator({ maxSamples: 3 });
+    clock.addDateHeaderSample(header(-60500), LOCAL_NOW, LOCAL_NOW);
+    
+    for (let i = 0; i < 50; i++) {
+      clock.addTimestampSample(issuedAt(0), LOCAL_NOW);
+    }
+    
+    expect(clock.getOffset()).toBe(-55500);
+    expect(clock.getStatus().samples).toBe(4);
+  });
+});
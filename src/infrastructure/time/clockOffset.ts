@@ -0,0 +1,249 @@
+/**
+ * Clock Offset Estimator — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Estimate how far the local clock is from the server's
+ * Used by: main.tsx (freshness checks, clock-skew badge)
+ * 
+ * Samples (offset = server time − local time):
+ * - DATE_HEADER: Date response header of a REST call, against the
+ *   midpoint of the request. The header has 1s resolution, so +500ms
+ *   is assumed; calls with a long round trip are ignored.
+ * - PACKET_TIMESTAMP: issued_at of a stream packet against its receipt
+ *   time (reads slightly low by the delivery latency). Only packets that
+ *   passed signature, freshness and replay checks may be sampled.
+ * 
+ * The estimate is the median of the last samples of both kinds, kept in
+ * separate windows so a fast stream cannot push the Date headers out.
+ * Packet timestamps can only refine it: the estimate stays within
+ * maxPacketShiftMs of the Date-header median (of 0 before the first
+ * header), however many packets disagree.
+ */
+
+"use strict";
+
+/* ============================================
+   TYPES
+   ============================================ */
+
+export enum ClockSampleSource {
+  DATE_HEADER = "DATE_HEADER",
+  PACKET_TIMESTAMP = "PACKET_TIMESTAMP"
+}
+
+export interface ClockOffsetStatus {
+  /** Server time − local time in ms (0 until synced) */
+  offsetMs: number;
+  
+  /** Samples the estimate is based on */
+  samples: number;
+  
+  /** At least one sample taken */
+  synced: boolean;
+  
+  /** |offsetMs| above warnThresholdMs */
+  skewed: boolean;
+}
+
+export type ClockOffsetListener = (status: ClockOffsetStatus) => void;
+
+export interface ClockOffsetConfig {
+  /** Samples kept for the median (default: 15) */
+  maxSamples: number;
+  
+  /** Ignore Date headers from calls slower than this (default: 5000ms) */
+  maxRoundTripMs: number;
+  
+  /** Notify listeners when the estimate moves at least this much (default: 500ms) */
+  minChangeMs: number;
+  
+  /** Offset considered badly off (default: 10000ms) */
+  warnThresholdMs: number;
+  
+  /** How far packet samples may move the estimate from the Date headers (default: 5000ms) */
+  maxPacketShiftMs: number;
+}
+
+const DEFAULT_CONFIG: ClockOffsetConfig = {
+  maxSamples: 15,
+  maxRoundTripMs: 5000,
+  minChangeMs: 500,
+  warnThresholdMs: 10000,
+  maxPacketShiftMs: 5000
+};
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/* ============================================
+   CLOCK OFFSET ESTIMATOR
+   ============================================ */
+
+export class ClockOffsetEstimator {
+  private config: ClockOffsetConfig;
+  private samples: Record<ClockSampleSource, number[]> = {
+    [ClockSampleSource.DATE_HEADER]: [],
+    [ClockSampleSource.PACKET_TIMESTAMP]: []
+  };
+  private offsetMs: number = 0;
+  private listeners: Set<ClockOffsetListener> = new Set();
+  private lastNotified: ClockOffsetStatus | null = null;
+  
+  constructor(config: Partial<ClockOffsetConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+  
+  /**
+   * Current estimate (server time − local time, ms)
+   */
+  public getOffset(): number {
+    return this.offsetMs;
+  }
+  
+  /**
+   * Local clock corrected to server time
+   */
+  public now(): number {
+    return Date.now() + this.offsetMs;
+  }
+  
+  public getStatus(): ClockOffsetStatus {
+    const samples = this.sampleCount();
+    
+    return {
+      offsetMs: this.offsetMs,
+      samples,
+      synced: samples > 0,
+      skewed: Math.abs(this.offsetMs) > this.config.warnThresholdMs
+    };
+  }
+  
+  /**
+   * Sample from a REST response's Date header
+   * 
+   * @param dateHeader - Value of the Date header (null: not exposed)
+   * @param requestStartMs - Local time the request was sent
+   * @param responseEndMs - Local time the response headers arrived
+   * @returns Whether the sample was used
+   */
+  public addDateHeaderSample(dateHeader: string | null, requestStartMs: number, responseEndMs: number): boolean {
+    const serverMs = dateHeader ? Date.parse(dateHeader) : NaN;
+    const roundTripMs = responseEndMs - requestStartMs;
+    
+    if (isNaN(serverMs) || roundTripMs < 0 || roundTripMs > this.config.maxRoundTripMs) {
+      return false;
+    }
+    
+    const midpointMs = requestStartMs + roundTripMs / 2;
+    this.addSample(serverMs + 500 - midpointMs, ClockSampleSource.DATE_HEADER);
+    return true;
+  }
+  
+  /**
+   * Sample from a stream packet's issued_at
+   * 
+   * Call only for packets that were verified and admitted by the replay
+   * guard; the sample still cannot move the estimate beyond
+   * maxPacketShiftMs from the Date headers.
+   * 
+   * @param issuedAt - ISO timestamp set by the server
+   * @param receivedAtMs - Local time the packet arrived
+   * @returns Whether the sample was used
+   */
+  public addTimestampSample(issuedAt: string | undefined, receivedAtMs: number): boolean {
+    const serverMs = typeof issuedAt === "string" ? Date.parse(issuedAt) : NaN;
+    
+    if (isNaN(serverMs)) {
+      return false;
+    }
+    
+    this.addSample(serverMs - receivedAtMs, ClockSampleSource.PACKET_TIMESTAMP);
+    return true;
+  }
+  
+  /**
+   * Subscribe to estimate changes (called immediately if already synced)
+   * 
+   * @returns Unsubscribe function
+   */
+  public subscribe(listener: ClockOffsetListener): () => void {
+    this.listeners.add(listener);
+    
+    if (this.sampleCount() > 0) {
+      listener(this.getStatus());
+    }
+    
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+  
+  /* ============================================
+     PRIVATE
+     ============================================ */
+  
+  private addSample(offsetMs: number, source: ClockSampleSource): void {
+    const window = this.samples[source];
+    window.push(offsetMs);
+    if (window.length > this.config.maxSamples) {
+      window.shift();
+    }
+    
+    const headers = this.samples[ClockSampleSource.DATE_HEADER];
+    const anchor = headers.length > 0 ? median(headers) : 0;
+    const estimate = median([...headers, ...this.samples[ClockSampleSource.PACKET_TIMESTAMP]]);
+    const shift = this.config.maxPacketShiftMs;
+    
+    this.offsetMs = Math.round(Math.min(Math.max(estimate, anchor - shift), anchor + shift));
+    
+    this.notify();
+  }
+  
+  private sampleCount(): number {
+    return this.samples[ClockSampleSource.DATE_HEADER].length +
+      this.samples[ClockSampleSource.PACKET_TIMESTAMP].length;
+  }
+  
+  private notify(): void {
+    const status = this.getStatus();
+    const previous = this.lastNotified;
+    
+    if (
+      previous !== null &&
+      previous.skewed === status.skewed &&
+      Math.abs(previous.offsetMs - status.offsetMs) < this.config.minChangeMs
+    ) {
+      return;
+    }
+    
+    this.lastNotified = status;
+    
+    if (previous === null || previous.skewed !== status.skewed) {
+      this.logLifecycle(`Clock offset ${status.offsetMs}ms (${status.skewed ? "local clock is off" : "within tolerance"})`);
+    }
+    
+    for (const listener of this.listeners) {
+      try {
+        listener(status);
+      } catch (err) {
+        // Listener errors must not break sampling
+      }
+    }
+  }
+  
+  private logLifecycle(message: string): void {
+    const timestamp = new Date().toISOString();
+    console.log(`[ClockOffset][${timestamp}] ${message}`);
+  }
+}
+
+/* ============================================
+   FACTORY FUNCTION
+   ============================================ */
+
+export function createClockOffsetEstimator(config: Partial<ClockOffsetConfig> = {}): ClockOffsetEstimator {
+  return new ClockOffsetEstimator(config);
+}
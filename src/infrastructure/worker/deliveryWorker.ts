@@ -0,0 +1,165 @@
+/**
+ * Delivery Worker — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Run DeliveryController and packet validation off the UI thread
+ * Used by: DeliveryWorkerHost (dedicated module worker)
+ * 
+ * Responsibilities:
+ * - Own one DeliveryController and one TrustedKeyRing (created on the
+ *   first "start"; the ring refreshes only while started)
+ * - Validate every forwarded packet (schema + Ed25519) before posting it
+ * - Relay mode changes, errors, gaps, probe results, clock samples and diagnostics
+ * 
+ * Only validated results cross the thread boundary; the UI never sees a
+ * raw packet in worker mode. Like the main-thread state layer, a newer
+ * packet supersedes a validation still in flight (latest wins).
+ */
+
+"use strict";
+
+import {
+  DeliveryController,
+  DeliveryMode,
+  createDeliveryController
+} from "../delivery/deliveryController.js";
+import { MarketPacket } from "../sse/sseClient.js";
+import { PacketValidationOptions, validatePacket } from "../packet/packetValidator.js";
+import { TrustedKeyRing, createTrustedKeyRing } from "../packet/trustedKeys.js";
+import { DeliveryWorkerCommand, DeliveryWorkerEvent } from "./deliveryWorkerProtocol.js";
+
+/**
+ * The parts of DedicatedWorkerGlobalScope used here (the project is
+ * type-checked against the DOM lib only)
+ */
+interface DeliveryWorkerScope {
+  onmessage: ((event: MessageEvent<DeliveryWorkerCommand>) => void) | null;
+  postMessage(message: DeliveryWorkerEvent): void;
+}
+
+const scope = self as unknown as DeliveryWorkerScope;
+
+let controller: DeliveryController | null = null;
+let keyRing: TrustedKeyRing | null = null;
+let validationOptions: Partial<PacketValidationOptions> = {};
+let unsubscribeDiagnostics: (() => void) | null = null;
+
+// Reported by the UI before the controller may exist
+let visible = true;
+let diagnosticsWanted = false;
+
+// Latest-wins token, same role as validationEpoch in main.tsx
+let validationEpoch = 0;
+
+function post(event: DeliveryWorkerEvent): void {
+  scope.postMessage(event);
+}
+
+async function handlePacket(packet: MarketPacket, source: DeliveryMode, receivedAt: number): Promise<void> {
+  const epoch = ++validationEpoch;
+  
+  if (!packet || typeof packet !== "object") {
+    post({ type: "invalid", source });
+    return;
+  }
+  
+  const result = await validatePacket(packet, keyRing!, () => epoch === validationEpoch, validationOptions);
+  controller?.recordValidation(result);
+  
+  if (epoch !== validationEpoch) {
+    return;
+  }
+  
+  post({ type: "nav", result, source, receivedAt });
+}
+
+function ensureController(command: Extract<DeliveryWorkerCommand, { type: "start" }>): DeliveryController {
+  if (controller === null) {
+    // Config of the first start applies for the worker's lifetime
+    keyRing = createTrustedKeyRing(command.keys);
+    validationOptions = command.validation;
+    controller = createDeliveryController(
+      command.config,
+      {
+        onPacket: (packet, source) => {
+          void handlePacket(packet, source, Date.now());
+        },
+        onModeChange: (mode) => post({ type: "mode", mode }),
+        onError: (error) => post({ type: "error", message: error.message }),
+        onGap: (gap) => post({ type: "gap", gap }),
+        onRecoveryProbe: (result) => post({ type: "recoveryProbe", result })
+      }
+    );
+    controller.setVisibility(visible);
+    setDiagnostics(diagnosticsWanted);
+  }
+  
+  return controller;
+}
+
+function setDiagnostics(enabled: boolean): void {
+  if (!enabled || controller === null) {
+    if (unsubscribeDiagnostics !== null) {
+      unsubscribeDiagnostics();
+      unsubscribeDiagnostics = null;
+    }
+    return;
+  }
+  
+  if (unsubscribeDiagnostics === null) {
+    unsubscribeDiagnostics = controller.subscribeDiagnostics((diagnostics) => {
+      post({ type: "diagnostics", diagnostics });
+    });
+  }
+}
+
+scope.onmessage = (event: MessageEvent<DeliveryWorkerCommand>) => {
+  const command = event.data;
+  
+  switch (command.type) {
+    case "start":
+      ensureController(command).start();
+      keyRing!.start();
+      break;
+    
+    case "stop":
+      // Drop any validation still running for the old session
+      validationEpoch++;
+      if (controller !== null) {
+        controller.stop();
+        keyRing!.stop();
+      }
+      break;
+    
+    case "visibility":
+      visible = command.visible;
+      if (controller !== null) {
+        controller.setVisibility(command.visible);
+      }
+      break;
+    
+    case "network":
+      if (controller !== null) {
+        controller.setNetworkStatus(command.online);
+      }
+      break;
+    
+    case "diagnostics":
+      diagnosticsWanted = command.enabled;
+      setDiagnostics(command.enabled);
+      break;
+    
+    case "clockOffset":
+      validationOptions = { ...validationOptions, clockOffsetMs: command.offsetMs };
+      break;
+    
+    case "admission":
+      if (controller !== null) {
+        controller.recordAdmission(command.check);
+      }
+      break;
+    
+    default:
+      break;
+  }
+};
@@ -0,0 +1,350 @@
+/**
+ * Delivery Worker Host — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: UI-thread facade for a DeliveryController running in a worker
+ * Used by: main.tsx (VITE_DELIVERY_WORKER=true)
+ * 
+ * Responsibilities:
+ * - Spawn the module worker on first start()
+ * - Mirror the controller API (start/stop/getMode/isActive/diagnostics)
+ * - Forward document visibility and network status into the worker
+ * - Dispatch worker events to typed handlers
+ * 
+ * Packets reach the UI already validated (onNav), so the UI thread does
+ * no parsing or signature verification in worker mode.
+ * 
+ * Only a dedicated worker is used: sharing one connection between tabs
+ * is the tab coordinator's job (tabs/tabCoordinator.ts).
+ */
+
+"use strict";
+
+import {
+  DeliveryDiagnostics,
+  DeliveryDiagnosticsListener,
+  DeliveryMode,
+  RecoveryProbeResult
+} from "../delivery/deliveryController.js";
+import { SSESequenceGap } from "../sse/sseClient.js";
+import { PacketValidationOptions, ValidationResult } from "../packet/packetValidator.js";
+import { TrustedKeyRingOptions } from "../packet/trustedKeys.js";
+import { ReplayCheckResult } from "../packet/replayGuard.js";
+import {
+  DeliveryWorkerCommand,
+  DeliveryWorkerConfig,
+  DeliveryWorkerEvent
+} from "./deliveryWorkerProtocol.js";
+
+/* ============================================
+   EVENT HANDLERS
+   ============================================ */
+
+export interface DeliveryWorkerHostHandlers {
+  /**
+   * Called with every packet validated in the worker
+   * @param result - Tier and render-ready packet, or why it is unverified
+   * @param source - Delivery mode that provided the packet
+   * @param receivedAt - Local time the packet arrived in the worker
+   */
+  onNav: (result: ValidationResult, source: DeliveryMode, receivedAt: number) => void;
+  
+  /**
+   * Called when the worker received something that is not a packet object
+   */
+  onInvalid?: (source: DeliveryMode) => void;
+  
+  onModeChange: (mode: DeliveryMode) => void;
+  
+  onError?: (error: Error) => void;
+  
+  onGap?: (gap: SSESequenceGap) => void;
+  
+  onRecoveryProbe?: (result: RecoveryProbeResult) => void;
+}
+
+/* ============================================
+   DELIVERY WORKER HOST
+   ============================================ */
+
+export class DeliveryWorkerHost {
+  private config: DeliveryWorkerConfig;
+  private keys: TrustedKeyRingOptions;
+  private validation: Partial<PacketValidationOptions>;
+  private handlers: DeliveryWorkerHostHandlers;
+  private worker: Worker | null = null;
+  
+  // Mirrored controller state (updated from worker events)
+  private currentMode: DeliveryMode = DeliveryMode.SSE_PRIMARY;
+  private isStarted: boolean = false;
+  
+  private lastDiagnostics: DeliveryDiagnostics | null = null;
+  private diagnosticsListeners: Set<DeliveryDiagnosticsListener> = new Set();
+  
+  private environmentListeners: Array<() => void> = [];
+  
+  constructor(
+    config: DeliveryWorkerConfig,
+    handlers: DeliveryWorkerHostHandlers,
+    keys: TrustedKeyRingOptions = {},
+    validation: Partial<PacketValidationOptions> = {}
+  ) {
+    this.config = config;
+    this.handlers = handlers;
+    this.keys = keys;
+    this.validation = validation;
+  }
+  
+  /**
+   * Get last mode reported by the worker
+   */
+  public getMode(): DeliveryMode {
+    return this.currentMode;
+  }
+  
+  /**
+   * Check if delivery is started
+   */
+  public isActive(): boolean {
+    return this.isStarted;
+  }
+  
+  /**
+   * Latest diagnostics snapshot received (null until a subscriber exists)
+   */
+  public getDiagnostics(): DeliveryDiagnostics | null {
+    return this.lastDiagnostics;
+  }
+  
+  /**
+   * Receive diagnostics snapshots pushed by the worker
+   * 
+   * @returns Unsubscribe function
+   */
+  public subscribeDiagnostics(listener: DeliveryDiagnosticsListener): () => void {
+    this.diagnosticsListeners.add(listener);
+    
+    if (this.diagnosticsListeners.size === 1) {
+      this.send({ type: "diagnostics", enabled: true });
+    } else if (this.lastDiagnostics !== null) {
+      listener(this.lastDiagnostics);
+    }
+    
+    return () => {
+      if (this.diagnosticsListeners.delete(listener) && this.diagnosticsListeners.size === 0) {
+        this.send({ type: "diagnostics", enabled: false });
+      }
+    };
+  }
+  
+  /**
+   * Start delivery in the worker (spawning it on first use)
+   */
+  public start(): void {
+    if (this.isStarted) {
+      this.logLifecycle("start() called but already started");
+      return;
+    }
+    
+    this.isStarted = true;
+    
+    if (this.worker === null) {
+      this.logLifecycle("Spawning delivery worker");
+      this.worker = new Worker(new URL("./deliveryWorker.ts", import.meta.url), { type: "module" });
+      this.worker.onmessage = (event: MessageEvent<DeliveryWorkerEvent>) => {
+        this.handleEvent(event.data);
+      };
+      this.worker.onerror = (event: ErrorEvent) => {
+        this.logError("Worker error", new Error(event.message));
+        if (this.handlers.onError) {
+          this.handlers.onError(new Error(`Delivery worker: ${event.message}`));
+        }
+      };
+      
+      if (this.diagnosticsListeners.size > 0) {
+        this.send({ type: "diagnostics", enabled: true });
+      }
+    }
+    
+    this.attachEnvironmentListeners();
+    this.send({ type: "start", config: this.config, keys: this.keys, validation: this.validation });
+  }
+  
+  /**
+   * Apply a server clock offset to validation in the worker
+   */
+  public setClockOffset(offsetMs: number): void {
+    this.validation = { ...this.validation, clockOffsetMs: offsetMs };
+    this.send({ type: "clockOffset", offsetMs });
+  }
+  
+  /**
+   * Count the UI's replay-guard decision in the worker's diagnostics
+   */
+  public recordAdmission(check: ReplayCheckResult): void {
+    this.send({ type: "admission", check });
+  }
+  
+  /**
+   * Stop delivery (the worker stays alive for a later start)
+   */
+  public stop(): void {
+    if (!this.isStarted) {
+      this.logLifecycle("stop() called but not started");
+      return;
+    }
+    
+    this.send({ type: "stop" });
+    this.detachEnvironmentListeners();
+    this.isStarted = false;
+  }
+  
+  /**
+   * Stop delivery and terminate the worker
+   */
+  public terminate(): void {
+    if (this.isStarted) {
+      this.stop();
+    }
+    
+    if (this.worker !== null) {
+      this.worker.terminate();
+      this.worker = null;
+      this.logLifecycle("Delivery worker terminated");
+    }
+  }
+  
+  /* ============================================
+     PRIVATE: WORKER EVENTS
+     ============================================ */
+  
+  private handleEvent(event: DeliveryWorkerEvent): void {
+    switch (event.type) {
+      case "nav":
+        this.handlers.onNav(event.result, event.source, event.receivedAt);
+        break;
+      
+      case "invalid":
+        if (this.handlers.onInvalid) {
+          this.handlers.onInvalid(event.source);
+        }
+        break;
+      
+      case "mode":
+        this.currentMode = event.mode;
+        this.handlers.onModeChange(event.mode);
+        break;
+      
+      case "error":
+        if (this.handlers.onError) {
+          this.handlers.onError(new Error(event.message));
+        }
+        break;
+      
+      case "gap":
+        if (this.handlers.onGap) {
+          this.handlers.onGap(event.gap);
+        }
+        break;
+      
+      case "recoveryProbe":
+        if (this.handlers.onRecoveryProbe) {
+          this.handlers.onRecoveryProbe(event.result);
+        }
+        break;
+      
+      case "diagnostics":
+        this.lastDiagnostics = event.diagnostics;
+        for (const listener of this.diagnosticsListeners) {
+          listener(event.diagnostics);
+        }
+        break;
+      
+      default:
+        break;
+    }
+  }
+  
+  private send(command: DeliveryWorkerCommand): void {
+    if (this.worker !== null) {
+      this.worker.postMessage(command);
+    }
+  }
+  
+  /* ============================================
+     PRIVATE: ENVIRONMENT (NETWORK + VISIBILITY)
+     ============================================ */
+  
+  private attachEnvironmentListeners(): void {
+    if (typeof document !== "undefined") {
+      const onVisibilityChange = () => {
+        this.send({ type: "visibility", visible: document.visibilityState !== "hidden" });
+      };
+      onVisibilityChange();
+      document.addEventListener("visibilitychange", onVisibilityChange);
+      
+      this.environmentListeners.push(() => {
+        document.removeEventListener("visibilitychange", onVisibilityChange);
+      });
+    }
+    
+    if (typeof window !== "undefined") {
+      const onOnline = () => this.send({ type: "network", online: true });
+      const onOffline = () => this.send({ type: "network", online: false });
+      window.addEventListener("online", onOnline);
+      window.addEventListener("offline", onOffline);
+      
+      this.environmentListeners.push(() => {
+        window.removeEventListener("online", onOnline);
+        window.removeEventListener("offline", onOffline);
+      });
+    }
+  }
+  
+  private detachEnvironmentListeners(): void {
+    for (const detach of this.environmentListeners) {
+      detach();
+    }
+    this.environmentListeners = [];
+  }
+  
+  /* ============================================
+     PRIVATE: LOGGING (LIFECYCLE ONLY)
+     ============================================ */
+  
+  private logLifecycle(message: string): void {
+    const timestamp = new Date().toISOString();
+    console.log(`[DeliveryWorkerHost][${timestamp}] ${message}`);
+  }
+  
+  private logError(message: string, error: any): void {
+    const timestamp = new Date().toISOString();
+    console.error(`[DeliveryWorkerHost][${timestamp}] ERROR: ${message}`);
+    
+    if (error && error instanceof Error) {
+      console.error(`[DeliveryWorkerHost][${timestamp}] ${error.message}`);
+    }
+  }
+}
+
+/* ============================================
+   FACTORY FUNCTION
+   ============================================ */
+
+/**
+ * Create and return a new delivery worker host
+ * 
+ * @param config - Controller configuration for the worker (cloneable fields only)
+ * @param handlers - Validated packet and lifecycle handlers
+ * @param keys - Key-ring options for the worker's own TrustedKeyRing
+ * @param validation - Packet verification policy
+ * @returns Configured host (worker spawned on start)
+ */
+export function createDeliveryWorkerHost(
+  config: DeliveryWorkerConfig,
+  handlers: DeliveryWorkerHostHandlers,
+  keys: TrustedKeyRingOptions = {},
+  validation: Partial<PacketValidationOptions> = {}
+): DeliveryWorkerHost {
+  return new DeliveryWorkerHost(config, handlers, keys, validation);
+}
@@ -0,0 +1,87 @@
+/**
+ * Delivery Worker Protocol — Phase 22.4
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Typed messages between the UI thread and the delivery worker
+ * Used by: DeliveryWorkerHost (UI side), deliveryWorker.ts (worker side)
+ * 
+ * Everything here must survive structured clone: no functions, no class
+ * instances. That is why retryPolicy and sseTransportFactory are not
+ * part of the worker config (the worker uses the defaults), and why the
+ * worker gets key-ring options rather than the UI's ring.
+ */
+
+"use strict";
+
+import {
+  DeliveryControllerConfig,
+  DeliveryDiagnostics,
+  DeliveryMode,
+  RecoveryProbeResult
+} from "../delivery/deliveryController.js";
+import { SSESequenceGap } from "../sse/sseClient.js";
+import { PacketValidationOptions, ValidationResult } from "../packet/packetValidator.js";
+import { TrustedKeyRingOptions } from "../packet/trustedKeys.js";
+import { ReplayCheckResult } from "../packet/replayGuard.js";
+
+/**
+ * Controller config accepted by the worker (cloneable fields only)
+ */
+export type DeliveryWorkerConfig = Partial<Omit<DeliveryControllerConfig, "retryPolicy" | "sseTransportFactory">>;
+
+/* ============================================
+   UI → WORKER
+   ============================================ */
+
+export type DeliveryWorkerCommand =
+  /** Create (if needed) and start the controller and its key ring */
+  | {
+      type: "start";
+      config: DeliveryWorkerConfig;
+      keys: TrustedKeyRingOptions;
+      validation: Partial<PacketValidationOptions>;
+    }
+  
+  /** Stop the controller (worker stays alive for a later start) */
+  | { type: "stop" }
+  
+  /** Workers cannot see the document: the UI reports visibility */
+  | { type: "visibility"; visible: boolean }
+  
+  /** Forwarded online/offline (workers get these events too; this is a fallback) */
+  | { type: "network"; online: boolean }
+  
+  /** Start or stop streaming diagnostics snapshots */
+  | { type: "diagnostics"; enabled: boolean }
+  
+  /** Server clock offset estimated on the UI thread (freshness checks) */
+  | { type: "clockOffset"; offsetMs: number }
+  
+  /** Replay-guard decision on a verified packet (the guard runs on the UI thread) */
+  | { type: "admission"; check: ReplayCheckResult };
+
+/* ============================================
+   WORKER → UI
+   ============================================ */
+
+export type DeliveryWorkerEvent =
+  /**
+   * Packet validated in the worker (rejections carry their reason, no
+   * packet); receivedAt is when it arrived, for clock samples taken once
+   * the UI's replay guard admits it
+   */
+  | { type: "nav"; result: ValidationResult; source: DeliveryMode; receivedAt: number }
+  
+  /** Packet was not an object at all (UI sanitizes to STALE) */
+  | { type: "invalid"; source: DeliveryMode }
+  
+  | { type: "mode"; mode: DeliveryMode }
+  
+  /** Controller error (message only, lifecycle detail) */
+  | { type: "error"; message: string }
+  
+  | { type: "gap"; gap: SSESequenceGap }
+  
+  | { type: "recoveryProbe"; result: RecoveryProbeResult }
+  
+  | { type: "diagnostics"; diagnostics: DeliveryDiagnostics };
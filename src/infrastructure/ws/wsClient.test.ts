@@ -0,0 +1,344 @@
+/**
+ * WebSocket Client tests — Phase 22.3
+ * Market Navigation System (MNS)
+ * 
+ * WSClient and DeliveryController against the mock backend's /ws
+ * endpoint over real sockets: connect, packets, server close codes and
+ * reconnect. Node 20 has no global WebSocket, so a minimal RFC 6455
+ * client (text frames, close handshake, ping) stands in for the
+ * browser's.
+ */
+
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { ChildProcess, spawn } from "node:child_process";
+import { createHash, randomBytes } from "node:crypto";
+import { request } from "node:http";
+import { Socket } from "node:net";
+import { fileURLToPath } from "node:url";
+import { WSConnectionState, createWSClient } from "./wsClient.js";
+import { DeliveryMode, createDeliveryController } from "../delivery/deliveryController.js";
+import { createFixedRetryPolicy } from "../delivery/retryPolicy.js";
+import { MarketPacket } from "../packet/packetSchema.js";
+
+const MOCK_BACKEND = fileURLToPath(new URL("../../../mock-backend/server.mjs", import.meta.url));
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/* ============================================
+   WEBSOCKET STAND-IN
+   ============================================ */
+
+interface CloseInfo {
+  code: number;
+  reason: string;
+  wasClean: boolean;
+}
+
+/**
+ * Browser-style WebSocket over node:http (unfragmented frames only)
+ */
+class NodeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  
+  public readyState: number = NodeWebSocket.CONNECTING;
+  public onopen: (() => void) | null = null;
+  public onmessage: ((event: { data: string }) => void) | null = null;
+  public onclose: ((event: CloseInfo) => void) | null = null;
+  public onerror: (() => void) | null = null;
+  
+  private socket: Socket | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private abort: () => void;
+  
+  constructor(public readonly url: string, protocols: string[] = []) {
+    const target = new URL(url);
+    const key = randomBytes(16).toString("base64");
+    
+    const req = request({
+      host: target.hostname,
+      port: target.port,
+      path: target.pathname + target.search,
+      headers: {
+        "Connection": "Upgrade",
+        "Upgrade": "websocket",
+        "Sec-WebSocket-Version": "13",
+        "Sec-WebSocket-Key": key,
+        ...(protocols.length > 0 ? { "Sec-WebSocket-Protocol": protocols.join(", ") } : {})
+      }
+    });
+    this.abort = () => req.destroy();
+    
+    req.on("upgrade", (res, socket: Socket, head: Buffer) => {
+      if (res.headers["sec-websocket-accept"] !== createHash("sha1").update(key + WS_GUID).digest("base64")) {
+        socket.destroy();
+        this.fail();
+        return;
+      }
+      
+      this.socket = socket;
+      this.readyState = NodeWebSocket.OPEN;
+      socket.on("data", (chunk: Buffer) => this.receive(chunk));
+      socket.on("close", () => this.finish({ code: 1006, reason: "", wasClean: false }));
+      socket.on("error", () => undefined);
+      
+      this.onopen?.();
+      if (head.length > 0) {
+        this.receive(head);
+      }
+    });
+    
+    // Anything but 101 (e.g. 503 while streams are down)
+    req.on("response", (res) => {
+      res.resume();
+      this.fail();
+    });
+    req.on("error", () => this.fail());
+    req.end();
+  }
+  
+  public close(code: number = 1000, reason: string = ""): void {
+    if (this.readyState === NodeWebSocket.CONNECTING) {
+      this.abort();
+      this.fail();
+      return;
+    }
+    
+    if (this.readyState === NodeWebSocket.OPEN) {
+      this.readyState = NodeWebSocket.CLOSING;
+      const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+      payload.writeUInt16BE(code);
+      payload.write(reason, 2);
+      this.send(0x8, payload);
+    }
+  }
+  
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    
+    while (this.buffer.length >= 2) {
+      const opcode = this.buffer[0] & 0x0f;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      
+      if (this.buffer.length < offset + length) {
+        return;
+      }
+      
+      const payload = this.buffer.subarray(offset, offset + length);
+      this.buffer = this.buffer.subarray(offset + length);
+      
+      if (opcode === 0x1) {
+        this.onmessage?.({ data: payload.toString("utf8") });
+      } else if (opcode === 0x9) {
+        this.send(0xa, payload);
+      } else if (opcode === 0x8) {
+        const code = payload.length >= 2 ? payload.readUInt16BE(0) : 1005;
+        // Server-initiated: echo the close frame
+        if (this.readyState === NodeWebSocket.OPEN) {
+          this.send(0x8, payload.subarray(0, 2));
+        }
+        this.socket?.end();
+        this.finish({ code, reason: payload.subarray(2).toString("utf8"), wasClean: true });
+        return;
+      }
+    }
+  }
+  
+  private send(opcode: number, payload: Buffer): void {
+    const mask = randomBytes(4);
+    const masked = Buffer.from(payload);
+    for (let i = 0; i < masked.length; i++) {
+      masked[i] ^= mask[i % 4];
+    }
+    // Control frames only: payload < 126 bytes
+    this.socket?.write(Buffer.concat([Buffer.from([0x80 | opcode, 0x80 | masked.length]), mask, masked]));
+  }
+  
+  private fail(): void {
+    if (this.readyState === NodeWebSocket.CLOSED) {
+      return;
+    }
+    this.onerror?.();
+    this.finish({ code: 1006, reason: "", wasClean: false });
+  }
+  
+  private finish(info: CloseInfo): void {
+    if (this.readyState === NodeWebSocket.CLOSED) {
+      return;
+    }
+    this.readyState = NodeWebSocket.CLOSED;
+    this.onclose?.(info);
+  }
+}
+
+/* ============================================
+   MOCK BACKEND
+   ============================================ */
+
+let backend: ChildProcess;
+let origin: string;
+
+async function startMockBackend(): Promise<void> {
+  backend = spawn(process.execPath, [MOCK_BACKEND, "--port", "0", "--interval", "100", "--keep-alive", "60000"], {
+    stdio: ["ignore", "pipe", "ignore"]
+  });
+  
+  const port = await new Promise<number>((resolve, reject) => {
+    let output = "";
+    backend.stdout!.on("data", (chunk: Buffer) => {
+      output += chunk.toString();
+      const match = /Listening on http:\/\/localhost:(\d+)/.exec(output);
+      if (match) {
+        resolve(Number(match[1]));
+      }
+    });
+    backend.once("exit", (code) => reject(new Error(`mock backend exited (${code})`)));
+  });
+  
+  origin = `127.0.0.1:${port}`;
+}
+
+async function setScenario(name: string): Promise<void> {
+  const response = await fetch(`http://${origin}/__mock/scenario?name=${name}`);
+  expect(response.status).toBe(200);
+}
+
+async function connectedWSClients(): Promise<number> {
+  const response = await fetch(`http://${origin}/__mock`);
+  return (await response.json()).clients.ws;
+}
+
+async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs: number = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error("condition not met in time");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+beforeAll(startMockBackend);
+
+afterAll(async () => {
+  if (backend.exitCode === null) {
+    await new Promise((resolve) => {
+      backend.once("exit", resolve);
+      backend.kill("SIGTERM");
+    });
+  }
+});
+
+beforeEach(async () => {
+  if (typeof WebSocket === "undefined") {
+    vi.stubGlobal("WebSocket", NodeWebSocket);
+  }
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+  
+  await setScenario("steady");
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+/* ============================================
+   SCENARIOS
+   ============================================ */
+
+describe("WSClient against the mock backend", () => {
+  function createClient() {
+    const packets: MarketPacket[] = [];
+    const states: WSConnectionState[] = [];
+    const errors: string[] = [];
+    const client = createWSClient(
+      { endpoint: `ws://${origin}/ws`, throttleMs: 0 },
+      {
+        onMessage: (packet) => packets.push(packet),
+        onStateChange: (state) => states.push(state),
+        onError: (error) => errors.push(error.message)
+      }
+    );
+    return { client, packets, states, errors };
+  }
+  
+  it("connects, forwards nav_update frames and closes cleanly", async () => {
+    const { client, packets, states } = createClient();
+    
+    client.connect();
+    await waitFor(() => packets.length >= 2);
+    
+    expect(states).toEqual([WSConnectionState.CONNECTING, WSConnectionState.CONNECTED]);
+    expect(packets[0].nav.regime).toEqual(expect.any(String));
+    expect(client.getIngestStats().received).toBeGreaterThanOrEqual(2);
+    
+    client.disconnect();
+    expect(client.getState()).toBe(WSConnectionState.DISCONNECTED);
+    await waitFor(async () => await connectedWSClients() === 0);
+  });
+  
+  it("reports the server's close code", async () => {
+    const { client, errors } = createClient();
+    
+    client.connect();
+    await waitFor(() => client.isConnected());
+    
+    // Streams go down: the mock closes every socket with 1012 (service restart)
+    await setScenario("stream-down");
+    await waitFor(() => client.getState() === WSConnectionState.ERROR);
+    
+    expect(client.getLastCloseCode()).toBe(1012);
+    expect(errors).toEqual(["WebSocket closed (code 1012)"]);
+  });
+});
+
+describe("DeliveryController over WebSocket", () => {
+  it("reconnects after the server drops the socket and resumes delivery", async () => {
+    const packets: MarketPacket[] = [];
+    const controller = createDeliveryController(
+      {
+        wsEndpoint: `ws://${origin}/ws`,
+        streamPreference: [DeliveryMode.WS_PRIMARY],
+        retryPolicy: createFixedRetryPolicy({ maxRetries: 100, delayMs: 100 }),
+        throttleMs: 0,
+        trackNetworkStatus: false,
+        pauseWhenHidden: false
+      },
+      { onPacket: (packet) => packets.push(packet), onModeChange: () => undefined }
+    );
+    
+    controller.start();
+    await waitFor(() => packets.length >= 1);
+    
+    // Dropped with 1012, then refused (503) while down: retried, not degraded
+    await setScenario("stream-down");
+    await waitFor(async () => await connectedWSClients() === 0);
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    const delivered = packets.length;
+    expect(controller.getMode()).toBe(DeliveryMode.WS_PRIMARY);
+    
+    await setScenario("steady");
+    await waitFor(() => packets.length > delivered);
+    
+    expect(controller.getMode()).toBe(DeliveryMode.WS_PRIMARY);
+    expect(controller.getDiagnostics().reconnects.retries).toBeGreaterThanOrEqual(2);
+    
+    controller.stop();
+    await waitFor(async () => await connectedWSClients() === 0);
+  });
+});
@@ -0,0 +1,509 @@
+/**
+ * WebSocket Client — Phase 22.3
+ * Market Navigation System (MNS)
+ * 
+ * Purpose: Alternative real-time delivery mechanism via WebSocket
+ * Backend: wss://<host>/ws
+ * 
+ * Responsibilities:
+ * - Connect/disconnect lifecycle management
+ * - Receive Tier0/Tier1/Tier2 packets (same wire formats as SSE)
+ * - Forward structurally valid packets to state layer
+ * - Expose explicit connection status
+ * - Detect silent (half-open) sockets via liveness watchdog
+ * - Throttle delivery (drop or coalesce bursts)
+ * 
+ * Frame format (text frames, JSON):
+ * - { "type": "nav_update", "data": <payload> }
+ * - { "type": "keep_alive" }
+ * - <payload> (bare packet or aggregate, treated as nav_update)
+ * 
+ * Non-goals (per Integration Contract):
+ * - No REST fallback (DeliveryController)
+ * - No retry logic (orchestrated by DeliveryController)
+ * - No business logic (packets are opaque)
+ * - No authentication
+ * - No client → server messages
+ */
+
+"use strict";
+
+import {
+  MarketPacket,
+  decodePacket,
+  describePacketError
+} from "../packet/packetSchema.js";
+import { adaptWirePayload, withWireVersions } from "../packet/wireFormat.js";
+import {
+  PacketThrottle,
+  PacketThrottleStats,
+  ThrottlePolicy
+} from "../packet/packetThrottle.js";
+import { PacketIngestStats, createIngestStats } from "../packet/packetIngestStats.js";
+
+/* ============================================
+   CONNECTION STATE
+   ============================================ */
+
+export enum WSConnectionState {
+  DISCONNECTED = "DISCONNECTED",
+  CONNECTING = "CONNECTING",
+  CONNECTED = "CONNECTED",
+  
+  /** No frame or keep-alive within livenessTimeoutMs */
+  STALLED = "STALLED",
+  
+  ERROR = "ERROR"
+}
+
+/* ============================================
+   CONFIGURATION
+   ============================================ */
+
+export interface WSClientConfig {
+  /** WebSocket endpoint URL (default: /ws) */
+  endpoint: string;
+  
+  /** Subprotocols offered in the handshake (default: none) */
+  protocols: string[];
+  
+  /** Maximum frame size in bytes (default: 16384 = 16KB) */
+  maxPayloadSize: number;
+  
+  /** Throttle interval in milliseconds (default: 1000 = 1Hz) */
+  throttleMs: number;
+  
+  /** Handling of packets inside the throttle window (default: LATEST_WINS) */
+  throttlePolicy: ThrottlePolicy;
+  
+  /** Silence before the socket is considered stalled (default: 60000ms, 0 = disabled) */
+  livenessTimeoutMs: number;
+}
+
+const DEFAULT_CONFIG: WSClientConfig = {
+  endpoint: "/ws",
+  protocols: [],
+  maxPayloadSize: 16384,
+  throttleMs: 1000,
+  throttlePolicy: ThrottlePolicy.LATEST_WINS,
+  livenessTimeoutMs: 60000
+};
+
+/* ============================================
+   EVENT HANDLERS
+   ============================================ */
+
+export interface WSEventHandlers {
+  /**
+   * Called when a valid nav_update frame is received
+   * @param packet - Parsed market packet (Tier0/Tier1/Tier2)
+   */
+  onMessage: (packet: MarketPacket) => void;
+  
+  /**
+   * Called when connection state changes
+   * @param state - New connection state
+   */
+  onStateChange: (state: WSConnectionState) => void;
+  
+  /**
+   * Called when connection opens successfully
+   */
+  onOpen?: () => void;
+  
+  /**
+   * Called on connection error or close
+   * @param error - Error details (never contains packet content)
+   */
+  onError?: (error: Error) => void;
+  
+  /**
+   * Called on keep_alive frame (optional, for monitoring)
+   */
+  onKeepAlive?: () => void;
+}
+
+/* ============================================
+   WEBSOCKET CLIENT IMPLEMENTATION
+   ============================================ */
+
+export class WSClient {
+  private config: WSClientConfig;
+  private handlers: WSEventHandlers;
+  private socket: WebSocket | null = null;
+  private state: WSConnectionState = WSConnectionState.DISCONNECTED;
+  private livenessTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastCloseCode: number | null = null;
+  
+  // Delivery throttle (drop or coalesce bursts)
+  private throttle: PacketThrottle;
+  
+  // Rejections before the throttle
+  private ingestStats: PacketIngestStats = createIngestStats();
+  
+  constructor(config: Partial<WSClientConfig>, handlers: WSEventHandlers) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.handlers = handlers;
+    this.throttle = new PacketThrottle(
+      this.config.throttleMs,
+      this.config.throttlePolicy,
+      this.deliverPacket.bind(this)
+    );
+  }
+  
+  /**
+   * Get current connection state
+   */
+  public getState(): WSConnectionState {
+    return this.state;
+  }
+  
+  /**
+   * Get throttle counters
+   */
+  public getThrottleStats(): PacketThrottleStats {
+    return this.throttle.getStats();
+  }
+  
+  /**
+   * Get ingest counters (received / rejected before the throttle)
+   */
+  public getIngestStats(): PacketIngestStats {
+    return { ...this.ingestStats };
+  }
+  
+  /**
+   * Get close code of the last unexpected close (null if none)
+   */
+  public getLastCloseCode(): number | null {
+    return this.lastCloseCode;
+  }
+  
+  /**
+   * Connect to WebSocket endpoint
+   * 
+   * Lifecycle:
+   * 1. Set state to CONNECTING
+   * 2. Create WebSocket
+   * 3. Transition to CONNECTED on open
+   * 4. Transition to ERROR on unexpected close
+   * 5. Transition to STALLED if nothing arrives within livenessTimeoutMs
+   * 
+   * No automatic reconnection (DeliveryController retries).
+   */
+  public connect(): void {
+    if (this.socket !== null) {
+      this.logLifecycle("connect() called but already connected/connecting");
+      return;
+    }
+    
+    try {
+      this.setState(WSConnectionState.CONNECTING);
+      this.logLifecycle(`Connecting to ${this.config.endpoint}`);
+      
+      const socket = new WebSocket(withWireVersions(this.config.endpoint), this.config.protocols);
+      this.socket = socket;
+      
+      const isCurrent = () => this.socket === socket;
+      
+      socket.onopen = () => {
+        if (isCurrent()) this.handleOpen();
+      };
+      socket.onmessage = (event: MessageEvent) => {
+        if (isCurrent()) this.handleMessage(event);
+      };
+      socket.onclose = (event: CloseEvent) => {
+        if (isCurrent()) this.handleClose(event);
+      };
+      // An error is always followed by close; close carries the code
+      socket.onerror = () => {
+        if (isCurrent()) this.logLifecycle("Socket error");
+      };
+      
+      // Armed before open so a hanging handshake also counts as silence
+      this.armLivenessWatchdog();
+    
+    } catch (err) {
+      this.logError("connect() failed", err);
+      this.socket = null;
+      this.setState(WSConnectionState.ERROR);
+      
+      if (this.handlers.onError) {
+        this.handlers.onError(new Error("Failed to create WebSocket"));
+      }
+    }
+  }
+  
+  /**
+   * Disconnect from WebSocket endpoint
+   * 
+   * Lifecycle:
+   * 1. Close socket (normal closure)
+   * 2. Set state to DISCONNECTED
+   * 3. Clean up references
+   */
+  public disconnect(): void {
+    if (this.socket === null) {
+      this.logLifecycle("disconnect() called but not connected");
+      return;
+    }
+    
+    try {
+      this.logLifecycle("Disconnecting");
+      this.clearLivenessWatchdog();
+      this.throttle.discardPending();
+      
+      const socket = this.socket;
+      this.socket = null;
+      socket.close(1000, "client disconnect");
+      this.setState(WSConnectionState.DISCONNECTED);
+    
+    } catch (err) {
+      this.logError("disconnect() failed", err);
+      // Force cleanup
+      this.clearLivenessWatchdog();
+      this.throttle.discardPending();
+      this.socket = null;
+      this.setState(WSConnectionState.DISCONNECTED);
+    }
+  }
+  
+  /**
+   * Check if currently connected
+   */
+  public isConnected(): boolean {
+    return this.state === WSConnectionState.CONNECTED;
+  }
+  
+  /* ============================================
+     PRIVATE: EVENT HANDLERS
+     ============================================ */
+  
+  private handleOpen(): void {
+    this.logLifecycle("Connection opened");
+    this.setState(WSConnectionState.CONNECTED);
+    
+    if (this.handlers.onOpen) {
+      this.handlers.onOpen();
+    }
+  }
+  
+  private handleClose(event: CloseEvent): void {
+    this.lastCloseCode = event.code;
+    this.logLifecycle(`Connection closed (code ${event.code})`);
+    
+    this.clearLivenessWatchdog();
+    this.throttle.discardPending();
+    this.socket = null;
+    this.setState(WSConnectionState.ERROR);
+    
+    if (this.handlers.onError) {
+      this.handlers.onError(new Error(`WebSocket closed (code ${event.code})`));
+    }
+  }
+  
+  private handleMessage(event: MessageEvent): void {
+    // Any frame (including keep_alive) proves the connection is alive
+    this.armLivenessWatchdog();
+    
+    try {
+      const now = Date.now();
+      
+      // Text frames only
+      const data = event.data;
+      if (typeof data !== "string" || data.length === 0) {
+        this.ingestStats.received++;
+        this.ingestStats.nonJson++;
+        console.warn("[WS] ⚠️ Non-text frame ignored");
+        return;
+      }
+      
+      if (data.length > this.config.maxPayloadSize) {
+        this.ingestStats.received++;
+        this.ingestStats.oversized++;
+        console.warn("[WS] ⚠️ Payload too large, ignoring");
+        return;
+      }
+      
+      let frame: any;
+      try {
+        frame = JSON.parse(data);
+      } catch (parseErr) {
+        this.ingestStats.received++;
+        this.ingestStats.nonJson++;
+        console.warn("[WS] ⚠️ Non-JSON frame ignored");
+        return;
+      }
+      
+      if (frame && frame.type === "keep_alive") {
+        if (this.handlers.onKeepAlive) {
+          this.handlers.onKeepAlive();
+        }
+        return;
+      }
+      
+      this.ingestStats.received++;
+      
+      // Enveloped nav_update, or a bare payload
+      let payload: any = frame;
+      if (frame && frame.type === "nav_update" && typeof frame.data === "string") {
+        try {
+          payload = JSON.parse(frame.data);
+        } catch (parseErr) {
+          this.ingestStats.nonJson++;
+          console.warn("[WS] ⚠️ Non-JSON nav_update data ignored");
+          return;
+        }
+      } else if (frame && frame.type === "nav_update") {
+        payload = frame.data;
+      }
+      
+      // Translate wire format (v1 nav packet, v2 aggregate, ...)
+      const adapted = adaptWirePayload(payload);
+      if (adapted.ok === false) {
+        this.ingestStats.unnormalizable++;
+        console.warn(`[WS] ⚠️ Unsupported payload (${adapted.reason}), ignoring`);
+        return;
+      }
+      
+      // Structural decode (shared schema; catalogs are enforced by the state layer)
+      const decoded = decodePacket(adapted.packet);
+      if (decoded.ok === false) {
+        this.ingestStats.unnormalizable++;
+        console.warn(`[WS] ⚠️ Invalid packet (${describePacketError(decoded.error)}), ignoring`);
+        return;
+      }
+      
+      // Throttle (prevent overwhelming state layer)
+      this.throttle.submit(decoded.packet, now);
+    
+    } catch (err) {
+      console.warn("[WS] ⚠️ Handler error:", err);
+      // Don't throw - keep connection alive
+    }
+  }
+  
+  /* ============================================
+     PRIVATE: DELIVERY
+     ============================================ */
+  
+  private deliverPacket(packet: MarketPacket): void {
+    // Forward to state layer
+    this.handlers.onMessage(packet);
+  }
+  
+  /* ============================================
+     PRIVATE: LIVENESS WATCHDOG
+     ============================================ */
+  
+  private armLivenessWatchdog(): void {
+    this.clearLivenessWatchdog();
+    
+    if (this.config.livenessTimeoutMs <= 0) {
+      return;
+    }
+    
+    this.livenessTimer = setTimeout(
+      this.handleLivenessTimeout.bind(this),
+      this.config.livenessTimeoutMs
+    );
+  }
+  
+  private clearLivenessWatchdog(): void {
+    if (this.livenessTimer !== null) {
+      clearTimeout(this.livenessTimer);
+      this.livenessTimer = null;
+    }
+  }
+  
+  /**
+   * Abandon a silent socket and report STALLED
+   */
+  private handleLivenessTimeout(): void {
+    this.livenessTimer = null;
+    
+    if (this.socket === null) {
+      return;
+    }
+    
+    this.logLifecycle(`No data for ${this.config.livenessTimeoutMs}ms — socket stalled`);
+    
+    const socket = this.socket;
+    this.socket = null;
+    this.throttle.discardPending();
+    
+    try {
+      socket.close(4000, "liveness timeout");
+    } catch (err) {
+      this.logError("close() on stalled socket failed", err);
+    }
+    
+    this.setState(WSConnectionState.STALLED);
+    
+    if (this.handlers.onError) {
+      this.handlers.onError(new Error(`No data received for ${this.config.livenessTimeoutMs}ms`));
+    }
+  }
+  
+  /* ============================================
+     PRIVATE: STATE MANAGEMENT
+     ============================================ */
+  
+  private setState(newState: WSConnectionState): void {
+    if (this.state === newState) {
+      return;
+    }
+    
+    const oldState = this.state;
+    this.state = newState;
+    
+    this.logLifecycle(`State transition: ${oldState} → ${newState}`);
+    this.handlers.onStateChange(newState);
+  }
+  
+  /* ============================================
+     PRIVATE: LOGGING (LIFECYCLE ONLY)
+     ============================================ */
+  
+  /**
+   * Log connection lifecycle events
+   * 
+   * Per Integration Contract Section 7:
+   * - Log connection/disconnection events
+   * - NEVER log packet contents
+   */
+  private logLifecycle(message: string): void {
+    const timestamp = new Date().toISOString();
+    console.log(`[WSClient][${timestamp}] ${message}`);
+  }
+  
+  /**
+   * Log errors (without sensitive data)
+   */
+  private logError(message: string, error: any): void {
+    const timestamp = new Date().toISOString();
+    console.error(`[WSClient][${timestamp}] ERROR: ${message}`);
+    
+    if (error && error instanceof Error) {
+      console.error(`[WSClient][${timestamp}] ${error.message}`);
+    }
+  }
+}
+
+/* ============================================
+   FACTORY FUNCTION
+   ============================================ */
+
+/**
+ * Create and return a new WebSocket client instance
+ * 
+ * @param config - Client configuration (optional, uses defaults)
+ * @param handlers - Event handlers for lifecycle and messages
+ * @returns Configured WebSocket client
+ */
+export function createWSClient(
+  config: Partial<WSClientConfig>,
+  handlers: WSEventHandlers
+): WSClient {
+  return new WSClient(config, handlers);
+}
@@ -8,6 +8,37 @@
 
 import { createDeliveryController, DeliveryMode, DeliveryControllerHandlers } from './infrastructure/delivery/deliveryController.js';
 import { MarketPacket } from './infrastructure/sse/sseClient.js';
+import { createTabCoordinator, TabRole } from './infrastructure/tabs/tabCoordinator.js';
+import {
+  REGIMES,
+  RISK_LEVELS,
+  CONFIDENCE_LEVELS,
+  NavFields,
+  Tier1Packet,
+  Tier2Packet
+} from './infrastructure/packet/packetSchema.js';
+import {
+  PacketValidationOptions,
+  STATIC_NAV_PACKET,
+  ValidationReason,
+  ValidationResult,
+  validatePacket
+} from './infrastructure/packet/packetValidator.js';
+import { createDeliveryWorkerHost, DeliveryWorkerHost, DeliveryWorkerHostHandlers } from './infrastructure/worker/deliveryWorkerHost.js';
+import { createTrustedKeyRing, parseRootKeys, TrustedKeyRingOptions } from './infrastructure/packet/trustedKeys.js';
+import { createReplayGuard } from './infrastructure/packet/replayGuard.js';
+import { ClockOffsetStatus, createClockOffsetEstimator } from './infrastructure/time/clockOffset.js';
+import {
+  BTCPriceData,
+  createMarketStore,
+  ForecastData,
+  NavSlice,
+  RegimesData,
+  shallowEqual
+} from './infrastructure/state/marketStore.js';
+import { DeliveryWorkerConfig } from './infrastructure/worker/deliveryWorkerProtocol.js';
+import { createDeliveryRecorder, parseRecording } from './infrastructure/replay/deliveryRecording.js';
+import { createReplaySession, ReplayProgress, ReplaySession, ReplaySpeed } from './infrastructure/replay/replayTransport.js';
 import { 
   showLoading, 
   hideLoading, 
@@ -34,24 +65,10 @@ import { createRoot, Root } from 'react-dom/client';
 import { Canvas } from '@react-three/fiber';
 import { NeuralTunnel } from './components/3d/market-nav/NeuralTunnel';
 import { useMarketData } from './components/3d/market-nav/hooks/useMarketData';
+import { MarketStoreContext } from './hooks/useMarketStore';
 
 
 
-/* ============================================
-   CRYPTOGRAPHIC ANCHORS (IMMUTABLE)
-   ============================================ */
-
-const TRUSTED_KEYS: Record<string, string> = Object.freeze({
-  "key_001": "REPLACE_WITH_BASE64_44_CHARS_KEY1",
-  "key_002": "REPLACE_WITH_BASE64_44_CHARS_KEY2"
-});
-
-const MAX_SKEW_MS = 30000;
-
-if (Object.keys(TRUSTED_KEYS).length > 2) {
-  throw new Error("Invariant violation: max 2 trusted keys");
-}
-
 /* ============================================
    BACKEND CONFIGURATION
    ============================================ */
@@ -59,83 +76,33 @@ if (Object.keys(TRUSTED_KEYS).length > 2) {
 /**
  * Backend base URL
  * Phase 22.5: Fly.dev production deployment
+ * 
+ * VITE_BACKEND_URL overrides it; an empty value means same origin
+ * (the dev server proxies /stream, /api and /ws to the mock backend).
  */
-const BACKEND_BASE_URL = "https://mns-core-minimal-test.fly.dev";
+const BACKEND_BASE_URL = import.meta.env.VITE_BACKEND_URL ?? "https://mns-core-minimal-test.fly.dev";
 
-/* ============================================
-   STATIC NAV PACKET (TIER 0)
-   ============================================ */
-
-const STATIC_NAV_PACKET = Object.freeze({
-  regime: "COMPRESSION",
-  risk: "NORMAL",
-  confidence: "MEDIUM",
-  status: "LIVE",
-  scope: "PUBLIC"
-});
-
-/* ============================================
-   CATALOGS (IMMUTABLE)
-   ============================================ */
+/**
+ * WebSocket endpoint (same host, wss scheme — allowed by the Vercel CSP)
+ */
+const BACKEND_WS_URL = `${(BACKEND_BASE_URL || window.location.origin).replace(/^http/, "ws")}/ws`;
 
-const REGIMES = Object.freeze([
-  "ACCUMULATION",
-  "EXPANSION",
-  "DISLOCATION",
-  "EXHAUSTION",
-  "COMPRESSION"
-]);
-
-const RISK_LEVELS = Object.freeze([
-  "LOW",
-  "NORMAL",
-  "HIGH"
-]);
-
-const CONFIDENCE_LEVELS = Object.freeze([
-  "LOW",
-  "MEDIUM",
-  "HIGH"
-]);
-
-const BIAS_LEVELS = Object.freeze([
-  "BULLISH",
-  "BEARISH",
-  "NEUTRAL"
-]);
-
-const STABILITY_LEVELS = Object.freeze([
-  "FORMING",
-  "MATURE",
-  "WEAKENING"
-]);
-
-const DRIVER_TYPES = Object.freeze([
-  "LIQUIDITY_SURGE",
-  "MOMENTUM_SHIFT",
-  "VOLATILITY_SPIKE",
-  "VOLUME_EXPANSION",
-  "SENTIMENT_REVERSAL"
-]);
-
-const BLOCKER_TYPES = Object.freeze([
-  "RESISTANCE_ZONE",
-  "LIQUIDITY_DROUGHT",
-  "MOMENTUM_EXHAUSTION",
-  "VOLATILITY_COLLAPSE"
-]);
-
-const GAP_TYPES = Object.freeze([
-  "INFORMATION_ASYMMETRY",
-  "STRUCTURAL_IMBALANCE",
-  "TEMPORAL_DISLOCATION"
-]);
+/**
+ * Signed key set for Tier 1/2 packets (see trustedKeys.ts)
+ * VITE_KEYSET_ROOT_KEYS pins the keys allowed to sign it ("kid:base64,...")
+ */
+const KEYSET_ENDPOINT = `${BACKEND_BASE_URL}/api/v1/keys`;
 
 /* ============================================
-   REENTRANCY LOCK
+   MARKET STATE
    ============================================ */
 
-let validationEpoch = 0;
+/**
+ * Everything the panels and the 3D scene show, including the validation
+ * epoch (reentrancy lock for packet validation). Renderers subscribe to
+ * it (see STATE BINDINGS); nothing else holds a copy.
+ */
+const marketStore = createMarketStore();
 
 /* ============================================
    DOM REFERENCES
@@ -150,367 +117,115 @@ const btcPriceEl = document.getElementById("btc-price") as HTMLDivElement;
 const regimesEl = document.getElementById("regimes") as HTMLDivElement;
 const confidenceEl = document.getElementById("confidence") as HTMLDivElement;
 const lastUpdateEl = document.getElementById("last-update") as HTMLDivElement;
+const clockSkewEl = document.getElementById("clock-skew") as HTMLDivElement;
 
-/* ============================================
-   PHASE 23 DATA STRUCTURES
-   ============================================ */
-
-interface BTCPriceData {
-  symbol: string;
-  price: number;
-  timestamp: number;
-}
-
-interface RegimesData {
-  volatility_regime: string;
-  trend_regime: string;
-  stress_regime: string;
-  liquidity_regime: string;
-  timestamp: string;
-}
-
-interface ForecastData {
-  tier0: {
-    symbol: string;
-    horizon: string;
-    p10: number;
-    p25: number;
-    p50: number;
-    p75: number;
-    p90: number;
-    confidence: number;
-  };
-  tier1: {
-    bias: string;
-    stability: string;
-  };
-  tier2: {
-    liquidity_state: string;
-    drivers: string[];
-    blockers: string[];
-  };
-  timestamp: number;
-}
-
-/* Phase 23.4: State */
-let cachedPrice: BTCPriceData | null = null;
-let cachedRegimes: RegimesData | null = null;
-let cachedForecast: ForecastData | null = null;
-let lastFetchTime: number = 0;
-
-/* Phase 25: Price history for 24h chart */
-let priceHistory: { timestamp: number; price: number }[] = [];
+/* Phase 25: Charts are created after the DOM settles */
 let chartsInitialized = false;
 
 /* ============================================
-   CRYPTOGRAPHIC VALIDATION
-   ============================================ */
-
-function decodeBase64ToUint8(base64: string): Uint8Array {
-  try {
-    if (typeof base64 !== 'string') {
-      throw new Error("Not a string");
-    }
-    const normalized = base64.replace(/\s/g, '').trim();
-    if (normalized.length === 0) {
-      throw new Error("Empty Base64");
-    }
-    if (normalized.length < 4) {
-      throw new Error("Base64 too short");
-    }
-    
-    const binaryString = atob(normalized);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-  } catch (err) {
-    throw new Error("Invalid Base64");
-  }
-}
-
-async function importPublicKey(base64: string): Promise<CryptoKey> {
-  try {
-    const keyData = decodeBase64ToUint8(base64);
-    return await crypto.subtle.importKey(
-      "raw",
-      keyData as BufferSource,
-      {
-        name: "Ed25519",
-        namedCurve: "Ed25519"
-      } as any,
-      false,
-      ["verify"]
-    );
-  } catch (err) {
-    throw new Error("Key import failed");
-  }
-}
-
-async function verifySignature(
-  payloadUint8: Uint8Array,
-  signatureUint8: Uint8Array,
-  publicKey: CryptoKey
-): Promise<boolean> {
-  try {
-    return await crypto.subtle.verify(
-      "Ed25519",
-      publicKey,
-      signatureUint8 as BufferSource,
-      payloadUint8 as BufferSource
-    );
-  } catch (err) {
-    return false;
-  }
-}
-
-function isFresh(issuedAtISO: string): boolean {
-  try {
-    if (typeof issuedAtISO !== 'string') return false;
-    
-    const iso8601Pattern = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/;
-    if (!iso8601Pattern.test(issuedAtISO)) return false;
-    
-    const issued = Date.parse(issuedAtISO);
-    if (isNaN(issued)) return false;
-    
-    const now = Date.now();
-    const skew = Math.abs(now - issued);
-    
-    const maxReasonable = 365 * 24 * 60 * 60 * 1000;
-    if (skew > maxReasonable) return false;
-    
-    return skew <= MAX_SKEW_MS;
-  } catch (err) {
-    return false;
-  }
-}
-
-/* ============================================
-   STRUCTURAL VALIDATION
+   ST STATE MANAGEMENT
    ============================================ */
 
-function unifiedStructuralGuard(packet: any): boolean {
-  try {
-    if (!packet || typeof packet !== 'object') return false;
-    if (packet.__proto__ !== Object.prototype && packet.__proto__ !== null) return false;
-    
-    const tier = packet.meta?.tier ?? 0;
-    if (![0, 1, 2].includes(tier)) return false;
-    
-    if (!packet.nav || typeof packet.nav !== 'object') return false;
-    if (typeof packet.nav.regime !== 'string' || !REGIMES.includes(packet.nav.regime)) return false;
-    if (typeof packet.nav.risk !== 'string' || !RISK_LEVELS.includes(packet.nav.risk)) return false;
-    if (typeof packet.nav.confidence !== 'string' || !CONFIDENCE_LEVELS.includes(packet.nav.confidence)) return false;
-    
-    if (tier === 0) {
-      if (packet.nav.bias || packet.nav.stability || packet.navigator) return false;
-      if (packet.meta?.signature || packet.meta?.kid) return false;
-    }
-    
-    if (tier === 1) {
-      if (!packet.meta?.signature || !packet.meta?.kid || !packet.meta?.issued_at) return false;
-      if (typeof packet.nav.bias !== 'string' || !BIAS_LEVELS.includes(packet.nav.bias)) return false;
-      if (typeof packet.nav.stability !== 'string' || !STABILITY_LEVELS.includes(packet.nav.stability)) return false;
-      if (packet.navigator) return false;
-    }
-    
-    if (tier === 2) {
-      if (!packet.meta?.signature || !packet.meta?.kid || !packet.meta?.issued_at) return false;
-      if (typeof packet.nav.bias !== 'string' || !BIAS_LEVELS.includes(packet.nav.bias)) return false;
-      if (typeof packet.nav.stability !== 'string' || !STABILITY_LEVELS.includes(packet.nav.stability)) return false;
-      if (!packet.navigator || typeof packet.navigator !== 'object') return false;
-      
-      if (!Array.isArray(packet.navigator.drivers)) return false;
-      if (packet.navigator.drivers.length > 3) return false;
-      for (const d of packet.navigator.drivers) {
-        if (typeof d !== 'string' || !DRIVER_TYPES.includes(d)) return false;
-      }
-      
-      if (!Array.isArray(packet.navigator.blockers)) return false;
-      if (packet.navigator.blockers.length > 2) return false;
-      for (const b of packet.navigator.blockers) {
-        if (typeof b !== 'string' || !BLOCKER_TYPES.includes(b)) return false;
-      }
-      
-      if (!Array.isArray(packet.navigator.gaps)) return false;
-      if (packet.navigator.gaps.length > 2) return false;
-      for (const g of packet.navigator.gaps) {
-        if (typeof g !== 'string' || !GAP_TYPES.includes(g)) return false;
-      }
-    }
-    
-    return true;
-  } catch (err) {
-    return false;
-  }
-}
+// Signed packets must be new and in order (per kid), whichever thread validated them
+const replayGuard = createReplayGuard();
 
-function buildGlobalPayload(packet: any): Uint8Array {
+function sanitizeAll(): void {
   try {
-    const tier = packet.meta?.tier ?? 0;
-    const regime = packet.nav?.regime ?? "";
-    const risk = packet.nav?.risk ?? "";
-    const confidence = packet.nav?.confidence ?? "";
-    const bias = packet.nav?.bias ?? "";
-    const stability = packet.nav?.stability ?? "";
-    const drivers = packet.navigator?.drivers ? packet.navigator.drivers.join(",") : "";
-    const blockers = packet.navigator?.blockers ? packet.navigator.blockers.join(",") : "";
-    const gaps = packet.navigator?.gaps ? packet.navigator.gaps.join(",") : "";
-    const kid = packet.meta?.kid ?? "";
-    const issued_at = packet.meta?.issued_at ?? "";
+    marketStore.supersedeValidation();
     
-    const payload = 
-      String(tier) +
-      regime +
-      risk +
-      confidence +
-      bias +
-      stability +
-      drivers +
-      blockers +
-      gaps +
-      kid +
-      issued_at;
+    const stale: NavFields = Object.freeze({
+      regime: STATIC_NAV_PACKET.regime,
+      risk: STATIC_NAV_PACKET.risk,
+      confidence: STATIC_NAV_PACKET.confidence,
+      status: "STALE",
+      scope: STATIC_NAV_PACKET.scope
+    });
     
-    const encoder = new TextEncoder();
-    return encoder.encode(payload);
+    marketStore.setNav(0, stale);
+    shareWithFollowers({ kind: "nav", tier: 0, packet: stale });
+  
   } catch (err) {
-    throw new Error("Global payload build failed");
+    marketStore.supersedeValidation();
+    triggerFailSafe();
   }
 }
 
-async function validatePacket(packet: any, epoch: number): Promise<{ tier: number; packet: any }> {
+async function updateState(packet: MarketPacket, source: DeliveryMode, receivedAt: number): Promise<void> {
+  const currentEpoch = marketStore.supersedeValidation();
+  
   try {
-    if (epoch !== validationEpoch) {
-      return { tier: 0, packet: STATIC_NAV_PACKET };
-    }
-    
-    const tier = packet.meta?.tier ?? 0;
-    
-    if (tier === 0) {
-      if (!unifiedStructuralGuard(packet)) {
-        return { tier: 0, packet: STATIC_NAV_PACKET };
-      }
-      return { tier: 0, packet: packet };
-    }
-    
-    if (!unifiedStructuralGuard(packet)) {
-      return { tier: 0, packet: STATIC_NAV_PACKET };
-    }
-    
-    if (epoch !== validationEpoch) {
-      return { tier: 0, packet: STATIC_NAV_PACKET };
-    }
-    
-    const kid = packet.meta.kid;
-    if (!TRUSTED_KEYS[kid]) {
-      return { tier: 0, packet: STATIC_NAV_PACKET };
-    }
-    
-    if (!isFresh(packet.meta.issued_at)) {
-      return { tier: 0, packet: STATIC_NAV_PACKET };
-    }
-    
-    const payloadBytes = buildGlobalPayload(packet);
-    if (payloadBytes.length === 0 || payloadBytes.length > 2048) {
-      return { tier: 0, packet: STATIC_NAV_PACKET };
-    }
-    
-    const signatureBytes = decodeBase64ToUint8(packet.meta.signature);
-    if (signatureBytes.length !== 64) {
-      return { tier: 0, packet: STATIC_NAV_PACKET };
-    }
-    
-    if (epoch !== validationEpoch) {
-      return { tier: 0, packet: STATIC_NAV_PACKET };
+    if (!packet || typeof packet !== 'object') {
+      sanitizeAll();
+      return;
     }
     
-    const publicKey = await importPublicKey(TRUSTED_KEYS[kid]);
-    
-    if (epoch !== validationEpoch) {
-      return { tier: 0, packet: STATIC_NAV_PACKET };
+    // Recorded packets are judged by the recording's clock
+    if (replaySession !== null) {
+      validationOptions.clockOffsetMs = replaySession.getClockOffset();
     }
     
-    const valid = await verifySignature(payloadBytes, signatureBytes, publicKey);
+    const result = await validatePacket(
+      packet,
+      keyRing,
+      () => marketStore.isCurrentValidation(currentEpoch),
+      validationOptions
+    );
     
-    if (epoch !== validationEpoch) {
-      return { tier: 0, packet: STATIC_NAV_PACKET };
+    // Only the main-thread controller feeds updateState (the worker counts its own)
+    if (!(controller instanceof DeliveryWorkerHost)) {
+      controller.recordValidation(result);
     }
     
-    // TEMP FIX: skip signature check
-    if (false && !valid) {
-      return { tier: 0, packet: STATIC_NAV_PACKET };
+    if (!marketStore.isCurrentValidation(currentEpoch)) {
+      return;
     }
     
-    return {
-      tier: tier,
-      packet: Object.freeze({
-        nav: Object.freeze({ ...packet.nav }),
-        navigator: packet.navigator ? Object.freeze({
-          drivers: Object.freeze([...packet.navigator.drivers]),
-          blockers: Object.freeze([...packet.navigator.blockers]),
-          gaps: Object.freeze([...packet.navigator.gaps])
-        }) : undefined,
-        meta: Object.freeze({ ...packet.meta }),
-        status: packet.status ? Object.freeze({ ...packet.status }) : undefined
-      })
-    };
-    
-  } catch (err) {
-    return { tier: 0, packet: STATIC_NAV_PACKET };
-  }
-}
-
-/* ============================================
-   ST STATE MANAGEMENT
-   ============================================ */
-
-let currentPacket: any = null;
-
-function sanitizeAll(): void {
-  try {
-    validationEpoch++;
-    
-    currentPacket = null;
-    
-    currentPacket = Object.freeze({
-      regime: STATIC_NAV_PACKET.regime,
-      risk: STATIC_NAV_PACKET.risk,
-      confidence: STATIC_NAV_PACKET.confidence,
-      status: "STALE",
-      scope: STATIC_NAV_PACKET.scope
-    });
-
-    renderNAV(0, currentPacket);
-
+    applyValidationResult(result, source, receivedAt);
+  
   } catch (err) {
-    validationEpoch++;
-    currentPacket = null;
+    sanitizeAll();
     triggerFailSafe();
   }
 }
 
-async function updateState(packet: MarketPacket): Promise<void> {
-  const currentEpoch = ++validationEpoch;
-  
+/**
+ * Render a validation result (validated here or in the delivery worker)
+ * 
+ * @param source - Delivery mode that provided the packet
+ * @param receivedAt - Local time the packet arrived (clock sample)
+ */
+function applyValidationResult(result: ValidationResult, source: DeliveryMode, receivedAt: number): void {
   try {
-    if (!packet || typeof packet !== 'object') {
-      sanitizeAll();
+    if (result.ok === false) {
+      // Superseded: a newer packet is already being validated
+      if (result.reason !== ValidationReason.SUPERSEDED) {
+        marketStore.setUnverified(result.reason);
+        shareWithFollowers({ kind: "unverified", reason: result.reason });
+      }
       return;
     }
     
-    const result = await validatePacket(packet, currentEpoch);
-    
-    if (currentEpoch !== validationEpoch) {
-      return;
+    if (result.tier > 0) {
+      // Tier 1/2 results carry the whole signed packet
+      const { meta } = result.packet as Tier1Packet | Tier2Packet;
+      const admitted = replayGuard.admit(meta);
+      
+      // Counted here on either thread: verified only once admitted
+      controller.recordAdmission(admitted);
+      
+      if (admitted.ok === false) {
+        // Keep rendering the newer packet we already have
+        console.warn(`[STATE] ⚠️ Packet dropped: ${admitted.reason} (${meta?.kid ?? "no kid"})`);
+        return;
+      }
+      
+      // Verified, fresh and new: only now may its issued_at inform the clock
+      samplePacketClock(meta.issued_at, receivedAt, source);
     }
     
-    currentPacket = result.packet;
-    renderNAV(result.tier, currentPacket);
-    
+    marketStore.setNav(result.tier, result.packet);
+    shareWithFollowers({ kind: "nav", tier: result.tier, packet: result.packet });
+  
   } catch (err) {
     sanitizeAll();
     triggerFailSafe();
@@ -530,7 +245,7 @@ function sanitizeForTier0(state: any): any {
       status: state.status,
       scope: state.scope
     };
-
+    
     if (!REGIMES.includes(sanitized.regime)) {
       throw new Error("Invalid regime");
     }
@@ -546,9 +261,9 @@ function sanitizeForTier0(state: any): any {
     if (sanitized.scope !== "PUBLIC" && sanitized.scope !== undefined) {
       throw new Error("Invalid scope");
     }
-
+    
     return sanitized;
-
+  
   } catch (err) {
     return {
       regime: "UNKNOWN",
@@ -562,6 +277,8 @@ function sanitizeForTier0(state: any): any {
 
 function renderNAV(tier: number, state: any): void {
   try {
+    delete navEl.dataset.state;
+    
     if (tier === 2) {
       const drivers = state.navigator?.drivers?.join(", ") || "";
       const blockers = state.navigator?.blockers?.join(", ") || "";
@@ -599,21 +316,32 @@ function renderNAV(tier: number, state: any): void {
       
       navEl.textContent = navLine;
     }
-    
+  
   } catch (err) {
     navEl.textContent = "[NAV] STATE: UNKNOWN";
   }
 }
 
-function renderStatus(): void {
+function renderUnverified(reason: ValidationReason): void {
+  try {
+    navEl.dataset.state = "unverified";
+    navEl.textContent = `[NAV] STATE: UNVERIFIED | REASON: ${reason}`;
+    renderStatus("UNVERIFIED");
+  
+  } catch (err) {
+    navEl.textContent = "[NAV] STATE: UNKNOWN";
+  }
+}
+
+function renderStatus(state: "LIVE" | "UNVERIFIED" = "LIVE"): void {
   try {
     const statusLine =
-      `[STATUS] LIVE` +
+      `[STATUS] ${state}` +
       ` | SOURCE: PRESENT_STATE` +
       ` | MODE: READ_ONLY`;
-
+    
     statusEl.textContent = statusLine;
-
+  
   } catch (err) {
     statusEl.textContent = "[STATUS] OFFLINE";
   }
@@ -635,12 +363,19 @@ function triggerFailSafe(): void {
    ============================================ */
 
 function updateDeliveryModeIndicator(mode: DeliveryMode): void {
-  if (mode === DeliveryMode.SSE_PRIMARY) {
+  if (mode === DeliveryMode.SSE_PRIMARY || mode === DeliveryMode.WS_PRIMARY) {
     deliveryModeEl.textContent = "Status: LIVE";
     deliveryModeEl.style.color = "#00ff88";
-  } else if (mode === DeliveryMode.REST_DEGRADED) {
+  } else if (mode === DeliveryMode.REST_DEGRADED || mode === DeliveryMode.RECOVERING) {
+    // RECOVERING: REST still feeds the screen until the trial stream is confirmed
     deliveryModeEl.textContent = "Status: DEGRADED";
     deliveryModeEl.style.color = "#ffaa00";
+  } else if (mode === DeliveryMode.DISCONNECTED) {
+    deliveryModeEl.textContent = "Status: DISCONNECTED";
+    deliveryModeEl.style.color = "#ff4444";
+  } else if (mode === DeliveryMode.PAUSED) {
+    deliveryModeEl.textContent = "Status: PAUSED";
+    deliveryModeEl.style.color = "#888888";
   }
 }
 
@@ -649,13 +384,52 @@ function setStatusReady(): void {
   deliveryModeEl.style.color = "#00ff88";
 }
 
+/* ============================================
+   PHASE 22.4: SERVER CLOCK
+   ============================================ */
+
+/**
+ * Server − local clock offset, from REST Date headers and the issued_at
+ * of admitted stream packets; applied to freshness checks
+ */
+const clock = createClockOffsetEstimator();
+
+async function fetchWithClock(url: string): Promise<Response> {
+  const requestStart = Date.now();
+  const response = await fetch(url);
+  clock.addDateHeaderSample(response.headers.get('Date'), requestStart, Date.now());
+  return response;
+}
+
+function formatClockOffset(offsetMs: number): string {
+  const totalSeconds = Math.round(Math.abs(offsetMs) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  const amount = minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+  
+  // Positive offset: server is ahead, so the local clock is behind
+  return `${amount} ${offsetMs > 0 ? 'behind' : 'ahead'}`;
+}
+
+function renderClockSkew(status: ClockOffsetStatus): void {
+  if (!clockSkewEl) return;
+  
+  if (!status.skewed) {
+    clockSkewEl.hidden = true;
+    return;
+  }
+  
+  clockSkewEl.textContent = `⚠ Device clock ${formatClockOffset(status.offsetMs)}`;
+  clockSkewEl.hidden = false;
+}
+
 /* ============================================
    PHASE 23.4: FETCH FUNCTIONS
    ============================================ */
 
 async function fetchBTCPrice(): Promise<BTCPriceData | null> {
   try {
-    const response = await fetch(`${BACKEND_BASE_URL}/api/v1/price`);
+    const response = await fetchWithClock(`${BACKEND_BASE_URL}/api/v1/price`);
     if (!response.ok) throw new Error(`Price fetch failed: ${response.status}`);
     const data = await response.json();
     return data;
@@ -667,7 +441,7 @@ async function fetchBTCPrice(): Promise<BTCPriceData | null> {
 
 async function fetchRegimes(): Promise<RegimesData | null> {
   try {
-    const response = await fetch(`${BACKEND_BASE_URL}/api/v1/regimes`);
+    const response = await fetchWithClock(`${BACKEND_BASE_URL}/api/v1/regimes`);
     if (!response.ok) throw new Error(`Regimes fetch failed: ${response.status}`);
     const data = await response.json();
     return data;
@@ -679,7 +453,7 @@ async function fetchRegimes(): Promise<RegimesData | null> {
 
 async function fetchForecast(): Promise<ForecastData | null> {
   try {
-    const response = await fetch(`${BACKEND_BASE_URL}/api/v1/latest`);
+    const response = await fetchWithClock(`${BACKEND_BASE_URL}/api/v1/latest`);
     if (!response.ok) throw new Error(`Forecast fetch failed: ${response.status}`);
     const data = await response.json();
     return data;
@@ -705,23 +479,6 @@ function renderBTCPrice(data: BTCPriceData | null): void {
   });
   
   btcPriceEl.textContent = `BTC: $${formatted}`;
-  
-  // Phase 25: Add to price history for chart
-  priceHistory.push({
-    timestamp: data.timestamp,
-    price: data.price
-  });
-  
-  // Keep only last 24 hours (assuming 5s updates = ~17,280 points per day)
-  // Keep last 288 points (24 hours at 5-minute intervals)
-  if (priceHistory.length > 288) {
-    priceHistory.shift();
-  }
-  
-  // Update price history chart
-  if (chartsInitialized) {
-    addPricePoint(data.price, data.timestamp);
-  }
 }
 
 function getRegimeClass(regime: string, type: string): string {
@@ -811,7 +568,7 @@ function getTimeAgo(timestamp: number): string {
   return `${hours} hour${hours === 1 ? '' : 's'} ago`;
 }
 
-function renderLastUpdate(): void {
+function renderLastUpdate(lastFetchTime: number): void {
   if (lastFetchTime === 0) {
     lastUpdateEl.textContent = 'Last updated: Never';
     return;
@@ -838,8 +595,9 @@ function initializeCharts(): void {
     createForecastChart('forecast-chart', mockForecastData);
     
     // Initialize price history chart with existing price history
+    const priceHistory = marketStore.getState().price.history;
     if (priceHistory.length > 0) {
-      createPriceHistoryChart('price-history-chart', priceHistory);
+      createPriceHistoryChart('price-history-chart', [...priceHistory]);
     } else {
       // Start with mock data if no history yet
       const mockPriceHistory = Array.from({ length: 50 }, (_, i) => ({
@@ -850,12 +608,12 @@ function initializeCharts(): void {
     }
     
     // Initialize confidence gauge
-    const initialConfidence = cachedForecast?.tier0.confidence ?? 0.7;
+    const initialConfidence = marketStore.getState().forecast?.tier0.confidence ?? 0.7;
     createConfidenceGauge('confidence-gauge-main', initialConfidence);
     
     chartsInitialized = true;
     console.log('[Phase25] Charts initialized');
-    
+  
   } catch (err) {
     console.error('[Phase25] Chart initialization error:', err);
     showToast('Failed to initialize charts', ToastType.WARNING, 3000);
@@ -881,18 +639,18 @@ function transformTo3DData(forecast: ForecastData | null): any {
       stress: 0.2,
     };
   }
-
+  
   // Extract base values
   const baseP10 = forecast.tier0.p10 || 95000;
   const baseP50 = forecast.tier0.p50 || 100000;
   const baseP90 = forecast.tier0.p90 || 105000;
   const confidence = forecast.tier0.confidence || 0.75;
-
+  
   // Calculate increments for 30-day forecast
   const p10_increment = (baseP50 - baseP10) * 0.08;
   const p50_increment = baseP50 * 0.012; // 1.2% daily growth
   const p90_increment = (baseP90 - baseP50) * 0.12;
-
+  
   // Generate 30-day predictions
   const predictions = Array.from({ length: 30 }, (_, i) => ({
     day: i + 1,
@@ -900,11 +658,11 @@ function transformTo3DData(forecast: ForecastData | null): any {
     p50: Math.round(baseP50 + i * p50_increment),
     p90: Math.round(baseP90 + i * p90_increment),
   }));
-
+  
   // Calculate volatility from price range
   const priceRange = baseP90 - baseP10;
   const volatility = Math.min(priceRange / baseP50, 1);
-
+  
   // Determine regime based on bias and stability
   let regime: 'NORMAL' | 'MODERATE' | 'HIGH' | 'EXTREME' = 'NORMAL';
   if (forecast.tier1) {
@@ -917,10 +675,10 @@ function transformTo3DData(forecast: ForecastData | null): any {
       regime = 'MODERATE';
     }
   }
-
+  
   // Calculate stress score
   const stress = Math.min(volatility * 1.2, 1);
-
+  
   return {
     predictions,
     regime: { stress: regime },
@@ -996,33 +754,16 @@ async function updatePhase23Data(): Promise<void> {
       fetchForecast()
     ]);
     
-    // Cache results
-    if (priceData) cachedPrice = priceData;
-    if (regimesData) cachedRegimes = regimesData;
-    if (forecastData) cachedForecast = forecastData;
-    
-    // Update timestamp
-    lastFetchTime = Date.now();
-    
-    // Render all UI updates
-    renderBTCPrice(cachedPrice);
-    renderRegimes(cachedRegimes);
-    renderConfidence(cachedForecast);
-    renderLastUpdate();
-    
-    // Phase 25: Update forecast chart if we have new forecast data
-    if (cachedForecast) {
-      updateForecastChartWithRealData(cachedForecast);
-      // Phase 28: Update 3D visualization
-      update3DScene(cachedForecast);
-    }
+    // Failed fetches (null) keep the previous snapshot; panels re-render
+    marketStore.setPhase23(priceData, regimesData, forecastData, Date.now());
+    sharePhase23Data();
     
     // Reset error counter on success
     consecutiveErrors = 0;
     
     // Show update indicator
     setElementUpdating('btc-price');
-    
+  
   } catch (err) {
     console.error('[Phase25] Update cycle error:', err);
     consecutiveErrors++;
@@ -1041,10 +782,34 @@ async function updatePhase23Data(): Promise<void> {
   }
 }
 
+/**
+ * Render Phase 23 panels (leader after a fetch, follower after a broadcast)
+ */
+function renderPhase23Data(data: {
+  price: BTCPriceData | null;
+  regimes: RegimesData | null;
+  forecast: ForecastData | null;
+  fetchedAt: number;
+}): void {
+  renderBTCPrice(data.price);
+  renderRegimes(data.regimes);
+  renderConfidence(data.forecast);
+  renderLastUpdate(data.fetchedAt);
+  
+  // Phase 25: Update forecast chart if we have new forecast data
+  if (data.forecast) {
+    updateForecastChartWithRealData(data.forecast);
+  }
+}
+
 /* Auto-refresh Phase 23 data every 5 seconds */
 let phase23Interval: number | null = null;
 
 function startPhase23Updates(): void {
+  if (phase23Interval !== null) {
+    return;
+  }
+  
   // Initial fetch
   updatePhase23Data();
   
@@ -1061,35 +826,363 @@ function stopPhase23Updates(): void {
   }
 }
 
+/* ============================================
+   STATE BINDINGS (MARKET STORE → DOM)
+   ============================================ */
+
+/**
+ * Render the NAV slice: the validated packet, or UNVERIFIED
+ */
+function renderNavState(nav: NavSlice): void {
+  if (nav.unverifiedReason !== null) {
+    renderUnverified(nav.unverifiedReason);
+  } else if (nav.packet !== null) {
+    renderNAV(nav.tier, nav.packet);
+    renderStatus();
+  }
+}
+
+// Epoch bumps alone change nothing on screen
+marketStore.subscribe(
+  (state) => state.nav,
+  renderNavState,
+  (a, b) => a.tier === b.tier && a.packet === b.packet && a.unverifiedReason === b.unverifiedReason
+);
+
+// Every fetch re-renders, so failed fetches still show "Unavailable"
+marketStore.subscribe(
+  (state) => ({
+    price: state.price.current,
+    regimes: state.regimes,
+    forecast: state.forecast,
+    fetchedAt: state.delivery.lastFetchTime
+  }),
+  renderPhase23Data,
+  shallowEqual
+);
+
+// Phase 25: One chart point per new price
+marketStore.subscribe(
+  (state) => state.price.current,
+  (price) => {
+    if (price !== null && chartsInitialized) {
+      addPricePoint(price.price, price.timestamp);
+    }
+  }
+);
+
+marketStore.subscribe(
+  (state) => state.delivery.mode,
+  (mode) => {
+    if (mode !== null) {
+      updateDeliveryModeIndicator(mode);
+    }
+  }
+);
+
 /* ============================================
    PHASE 22.4: DELIVERY CONTROLLER WIRING
    ============================================ */
 
 const handlers: DeliveryControllerHandlers = {
-  onPacket: async (packet: MarketPacket, _source: DeliveryMode) => {
+  onPacket: async (packet: MarketPacket, source: DeliveryMode) => {
     console.log('[DELIVERY] ✅ nav_update received, updating state...');
-    await updateState(packet);
+    await updateState(packet, source, Date.now());
     console.log('[DELIVERY] ✅ State updated successfully');
   },
   
   onModeChange: (mode: DeliveryMode) => {
     console.log('[DELIVERY] Mode changed:', mode);
-    updateDeliveryModeIndicator(mode);
+    marketStore.setDeliveryMode(mode);
+    shareWithFollowers({ kind: "mode", mode });
   },
   
   onError: (error: Error) => {
     console.error('[DELIVERY] ❌ Error:', error.message);
+  },
+  
+  onGap: (gap) => {
+    console.warn(`[DELIVERY] ⚠️ Missed events ${gap.from}–${gap.to} while reconnecting`);
+  },
+  
+  onRecoveryProbe: (result) => {
+    console.log(`[DELIVERY] Recovery probe ${result.mode}: ${result.outcome} after ${result.durationMs}ms`);
   }
 };
 
-const controller = createDeliveryController(
-  {
-    sseEndpoint: `${BACKEND_BASE_URL}/stream`,
-    restEndpoint: `${BACKEND_BASE_URL}/api/v1/latest`,
-    restPollingInterval: 2000,
-    sseRecoveryInterval: 30000
+// Cloneable config, shared by both hosting modes
+const deliveryConfig: DeliveryWorkerConfig = {
+  sseEndpoint: `${BACKEND_BASE_URL}/stream`,
+  restEndpoint: `${BACKEND_BASE_URL}/api/v1/latest`,
+  wsEndpoint: BACKEND_WS_URL,
+  streamPreference: [DeliveryMode.SSE_PRIMARY, DeliveryMode.WS_PRIMARY],
+  restPollingInterval: 2000,
+  sseRecoveryInterval: 30000
+};
+
+// Cloneable as well: worker mode builds its own ring from these
+const keyRingOptions: TrustedKeyRingOptions = {
+  rootKeys: parseRootKeys(import.meta.env.VITE_KEYSET_ROOT_KEYS),
+  endpoint: KEYSET_ENDPOINT
+};
+
+// Validates on this thread unless the delivery worker does
+const keyRing = createTrustedKeyRing(keyRingOptions);
+
+// Legacy (concatenated) signed payloads only while the backend migrates;
+// clockOffsetMs follows the clock estimate (see wiring below), or the
+// recording's clock during a replay
+const validationOptions: PacketValidationOptions = {
+  allowLegacyPayload: import.meta.env.VITE_ALLOW_LEGACY_SIGNATURES === 'true',
+  clockOffsetMs: 0
+};
+
+/**
+ * Incident tooling (see docs/REPLAY.md):
+ * - ?record                  keep a recording; window.mnsRecording.download()
+ * - ?replay=<url>&speed=<N|step>  feed a recording instead of the backend
+ */
+const debugParams = new URLSearchParams(window.location.search);
+const RECORD_DELIVERY = debugParams.has('record');
+const REPLAY_URL = debugParams.get('replay');
+const REPLAY_SPEED: ReplaySpeed = debugParams.get('speed') === 'step'
+  ? 'stepped'
+  : Number(debugParams.get('speed')) || 1;
+
+const recorder = RECORD_DELIVERY ? createDeliveryRecorder() : null;
+let replaySession: ReplaySession | null = null;
+
+// Console helpers, present only with ?replay / ?record
+declare global {
+  interface Window {
+    mnsReplay?: {
+      step: () => boolean;
+      setSpeed: (speed: ReplaySpeed) => void;
+      progress: () => ReplayProgress;
+    };
+    mnsRecording?: {
+      download: () => void;
+      clear: () => void;
+    };
+  }
+}
+
+/**
+ * Worker mode (VITE_DELIVERY_WORKER=true): delivery and validation run in
+ * a dedicated worker; this thread only renders validated results.
+ * Recording and replay hook into the controller, so they keep it here.
+ */
+const USE_DELIVERY_WORKER = import.meta.env.VITE_DELIVERY_WORKER === 'true'
+  && recorder === null
+  && REPLAY_URL === null;
+
+const workerHandlers: DeliveryWorkerHostHandlers = {
+  onNav: (result: ValidationResult, source: DeliveryMode, receivedAt: number) => {
+    // Supersede any main-thread validation (e.g. from before a mode switch)
+    marketStore.supersedeValidation();
+    applyValidationResult(result, source, receivedAt);
+  },
+  
+  onInvalid: () => {
+    marketStore.supersedeValidation();
+    sanitizeAll();
   },
-  handlers
+  
+  onModeChange: handlers.onModeChange,
+  onError: handlers.onError,
+  onGap: handlers.onGap,
+  onRecoveryProbe: handlers.onRecoveryProbe
+};
+
+const controller = USE_DELIVERY_WORKER
+  ? createDeliveryWorkerHost(deliveryConfig, workerHandlers, keyRingOptions, validationOptions)
+  : createDeliveryController(
+      REPLAY_URL === null
+        ? deliveryConfig
+        : {
+            ...deliveryConfig,
+            // Session is loaded before the controller starts (see loadReplay)
+            sseTransportFactory: () => replaySession!.createTransport(),
+            streamPreference: [DeliveryMode.SSE_PRIMARY],
+            // Recorded gaps (or stepping) must not count as a stalled stream
+            sseLivenessTimeout: 0
+          },
+      recorder !== null ? recorder.wrap(handlers) : handlers
+    );
+
+/**
+ * Admitted stream packets only (see applyValidationResult): REST snapshots
+ * may be older than their delivery, and a replayed recording would pull
+ * the estimate back in time
+ */
+function samplePacketClock(issuedAt: string, receivedAt: number, source: DeliveryMode): void {
+  if (source !== DeliveryMode.REST_DEGRADED && REPLAY_URL === null) {
+    clock.addTimestampSample(issuedAt, receivedAt);
+  }
+}
+
+clock.subscribe((status: ClockOffsetStatus) => {
+  // A replay validates against the recording's clock (see updateState)
+  if (REPLAY_URL === null) {
+    validationOptions.clockOffsetMs = status.offsetMs;
+  }
+  if (controller instanceof DeliveryWorkerHost) {
+    controller.setClockOffset(status.offsetMs);
+  }
+  renderClockSkew(status);
+});
+
+/**
+ * Fetch and parse the recording named by ?replay=
+ */
+async function loadReplay(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(url, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    
+    const parsed = parseRecording(await response.text());
+    if (parsed.ok === false) {
+      throw new Error(`line ${parsed.error.line}: ${parsed.error.message}`);
+    }
+    
+    replaySession = createReplaySession(parsed.recording, { speed: REPLAY_SPEED }, {
+      onEntry: (entry) => {
+        if (entry.type !== 'packet') {
+          console.log(`[REPLAY] Recorded ${entry.type} at +${entry.t}ms:`, entry.type === 'mode' ? entry.mode : entry.message);
+        }
+      },
+      onComplete: () => showToast('Replay finished', ToastType.INFO, 3000)
+    });
+    
+    window.mnsReplay = {
+      step: () => replaySession!.step(),
+      setSpeed: (speed: ReplaySpeed) => replaySession!.setSpeed(speed),
+      progress: () => replaySession!.getProgress()
+    };
+    
+    console.log(`[REPLAY] Loaded ${parsed.recording.entries.length} entries from ${url} (speed: ${REPLAY_SPEED})`);
+    return true;
+  
+  } catch (err) {
+    console.error('[REPLAY] ❌ Cannot load recording:', (err as Error).message);
+    showToast('Cannot load replay recording', ToastType.ERROR, 5000);
+    return false;
+  }
+}
+
+if (recorder !== null) {
+  window.mnsRecording = {
+    download: () => {
+      const blob = new Blob([recorder.toJSONLines()], { type: 'application/x-ndjson' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `mns-delivery-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    },
+    clear: () => recorder.clear()
+  };
+}
+
+/* ============================================
+   PHASE 22.4: MULTI-TAB SHARING
+   ============================================ */
+
+/**
+ * Leader → follower messages. The leader owns the DeliveryController and
+ * the Phase 23 pollers; followers only render what it already validated.
+ */
+type TabPayload =
+  | { kind: "nav"; tier: number; packet: MarketPacket | NavFields }
+  | { kind: "unverified"; reason: ValidationReason }
+  | { kind: "mode"; mode: DeliveryMode }
+  | { kind: "phase23"; price: BTCPriceData | null; regimes: RegimesData | null; forecast: ForecastData | null; fetchedAt: number };
+
+function shareWithFollowers(payload: TabPayload): void {
+  coordinator.broadcast(payload);
+}
+
+function sharePhase23Data(): void {
+  const state = marketStore.getState();
+  
+  shareWithFollowers({
+    kind: "phase23",
+    price: state.price.current,
+    regimes: state.regimes,
+    forecast: state.forecast,
+    fetchedAt: state.delivery.lastFetchTime
+  });
+}
+
+function applyLeaderPayload(payload: TabPayload): void {
+  switch (payload.kind) {
+    case "nav":
+      // Invalidate any local validation still in flight
+      marketStore.supersedeValidation();
+      marketStore.setNav(payload.tier, payload.packet);
+      break;
+    
+    case "unverified":
+      marketStore.supersedeValidation();
+      marketStore.setUnverified(payload.reason);
+      break;
+    
+    case "mode":
+      marketStore.setDeliveryMode(payload.mode);
+      break;
+    
+    case "phase23":
+      marketStore.setPhase23(payload.price, payload.regimes, payload.forecast, payload.fetchedAt);
+      break;
+    
+    default:
+      break;
+  }
+}
+
+const coordinator = createTabCoordinator<TabPayload>(
+  // Recording/replay tabs stay out of the live tab group (own leader)
+  recorder !== null || REPLAY_URL !== null
+    ? { channelName: `mns-terminal-debug-${Date.now()}` }
+    : {},
+  {
+    onRoleChange: (role: TabRole) => {
+      console.log('[TABS] Role:', role);
+      
+      if (role === TabRole.LEADER) {
+        startPhase23Updates();
+        if (!controller.isActive()) {
+          controller.start();
+        }
+        return;
+      }
+      
+      // A resigning leader keeps delivering until another tab takes over
+      // (it may reclaim the role itself if no other tab answers)
+      if (role === TabRole.FOLLOWER) {
+        if (controller.isActive()) {
+          controller.stop();
+        }
+        stopPhase23Updates();
+      }
+    },
+    
+    onData: applyLeaderPayload,
+    
+    onPeerJoined: () => {
+      // Bring the new tab up to date without waiting for the next packet
+      const { nav } = marketStore.getState();
+      if (nav.unverifiedReason !== null) {
+        shareWithFollowers({ kind: "unverified", reason: nav.unverifiedReason });
+      } else if (nav.packet !== null) {
+        shareWithFollowers({ kind: "nav", tier: nav.tier, packet: nav.packet });
+      }
+      shareWithFollowers({ kind: "mode", mode: controller.getMode() });
+      sharePhase23Data();
+    }
+  }
 );
 
 /* ============================================
@@ -1178,12 +1271,14 @@ function initialize3DScene(): void {
       );
     }
     scene3DRoot.render(
-      React.createElement(Scene3DWrapper)
+      <MarketStoreContext.Provider value={marketStore}>
+        <Scene3DWrapper />
+      </MarketStoreContext.Provider>
     );
     
     console.log('[Phase28] ✅ 3D visualization initialized successfully!');
     console.log('[Phase28] 🎯 Check above this section for 3D canvas');
-    
+  
   } catch (err) {
     console.error('[Phase28] ❌ CRITICAL ERROR in initialize 3D scene:', err);
     console.error('[Phase28] Stack:', (err as Error).stack);
@@ -1191,17 +1286,6 @@ function initialize3DScene(): void {
   }
 }
 
-/**
- * Update 3D scene with new forecast data
- * Called when cachedForecast updates
- */
-function update3DScene(_forecastData: ForecastData | null): void {
-  // MarketNavigationScene now manages its own data fetching via useMarketData hook.
-  // This function is retained for compatibility but is effectively a no-op.
-  if (!scene3DRoot) return;
-  console.log('[Phase28] Scene manages its own data — external update skipped');
-}
-
 /* ============================================
    PHASE 25: BOOTSTRAP WITH LOADING STATE
    ============================================ */
@@ -1229,11 +1313,29 @@ function init(): void {
       initialize3DScene();
     }, 600);
     
-    // Phase 25: Start enhanced data updates
-    startPhase23Updates();
+    // Phase 22.4: Key set for signed tiers (the worker loads its own)
+    if (!USE_DELIVERY_WORKER) {
+      keyRing.start();
+    }
     
-    // Start delivery controller
-    controller.start();
+    // Phase 22.4: Elect a leader tab; the leader starts the Phase 23
+    // updates and the delivery controller, followers mirror it
+    if (REPLAY_URL === null) {
+      coordinator.start();
+    } else {
+      loadReplay(REPLAY_URL).then((loaded) => {
+        if (loaded) {
+          coordinator.start();
+        }
+      });
+    }
+    
+    // A hidden leader hands delivery to a visible tab if there is one
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        coordinator.resign();
+      }
+    });
     
     // Hide loading and set status to READY after initial data loads
     setTimeout(() => {
@@ -1246,8 +1348,10 @@ function init(): void {
     window.addEventListener('beforeunload', () => {
       stopPhase23Updates();
       controller.stop();
+      coordinator.stop();
+      keyRing.stop();
     });
-    
+  
   } catch (err) {
     console.error('[Phase25] Initialization error:', err);
     hideLoading();
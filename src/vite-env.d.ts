@@ -6,6 +6,10 @@ import * as THREE from 'three'
 
 interface ImportMetaEnv {
   readonly VITE_ENABLE_3D: string
+  readonly VITE_DELIVERY_WORKER?: string
+  readonly VITE_BACKEND_URL?: string
+  readonly VITE_KEYSET_ROOT_KEYS?: string
+  readonly VITE_ALLOW_LEGACY_SIGNATURES?: string
   readonly DEV: boolean
   readonly PROD: boolean
   readonly MODE: string